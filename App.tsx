@@ -1,18 +1,47 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { NavigationContainer, NavigationState } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { StatusBar } from 'expo-status-bar';
 import LoginScreen from './src/screens/LoginScreen';
 import RegisterScreen from './src/screens/RegisterScreen';
 import ForgotPasswordScreen from './src/screens/ForgotPasswordScreen';
+import DeveloperSettingsScreen from './src/screens/DeveloperSettingsScreen';
+import NetworkInspectorScreen from './src/screens/NetworkInspectorScreen';
+import TwoFactorSetupScreen from './src/screens/TwoFactorSetupScreen';
+import LockScreen from './src/screens/LockScreen';
 import TabNavigator from './src/navigation/TabNavigator';
 import { AuthProvider, useAuth } from './src/services/AuthContext';
+import { needsTwoFactorSetup } from './src/services/twoFactor';
+import appLockService from './src/services/appLock';
+import { useAppLock } from './src/hooks/useAppLock';
 import ErrorBoundary from './src/components/common/ErrorBoundary';
+import { OfflineBanner } from './src/components/common/OfflineBanner';
+import { UploadTray } from './src/components/common/UploadTray';
+import { StepUpPrompt } from './src/components/common/StepUpPrompt';
 
 const Stack = createNativeStackNavigator();
 
 function AppNavigator() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, sessionExpired } = useAuth();
+  const { locked } = useAppLock();
+
+  // Where the user was when their session expired, restored once they sign back in
+  const lastState = useRef<{ userId: string; state: NavigationState } | null>(null);
+  const resumeState = useRef<{ userId: string; state: NavigationState } | null>(null);
+
+  useEffect(() => {
+    if (sessionExpired) {
+      resumeState.current = lastState.current;
+    }
+  }, [sessionExpired]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      // Only used when the container mounts - don't restore it again later
+      resumeState.current = null;
+    }
+  }, [isAuthenticated]);
 
   if (isLoading) {
     // You can add a loading screen here
@@ -21,8 +50,18 @@ function AppNavigator() {
 
   return (
     <NavigationContainer
-      key={isAuthenticated ? 'authenticated' : 'unauthenticated'}
+      // A fresh navigator per account, so no screen shows the previous account's data
+      key={isAuthenticated ? `account:${user?.id}` : 'unauthenticated'}
+      initialState={
+        isAuthenticated && resumeState.current?.userId === user?.id ? resumeState.current?.state : undefined
+      }
+      onStateChange={(state) => {
+        if (isAuthenticated && user && state) {
+          lastState.current = { userId: user.id, state };
+        }
+      }}
     >
+      {isAuthenticated && <OfflineBanner />}
       <Stack.Navigator 
         screenOptions={{ headerShown: false }}
         initialRouteName={isAuthenticated ? 'Main' : 'Login'}
@@ -41,7 +80,22 @@ function AppNavigator() {
               name="ForgotPassword"
               component={ForgotPasswordScreen}
             />
+            <Stack.Screen
+              name="DeveloperSettings"
+              component={DeveloperSettingsScreen}
+            />
+            <Stack.Screen
+              name="NetworkInspector"
+              component={NetworkInspectorScreen}
+            />
           </>
+        ) : user && needsTwoFactorSetup(user) ? (
+          // Accounts required to use 2FA enroll before anything else
+          <Stack.Screen
+            name="TwoFactorSetup"
+            component={TwoFactorSetupScreen}
+            initialParams={{ forced: true }}
+          />
         ) : (
           <Stack.Screen
             name="Main"
@@ -49,6 +103,10 @@ function AppNavigator() {
           />
         )}
       </Stack.Navigator>
+      {isAuthenticated && <UploadTray />}
+      {isAuthenticated && <StepUpPrompt />}
+      {/* Over the navigator rather than instead of it, so unlocking returns to the same screen */}
+      {isAuthenticated && locked && <LockScreen />}
       <StatusBar style="auto" />
     </NavigationContainer>
   );
@@ -58,8 +116,23 @@ export default function App() {
   return (
     <ErrorBoundary>
       <AuthProvider>
-        <AppNavigator />
+        {/* Any touch counts as activity for auto-lock; returning false leaves it to the app */}
+        <View
+          style={styles.root}
+          onStartShouldSetResponderCapture={() => {
+            appLockService.recordActivity();
+            return false;
+          }}
+        >
+          <AppNavigator />
+        </View>
       </AuthProvider>
     </ErrorBoundary>
   );
 }
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import attachmentService from '../../services/attachments';
+import { MessageAttachment } from '../../types';
+
+interface AttachmentBubbleProps {
+  attachment: MessageAttachment;
+  /** Sent by the signed-in user - drawn on the blue bubble */
+  mine?: boolean;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+const PREVIEW_WIDTH = 220;
+
+/**
+ * Encrypted attachment inside a chat bubble. Images are decrypted for an
+ * inline preview; voice notes and files when tapped, then handed to the
+ * system to play or save.
+ */
+export function AttachmentBubble({ attachment, mine = false }: AttachmentBubbleProps) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [opening, setOpening] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const isImage = attachment.kind === 'image';
+
+  useEffect(() => {
+    if (!isImage) return;
+
+    let cancelled = false;
+    attachmentService
+      .open(attachment)
+      .then((decrypted) => !cancelled && setUri(decrypted))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, isImage]);
+
+  const handleOpen = async () => {
+    setOpening(true);
+    try {
+      const decrypted = uri ?? (await attachmentService.open(attachment));
+      await Share.share({ url: decrypted, title: attachment.name });
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : `Couldn't open ${attachment.name}.`);
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  if (isImage) {
+    const height =
+      attachment.width && attachment.height
+        ? Math.min(300, Math.round((PREVIEW_WIDTH * attachment.height) / attachment.width))
+        : PREVIEW_WIDTH;
+
+    return (
+      <TouchableOpacity
+        onPress={handleOpen}
+        disabled={!uri}
+        accessibilityLabel={`Image ${attachment.name}`}
+        accessibilityRole="imagebutton"
+        style={[styles.image, { height }]}
+      >
+        {uri ? (
+          <Image source={{ uri }} style={styles.imageContent} resizeMode="cover" />
+        ) : failed ? (
+          <Ionicons name="image-outline" size={32} color="#9ca3af" />
+        ) : (
+          <ActivityIndicator color="#9ca3af" />
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  const isVoiceNote = attachment.kind === 'audio';
+  const color = mine ? '#fff' : '#1f2937';
+  const detail = isVoiceNote && attachment.duration_ms ? formatDuration(attachment.duration_ms) : formatBytes(attachment.size);
+
+  return (
+    <TouchableOpacity
+      style={[styles.file, mine ? styles.fileMine : styles.fileTheirs]}
+      onPress={handleOpen}
+      disabled={opening}
+      accessibilityLabel={`${isVoiceNote ? 'Play voice note' : 'Open'} ${attachment.name}`}
+      accessibilityRole="button"
+    >
+      {opening ? (
+        <ActivityIndicator color={color} />
+      ) : (
+        <Ionicons name={isVoiceNote ? 'play-circle' : 'document-attach-outline'} size={28} color={color} />
+      )}
+      <View style={styles.fileInfo}>
+        <Text style={[styles.fileName, { color }]} numberOfLines={1}>
+          {isVoiceNote ? 'Voice note' : attachment.name}
+        </Text>
+        <Text style={[styles.fileDetail, mine && styles.fileDetailMine]}>{detail}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: PREVIEW_WIDTH,
+    marginBottom: 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#e5e7eb',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  imageContent: {
+    width: '100%',
+    height: '100%',
+  },
+  file: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 180,
+    padding: 8,
+    marginBottom: 4,
+    borderRadius: 12,
+  },
+  fileMine: {
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  fileTheirs: {
+    backgroundColor: '#f3f4f6',
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  fileDetail: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  fileDetailMine: {
+    color: '#dbeafe',
+  },
+});
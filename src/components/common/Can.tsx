@@ -0,0 +1,78 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { usePermission, PermissionState } from '../../hooks/usePermission';
+import { Permission, isUpgradeable } from '../../services/permissions';
+
+interface CanProps {
+  permission: Permission;
+  /** Band the permission applies to */
+  bandId?: string;
+  /**
+   * auto: hide actions the user's role rules out, disable ones an upgrade
+   * would allow. hide / disable force one or the other.
+   */
+  mode?: 'auto' | 'hide' | 'disable';
+  /** Show the reason under a disabled action */
+  showReason?: boolean;
+  /** Rendered instead when the action is hidden */
+  fallback?: React.ReactNode;
+  /**
+   * What to gate. A function gets the decision and disables the action
+   * itself - for controls whose layout a wrapper would break.
+   */
+  children: React.ReactNode | ((permission: PermissionState) => React.ReactNode);
+}
+
+/**
+ * Show an action only to users allowed to take it
+ *
+ * @example
+ * <Can permission="band.delete" bandId={band.id}>
+ *   <Button title="Delete Band" onPress={handleDeleteBand} variant="danger" />
+ * </Can>
+ *
+ * <Can permission="band.create">
+ *   {({ allowed }) => <QuickAction disabled={!allowed} ... />}
+ * </Can>
+ */
+export function Can({ permission, bandId, mode = 'auto', showReason = false, fallback = null, children }: CanProps) {
+  const state = usePermission(permission, bandId);
+
+  // Nothing until we know - better than an action that disappears
+  if (state.loading) {
+    return null;
+  }
+
+  const disable = !state.allowed && (mode === 'disable' || (mode === 'auto' && isUpgradeable(state)));
+  if (!state.allowed && !disable) {
+    return <>{fallback}</>;
+  }
+
+  if (typeof children === 'function') {
+    return <>{children(state)}</>;
+  }
+  if (state.allowed) {
+    return <>{children}</>;
+  }
+
+  return (
+    <View accessibilityState={{ disabled: true }} accessibilityHint={state.message}>
+      <View pointerEvents="none" style={styles.disabled}>
+        {children}
+      </View>
+      {showReason && state.message && <Text style={styles.reason}>{state.message}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  disabled: {
+    opacity: 0.5,
+  },
+  reason: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,72 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { OAuthProvider } from '../../types';
+import { OAUTH_PROVIDERS } from '../../services/oauth';
+
+export const OAUTH_PROVIDER_DETAILS: Record<
+  OAuthProvider,
+  { name: string; icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  google: { name: 'Google', icon: 'logo-google', color: '#DB4437' },
+  facebook: { name: 'Facebook', icon: 'logo-facebook', color: '#1877F2' },
+  patreon: { name: 'Patreon', icon: 'heart', color: '#FF424D' },
+};
+
+interface OAuthButtonsProps {
+  onSelect: (provider: OAuthProvider) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "Continue with ..." buttons for each OAuth provider
+ */
+export function OAuthButtons({ onSelect, disabled = false }: OAuthButtonsProps) {
+  return (
+    <View style={styles.container}>
+      {OAUTH_PROVIDERS.map((provider) => {
+        const { name, icon, color } = OAUTH_PROVIDER_DETAILS[provider];
+        return (
+          <TouchableOpacity
+            key={provider}
+            style={[styles.button, disabled && styles.disabled]}
+            onPress={() => onSelect(provider)}
+            disabled={disabled}
+            activeOpacity={0.85}
+            accessibilityRole="button"
+            accessibilityLabel={`Continue with ${name}`}
+          >
+            <Ionicons name={icon} size={18} color={color} />
+            <Text style={styles.label}>Continue with {name}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    backgroundColor: '#fff',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  label: {
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOfflineQueue } from '../../hooks/useOfflineQueue';
+
+/**
+ * Thin status bar shown while offline or while queued changes are waiting to sync
+ */
+export function OfflineBanner() {
+  const { isOnline, pendingCount, sync } = useOfflineQueue();
+
+  if (isOnline && pendingCount === 0) {
+    return null;
+  }
+
+  const message = !isOnline
+    ? pendingCount > 0
+      ? `Offline · ${pendingCount} change${pendingCount !== 1 ? 's' : ''} waiting to sync`
+      : 'Offline · showing saved data'
+    : `Syncing ${pendingCount} change${pendingCount !== 1 ? 's' : ''}...`;
+
+  return (
+    <View style={[styles.container, isOnline && styles.syncing]} accessibilityRole="alert">
+      <Ionicons
+        name={isOnline ? 'sync-outline' : 'cloud-offline-outline'}
+        size={16}
+        color="#fff"
+      />
+      <Text style={styles.text}>{message}</Text>
+      {!isOnline && pendingCount > 0 && (
+        <TouchableOpacity
+          onPress={sync}
+          accessibilityLabel="Retry sync"
+          accessibilityRole="button"
+        >
+          <Text style={styles.action}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#475569',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  syncing: {
+    backgroundColor: '#6366f1',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+  action: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '700',
+    marginLeft: 12,
+    textDecorationLine: 'underline',
+  },
+});
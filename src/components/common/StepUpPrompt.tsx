@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from './Button';
+import { Input } from './Input';
+import appLockService from '../../services/appLock';
+
+interface PendingPrompt {
+  reason: string;
+  verify: (pin: string) => Promise<boolean>;
+  resolve: (confirmed: boolean) => void;
+}
+
+/**
+ * Asks for the unlock PIN when a sensitive action needs confirming and
+ * biometrics can't be used. Mount once; appLockService opens it.
+ */
+export function StepUpPrompt() {
+  const [pending, setPending] = useState<PendingPrompt | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const pendingRef = useRef<PendingPrompt | null>(null);
+
+  useEffect(() => {
+    appLockService.setPinPrompt(
+      (reason, verify) =>
+        new Promise((resolve) => {
+          // Only one confirmation at a time - a newer one replaces the old
+          pendingRef.current?.resolve(false);
+          pendingRef.current = { reason, verify, resolve };
+          setPending(pendingRef.current);
+          setPin('');
+          setError(null);
+        })
+    );
+
+    return () => {
+      appLockService.setPinPrompt(null);
+      pendingRef.current?.resolve(false);
+      pendingRef.current = null;
+    };
+  }, []);
+
+  const finish = (confirmed: boolean) => {
+    pendingRef.current?.resolve(confirmed);
+    pendingRef.current = null;
+    setPending(null);
+  };
+
+  const handleConfirm = async () => {
+    if (!pending || !pin) return;
+
+    setChecking(true);
+    try {
+      if (await pending.verify(pin)) {
+        finish(true);
+        return;
+      }
+
+      const remaining = appLockService.getRemainingPinAttempts();
+      if (remaining === 0) {
+        finish(false);
+        return;
+      }
+      setPin('');
+      setError(`Incorrect PIN. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!pending} transparent animationType="fade" onRequestClose={() => finish(false)}>
+      <View style={styles.backdrop}>
+        <View style={styles.card} accessibilityViewIsModal>
+          <View style={styles.header}>
+            <Ionicons name="shield-checkmark-outline" size={24} color="#6366f1" />
+            <Text style={styles.title}>{pending?.reason}</Text>
+          </View>
+          <Text style={styles.text}>Enter your unlock PIN to continue.</Text>
+          <Input
+            placeholder="PIN"
+            value={pin}
+            onChangeText={(value) => {
+              setPin(value);
+              setError(null);
+            }}
+            keyboardType="number-pad"
+            maxLength={6}
+            secureTextEntry
+            icon="keypad-outline"
+            error={error ?? undefined}
+            onSubmitEditing={handleConfirm}
+            autoFocus
+            accessibilityLabel="Unlock PIN"
+          />
+          <Button
+            title="Confirm"
+            onPress={handleConfirm}
+            loading={checking}
+            disabled={checking || !pin}
+            fullWidth
+          />
+          <TouchableOpacity style={styles.cancelButton} onPress={() => finish(false)} accessibilityRole="button">
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  card: {
+    width: '100%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    padding: 20,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  title: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 12,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    marginTop: 8,
+    padding: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+});
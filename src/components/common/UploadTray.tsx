@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUploads } from '../../hooks/useUploads';
+import { UploadTask } from '../../types/uploads';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function getProgress(task: UploadTask): number {
+  if (task.status === 'completed') return 1;
+  return task.totalBytes > 0 ? Math.min(1, task.sentBytes / task.totalBytes) : 0;
+}
+
+const STATUS_TEXT: Record<UploadTask['status'], string> = {
+  queued: 'Waiting...',
+  uploading: '',
+  paused: 'Paused',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Floating tray listing uploads in progress, with pause/resume/cancel per file
+ */
+export function UploadTray() {
+  const { tasks, activeCount, pause, resume, cancel, dismiss } = useUploads();
+  const [expanded, setExpanded] = useState(false);
+
+  const visible = tasks.filter((task) => task.status !== 'cancelled');
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const totalBytes = visible.reduce((sum, task) => sum + task.totalBytes, 0);
+  const sentBytes = visible.reduce((sum, task) => sum + (task.status === 'completed' ? task.totalBytes : task.sentBytes), 0);
+  const overall = totalBytes > 0 ? Math.round((sentBytes / totalBytes) * 100) : 0;
+  const hasFailures = visible.some((task) => task.status === 'failed');
+
+  const summary =
+    activeCount > 0
+      ? `Uploading ${activeCount} file${activeCount !== 1 ? 's' : ''} · ${overall}%`
+      : hasFailures
+        ? 'Some uploads failed'
+        : 'Uploads complete';
+
+  const renderTask = (task: UploadTask) => {
+    const progress = getProgress(task);
+    const isActive = task.status === 'uploading' || task.status === 'queued';
+
+    return (
+      <View key={task.id} style={styles.task}>
+        <View style={styles.taskHeader}>
+          <Text style={styles.taskLabel} numberOfLines={1}>
+            {task.label}
+          </Text>
+          <Text style={[styles.taskStatus, task.status === 'failed' && styles.failedText]}>
+            {task.status === 'uploading'
+              ? `${formatBytes(task.sentBytes)} / ${formatBytes(task.totalBytes)}`
+              : STATUS_TEXT[task.status]}
+          </Text>
+        </View>
+
+        <View style={styles.progressTrack}>
+          <View
+            style={[
+              styles.progressFill,
+              { width: `${Math.round(progress * 100)}%` },
+              task.status === 'failed' && styles.failedFill,
+              task.status === 'paused' && styles.pausedFill,
+            ]}
+          />
+        </View>
+
+        {task.error && <Text style={styles.errorText} numberOfLines={2}>{task.error}</Text>}
+
+        <View style={styles.actions}>
+          {isActive && (
+            <TouchableOpacity onPress={() => pause(task.id)} accessibilityLabel={`Pause ${task.label}`} accessibilityRole="button">
+              <Ionicons name="pause" size={18} color="#475569" />
+            </TouchableOpacity>
+          )}
+          {(task.status === 'paused' || task.status === 'failed') && (
+            <TouchableOpacity
+              onPress={() => resume(task.id)}
+              accessibilityLabel={task.status === 'failed' ? `Retry ${task.label}` : `Resume ${task.label}`}
+              accessibilityRole="button"
+            >
+              <Ionicons name={task.status === 'failed' ? 'refresh' : 'play'} size={18} color="#6366f1" />
+            </TouchableOpacity>
+          )}
+          {task.status !== 'completed' && (
+            <TouchableOpacity onPress={() => cancel(task.id)} accessibilityLabel={`Cancel ${task.label}`} accessibilityRole="button">
+              <Ionicons name="close" size={18} color="#ef4444" />
+            </TouchableOpacity>
+          )}
+          {task.status === 'completed' && (
+            <TouchableOpacity onPress={() => dismiss(task.id)} accessibilityLabel={`Dismiss ${task.label}`} accessibilityRole="button">
+              <Ionicons name="checkmark-done" size={18} color="#10b981" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.tray}>
+        <TouchableOpacity
+          style={styles.summary}
+          onPress={() => setExpanded(!expanded)}
+          accessibilityRole="button"
+          accessibilityLabel={`${summary}. ${expanded ? 'Collapse' : 'Expand'} upload list`}
+        >
+          <Ionicons
+            name={hasFailures && activeCount === 0 ? 'alert-circle' : 'cloud-upload'}
+            size={18}
+            color={hasFailures && activeCount === 0 ? '#ef4444' : '#6366f1'}
+          />
+          <Text style={styles.summaryText}>{summary}</Text>
+          <Ionicons name={expanded ? 'chevron-down' : 'chevron-up'} size={16} color="#64748b" />
+        </TouchableOpacity>
+
+        {expanded && <View style={styles.list}>{visible.map(renderTask)}</View>}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 12,
+    right: 12,
+    bottom: 96,
+  },
+  tray: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  summaryText: {
+    flex: 1,
+    color: '#0f172a',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  list: {
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingHorizontal: 12,
+    paddingBottom: 8,
+  },
+  task: {
+    paddingTop: 10,
+  },
+  taskHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  taskLabel: {
+    flex: 1,
+    color: '#0f172a',
+    fontSize: 13,
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  taskStatus: {
+    color: '#64748b',
+    fontSize: 12,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e2e8f0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: '#6366f1',
+  },
+  pausedFill: {
+    backgroundColor: '#94a3b8',
+  },
+  failedFill: {
+    backgroundColor: '#ef4444',
+  },
+  failedText: {
+    color: '#ef4444',
+  },
+  errorText: {
+    color: '#ef4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 6,
+  },
+});
@@ -1,11 +1,17 @@
 // Export all common components
+export { AttachmentBubble } from './AttachmentBubble';
 export { Button } from './Button';
+export { Can } from './Can';
 export { Card } from './Card';
 export { EmptyState } from './EmptyState';
 export { ErrorMessage } from './ErrorMessage';
 export { Input } from './Input';
 export { LoadingSpinner } from './LoadingSpinner';
+export { OAuthButtons, OAUTH_PROVIDER_DETAILS } from './OAuthButtons';
+export { OfflineBanner } from './OfflineBanner';
 export { StatusBadge } from './StatusBadge';
+export { StepUpPrompt } from './StepUpPrompt';
+export { UploadTray } from './UploadTray';
 
 // New Enhanced Components
 export { GlassCard } from './GlassCard';
@@ -0,0 +1,123 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from 'react';
+import { isCancelledError } from '../services/api';
+
+interface UseApiQueryOptions<T> {
+  /** Skip loading until this is true (e.g. while a route param is missing) */
+  enabled?: boolean;
+  /** Message shown when the error isn't an Error instance */
+  errorMessage?: string;
+  onSuccess?: (data: T) => void;
+}
+
+interface ApiQueryState<T> {
+  data: T | null;
+  error: string | null;
+  /** True for the first load, before any data has arrived */
+  loading: boolean;
+  /** True while a pull-to-refresh load is running */
+  refreshing: boolean;
+  /** Pull-to-refresh: reload and keep showing the current data meanwhile */
+  refresh: () => void;
+  /** Reload from scratch (e.g. ErrorMessage retry) */
+  reload: () => void;
+}
+
+/**
+ * A number that goes up whenever one of `deps` changes (compared with
+ * Object.is, like effect deps), so callers can pass a list of any length
+ */
+function useDepsVersion(deps: DependencyList): number {
+  const ref = useRef({ deps, version: 0 });
+  const previous = ref.current.deps;
+  if (deps.length !== previous.length || deps.some((dep, index) => !Object.is(dep, previous[index]))) {
+    ref.current = { deps, version: ref.current.version + 1 };
+  }
+  return ref.current.version;
+}
+
+/**
+ * Load screen data with a request lifetime tied to the component.
+ *
+ * The fetcher gets an AbortSignal to pass through to the services. A new
+ * load (deps change, refresh) cancels the previous one, and unmounting
+ * cancels whatever is still running, so stale responses never land in state.
+ *
+ * @example
+ * const { data, loading, refreshing, error, refresh } = useApiQuery(
+ *   (signal) => tourService.getMyTours({ signal }),
+ *   []
+ * );
+ */
+export function useApiQuery<T>(
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  deps: DependencyList,
+  options: UseApiQueryOptions<T> = {}
+): ApiQueryState<T> {
+  const { enabled = true } = options;
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(enabled);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Keep latest fetcher/callbacks without restarting the load on every render
+  const latest = useRef({ fetcher, options });
+  latest.current = { fetcher, options };
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const depsVersion = useDepsVersion(deps);
+
+  const run = useCallback(async (mode: 'load' | 'refresh') => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    if (mode === 'refresh') {
+      setRefreshing(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+
+    try {
+      const result = await latest.current.fetcher(controller.signal);
+      if (controller.signal.aborted) return;
+
+      setData(result);
+      latest.current.options.onSuccess?.(result);
+    } catch (err) {
+      if (controller.signal.aborted || isCancelledError(err)) return;
+
+      const message =
+        err instanceof Error ? err.message : latest.current.options.errorMessage || 'Failed to load data';
+      setError(message);
+    } finally {
+      // A newer load owns the flags now
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    run('load');
+
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    };
+  }, [enabled, run, depsVersion]);
+
+  const refresh = useCallback(() => {
+    run('refresh');
+  }, [run]);
+
+  const reload = useCallback(() => {
+    run('load');
+  }, [run]);
+
+  return { data, error, loading, refreshing, refresh, reload };
+}
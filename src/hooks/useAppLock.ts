@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import appLockService from '../services/appLock';
+
+/**
+ * Whether the app is locked, updated as it locks and unlocks
+ *
+ * @example
+ * const { locked } = useAppLock();
+ */
+export function useAppLock() {
+  const [locked, setLocked] = useState(() => appLockService.isLocked());
+
+  useEffect(() => {
+    setLocked(appLockService.isLocked());
+    return appLockService.subscribe(setLocked);
+  }, []);
+
+  return { locked };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import offlineService, { OfflineEvent, QueuedRequest } from '../services/offline';
+
+interface UseOfflineQueueOptions {
+  /** Only report events for requests queued with this offlineTag */
+  tag?: string;
+  onReplayed?: (request: QueuedRequest, response: unknown) => void;
+  onConflict?: (request: QueuedRequest, serverData: unknown) => void;
+  onFailed?: (request: QueuedRequest, message: string) => void;
+}
+
+/**
+ * Connectivity and pending-change state for the offline queue.
+ * Screens pass a tag to hear back about conflicts on the changes they queued.
+ *
+ * @example
+ * const { isOnline, pendingCount } = useOfflineQueue({
+ *   tag: 'tour-kpis',
+ *   onConflict: () => Alert.alert('KPIs changed on the server', 'Please review and re-enter.'),
+ * });
+ */
+export function useOfflineQueue(options: UseOfflineQueueOptions = {}) {
+  const { tag } = options;
+  const [isOnline, setIsOnline] = useState(offlineService.isOnline());
+  const [pendingCount, setPendingCount] = useState(0);
+
+  // Keep latest callbacks without resubscribing on every render
+  const callbacks = useRef(options);
+  callbacks.current = options;
+
+  const refreshPending = useCallback(async () => {
+    const pending = await offlineService.getPendingRequests(tag);
+    setPendingCount(pending.length);
+  }, [tag]);
+
+  useEffect(() => {
+    refreshPending();
+
+    return offlineService.subscribe((event: OfflineEvent) => {
+      switch (event.type) {
+        case 'status':
+          setIsOnline(event.isOnline);
+          return;
+        case 'queueChanged':
+          refreshPending();
+          return;
+      }
+
+      if (tag && event.request.tag !== tag) return;
+
+      if (event.type === 'replayed') {
+        callbacks.current.onReplayed?.(event.request, event.response);
+      } else if (event.type === 'conflict') {
+        callbacks.current.onConflict?.(event.request, event.serverData);
+      } else if (event.type === 'failed') {
+        callbacks.current.onFailed?.(event.request, event.message);
+      }
+    });
+  }, [tag, refreshPending]);
+
+  const sync = useCallback(() => offlineService.sync(), []);
+
+  return { isOnline, pendingCount, sync };
+}
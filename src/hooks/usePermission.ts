@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../services/AuthContext';
+import permissionService, { Permission, PermissionDecision } from '../services/permissions';
+
+export interface PermissionState extends PermissionDecision {
+  /** Still loading what the decision depends on - treat as not allowed */
+  loading: boolean;
+}
+
+/**
+ * Whether the signed-in user may do something, re-checked when their access
+ * changes. Band permissions take the band's ID.
+ *
+ * @example
+ * const { allowed } = usePermission('band.members.manage', bandId);
+ */
+export function usePermission(permission: Permission, bandId?: string): PermissionState {
+  const { user } = useAuth();
+  const key = `${permission}:${user?.id ?? ''}:${bandId ?? ''}`;
+  const [decision, setDecision] = useState<{ key: string; result: PermissionDecision } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = () => {
+      permissionService.check(permission, user, bandId).then((result) => {
+        if (!cancelled) setDecision({ key, result });
+      });
+    };
+
+    // The last decision stays up while re-checking the same thing, so actions don't flicker
+    check();
+    const unsubscribe = permissionService.subscribe(check);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [permission, user, bandId, key]);
+
+  // A decision about another permission, user or band doesn't apply
+  return decision?.key === key ? { ...decision.result, loading: false } : { allowed: false, loading: true };
+}
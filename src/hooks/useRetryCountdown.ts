@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import apiService from '../services/api';
+
+interface RetryCountdown {
+  isRetrying: boolean;
+  /** Whole seconds until the next retry fires */
+  secondsRemaining: number;
+  attempt: number;
+}
+
+const IDLE: RetryCountdown = { isRetrying: false, secondsRemaining: 0, attempt: 0 };
+
+/**
+ * Tracks automatic API retries so screens can show "Retrying in 3s..."
+ *
+ * @param endpointPrefix - Only track retries for endpoints starting with this path
+ */
+export function useRetryCountdown(endpointPrefix?: string): RetryCountdown {
+  const [state, setState] = useState<RetryCountdown>(IDLE);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const unsubscribe = apiService.onRetry((info) => {
+      if (endpointPrefix && !info.endpoint.startsWith(endpointPrefix)) return;
+
+      const retryAt = Date.now() + info.delayMs;
+      const tick = () => {
+        const remaining = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+        if (remaining === 0) {
+          if (timer) clearInterval(timer);
+          timer = null;
+          setState(IDLE);
+        } else {
+          setState({ isRetrying: true, secondsRemaining: remaining, attempt: info.attempt });
+        }
+      };
+
+      if (timer) clearInterval(timer);
+      timer = setInterval(tick, 1000);
+      tick();
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearInterval(timer);
+    };
+  }, [endpointPrefix]);
+
+  return state;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import realtimeService from '../services/realtime';
+
+/**
+ * Unread direct and group messages, updated as the server pushes changes
+ *
+ * @example
+ * const { unreadCount } = useUnreadCount();
+ */
+export function useUnreadCount() {
+  const [unreadCount, setUnreadCount] = useState(() => realtimeService.getUnreadCount());
+
+  useEffect(() => {
+    setUnreadCount(realtimeService.getUnreadCount());
+    return realtimeService.subscribe((event) => {
+      if (event.type === 'unread') setUnreadCount(event.total);
+    });
+  }, []);
+
+  return { unreadCount };
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import uploadService from '../services/uploads';
+import { UploadTask } from '../types/uploads';
+
+/**
+ * Live list of uploads plus the controls for them
+ *
+ * @example
+ * const { tasks, pause, resume, cancel } = useUploads();
+ */
+export function useUploads() {
+  const [tasks, setTasks] = useState<UploadTask[]>(() => uploadService.getTasks());
+
+  useEffect(() => {
+    setTasks(uploadService.getTasks());
+
+    // Copy the tasks so React sees a change on every progress tick
+    return uploadService.subscribe(() => {
+      setTasks(uploadService.getTasks().map((task) => ({ ...task })));
+    });
+  }, []);
+
+  const pause = useCallback((taskId: string) => uploadService.pause(taskId), []);
+  const resume = useCallback((taskId: string) => uploadService.resume(taskId), []);
+  const cancel = useCallback((taskId: string) => uploadService.cancel(taskId), []);
+  const dismiss = useCallback((taskId: string) => uploadService.dismiss(taskId), []);
+
+  const activeCount = tasks.filter((task) => task.status === 'uploading' || task.status === 'queued').length;
+
+  return { tasks, activeCount, pause, resume, cancel, dismiss };
+}
@@ -6,17 +6,30 @@ import { Ionicons } from '@expo/vector-icons';
 import EnhancedHomeScreen from '../screens/EnhancedHomeScreen';
 import DiscoverScreen from '../screens/DiscoverScreen';
 import MessagesScreen from '../screens/MessagesScreen';
+import ChatScreen from '../screens/ChatScreen';
+import NewGroupScreen from '../screens/NewGroupScreen';
+import GroupInfoScreen from '../screens/GroupInfoScreen';
+import SafetyNumberScreen from '../screens/SafetyNumberScreen';
 import CalendarScreen from '../screens/CalendarScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import HelpScreen from '../screens/HelpScreen';
+import DeveloperSettingsScreen from '../screens/DeveloperSettingsScreen';
+import NetworkInspectorScreen from '../screens/NetworkInspectorScreen';
+import DevicesScreen from '../screens/DevicesScreen';
+import TwoFactorSetupScreen from '../screens/TwoFactorSetupScreen';
+import SecurityScreen from '../screens/SecurityScreen';
+import MessageKeysScreen from '../screens/MessageKeysScreen';
+import AccountDataScreen from '../screens/AccountDataScreen';
 import CreateBand from '../screens/CreateBand';
 import CreateTour from '../screens/CreateTour';
 import TourDetails from '../screens/TourDetails';
 import LiveStream from '../screens/LiveStream';
 import theme from '../theme';
+import { useUnreadCount } from '../hooks/useUnreadCount';
 
 const Tab = createBottomTabNavigator();
 const HomeStack = createNativeStackNavigator();
+const MessagesStack = createNativeStackNavigator();
 const CalendarStack = createNativeStackNavigator();
 const ProfileStack = createNativeStackNavigator();
 
@@ -32,6 +45,18 @@ function HomeStackScreen() {
   );
 }
 
+function MessagesStackScreen() {
+  return (
+    <MessagesStack.Navigator screenOptions={{ headerShown: false }}>
+      <MessagesStack.Screen name="MessagesMain" component={MessagesScreen} />
+      <MessagesStack.Screen name="Chat" component={ChatScreen} />
+      <MessagesStack.Screen name="NewGroup" component={NewGroupScreen} />
+      <MessagesStack.Screen name="GroupInfo" component={GroupInfoScreen} />
+      <MessagesStack.Screen name="SafetyNumber" component={SafetyNumberScreen} />
+    </MessagesStack.Navigator>
+  );
+}
+
 function CalendarStackScreen() {
   return (
     <CalendarStack.Navigator screenOptions={{ headerShown: false }}>
@@ -47,11 +72,20 @@ function ProfileStackScreen() {
     <ProfileStack.Navigator screenOptions={{ headerShown: false }}>
       <ProfileStack.Screen name="ProfileMain" component={ProfileScreen} />
       <ProfileStack.Screen name="Help" component={HelpScreen} />
+      <ProfileStack.Screen name="Devices" component={DevicesScreen} />
+      <ProfileStack.Screen name="TwoFactor" component={TwoFactorSetupScreen} />
+      <ProfileStack.Screen name="Security" component={SecurityScreen} />
+      <ProfileStack.Screen name="MessageKeys" component={MessageKeysScreen} />
+      <ProfileStack.Screen name="AccountData" component={AccountDataScreen} />
+      <ProfileStack.Screen name="DeveloperSettings" component={DeveloperSettingsScreen} />
+      <ProfileStack.Screen name="NetworkInspector" component={NetworkInspectorScreen} />
     </ProfileStack.Navigator>
   );
 }
 
 export default function TabNavigator() {
+  const { unreadCount } = useUnreadCount();
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -126,8 +160,11 @@ export default function TabNavigator() {
       />
       <Tab.Screen
         name="Messages"
-        component={MessagesScreen}
-        options={{ title: 'Messages' }}
+        component={MessagesStackScreen}
+        options={{
+          title: 'Messages',
+          tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+        }}
       />
       <Tab.Screen
         name="Calendar"
@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, SafeAreaView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '../components/common';
+import { useAuth } from '../services/AuthContext';
+import { ApiError } from '../services/api';
+import { StepUpError } from '../services/appLock';
+import accountDataService, { AccountArchive, ACCOUNT_DELETION_GRACE_DAYS } from '../services/accountData';
+import { formatLongDate } from '../utils/dateFormatters';
+
+/**
+ * Your Data: export everything we hold for the account, or delete it. A
+ * deletion can be cancelled here until the grace period ends.
+ */
+export default function AccountDataScreen({ navigation }: any) {
+  const { user, logout, refreshUser } = useAuth();
+  const [exporting, setExporting] = useState(false);
+  const [lastExport, setLastExport] = useState<AccountArchive | null>(null);
+  const [updatingDeletion, setUpdatingDeletion] = useState(false);
+  const pendingDeletion = accountDataService.getPendingDeletion(user);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      setLastExport(await accountDataService.downloadExport());
+    } catch (err) {
+      if (err instanceof StepUpError && err.cancelled) return;
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to export your data.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const scheduleDeletion = async () => {
+    setUpdatingDeletion(true);
+    try {
+      const deletion = await accountDataService.scheduleDeletion();
+      await refreshUser();
+      Alert.alert(
+        'Account Scheduled for Deletion',
+        `Your account and data will be deleted on ${formatLongDate(deletion.purge_after)}. ` +
+          'Until then you can cancel from your profile. Your other devices were signed out.',
+        [
+          { text: 'Stay Signed In', style: 'cancel' },
+          { text: 'Sign Out', style: 'destructive', onPress: logout },
+        ]
+      );
+    } catch (err) {
+      if (err instanceof StepUpError && err.cancelled) return;
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to delete your account.');
+    } finally {
+      setUpdatingDeletion(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Account',
+      `Your profile, bands you own, gigs, payouts and messages will be deleted after ${ACCOUNT_DELETION_GRACE_DAYS} days. ` +
+        'Export your data first if you want to keep a copy.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: scheduleDeletion },
+      ]
+    );
+  };
+
+  const handleCancelDeletion = async () => {
+    setUpdatingDeletion(true);
+    try {
+      await accountDataService.cancelDeletion();
+      await refreshUser();
+      Alert.alert('Deletion Cancelled', 'Your account will not be deleted.');
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to cancel the deletion.');
+    } finally {
+      setUpdatingDeletion(false);
+    }
+  };
+
+  const messageCount = lastExport?.conversations.reduce((total, conversation) => total + conversation.messages.length, 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Your Data</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Export Your Data</Text>
+        <Text style={styles.text}>
+          Download your profile, bands, gigs, payouts and message history. Messages are decrypted on this
+          device, so keep the export somewhere safe.
+        </Text>
+        <Button
+          title="Export My Data"
+          onPress={handleExport}
+          loading={exporting}
+          disabled={exporting}
+          variant="outline"
+          icon="download-outline"
+          fullWidth
+        />
+        {lastExport && (
+          <Text style={styles.summary}>
+            Exported {lastExport.bands.length} bands, {lastExport.tours.length} gigs, {lastExport.payouts.length}{' '}
+            payouts and {messageCount} messages.
+          </Text>
+        )}
+
+        <Text style={[styles.sectionTitle, styles.dangerTitle]}>Delete Account</Text>
+        {pendingDeletion ? (
+          <>
+            <View style={styles.warningCard}>
+              <Ionicons name="warning-outline" size={20} color="#b45309" />
+              <Text style={styles.warningText}>
+                Your account will be deleted on {formatLongDate(pendingDeletion.purge_after)}.
+              </Text>
+            </View>
+            <Button
+              title="Cancel Deletion"
+              onPress={handleCancelDeletion}
+              loading={updatingDeletion}
+              disabled={updatingDeletion}
+              icon="refresh-outline"
+              fullWidth
+            />
+          </>
+        ) : (
+          <>
+            <Text style={styles.text}>
+              We'll keep your account for {ACCOUNT_DELETION_GRACE_DAYS} days in case you change your mind, then
+              delete it and everything in it for good.
+            </Text>
+            <Button
+              title="Delete My Account"
+              onPress={handleDelete}
+              loading={updatingDeletion}
+              disabled={updatingDeletion}
+              variant="danger"
+              icon="trash-outline"
+              fullWidth
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 8,
+  },
+  dangerTitle: {
+    marginTop: 32,
+    color: '#ef4444',
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 8,
+  },
+  summary: {
+    fontSize: 13,
+    color: '#10b981',
+    marginTop: 8,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginVertical: 8,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  warningText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#92400e',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -11,8 +11,9 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
 import { bandService } from '../services';
-import { Card, LoadingSpinner, ErrorMessage, EmptyState, StatusBadge } from '../components/common';
-import { ArtistDashboardData, Band, TourDate } from '../types';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { Can, Card, LoadingSpinner, ErrorMessage, EmptyState, StatusBadge } from '../components/common';
+import { Band, TourDate } from '../types';
 import { createShadow } from '../theme';
 
 interface ArtistDashboardScreenProps {
@@ -23,33 +24,16 @@ interface ArtistDashboardScreenProps {
 
 export default function ArtistDashboardScreen({ navigation }: ArtistDashboardScreenProps) {
   const { user } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [dashboardData, setDashboardData] = useState<ArtistDashboardData | null>(null);
-
-  useEffect(() => {
-    loadDashboard();
-  }, []);
-
-  const loadDashboard = async () => {
-    try {
-      setError(null);
-      const data = await bandService.getArtistDashboard();
-      setDashboardData(data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load dashboard data';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    loadDashboard();
-  }, []);
+  const {
+    data: dashboardData,
+    loading,
+    refreshing,
+    error,
+    refresh: onRefresh,
+    reload: loadDashboard,
+  } = useApiQuery((signal) => bandService.getArtistDashboard({ signal }), [], {
+    errorMessage: 'Failed to load dashboard data',
+  });
 
   const handleCreateBand = () => {
     navigation.navigate('CreateBand');
@@ -275,13 +259,18 @@ export default function ArtistDashboardScreen({ navigation }: ArtistDashboardScr
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, styles.sectionTitleStandalone]}>Quick Actions</Text>
         <View style={styles.actionsGrid}>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleCreateBand}
-          >
-            <Ionicons name="add-circle" size={32} color="#6366f1" />
-            <Text style={styles.actionLabel}>Create Band</Text>
-          </TouchableOpacity>
+          <Can permission="band.create">
+            {({ allowed, message }) => (
+              <TouchableOpacity
+                style={[styles.actionButton, !allowed && styles.actionButtonDisabled]}
+                onPress={allowed ? handleCreateBand : () => Alert.alert('Upgrade Required', message)}
+                accessibilityState={{ disabled: !allowed }}
+              >
+                <Ionicons name="add-circle" size={32} color="#6366f1" />
+                <Text style={styles.actionLabel}>Create Band</Text>
+              </TouchableOpacity>
+            )}
+          </Can>
 
           <TouchableOpacity
             style={styles.actionButton}
@@ -291,13 +280,15 @@ export default function ArtistDashboardScreen({ navigation }: ArtistDashboardScr
             <Text style={styles.actionLabel}>Join Band</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleViewPayments}
-          >
-            <Ionicons name="cash" size={32} color="#f59e0b" />
-            <Text style={styles.actionLabel}>My Payments</Text>
-          </TouchableOpacity>
+          <Can permission="payments.view">
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={handleViewPayments}
+            >
+              <Ionicons name="cash" size={32} color="#f59e0b" />
+              <Text style={styles.actionLabel}>My Payments</Text>
+            </TouchableOpacity>
+          </Can>
 
           <TouchableOpacity
             style={styles.actionButton}
@@ -542,6 +533,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     ...createShadow({ width: 0, height: 1 }, 2, 0.05),
   },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
   actionLabel: {
     fontSize: 12,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -12,8 +12,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
-import { bandService } from '../services';
+import { bandService, tourService } from '../services';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { usePermission } from '../hooks/usePermission';
 import {
+  Can,
   Card,
   LoadingSpinner,
   ErrorMessage,
@@ -21,7 +24,7 @@ import {
   StatusBadge,
   Button,
 } from '../components/common';
-import { Band, BandMember, TourDate, MediaFile } from '../types';
+import { TourDate } from '../types';
 
 interface BandDetailsScreenProps {
   route: {
@@ -39,48 +42,38 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
   const { user } = useAuth();
   const { bandId } = route.params;
 
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  const [band, setBand] = useState<Band | null>(null);
-  const [members, setMembers] = useState<BandMember[]>([]);
-  const [upcomingTours, setUpcomingTours] = useState<TourDate[]>([]);
-  const [media, setMedia] = useState<MediaFile[]>([]);
-  const [isOwner, setIsOwner] = useState(false);
-
-  useEffect(() => {
-    loadBandDetails();
-  }, [bandId]);
-
-  const loadBandDetails = async () => {
-    try {
-      setError(null);
+  const {
+    data,
+    loading,
+    refreshing,
+    error,
+    refresh: onRefresh,
+    reload: loadBandDetails,
+  } = useApiQuery(
+    async (signal) => {
       const [bandData, membersData, toursData, mediaData] = await Promise.all([
-        bandService.getBandDetails(bandId),
-        bandService.getBandMembers(bandId),
-        bandService.getBandTours(bandId),
-        bandService.getBandMedia(bandId),
+        bandService.getBandById(bandId, { signal }),
+        bandService.getBandMembers(bandId, { signal }),
+        tourService.getTours({ band_id: bandId }, { signal }),
+        bandService.getBandMedia(bandId, { signal }),
       ]);
 
-      setBand(bandData);
-      setMembers(membersData);
-      setUpcomingTours(toursData.filter((t: TourDate) => t.is_upcoming).slice(0, 5));
-      setMedia(mediaData.slice(0, 6));
-      setIsOwner(bandData.user_id === user?.id);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load band details';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
+      return {
+        band: bandData,
+        members: membersData,
+        upcomingTours: toursData.filter((t: TourDate) => t.is_upcoming).slice(0, 5),
+        media: mediaData.slice(0, 6),
+      };
+    },
+    [bandId],
+    { errorMessage: 'Failed to load band details' }
+  );
 
-  const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    loadBandDetails();
-  }, [bandId]);
+  const band = data?.band ?? null;
+  const members = data?.members ?? [];
+  const upcomingTours = data?.upcomingTours ?? [];
+  const media = data?.media ?? [];
+  const { allowed: canManageMembers } = usePermission('band.members.manage', bandId);
 
   const handleShareJoinCode = async () => {
     if (!band?.join_code) {
@@ -144,7 +137,11 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
           style: 'destructive',
           onPress: async () => {
             try {
-              await bandService.leaveBand(bandId);
+              const membership = members.find((member) => member.user_id === user?.id);
+              if (!membership) {
+                throw new Error('You are not a member of this band');
+              }
+              await bandService.removeBandMember(bandId, membership.id);
               Alert.alert('Left Band', `You've left ${band?.band_name}`, [
                 { text: 'OK', onPress: () => navigation.goBack() },
               ]);
@@ -278,7 +275,7 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
         )}
 
         {/* Join Code */}
-        {isOwner && band.join_code && (
+        {canManageMembers && band.join_code && (
           <Card style={styles.joinCodeCard}>
             <View style={styles.joinCodeContent}>
               <View style={styles.joinCodeInfo}>
@@ -297,7 +294,7 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>👥 Members ({members.length})</Text>
-          {isOwner && (
+          {canManageMembers && (
             <TouchableOpacity onPress={handleManageMembers}>
               <Text style={styles.seeAll}>Manage</Text>
             </TouchableOpacity>
@@ -309,8 +306,8 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
             icon="person-add"
             title="No Members Yet"
             message="Invite musicians to join your band!"
-            actionLabel={isOwner ? "Invite Members" : undefined}
-            onAction={isOwner ? handleManageMembers : undefined}
+            actionLabel={canManageMembers ? "Invite Members" : undefined}
+            onAction={canManageMembers ? handleManageMembers : undefined}
           />
         ) : (
           members.slice(0, 5).map((member) => (
@@ -394,7 +391,7 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
             {media.slice(0, 6).map((item) => (
               <View key={item.id} style={styles.mediaItem}>
                 <Ionicons
-                  name={item.file_type.startsWith('image') ? 'image' : 'videocam'}
+                  name={item.mime_type.startsWith('image') ? 'image' : 'videocam'}
                   size={32}
                   color="#94a3b8"
                 />
@@ -427,36 +424,37 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
 
       {/* Action Buttons */}
       <View style={styles.actions}>
-        {isOwner && (
-          <>
-            <Button
-              title="Edit Band Info"
-              onPress={handleEditBand}
-              variant="primary"
-              icon="create-outline"
-              fullWidth
-              style={styles.actionButton}
-            />
-            <Button
-              title="Manage Members"
-              onPress={handleManageMembers}
-              variant="outline"
-              icon="people-outline"
-              fullWidth
-              style={styles.actionButton}
-            />
-            <Button
-              title="Delete Band"
-              onPress={handleDeleteBand}
-              variant="danger"
-              icon="trash-outline"
-              fullWidth
-              style={styles.actionButton}
-            />
-          </>
-        )}
-
-        {!isOwner && (
+        <Can permission="band.edit" bandId={bandId}>
+          <Button
+            title="Edit Band Info"
+            onPress={handleEditBand}
+            variant="primary"
+            icon="create-outline"
+            fullWidth
+            style={styles.actionButton}
+          />
+        </Can>
+        <Can permission="band.members.manage" bandId={bandId}>
+          <Button
+            title="Manage Members"
+            onPress={handleManageMembers}
+            variant="outline"
+            icon="people-outline"
+            fullWidth
+            style={styles.actionButton}
+          />
+        </Can>
+        <Can permission="band.delete" bandId={bandId}>
+          <Button
+            title="Delete Band"
+            onPress={handleDeleteBand}
+            variant="danger"
+            icon="trash-outline"
+            fullWidth
+            style={styles.actionButton}
+          />
+        </Can>
+        <Can permission="band.leave" bandId={bandId}>
           <Button
             title="Leave Band"
             onPress={handleLeaveBand}
@@ -465,7 +463,7 @@ export default function BandDetailsScreen({ route, navigation }: BandDetailsScre
             fullWidth
             style={styles.actionButton}
           />
-        )}
+        </Can>
       </View>
 
       <View style={styles.bottomPadding} />
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -12,6 +12,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
 import { tourService } from '../services';
+import { useApiQuery } from '../hooks/useApiQuery';
 import {
   Card,
   LoadingSpinner,
@@ -34,52 +35,41 @@ interface CalendarScreenProps {
 
 export default function CalendarScreen({ navigation }: CalendarScreenProps) {
   const { user } = useAuth();
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
   const [viewType, setViewType] = useState<ViewType>('upcoming');
-  const [upcomingTours, setUpcomingTours] = useState<TourDate[]>([]);
-  const [pastTours, setPastTours] = useState<TourDate[]>([]);
 
-  useEffect(() => {
-    loadTours();
-  }, []);
+  const {
+    data: tours,
+    loading,
+    refreshing,
+    error,
+    refresh: onRefresh,
+    reload: loadTours,
+  } = useApiQuery((signal) => tourService.getMyTours({ signal }), [], {
+    errorMessage: 'Failed to load calendar',
+  });
 
-  const loadTours = async () => {
-    try {
-      setError(null);
-      const tours = await tourService.getMyTours();
+  const { upcomingTours, pastTours } = useMemo(() => {
+    const now = new Date();
+    const all = tours ?? [];
 
-      const now = new Date();
-      const upcoming = tours.filter((t: TourDate) => {
-        const tourDate = new Date(t.date);
-        return tourDate >= now && t.status !== 'cancelled';
-      });
-      const past = tours.filter((t: TourDate) => {
-        const tourDate = new Date(t.date);
-        return tourDate < now || t.status === 'completed';
-      });
+    const upcoming = all.filter((t: TourDate) => {
+      const tourDate = new Date(t.date);
+      return tourDate >= now && t.status !== 'cancelled';
+    });
+    const past = all.filter((t: TourDate) => {
+      const tourDate = new Date(t.date);
+      return tourDate < now || t.status === 'completed';
+    });
 
-      setUpcomingTours(upcoming.sort((a: TourDate, b: TourDate) =>
+    return {
+      upcomingTours: upcoming.sort((a: TourDate, b: TourDate) =>
         new Date(a.date).getTime() - new Date(b.date).getTime()
-      ));
-      setPastTours(past.sort((a: TourDate, b: TourDate) =>
+      ),
+      pastTours: past.sort((a: TourDate, b: TourDate) =>
         new Date(b.date).getTime() - new Date(a.date).getTime()
-      ));
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load calendar';
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  const onRefresh = useCallback(() => {
-    setRefreshing(true);
-    loadTours();
-  }, []);
+      ),
+    };
+  }, [tours]);
 
   const handleTourPress = (tour: TourDate) => {
     navigation.navigate('TourDetails', { tourId: tour.id });
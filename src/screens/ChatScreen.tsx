@@ -0,0 +1,1125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { AttachmentBubble, ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { useAuth } from '../services/AuthContext';
+import { ApiError } from '../services/api';
+import attachmentService from '../services/attachments';
+import messageService, { EXPIRY_TIMER_OPTIONS } from '../services/messages';
+import groupMessageService from '../services/groupMessages';
+import keyVerificationService, { ContactKey, contactKeyStatus } from '../services/keyVerification';
+import { quoteMessage } from '../services/messageStore';
+import realtimeService, { RealtimeThread } from '../services/realtime';
+import {
+  AttachmentFile,
+  ConversationExpiry,
+  MessageAction,
+  MessageAttachment,
+  MessageReply,
+  MessageRevision,
+  MessageSystemEvent,
+  ReceiptStatus,
+} from '../types';
+import { formatDuration, formatRelativeTime } from '../utils/dateFormatters';
+
+interface ChatMessage {
+  id: string;
+  sender_id: string;
+  sender_name?: string;
+  content: string;
+  attachments?: MessageAttachment[];
+  created_at: string;
+  // Direct messages only
+  read?: boolean;
+  delivered_at?: string;
+  expires_at?: string;
+  system?: MessageSystemEvent;
+  reply_to?: MessageReply;
+  action?: MessageAction;
+  reactions?: Record<string, string>;
+  edited_at?: string;
+  edit_history?: MessageRevision[];
+  deleted?: boolean;
+  decryption_failed?: boolean;
+}
+
+// Offered when a message is long-pressed
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '🔥'];
+
+// Check for expired messages at least this often (timers can't wait weeks)
+const EXPIRY_CHECK_MAX_MS = 60 * 60 * 1000;
+
+function receiptIcon(status: ReceiptStatus | 'sent'): keyof typeof Ionicons.glyphMap {
+  return status === 'sent' ? 'checkmark' : 'checkmark-done';
+}
+
+/**
+ * Each emoji with how many people reacted with it, most used first
+ */
+function reactionSummary(reactions: Record<string, string> = {}): Array<{ emoji: string; count: number }> {
+  const counts = new Map<string, number>();
+  Object.values(reactions).forEach((emoji) => counts.set(emoji, (counts.get(emoji) ?? 0) + 1));
+  return Array.from(counts, ([emoji, count]) => ({ emoji, count })).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Timers the retention policy allows, including the current one
+ */
+function timerOptions({ ttl_seconds, max_ttl_seconds }: ConversationExpiry): Array<number | null> {
+  const options = [null, ...EXPIRY_TIMER_OPTIONS].filter(
+    (ttl) => max_ttl_seconds === null || (ttl !== null && ttl <= max_ttl_seconds)
+  );
+  if (ttl_seconds !== null && !options.includes(ttl_seconds)) {
+    options.push(ttl_seconds);
+  }
+  return options.sort((a, b) => (a ?? 0) - (b ?? 0));
+}
+
+/**
+ * Message thread with one person (`userId`, `userName`) or a group
+ * (`groupId`, `groupName`). Everything is decrypted on this device.
+ * `messageId` (from search) is scrolled to and highlighted.
+ */
+export default function ChatScreen({ navigation, route }: any) {
+  const { userId, userName, groupId, groupName, messageId } = route.params ?? {};
+  const isGroup = !!groupId;
+  const { user } = useAuth();
+  const [draft, setDraft] = useState('');
+  const [pendingFile, setPendingFile] = useState<AttachmentFile | null>(null);
+  const [sending, setSending] = useState(false);
+  const [contactKey, setContactKey] = useState<ContactKey | null>(null);
+  // Receipts pushed since the thread loaded, by message ID
+  const [receipts, setReceipts] = useState<Record<string, ReceiptStatus>>({});
+  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [expiry, setExpiry] = useState<ConversationExpiry | null>(null);
+  const [showTimers, setShowTimers] = useState(false);
+  // Long-pressed message, showing reactions and actions
+  const [selected, setSelected] = useState<ChatMessage | null>(null);
+  const [replyTo, setReplyTo] = useState<MessageReply | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+  const jumpedTo = useRef<string | null>(null);
+  const thread: RealtimeThread = isGroup ? { groupId } : { userId };
+
+  const { data: messages, loading, error, refresh, reload } = useApiQuery(
+    async (signal): Promise<ChatMessage[]> => {
+      if (isGroup) {
+        const thread = await groupMessageService.getMessages(groupId, undefined, { signal });
+        groupMessageService.markAsRead(groupId).catch(() => undefined);
+        return thread.map((message) => ({ ...message, content: message.content ?? '' }));
+      }
+
+      const thread = await messageService.getConversation(userId);
+      const unread = thread.filter((message) => message.recipient_id === user?.id && !message.read);
+      messageService.markConversationRead(userId, unread.map((message) => message.id)).catch(() => undefined);
+      return thread.map((message) => ({ ...message, content: message.content ?? '' }));
+    },
+    [groupId, userId],
+    { errorMessage: 'Failed to load messages' }
+  );
+
+  // Membership may have changed in Group Info
+  useEffect(() => navigation.addListener('focus', refresh), [navigation, refresh]);
+
+  // Check the contact's key against the one this device saw before
+  useEffect(() => {
+    if (isGroup) return;
+
+    messageService
+      .refreshPublicKey(userId)
+      .then(() => keyVerificationService.getContactKey(userId))
+      .then(setContactKey)
+      .catch(() => undefined);
+
+    return keyVerificationService.subscribe((contact) => {
+      if (contact.user_id === userId) setContactKey(contact);
+    });
+  }, [isGroup, userId]);
+
+  // Disappearing-message timer (direct chats)
+  useEffect(() => {
+    if (isGroup) return;
+    messageService.getExpiry(userId).then(setExpiry).catch(() => undefined);
+  }, [isGroup, userId]);
+
+  // Take disappearing messages off screen once they expire
+  useEffect(() => {
+    const expiries = (messages ?? [])
+      .filter((message) => message.expires_at)
+      .map((message) => Date.parse(message.expires_at!));
+    if (expiries.length === 0) return;
+
+    const timer = setTimeout(refresh, Math.min(Math.min(...expiries) - Date.now() + 1000, EXPIRY_CHECK_MAX_MS));
+    return () => clearTimeout(timer);
+  }, [messages, refresh]);
+
+  // New messages, receipts and typing for this thread
+  useEffect(() => {
+    const current: RealtimeThread = isGroup ? { groupId } : { userId };
+    setTypingUsers(realtimeService.getTypingUsers(current));
+
+    const unsubscribe = realtimeService.subscribe((event) => {
+      switch (event.type) {
+        case 'message': {
+          if (isGroup || event.message.sender_id !== userId) return;
+          const system = event.message.system;
+          if (system?.type === 'expiry_timer') {
+            setExpiry((previous) => previous && { ...previous, ttl_seconds: system.ttl_seconds });
+          }
+          refresh();
+          break;
+        }
+        case 'group_message':
+          if (event.group_id !== groupId) return;
+          refresh();
+          break;
+        case 'receipt':
+          if (isGroup || event.user_id !== userId) return;
+          setReceipts((previous) => {
+            const next = { ...previous };
+            event.message_ids.forEach((id) => {
+              if (next[id] !== 'read') next[id] = event.status;
+            });
+            return next;
+          });
+          return;
+        case 'unread':
+          return;
+      }
+      // A new message ends its sender's typing
+      setTypingUsers(realtimeService.getTypingUsers(current));
+    });
+
+    return () => {
+      unsubscribe();
+      realtimeService.setTyping(current, false);
+    };
+  }, [isGroup, groupId, userId, refresh]);
+
+  // Reactions, edits and deletes are folded into the messages they change
+  const visibleMessages = (messages ?? []).filter((message) => !message.action);
+
+  // Jump to the message opened from search, once it has loaded
+  useEffect(() => {
+    if (!messageId || !messages || jumpedTo.current === messageId) return;
+    const index = messages.filter((message) => !message.action).findIndex((message) => message.id === messageId);
+    if (index < 0) return;
+
+    jumpedTo.current = messageId;
+    setHighlightId(messageId);
+    const scroll = setTimeout(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.5 }), 100);
+    return () => clearTimeout(scroll);
+  }, [messageId, messages]);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    const fade = setTimeout(() => setHighlightId(null), 3000);
+    return () => clearTimeout(fade);
+  }, [highlightId]);
+
+  const keyStatus = contactKeyStatus(contactKey);
+
+  const handleAttach = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Photos Access Needed', 'Allow access to your photos to send images.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: ['images'], quality: 0.8, base64: true });
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset) return;
+
+    setPendingFile({
+      uri: asset.uri,
+      base64: asset.base64 ?? undefined,
+      name: asset.fileName ?? 'Photo.jpg',
+      mime_type: asset.mimeType ?? 'image/jpeg',
+      width: asset.width,
+      height: asset.height,
+    });
+  };
+
+  const canSend = (editing ? !!draft.trim() : !!draft.trim() || !!pendingFile) && !sending;
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content && !pendingFile) return;
+
+    setSending(true);
+    try {
+      if (editing) {
+        if (isGroup) {
+          await groupMessageService.editMessage(groupId, editing.id, content);
+        } else {
+          await messageService.editMessage(userId, editing.id, content);
+        }
+      } else {
+        // Encrypted and uploaded first; its key goes inside the message
+        const attachments = pendingFile ? [await attachmentService.upload(pendingFile)] : undefined;
+        const reply_to = replyTo ?? undefined;
+        if (isGroup) {
+          await groupMessageService.sendMessage(groupId, content, attachments, { reply_to });
+        } else {
+          await messageService.sendMessage({ recipient_id: userId, content, attachments, reply_to });
+        }
+      }
+      setDraft('');
+      realtimeService.setTyping(thread, false);
+      setPendingFile(null);
+      setReplyTo(null);
+      setEditing(null);
+      refresh();
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to send your message.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const receiptStatus = (message: ChatMessage): ReceiptStatus | 'sent' =>
+    receipts[message.id] === 'read' || message.read
+      ? 'read'
+      : receipts[message.id] ?? (message.delivered_at ? 'delivered' : 'sent');
+
+  const typingText = () => {
+    if (!isGroup) return `${userName ?? 'They'} is typing...`;
+    if (typingUsers.length > 1) return `${typingUsers.length} people are typing...`;
+    const name = messages?.find((message) => message.sender_id === typingUsers[0])?.sender_name;
+    return `${name ?? 'Someone'} is typing...`;
+  };
+
+  /**
+   * Send a reaction, edit or delete, then show it
+   */
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setSelected(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : failure);
+    }
+  };
+
+  const handleReact = (message: ChatMessage, emoji: string) => {
+    // The same emoji again takes it back
+    const next = message.reactions?.[user?.id ?? ''] === emoji ? null : emoji;
+    runAction(
+      () =>
+        isGroup ? groupMessageService.react(groupId, message.id, next) : messageService.react(userId, message.id, next),
+      'Failed to react to the message.'
+    );
+  };
+
+  const handleReply = (message: ChatMessage) => {
+    setSelected(null);
+    setEditing(null);
+    setReplyTo(quoteMessage(message));
+  };
+
+  const handleEdit = (message: ChatMessage) => {
+    setSelected(null);
+    setReplyTo(null);
+    setPendingFile(null);
+    setEditing(message);
+    setDraft(message.content);
+  };
+
+  const cancelCompose = () => {
+    if (editing) setDraft('');
+    setEditing(null);
+    setReplyTo(null);
+  };
+
+  const handleDelete = (message: ChatMessage) => {
+    Alert.alert('Delete for Everyone?', 'This message will be removed from every device in the conversation.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          runAction(
+            () =>
+              isGroup
+                ? groupMessageService.deleteForEveryone(groupId, message.id)
+                : messageService.deleteForEveryone(userId, message.id),
+            'Failed to delete the message.'
+          ),
+      },
+    ]);
+  };
+
+  const showHistory = (message: ChatMessage) => {
+    setSelected(null);
+    const versions = [...(message.edit_history ?? []), { content: message.content, created_at: message.edited_at! }];
+    Alert.alert(
+      'Edit History',
+      versions.map((version) => `${formatRelativeTime(version.created_at)}\n${version.content}`).join('\n\n')
+    );
+  };
+
+  const jumpToMessage = (id: string) => {
+    const index = visibleMessages.findIndex((message) => message.id === id);
+    if (index < 0) return;
+    setHighlightId(id);
+    listRef.current?.scrollToIndex({ index, viewPosition: 0.5 });
+  };
+
+  const senderLabel = (senderId: string) => {
+    if (senderId === user?.id) return 'You';
+    if (!isGroup) return userName ?? 'Them';
+    return visibleMessages.find((message) => message.sender_id === senderId)?.sender_name ?? 'Someone';
+  };
+
+  const handleSetExpiry = async (ttlSeconds: number | null) => {
+    setShowTimers(false);
+    try {
+      await messageService.setExpiry(userId, ttlSeconds);
+      setExpiry((previous) => previous && { ...previous, ttl_seconds: ttlSeconds });
+      refresh();
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to change disappearing messages.');
+    }
+  };
+
+  const systemNotice = (message: ChatMessage, system: MessageSystemEvent) => {
+    const who = message.sender_id === user?.id ? 'You' : userName ?? 'They';
+    return !system.ttl_seconds
+      ? `${who} turned off disappearing messages`
+      : `${who} set messages to disappear after ${formatDuration(system.ttl_seconds)}`;
+  };
+
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    realtimeService.setTyping(thread, !!text.trim());
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    if (item.system) {
+      return (
+        <View style={styles.systemNotice}>
+          <Ionicons name="timer-outline" size={12} color="#6b7280" />
+          <Text style={styles.systemNoticeText}>{systemNotice(item, item.system)}</Text>
+        </View>
+      );
+    }
+
+    const mine = item.sender_id === user?.id;
+    const status = mine && !isGroup ? receiptStatus(item) : null;
+    const reactions = reactionSummary(item.reactions);
+    return (
+      <View style={[styles.bubbleRow, mine && styles.bubbleRowMine]}>
+        <TouchableOpacity
+          activeOpacity={0.8}
+          onLongPress={() => !item.deleted && !item.decryption_failed && setSelected(item)}
+          accessibilityHint="Long press to react, reply or edit"
+          style={[
+            styles.bubble,
+            mine ? styles.bubbleMine : styles.bubbleTheirs,
+            item.id === highlightId && styles.bubbleHighlighted,
+            selected?.id === item.id && styles.bubbleSelected,
+          ]}
+        >
+          {isGroup && !mine && <Text style={styles.senderName}>{item.sender_name ?? 'Unknown'}</Text>}
+          {item.reply_to && (
+            <TouchableOpacity
+              style={[styles.quote, mine && styles.quoteMine]}
+              onPress={() => jumpToMessage(item.reply_to!.message_id)}
+              accessibilityLabel="Show the quoted message"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.quoteSender, mine && styles.messageTextMine]}>
+                {senderLabel(item.reply_to.sender_id)}
+              </Text>
+              <Text style={[styles.quoteText, mine && styles.messageTimeMine]} numberOfLines={2}>
+                {item.reply_to.preview || 'Deleted message'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {item.deleted ? (
+            <Text style={[styles.deletedText, mine && styles.messageTimeMine]}>This message was deleted</Text>
+          ) : (
+            <>
+              {item.attachments?.map((attachment) => (
+                <AttachmentBubble key={attachment.id} attachment={attachment} mine={mine} />
+              ))}
+              {!!item.content && (
+                <Text style={[styles.messageText, mine && styles.messageTextMine]}>{item.content}</Text>
+              )}
+            </>
+          )}
+          {reactions.length > 0 && (
+            <View style={styles.reactions}>
+              {reactions.map(({ emoji, count }) => (
+                <Text key={emoji} style={styles.reaction}>
+                  {emoji}
+                  {count > 1 ? ` ${count}` : ''}
+                </Text>
+              ))}
+            </View>
+          )}
+          <View style={styles.messageMeta}>
+            <Text style={[styles.messageTime, mine && styles.messageTimeMine]}>
+              {formatRelativeTime(item.created_at)}
+              {item.edited_at && !item.deleted ? ' · edited' : ''}
+            </Text>
+            {item.expires_at && (
+              <Ionicons
+                name="timer-outline"
+                size={12}
+                color={mine ? '#dbeafe' : '#9ca3af'}
+                style={styles.receipt}
+                accessibilityLabel="Disappearing message"
+              />
+            )}
+            {status && (
+              <Ionicons
+                name={receiptIcon(status)}
+                size={14}
+                color={status === 'read' ? '#a7f3d0' : '#dbeafe'}
+                style={styles.receipt}
+                accessibilityLabel={status === 'sent' ? 'Sent' : status === 'delivered' ? 'Delivered' : 'Read'}
+              />
+            )}
+          </View>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {(isGroup ? groupName : userName) ?? 'Messages'}
+        </Text>
+        {isGroup ? (
+          <TouchableOpacity
+            onPress={() => navigation.navigate('GroupInfo', { groupId })}
+            style={styles.headerButton}
+            accessibilityLabel="Group info"
+            accessibilityRole="button"
+          >
+            <Ionicons name="information-circle-outline" size={24} color="#1f2937" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => setShowTimers((shown) => !shown)}
+              disabled={!expiry}
+              style={styles.headerButton}
+              accessibilityLabel="Disappearing messages"
+              accessibilityRole="button"
+            >
+              <Ionicons
+                name={expiry?.ttl_seconds ? 'timer' : 'timer-outline'}
+                size={24}
+                color={expiry?.ttl_seconds ? '#007AFF' : '#1f2937'}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('SafetyNumber', { userId, userName })}
+              style={styles.headerButton}
+              accessibilityLabel="Verify safety number"
+              accessibilityRole="button"
+            >
+              <Ionicons
+                name={keyStatus === 'verified' ? 'shield-checkmark' : 'shield-outline'}
+                size={24}
+                color={keyStatus === 'verified' ? '#10b981' : '#1f2937'}
+              />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {showTimers && expiry && (
+        <View style={styles.timerPanel}>
+          <Text style={styles.timerTitle}>Disappearing messages</Text>
+          <View style={styles.timerOptions}>
+            {timerOptions(expiry).map((ttl) => {
+              const selected = ttl === expiry.ttl_seconds;
+              return (
+                <TouchableOpacity
+                  key={ttl ?? 'off'}
+                  style={[styles.timerOption, selected && styles.timerOptionSelected]}
+                  onPress={() => handleSetExpiry(ttl)}
+                  disabled={selected}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected }}
+                >
+                  <Text style={[styles.timerOptionText, selected && styles.timerOptionTextSelected]}>
+                    {ttl === null ? 'Off' : formatDuration(ttl)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={styles.timerHint}>
+            New messages are deleted from both devices and the server this long after they're sent.
+            {expiry.max_ttl_seconds !== null &&
+              ` Messages can be kept for at most ${formatDuration(expiry.max_ttl_seconds)}.`}
+          </Text>
+        </View>
+      )}
+
+      {keyStatus === 'changed' && (
+        <View style={styles.keyWarning}>
+          <Ionicons name="warning" size={20} color="#b45309" />
+          <View style={styles.keyWarningContent}>
+            <Text style={styles.keyWarningText}>
+              {userName}'s safety number changed. This happens when they reinstall the app or rotate their keys -
+              or if someone is intercepting your messages.
+            </Text>
+            <View style={styles.keyWarningActions}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('SafetyNumber', { userId, userName })}
+                accessibilityRole="button"
+              >
+                <Text style={styles.keyWarningAction}>Verify</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => keyVerificationService.acknowledgeChange(userId).catch(() => undefined)}
+                accessibilityRole="button"
+              >
+                <Text style={styles.keyWarningAction}>Dismiss</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {loading && !messages ? (
+          <View style={styles.loading}>
+            <ActivityIndicator size="large" color="#007AFF" />
+          </View>
+        ) : error && !messages ? (
+          <ErrorMessage title="Couldn't Load Messages" message={error} onRetry={reload} fullScreen />
+        ) : (
+          <FlatList
+            ref={listRef}
+            data={visibleMessages}
+            renderItem={renderMessage}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.list}
+            onScrollToIndexFailed={({ index, averageItemLength }) => {
+              // Not laid out yet - get close, then try again
+              listRef.current?.scrollToOffset({ offset: averageItemLength * index, animated: false });
+              setTimeout(() => listRef.current?.scrollToIndex({ index, viewPosition: 0.5 }), 100);
+            }}
+            ListHeaderComponent={
+              <View style={styles.encryptionNotice}>
+                <Ionicons name="lock-closed" size={12} color="#6b7280" />
+                <Text style={styles.encryptionText}>
+                  Messages are end-to-end encrypted. Only {isGroup ? 'members of this group' : 'the two of you'} can
+                  read them.
+                  {!!expiry?.ttl_seconds && ` New messages disappear after ${formatDuration(expiry.ttl_seconds)}.`}
+                </Text>
+              </View>
+            }
+          />
+        )}
+
+        {typingUsers.length > 0 && (
+          <Text style={styles.typing} accessibilityLiveRegion="polite">
+            {typingText()}
+          </Text>
+        )}
+
+        {selected && (
+          <View style={styles.actionBar}>
+            <View style={styles.quickReactions}>
+              {QUICK_REACTIONS.map((emoji) => (
+                <TouchableOpacity
+                  key={emoji}
+                  style={[
+                    styles.quickReaction,
+                    selected.reactions?.[user?.id ?? ''] === emoji && styles.quickReactionOn,
+                  ]}
+                  onPress={() => handleReact(selected, emoji)}
+                  accessibilityLabel={`React with ${emoji}`}
+                  accessibilityRole="button"
+                >
+                  <Text style={styles.quickReactionText}>{emoji}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.actions}>
+              <TouchableOpacity style={styles.action} onPress={() => handleReply(selected)} accessibilityRole="button">
+                <Ionicons name="arrow-undo-outline" size={18} color="#374151" />
+                <Text style={styles.actionText}>Reply</Text>
+              </TouchableOpacity>
+              {selected.sender_id === user?.id && !!selected.content && (
+                <TouchableOpacity style={styles.action} onPress={() => handleEdit(selected)} accessibilityRole="button">
+                  <Ionicons name="create-outline" size={18} color="#374151" />
+                  <Text style={styles.actionText}>Edit</Text>
+                </TouchableOpacity>
+              )}
+              {!!selected.edit_history?.length && (
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => showHistory(selected)}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="time-outline" size={18} color="#374151" />
+                  <Text style={styles.actionText}>History</Text>
+                </TouchableOpacity>
+              )}
+              {selected.sender_id === user?.id && (
+                <TouchableOpacity
+                  style={styles.action}
+                  onPress={() => handleDelete(selected)}
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="trash-outline" size={18} color="#ef4444" />
+                  <Text style={[styles.actionText, styles.actionTextDanger]}>Delete</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.action}
+                onPress={() => setSelected(null)}
+                accessibilityLabel="Close"
+                accessibilityRole="button"
+              >
+                <Ionicons name="close" size={18} color="#6b7280" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {(replyTo || editing) && (
+          <View style={styles.composeContext}>
+            <Ionicons name={editing ? 'create-outline' : 'arrow-undo-outline'} size={18} color="#007AFF" />
+            <View style={styles.composeContextBody}>
+              <Text style={styles.composeContextTitle}>
+                {editing ? 'Editing message' : `Replying to ${senderLabel(replyTo!.sender_id)}`}
+              </Text>
+              <Text style={styles.pendingFileName} numberOfLines={1}>
+                {editing ? editing.content : replyTo!.preview}
+              </Text>
+            </View>
+            <TouchableOpacity
+              onPress={cancelCompose}
+              disabled={sending}
+              accessibilityLabel={editing ? 'Cancel editing' : 'Cancel reply'}
+              accessibilityRole="button"
+            >
+              <Ionicons name="close-circle" size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {pendingFile && (
+          <View style={styles.pendingFile}>
+            <Ionicons name="image-outline" size={18} color="#6b7280" />
+            <Text style={styles.pendingFileName} numberOfLines={1}>
+              {pendingFile.name}
+            </Text>
+            <TouchableOpacity
+              onPress={() => setPendingFile(null)}
+              disabled={sending}
+              accessibilityLabel="Remove attachment"
+              accessibilityRole="button"
+            >
+              <Ionicons name="close-circle" size={20} color="#9ca3af" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Composer */}
+        <View style={styles.composer}>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={handleAttach}
+            disabled={sending || !!editing}
+            accessibilityLabel="Attach a photo"
+            accessibilityRole="button"
+          >
+            <Ionicons name="add-circle-outline" size={28} color="#007AFF" />
+          </TouchableOpacity>
+          <TextInput
+            style={styles.input}
+            placeholder="Message"
+            value={draft}
+            onChangeText={handleDraftChange}
+            multiline
+          />
+          <TouchableOpacity
+            style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!canSend}
+            accessibilityLabel="Send message"
+            accessibilityRole="button"
+          >
+            {sending ? <ActivityIndicator color="#fff" /> : <Ionicons name="send" size={18} color="#fff" />}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  timerPanel: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  timerTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  timerOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  timerOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  timerOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  timerOptionText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  timerOptionTextSelected: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  timerHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 12,
+  },
+  keyWarning: {
+    flexDirection: 'row',
+    padding: 12,
+    backgroundColor: '#fef3c7',
+    borderBottomWidth: 1,
+    borderBottomColor: '#fcd34d',
+  },
+  keyWarningContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  keyWarningText: {
+    fontSize: 14,
+    color: '#92400e',
+  },
+  keyWarningActions: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 24,
+  },
+  keyWarningAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+  },
+  encryptionNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  encryptionText: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  systemNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginVertical: 8,
+  },
+  systemNoticeText: {
+    marginLeft: 4,
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  bubbleRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  bubbleRowMine: {
+    justifyContent: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  bubbleMine: {
+    backgroundColor: '#007AFF',
+    borderBottomRightRadius: 4,
+  },
+  bubbleTheirs: {
+    backgroundColor: '#fff',
+    borderBottomLeftRadius: 4,
+  },
+  bubbleHighlighted: {
+    borderWidth: 2,
+    borderColor: '#f59e0b',
+  },
+  bubbleSelected: {
+    opacity: 0.7,
+  },
+  quote: {
+    marginBottom: 6,
+    paddingLeft: 8,
+    borderLeftWidth: 3,
+    borderLeftColor: '#6366f1',
+  },
+  quoteMine: {
+    borderLeftColor: '#dbeafe',
+  },
+  quoteSender: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  quoteText: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  deletedText: {
+    fontSize: 15,
+    fontStyle: 'italic',
+    color: '#9ca3af',
+  },
+  reactions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  reaction: {
+    marginRight: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    fontSize: 13,
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: '#f3f4f6',
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+    marginBottom: 2,
+  },
+  messageText: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  messageTextMine: {
+    color: '#fff',
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  messageTime: {
+    fontSize: 11,
+    color: '#9ca3af',
+  },
+  messageTimeMine: {
+    color: '#dbeafe',
+  },
+  receipt: {
+    marginLeft: 4,
+  },
+  typing: {
+    paddingHorizontal: 16,
+    paddingBottom: 6,
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: '#6b7280',
+  },
+  actionBar: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  quickReactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 8,
+  },
+  quickReaction: {
+    padding: 6,
+    borderRadius: 18,
+  },
+  quickReactionOn: {
+    backgroundColor: '#dbeafe',
+  },
+  quickReactionText: {
+    fontSize: 22,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  actionText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: '#374151',
+  },
+  actionTextDanger: {
+    color: '#ef4444',
+  },
+  composeContext: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  composeContextBody: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  composeContextTitle: {
+    marginHorizontal: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  pendingFile: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  pendingFileName: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 14,
+    color: '#374151',
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 8,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  attachButton: {
+    height: 40,
+    marginRight: 4,
+    justifyContent: 'center',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    borderRadius: 20,
+    backgroundColor: '#f3f4f6',
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    marginLeft: 8,
+    borderRadius: 20,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
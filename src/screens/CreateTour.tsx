@@ -62,7 +62,7 @@ export default function CreateTour({ navigation }: CreateTourProps) {
     try {
       const [bandsData, venuesData] = await Promise.all([
         bandService.getMyBands(),
-        venueService.getVenues(),
+        venueService.getAllVenues(),
       ]);
       setBands(bandsData);
       setVenues(venuesData);
@@ -0,0 +1,393 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../components/common';
+import backendProfileService, {
+  BackendProfile,
+  DEV_PROXY_URL,
+  getApiBaseUrl,
+  getMockBackend,
+  isBuiltInProfile,
+} from '../services/backendProfiles';
+
+/**
+ * Hidden developer settings: pick or edit the backend profile the app talks to.
+ * Opened by tapping the version label on the profile screen, or long-pressing
+ * the logo on the login screen.
+ */
+export default function DeveloperSettingsScreen({ navigation }: any) {
+  const [profiles, setProfiles] = useState<BackendProfile[]>(() => backendProfileService.getProfiles());
+  const [activeId, setActiveId] = useState(() => backendProfileService.getActiveProfile().id);
+  const [draft, setDraft] = useState<BackendProfile>(() => backendProfileService.getActiveProfile());
+  const [saving, setSaving] = useState(false);
+
+  const refresh = () => {
+    setProfiles(backendProfileService.getProfiles());
+    setActiveId(backendProfileService.getActiveProfile().id);
+  };
+
+  useEffect(() => {
+    backendProfileService.load().then(() => {
+      refresh();
+      setDraft(backendProfileService.getActiveProfile());
+    });
+    return backendProfileService.subscribe(refresh);
+  }, []);
+
+  const isSaved = profiles.some((profile) => profile.id === draft.id);
+  const isBuiltIn = isBuiltInProfile(draft.id);
+
+  const handleSelect = (profile: BackendProfile) => {
+    setDraft(profile);
+    if (profile.id === activeId) return;
+
+    const active = backendProfileService.getActiveProfile();
+    const switchProfile = async () => {
+      try {
+        await backendProfileService.setActiveProfile(profile.id);
+      } catch (err) {
+        Alert.alert('Error', err instanceof Error ? err.message : 'Failed to switch backend');
+      }
+    };
+
+    // Same backend (e.g. only LiveKit differs) - no sign-out involved
+    if (getApiBaseUrl(profile) === getApiBaseUrl(active)) {
+      switchProfile();
+      return;
+    }
+
+    Alert.alert(
+      'Switch Backend',
+      `Switch to ${profile.name}? You will be signed out.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', style: 'destructive', onPress: switchProfile },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.apiBaseUrl.trim()) {
+      Alert.alert('Missing Details', 'A profile needs a name and an API base URL.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await backendProfileService.saveProfile({
+        ...draft,
+        name: draft.name.trim(),
+        apiBaseUrl: draft.apiBaseUrl.trim().replace(/\/+$/, ''),
+      });
+      refresh();
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      isBuiltIn ? 'Reset Profile' : 'Delete Profile',
+      isBuiltIn ? `Restore the default settings for ${draft.name}?` : `Delete ${draft.name}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: isBuiltIn ? 'Reset' : 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await backendProfileService.removeProfile(draft.id);
+            refresh();
+            setDraft(backendProfileService.getProfile(draft.id) ?? backendProfileService.getActiveProfile());
+          },
+        },
+      ]
+    );
+  };
+
+  const handleResetMockData = () => {
+    Alert.alert('Reset Mock Data', 'Discard every change made against the mock backend?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Reset', style: 'destructive', onPress: () => getMockBackend().reset() },
+    ]);
+  };
+
+  const updateTimeout = (key: keyof BackendProfile['timeouts'], value: string) => {
+    const ms = parseInt(value.replace(/\D/g, ''), 10);
+    setDraft({ ...draft, timeouts: { ...draft.timeouts, [key]: Number.isNaN(ms) ? 0 : ms } });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Developer Settings</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+        {/* Profiles */}
+        <Text style={styles.sectionTitle}>Backend Profile</Text>
+        <View style={styles.card}>
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeId;
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.profileRow, profile.id === draft.id && styles.profileRowSelected]}
+                onPress={() => handleSelect(profile)}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: isActive }}
+                accessibilityLabel={`${profile.name}, ${getApiBaseUrl(profile)}`}
+              >
+                <Ionicons
+                  name={isActive ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isActive ? '#6366f1' : '#9ca3af'}
+                />
+                <View style={styles.profileText}>
+                  <Text style={styles.profileName}>{profile.name}</Text>
+                  <Text style={styles.profileUrl} numberOfLines={1}>
+                    {getApiBaseUrl(profile)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Button
+          title="New Profile"
+          variant="outline"
+          icon="add"
+          onPress={() => setDraft(backendProfileService.createDraft())}
+          fullWidth
+        />
+
+        {/* Editor */}
+        <Text style={styles.sectionTitle}>{isSaved ? `Edit ${draft.name}` : 'New Profile'}</Text>
+        <View style={styles.card}>
+          <Input label="Name" value={draft.name} onChangeText={(name) => setDraft({ ...draft, name })} />
+          <Input
+            label="API Base URL"
+            value={draft.apiBaseUrl}
+            onChangeText={(apiBaseUrl) => setDraft({ ...draft, apiBaseUrl })}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Use dev proxy</Text>
+              <Text style={styles.switchHint}>Send API calls to {DEV_PROXY_URL} (npm run proxy)</Text>
+            </View>
+            <Switch
+              value={draft.useProxy}
+              onValueChange={(useProxy) => setDraft({ ...draft, useProxy })}
+              accessibilityLabel="Use dev proxy"
+            />
+          </View>
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Mock backend</Text>
+              <Text style={styles.switchHint}>
+                Answer API calls in-app from demo data. Sign in with any demo email and password{' '}
+                {getMockBackend().getDemoPassword()}
+              </Text>
+            </View>
+            <Switch
+              value={!!draft.mock}
+              onValueChange={(mock) => setDraft({ ...draft, mock })}
+              accessibilityLabel="Mock backend"
+            />
+          </View>
+
+          {(['main', 'meet', 'chat'] as const).map((instance) => (
+            <Input
+              key={instance}
+              label={`LiveKit ${instance.toUpperCase()} URL`}
+              value={draft.livekit[instance]}
+              onChangeText={(url) => setDraft({ ...draft, livekit: { ...draft.livekit, [instance]: url } })}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          ))}
+
+          <Input
+            label="API Timeout (ms)"
+            value={String(draft.timeouts.api)}
+            onChangeText={(value) => updateTimeout('api', value)}
+            keyboardType="number-pad"
+          />
+          <Input
+            label="Upload Timeout (ms)"
+            value={String(draft.timeouts.upload)}
+            onChangeText={(value) => updateTimeout('upload', value)}
+            keyboardType="number-pad"
+          />
+
+          <Button title="Save Profile" onPress={handleSave} loading={saving} fullWidth />
+          {isSaved && (!isBuiltIn || backendProfileService.isCustomized(draft.id)) && (
+            <Button
+              title={isBuiltIn ? 'Reset to Defaults' : 'Delete Profile'}
+              variant="danger"
+              onPress={handleRemove}
+              fullWidth
+              style={styles.removeButton}
+            />
+          )}
+        </View>
+
+        {/* Diagnostics */}
+        <Text style={styles.sectionTitle}>Diagnostics</Text>
+        <Button
+          title="Network Inspector"
+          variant="outline"
+          icon="pulse"
+          onPress={() => navigation.navigate('NetworkInspector')}
+          fullWidth
+        />
+
+        {/* Mock backend */}
+        {profiles.find((profile) => profile.id === activeId)?.mock && (
+          <>
+            <Text style={styles.sectionTitle}>Mock Backend</Text>
+            <View style={styles.card}>
+              {getMockBackend().getDemoAccounts().map((account) => (
+                <View key={account.email} style={styles.accountRow}>
+                  <Text style={styles.profileName}>{account.name}</Text>
+                  <Text style={styles.profileUrl}>
+                    {account.email} · {account.user_type}
+                  </Text>
+                </View>
+              ))}
+            </View>
+            <Button title="Reset Mock Data" variant="outline" icon="refresh" onPress={handleResetMockData} fullWidth />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 12,
+    marginBottom: 12,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  profileRowSelected: {
+    backgroundColor: '#eef2ff',
+  },
+  profileText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  profileName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  profileUrl: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    marginTop: 8,
+  },
+  accountRow: {
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+});
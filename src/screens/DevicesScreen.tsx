@@ -0,0 +1,337 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DevicePlatform, DeviceSession } from '../types';
+import { ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { ApiError } from '../services/api';
+import sessionService from '../services/sessions';
+import { formatRelativeTime } from '../utils/dateFormatters';
+
+const PLATFORM_ICONS: Record<DevicePlatform, string> = {
+  ios: 'phone-portrait-outline',
+  android: 'phone-portrait-outline',
+  web: 'globe-outline',
+  windows: 'desktop-outline',
+  macos: 'laptop-outline',
+};
+
+const PLATFORM_LABELS: Record<DevicePlatform, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  web: 'Web',
+  windows: 'Windows',
+  macos: 'macOS',
+};
+
+function formatLocation(session: DeviceSession): string | null {
+  const place = [session.city, session.country].filter(Boolean).join(', ');
+  return [place, session.ip_address].filter(Boolean).join(' · ') || null;
+}
+
+/**
+ * Devices signed in to the account, with remote sign-out. Opened from the profile menu.
+ */
+export default function DevicesScreen({ navigation }: any) {
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const {
+    data: sessions,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    reload,
+  } = useApiQuery((signal) => sessionService.list({ signal }), [], {
+    errorMessage: 'Failed to load your devices',
+  });
+
+  const otherSessions = (sessions ?? []).filter((session) => !session.current);
+
+  const revoke = async (id: string, action: () => Promise<unknown>) => {
+    setRevokingId(id);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to sign the device out.');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevoke = (session: DeviceSession) => {
+    Alert.alert('Sign Out Device', `Sign out "${session.device_name}"? It will need to sign in again.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out',
+        style: 'destructive',
+        onPress: () => revoke(session.id, () => sessionService.revoke(session.id)),
+      },
+    ]);
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert('Sign Out Other Devices', 'Every device except this one will need to sign in again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Sign Out All',
+        style: 'destructive',
+        onPress: () => revoke('all', () => sessionService.revokeOthers()),
+      },
+    ]);
+  };
+
+  const renderSession = ({ item }: { item: DeviceSession }) => {
+    const location = formatLocation(item);
+    return (
+      <View style={styles.card}>
+        <View style={styles.iconContainer}>
+          <Ionicons name={PLATFORM_ICONS[item.platform] as any} size={24} color="#6366f1" />
+        </View>
+
+        <View style={styles.details}>
+          <View style={styles.titleRow}>
+            <Text style={styles.deviceName} numberOfLines={1}>
+              {item.device_name}
+            </Text>
+            {item.current && (
+              <View style={styles.currentBadge}>
+                <Text style={styles.currentText}>This device</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.meta}>
+            {PLATFORM_LABELS[item.platform]}
+            {item.app_version ? ` · v${item.app_version}` : ''}
+          </Text>
+          {location && <Text style={styles.meta}>{location}</Text>}
+          <Text style={styles.meta}>
+            {item.current ? 'Active now' : `Last active ${formatRelativeTime(item.last_seen_at)}`}
+          </Text>
+          <View style={styles.biometricRow}>
+            <Ionicons
+              name="finger-print"
+              size={14}
+              color={item.biometric_enabled ? '#10b981' : '#9ca3af'}
+            />
+            <Text style={styles.biometricText}>
+              Biometric sign-in {item.biometric_enabled ? 'on' : 'off'}
+            </Text>
+          </View>
+        </View>
+
+        {!item.current &&
+          (revokingId === item.id ? (
+            <ActivityIndicator color="#ef4444" />
+          ) : (
+            <TouchableOpacity
+              onPress={() => handleRevoke(item)}
+              disabled={revokingId !== null}
+              style={styles.revokeButton}
+              accessibilityLabel={`Sign out ${item.device_name}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.revokeText}>Sign out</Text>
+            </TouchableOpacity>
+          ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Devices & Sessions</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading && !sessions ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#6366f1" />
+        </View>
+      ) : error && !sessions ? (
+        <ErrorMessage title="Couldn't Load Devices" message={error} onRetry={reload} fullScreen />
+      ) : (
+        <FlatList
+          data={sessions ?? []}
+          renderItem={renderSession}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#6366f1" />}
+          ListHeaderComponent={
+            <Text style={styles.intro}>
+              Devices signed in to your account. Sign out any you don't recognise.
+            </Text>
+          }
+          ListFooterComponent={
+            otherSessions.length > 0 ? (
+              <TouchableOpacity
+                style={styles.revokeAllButton}
+                onPress={handleRevokeOthers}
+                disabled={revokingId !== null}
+                accessibilityRole="button"
+              >
+                {revokingId === 'all' ? (
+                  <ActivityIndicator color="#ef4444" />
+                ) : (
+                  <>
+                    <Ionicons name="log-out-outline" size={20} color="#ef4444" />
+                    <Text style={styles.revokeAllText}>Sign Out All Other Devices</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 12,
+    marginBottom: 8,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#eef2ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  deviceName: {
+    flexShrink: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  currentBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: '#d1fae5',
+  },
+  currentText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#047857',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  biometricRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  biometricText: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginLeft: 4,
+  },
+  revokeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  revokeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  revokeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 16,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ef4444',
+    backgroundColor: '#fff',
+  },
+  revokeAllText: {
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
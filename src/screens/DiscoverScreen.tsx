@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -8,75 +8,74 @@ import {
   TouchableOpacity,
   Image,
   ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { UserType } from '../types';
+import { DiscoverProfile, UserType } from '../types';
 import { createShadow } from '../theme';
+import { ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import userService from '../services/users';
 
-// Mock data - will be replaced with real API calls
-const MOCK_USERS = [
-  {
-    id: '1',
-    username: 'The Jazz Collective',
-    userType: 'band' as UserType,
-    location: 'New York, NY',
-    genres: ['Jazz', 'Blues'],
-    profileImage: null,
-  },
-  {
-    id: '2',
-    username: 'Sarah Mitchell',
-    userType: 'artist' as UserType,
-    location: 'Los Angeles, CA',
-    genres: ['Pop', 'R&B'],
-    profileImage: null,
-  },
-  {
-    id: '3',
-    username: 'Sound Factory Studios',
-    userType: 'studio' as UserType,
-    location: 'Nashville, TN',
-    hourlyRate: 150,
-    profileImage: null,
-  },
-  {
-    id: '4',
-    username: 'The Blue Note',
-    userType: 'venue' as UserType,
-    location: 'Chicago, IL',
-    capacity: 500,
-    profileImage: null,
-  },
-];
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const USER_TYPE_LABELS: Partial<Record<UserType, string>> = {
+  user: 'Artist',
+  band: 'Band',
+  studio: 'Studio',
+  bar: 'Venue',
+  booking_agent: 'Booking Agent',
+};
 
 export default function DiscoverScreen() {
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<UserType | 'all'>('all');
-  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const {
+    data: profiles,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    reload,
+  } = useApiQuery(
+    (signal) =>
+      userService.discover(
+        {
+          user_type: selectedFilter === 'all' ? undefined : selectedFilter,
+          search: debouncedSearch || undefined,
+        },
+        { signal }
+      ),
+    [selectedFilter, debouncedSearch],
+    { errorMessage: 'Failed to load profiles' }
+  );
 
   const userTypeFilters: Array<{ key: UserType | 'all'; label: string }> = [
     { key: 'all', label: 'All' },
-    { key: 'artist', label: 'Artists' },
+    { key: 'user', label: 'Artists' },
     { key: 'band', label: 'Bands' },
     { key: 'studio', label: 'Studios' },
-    { key: 'venue', label: 'Venues' },
+    { key: 'bar', label: 'Venues' },
     { key: 'booking_agent', label: 'Agents' },
   ];
 
-  const filteredUsers =
-    selectedFilter === 'all'
-      ? MOCK_USERS
-      : MOCK_USERS.filter((user) => user.userType === selectedFilter);
-
   const getUserTypeIcon = (userType: UserType) => {
     switch (userType) {
-      case 'artist':
+      case 'user':
         return 'mic-outline';
       case 'band':
         return 'people-outline';
       case 'studio':
         return 'recording-outline';
-      case 'venue':
+      case 'bar':
         return 'location-outline';
       case 'booking_agent':
         return 'briefcase-outline';
@@ -85,16 +84,16 @@ export default function DiscoverScreen() {
     }
   };
 
-  const renderUserCard = ({ item }: { item: any }) => (
+  const renderUserCard = ({ item }: { item: DiscoverProfile }) => (
     <TouchableOpacity style={styles.userCard}>
       <View style={styles.cardHeader}>
         <View style={styles.avatarContainer}>
-          {item.profileImage ? (
-            <Image source={{ uri: item.profileImage }} style={styles.avatar} />
+          {item.profile_image ? (
+            <Image source={{ uri: item.profile_image }} style={styles.avatar} />
           ) : (
             <View style={styles.avatarPlaceholder}>
               <Ionicons
-                name={getUserTypeIcon(item.userType)}
+                name={getUserTypeIcon(item.user_type)}
                 size={30}
                 color="#007AFF"
               />
@@ -102,11 +101,9 @@ export default function DiscoverScreen() {
           )}
         </View>
         <View style={styles.userInfo}>
-          <Text style={styles.username}>{item.username}</Text>
-          <Text style={styles.userType}>
-            {item.userType.charAt(0).toUpperCase() + item.userType.slice(1)}
-          </Text>
-          {item.location && (
+          <Text style={styles.username}>{item.name}</Text>
+          <Text style={styles.userType}>{USER_TYPE_LABELS[item.user_type] ?? item.user_type}</Text>
+          {!!item.location && (
             <View style={styles.locationRow}>
               <Ionicons name="location-outline" size={14} color="#666" />
               <Text style={styles.location}>{item.location}</Text>
@@ -118,17 +115,17 @@ export default function DiscoverScreen() {
       <View style={styles.cardBody}>
         {item.genres && (
           <View style={styles.genreContainer}>
-            {item.genres.map((genre: string) => (
+            {item.genres.map((genre) => (
               <View key={genre} style={styles.genrePill}>
                 <Text style={styles.genreText}>{genre}</Text>
               </View>
             ))}
           </View>
         )}
-        {item.hourlyRate && (
-          <Text style={styles.rate}>${item.hourlyRate}/hour</Text>
+        {!!item.hourly_rate && (
+          <Text style={styles.rate}>${item.hourly_rate}/hour</Text>
         )}
-        {item.capacity && (
+        {!!item.capacity && (
           <Text style={styles.capacity}>Capacity: {item.capacity}</Text>
         )}
       </View>
@@ -198,16 +195,19 @@ export default function DiscoverScreen() {
       </View>
 
       {/* Results */}
-      {loading ? (
+      {loading && !profiles ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
         </View>
+      ) : error && !profiles ? (
+        <ErrorMessage title="Couldn't Load Profiles" message={error} onRetry={reload} fullScreen />
       ) : (
         <FlatList
-          data={filteredUsers}
+          data={profiles ?? []}
           renderItem={renderUserCard}
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContainer}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#007AFF" />}
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Ionicons name="search-outline" size={64} color="#ccc" />
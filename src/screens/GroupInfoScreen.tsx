@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { useAuth } from '../services/AuthContext';
+import { ApiError } from '../services/api';
+import groupMessageService from '../services/groupMessages';
+import { GroupMember } from '../types';
+
+/**
+ * Members of a group thread. Ad-hoc groups can be changed here; band groups
+ * follow the band's roster.
+ */
+export default function GroupInfoScreen({ navigation, route }: any) {
+  const { groupId } = route.params;
+  const { user } = useAuth();
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const { data: group, loading, error, refresh, reload } = useApiQuery(
+    (signal) => groupMessageService.getGroup(groupId, { signal }),
+    [groupId],
+    { errorMessage: 'Failed to load the group' }
+  );
+
+  // Back from Add People
+  useEffect(() => navigation.addListener('focus', refresh), [navigation, refresh]);
+
+  const isAdhoc = group?.kind === 'adhoc';
+  const isCreator = !!group && group.created_by === user?.id;
+
+  const handleRemove = (member: GroupMember) => {
+    Alert.alert('Remove Member', `Remove ${member.name}? They won't be able to read new messages.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setRemovingId(member.user_id);
+          try {
+            await groupMessageService.removeMember(groupId, member.user_id);
+            refresh();
+          } catch (err) {
+            Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to remove the member.');
+          } finally {
+            setRemovingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLeave = () => {
+    Alert.alert('Leave Group', "You won't be able to read new messages in this group.", [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await groupMessageService.leaveGroup(groupId);
+            navigation.popToTop();
+          } catch (err) {
+            Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to leave the group.');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Group Info</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading && !group ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : error || !group ? (
+        <ErrorMessage title="Couldn't Load Group" message={error ?? 'Group not found'} onRetry={reload} fullScreen />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.groupName}>{group.name}</Text>
+          <Text style={styles.text}>
+            {isAdhoc
+              ? 'Messages are encrypted with new keys whenever someone joins or leaves.'
+              : "Members follow the band's roster. When someone leaves the band, new messages use keys they don't have."}
+          </Text>
+
+          <Text style={styles.sectionTitle}>{group.members.length} Members</Text>
+          {group.members.map((member) => (
+            <View key={member.user_id} style={styles.memberRow}>
+              <View style={styles.avatar}>
+                <Ionicons name="person-outline" size={20} color="#007AFF" />
+              </View>
+              <View style={styles.memberDetails}>
+                <Text style={styles.memberName}>
+                  {member.name}
+                  {member.user_id === user?.id ? ' (you)' : ''}
+                </Text>
+                <Text style={styles.memberType}>
+                  {member.user_id === group.created_by ? 'Created the group' : member.user_type}
+                </Text>
+              </View>
+              {isAdhoc &&
+                isCreator &&
+                member.user_id !== user?.id &&
+                (removingId === member.user_id ? (
+                  <ActivityIndicator color="#ef4444" />
+                ) : (
+                  <TouchableOpacity
+                    onPress={() => handleRemove(member)}
+                    disabled={removingId !== null}
+                    accessibilityLabel={`Remove ${member.name}`}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.removeText}>Remove</Text>
+                  </TouchableOpacity>
+                ))}
+            </View>
+          ))}
+
+          {isAdhoc && (
+            <View style={styles.actions}>
+              <Button
+                title="Add People"
+                onPress={() =>
+                  navigation.navigate('NewGroup', {
+                    groupId,
+                    memberIds: group.members.map((member) => member.user_id),
+                  })
+                }
+                variant="outline"
+                icon="person-add-outline"
+                fullWidth
+              />
+              <View style={styles.actionSpacer} />
+              <Button title="Leave Group" onPress={handleLeave} variant="danger" icon="exit-outline" fullWidth />
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  groupName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1f2937',
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  memberDetails: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  memberType: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textTransform: 'capitalize',
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  actions: {
+    marginTop: 24,
+  },
+  actionSpacer: {
+    height: 12,
+  },
+});
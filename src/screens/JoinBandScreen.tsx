@@ -58,7 +58,10 @@ export default function JoinBandScreen({ navigation }: JoinBandScreenProps) {
 
     try {
       setSearching(true);
-      const results = await bandService.searchBands(searchQuery.trim());
+      // No search endpoint - filter the public band list by name
+      const query = searchQuery.trim().toLowerCase();
+      const bands = await bandService.getAllBands();
+      const results = bands.filter((b) => b.band_name.toLowerCase().includes(query));
       setSearchResults(results);
 
       if (results.length === 0) {
@@ -86,12 +89,12 @@ export default function JoinBandScreen({ navigation }: JoinBandScreenProps) {
           onPress: async () => {
             try {
               setJoining(true);
-              const result = await bandService.joinBand(band.id);
+              const result = await bandService.joinBand({ band_name: band.band_name });
 
               if (result.success) {
                 Alert.alert(
                   'Success!',
-                  result.requiresApproval
+                  result.status === 'pending'
                     ? `Your request to join "${band.band_name}" has been sent. You'll be notified when the band owner approves your request.`
                     : `You've successfully joined "${band.band_name}"!`,
                   [
@@ -14,6 +14,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { Camera } from 'expo-camera';
 import apiService from '../services/api';
+import { endpoints } from '../services/endpoints';
 import theme from '../theme';
 import StreamSettings from '../components/StreamSettings';
 import StreamHealthStatsComponent from '../components/StreamHealthStats';
@@ -261,25 +262,30 @@ export default function LiveStream({ navigation }: LiveStreamProps) {
 
     setLoading(true);
     try {
-      const response = await apiService.post('/mux/live-streams/create', {
-        title: title.trim(),
-        description: description.trim() || undefined,
+      const response = await apiService.call(endpoints.mux.createLiveStream, {
+        body: {
+          title: title.trim(),
+          description: description.trim() || undefined,
+        },
       });
 
       // Handle response structure: { success, stream, mux_data }
       const streamData = response.stream || response;
       const playbackUrl = streamData.playback_url || response.mux_data?.playback_url;
+      const streamKey = streamData.stream_key || response.mux_data?.stream_key;
+      const streamUrl = streamData.stream_url || response.mux_data?.rtmp_url;
 
-      if (!streamData || !playbackUrl) {
+      // Without the key and ingest URL there's nothing to broadcast to
+      if (!streamData || !playbackUrl || !streamKey || !streamUrl) {
         throw new Error('Invalid response from server');
       }
 
       // Map the response to our MuxStream interface
       const mappedStream: MuxStream = {
         id: streamData.id,
-        stream_key: streamData.stream_key || response.mux_data?.stream_key,
+        stream_key: streamKey,
         playback_id: streamData.playback_id,
-        stream_url: streamData.stream_url || response.mux_data?.rtmp_url,
+        stream_url: streamUrl,
         playback_url: playbackUrl,
         status: streamData.status || 'idle',
       };
@@ -324,7 +330,7 @@ export default function LiveStream({ navigation }: LiveStreamProps) {
       }
 
       setIsStreaming(true);
-      await apiService.put(`/mux/live-streams/${stream.id}/start`, {});
+      await apiService.call(endpoints.mux.startLiveStream, { params: { streamId: stream.id }, body: {} });
 
       Alert.alert('Streaming', 'Your live stream is now active! Share the playback URL with your audience.');
     } catch (error) {
@@ -348,7 +354,7 @@ export default function LiveStream({ navigation }: LiveStreamProps) {
           style: 'destructive',
           onPress: async () => {
             try {
-              await apiService.put(`/mux/live-streams/${stream.id}/end`, {});
+              await apiService.call(endpoints.mux.endLiveStream, { params: { streamId: stream.id }, body: {} });
               setIsStreaming(false);
               Alert.alert('Stream Ended', 'Your live stream has ended successfully.', [
                 { text: 'OK', onPress: () => navigation.goBack() },
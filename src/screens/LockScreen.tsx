@@ -0,0 +1,184 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, KeyboardAvoidingView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../components/common';
+import { useAuth } from '../services/AuthContext';
+import appLockService from '../services/appLock';
+
+/**
+ * Covers the app after auto-lock. Unlocks with biometrics (asked for straight
+ * away) or the unlock PIN; signing out is always possible. The screens
+ * underneath stay mounted, so the user carries on where they were.
+ */
+export default function LockScreen() {
+  const { user, logout } = useAuth();
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [attemptsLeft, setAttemptsLeft] = useState(() => appLockService.getRemainingPinAttempts());
+  const hasPin = appLockService.hasPin();
+
+  const handleBiometricUnlock = useCallback(async () => {
+    setUnlocking(true);
+    try {
+      await appLockService.unlockWithBiometric();
+    } finally {
+      setUnlocking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    appLockService.canUseBiometric().then((available) => {
+      setBiometricAvailable(available);
+      if (available) handleBiometricUnlock();
+    });
+  }, [handleBiometricUnlock]);
+
+  const handlePinUnlock = async () => {
+    if (!pin) return;
+
+    setUnlocking(true);
+    try {
+      if (await appLockService.unlockWithPin(pin)) return;
+
+      const remaining = appLockService.getRemainingPinAttempts();
+      setAttemptsLeft(remaining);
+      setPin('');
+      if (remaining === 0 && !biometricAvailable) {
+        // Nothing left to unlock with
+        await logout();
+        return;
+      }
+      setError(
+        remaining === 0
+          ? 'Too many incorrect attempts. Try again later, or unlock with biometrics or sign out.'
+          : `Incorrect PIN. ${remaining} attempt${remaining === 1 ? '' : 's'} left.`
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.iconCircle}>
+          <Ionicons name="lock-closed" size={40} color="#6366f1" />
+        </View>
+        <Text style={styles.title}>Artist Space is locked</Text>
+        {user && <Text style={styles.subtitle}>Signed in as {user.name || user.email}</Text>}
+
+        {hasPin && attemptsLeft > 0 && (
+          <View style={styles.pinForm}>
+            <Input
+              placeholder="Enter your PIN"
+              value={pin}
+              onChangeText={(value) => {
+                setPin(value);
+                setError(null);
+              }}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+              icon="keypad-outline"
+              error={error ?? undefined}
+              onSubmitEditing={handlePinUnlock}
+              accessibilityLabel="Unlock PIN"
+            />
+            <Button
+              title="Unlock"
+              onPress={handlePinUnlock}
+              loading={unlocking}
+              disabled={unlocking || !pin}
+              fullWidth
+            />
+          </View>
+        )}
+        {hasPin && attemptsLeft === 0 && error && <Text style={styles.errorText}>{error}</Text>}
+
+        {biometricAvailable && (
+          <Button
+            title="Unlock with Biometrics"
+            onPress={handleBiometricUnlock}
+            disabled={unlocking}
+            variant={hasPin ? 'outline' : 'primary'}
+            icon="finger-print"
+            fullWidth
+            style={styles.biometricButton}
+          />
+        )}
+
+        {!hasPin && !biometricAvailable && (
+          <Text style={styles.subtitle}>
+            There's no way to unlock on this device any more. Sign out, then sign back in.
+          </Text>
+        )}
+
+        <TouchableOpacity style={styles.signOutButton} onPress={logout} accessibilityRole="button">
+          <Text style={styles.signOutText}>Sign Out</Text>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  iconCircle: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+    backgroundColor: '#eef2ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  pinForm: {
+    width: '100%',
+    maxWidth: 360,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  biometricButton: {
+    marginTop: 12,
+    maxWidth: 360,
+  },
+  signOutButton: {
+    marginTop: 24,
+    padding: 12,
+  },
+  signOutText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+});
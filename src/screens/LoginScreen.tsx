@@ -14,8 +14,11 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../services/AuthContext';
-import { Button, Input } from '../components/common';
+import { Button, Input, OAuthButtons } from '../components/common';
 import apiService from '../services/api';
+import oauthService from '../services/oauth';
+import { OAuthProvider } from '../types';
+import { DEV_SETTINGS_ENABLED } from '../services/backendProfiles';
 import theme from '../theme';
 
 interface LoginScreenProps {
@@ -32,7 +35,25 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
   const [usePinLogin, setUsePinLogin] = useState(true); // PIN is default
   const [pinRequested, setPinRequested] = useState(false);
   const [isRequestingPin, setIsRequestingPin] = useState(false);
-  const { login, loginWithPin, authenticateWithBiometric, biometricAvailable, biometricEnabled, error, clearError } = useAuth();
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const {
+    login,
+    loginWithPin,
+    loginWithOAuth,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    authenticateWithBiometric,
+    biometricAvailable,
+    biometricEnabled,
+    sessionExpired,
+    sessionEndReason,
+    accounts,
+    switchAccount,
+    error,
+    clearError,
+  } = useAuth();
   const [fadeAnim] = useState(new Animated.Value(0));
 
   React.useEffect(() => {
@@ -129,6 +150,48 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
     }
   };
 
+  const handleVerifyTwoFactor = async () => {
+    clearError();
+
+    if (!twoFactorCode.trim()) {
+      Alert.alert(
+        'Code Required',
+        useRecoveryCode
+          ? 'Please enter one of your recovery codes.'
+          : 'Please enter the 6-digit code from your authenticator app.'
+      );
+      return;
+    }
+
+    try {
+      await verifyTwoFactor(twoFactorCode, { recovery: useRecoveryCode });
+      // Navigation is handled by the auth state change
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Invalid verification code. Please try again.';
+      Alert.alert('Verification Failed', errorMessage);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setUseRecoveryCode(false);
+    setPassword('');
+    setPinCode('');
+    setPinRequested(false);
+  };
+
+  const handleOAuthLogin = async (provider: OAuthProvider) => {
+    clearError();
+    try {
+      await loginWithOAuth(provider);
+      // Navigation is handled by the auth state change
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Sign-in failed. Please try again.';
+      Alert.alert('Login Failed', errorMessage);
+    }
+  };
+
   const handleBiometricLogin = async () => {
     try {
       const success = await authenticateWithBiometric();
@@ -170,89 +233,232 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
             end={{ x: 1, y: 1 }}
           >
             <View style={styles.header}>
-              <View style={styles.logoContainer}>
-                <Ionicons name="musical-notes" size={56} color="white" />
-              </View>
+              {/* Long-press opens the hidden developer settings (backend switcher) */}
+              <TouchableOpacity
+                activeOpacity={1}
+                delayLongPress={1500}
+                onLongPress={DEV_SETTINGS_ENABLED ? () => navigation.navigate('DeveloperSettings') : undefined}
+              >
+                <View style={styles.logoContainer}>
+                  <Ionicons name="musical-notes" size={56} color="white" />
+                </View>
+              </TouchableOpacity>
               <Text style={styles.title}>Artist Space</Text>
               <Text style={styles.subtitle}>Connect. Create. Collaborate.</Text>
             </View>
           </LinearGradient>
 
-          {/* Login Method Toggle */}
-          <View style={styles.toggleContainer}>
-            <Text style={styles.toggleLabel}>
-              {usePinLogin ? 'Login with PIN' : 'Login with Password'}
-            </Text>
-            <View style={styles.toggleRow}>
-              <Text style={[styles.toggleText, !usePinLogin && styles.toggleTextActive]}>
-                Password
+          {sessionExpired && (
+            <View style={styles.sessionBanner} accessibilityRole="alert">
+              <Ionicons name="time-outline" size={20} color={theme.colors.warning} />
+              <Text style={styles.sessionBannerText}>
+                {sessionEndReason === 'revoked'
+                  ? 'This device was signed out from another device. Sign in again to continue.'
+                  : 'Your session expired. Sign in again to pick up where you left off.'}
               </Text>
-              <Switch
-                value={usePinLogin}
-                onValueChange={(value) => {
-                  setUsePinLogin(value);
-                  setPinRequested(false);
-                  setPinCode('');
-                  setPassword('');
+            </View>
+          )}
+
+          {/* Accounts still signed in on this device */}
+          {accounts
+            .filter((account) => account.signedIn)
+            .map((account) => (
+              <TouchableOpacity
+                key={account.id}
+                style={styles.accountRow}
+                onPress={() => switchAccount(account.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Continue as ${account.user.name}`}
+              >
+                <Ionicons name="person-circle-outline" size={28} color={theme.colors.primary[500]} />
+                <View style={styles.accountInfo}>
+                  <Text style={styles.accountName}>Continue as {account.user.name}</Text>
+                  <Text style={styles.accountEmail}>{account.user.email}</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.colors.gray[400]} />
+              </TouchableOpacity>
+            ))}
+
+          {/* Two-Factor Step */}
+          {twoFactorChallenge ? (
+            <View style={styles.form}>
+              <View style={styles.twoFactorHeader}>
+                <Ionicons name="shield-checkmark-outline" size={32} color={theme.colors.primary[500]} />
+                <Text style={styles.twoFactorTitle}>Two-Factor Authentication</Text>
+                <Text style={styles.twoFactorText}>
+                  {useRecoveryCode
+                    ? 'Enter one of the recovery codes you saved when you turned on two-factor authentication.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+                </Text>
+              </View>
+
+              <Input
+                label={useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+                placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                value={twoFactorCode}
+                onChangeText={setTwoFactorCode}
+                keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={useRecoveryCode ? 11 : 6}
+                icon="keypad-outline"
+                error={error ?? undefined}
+              />
+
+              <Button
+                title="Verify"
+                onPress={handleVerifyTwoFactor}
+                variant="primary"
+                size="large"
+                fullWidth
+                icon="checkmark-circle-outline"
+                style={styles.loginButton}
+              />
+
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setTwoFactorCode('');
                   clearError();
                 }}
-                trackColor={{ false: '#cbd5e1', true: '#a5b4fc' }}
-                thumbColor={usePinLogin ? '#6366f1' : '#f1f5f9'}
-                ios_backgroundColor="#cbd5e1"
-              />
-              <Text style={[styles.toggleText, usePinLogin && styles.toggleTextActive]}>
-                PIN
-              </Text>
+              >
+                <Text style={styles.linkText}>
+                  {useRecoveryCode ? 'Use your authenticator app' : 'Lost your device? Use a recovery code'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.linkButton} onPress={handleCancelTwoFactor}>
+                <Text style={styles.linkText}>Back to sign in</Text>
+              </TouchableOpacity>
             </View>
-          </View>
-
-          {/* Login Form */}
-          <View style={styles.form}>
-            <Input
-              label="Email"
-              placeholder="your@email.com"
-              value={email}
-              onChangeText={(text) => {
-                setEmail(text);
-                setPinRequested(false);
-              }}
-              keyboardType="email-address"
-              autoCapitalize="none"
-              autoCorrect={false}
-              icon="mail-outline"
-              error={error?.toLowerCase().includes('email') ? error : undefined}
-            />
-
-            {usePinLogin ? (
-              <>
-                {!pinRequested ? (
-                  <Button
-                    title="Send PIN to Email"
-                    onPress={handleRequestPin}
-                    variant="primary"
-                    size="large"
-                    fullWidth
-                    icon="mail-outline"
-                    style={styles.requestPinButton}
-                    disabled={isRequestingPin}
+          ) : (
+            <>
+              {/* Login Method Toggle */}
+              <View style={styles.toggleContainer}>
+                <Text style={styles.toggleLabel}>
+                  {usePinLogin ? 'Login with PIN' : 'Login with Password'}
+                </Text>
+                <View style={styles.toggleRow}>
+                  <Text style={[styles.toggleText, !usePinLogin && styles.toggleTextActive]}>
+                    Password
+                  </Text>
+                  <Switch
+                    value={usePinLogin}
+                    onValueChange={(value) => {
+                      setUsePinLogin(value);
+                      setPinRequested(false);
+                      setPinCode('');
+                      setPassword('');
+                      clearError();
+                    }}
+                    trackColor={{ false: '#cbd5e1', true: '#a5b4fc' }}
+                    thumbColor={usePinLogin ? '#6366f1' : '#f1f5f9'}
+                    ios_backgroundColor="#cbd5e1"
                   />
+                  <Text style={[styles.toggleText, usePinLogin && styles.toggleTextActive]}>
+                    PIN
+                  </Text>
+                </View>
+              </View>
+
+              {/* Login Form */}
+              <View style={styles.form}>
+                <Input
+                  label="Email"
+                  placeholder="your@email.com"
+                  value={email}
+                  onChangeText={(text) => {
+                    setEmail(text);
+                    setPinRequested(false);
+                  }}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  icon="mail-outline"
+                  error={error?.toLowerCase().includes('email') ? error : undefined}
+                />
+
+                {usePinLogin ? (
+                  <>
+                    {!pinRequested ? (
+                      <Button
+                        title="Send PIN to Email"
+                        onPress={handleRequestPin}
+                        variant="primary"
+                        size="large"
+                        fullWidth
+                        icon="mail-outline"
+                        style={styles.requestPinButton}
+                        disabled={isRequestingPin}
+                      />
+                    ) : (
+                      <>
+                        <Input
+                          label="PIN Code"
+                          placeholder="Enter 9-digit PIN"
+                          value={pinCode}
+                          onChangeText={setPinCode}
+                          keyboardType="number-pad"
+                          autoCapitalize="none"
+                          maxLength={9}
+                          icon="key-outline"
+                          error={error?.toLowerCase().includes('pin') ? error : undefined}
+                        />
+
+                        <Button
+                          title="Log In with PIN"
+                          onPress={handlePinLogin}
+                          variant="primary"
+                          size="large"
+                          fullWidth
+                          icon="log-in-outline"
+                          style={styles.loginButton}
+                        />
+
+                        <TouchableOpacity
+                          style={styles.linkButton}
+                          onPress={() => {
+                            setPinRequested(false);
+                            setPinCode('');
+                          }}
+                        >
+                          <Text style={styles.linkText}>Request a new PIN</Text>
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </>
                 ) : (
                   <>
                     <Input
-                      label="PIN Code"
-                      placeholder="Enter 9-digit PIN"
-                      value={pinCode}
-                      onChangeText={setPinCode}
-                      keyboardType="number-pad"
+                      label="Password"
+                      placeholder="Enter your password"
+                      value={password}
+                      onChangeText={setPassword}
+                      secureTextEntry
                       autoCapitalize="none"
-                      maxLength={9}
-                      icon="key-outline"
-                      error={error?.toLowerCase().includes('pin') ? error : undefined}
+                      icon="lock-closed-outline"
+                      error={error?.toLowerCase().includes('password') ? error : undefined}
                     />
 
+                    {/* Remember Me */}
+                    <TouchableOpacity
+                      style={styles.checkboxContainer}
+                      onPress={() => setRememberMe(!rememberMe)}
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons
+                        name={rememberMe ? 'checkbox' : 'square-outline'}
+                        size={24}
+                        color={rememberMe ? '#6366f1' : '#94a3b8'}
+                      />
+                      <Text style={styles.checkboxLabel}>Remember me (for biometric login)</Text>
+                    </TouchableOpacity>
+
+                    {/* Login Button */}
                     <Button
-                      title="Log In with PIN"
-                      onPress={handlePinLogin}
+                      title="Log In"
+                      onPress={handlePasswordLogin}
                       variant="primary"
                       size="large"
                       fullWidth
@@ -260,79 +466,31 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
                       style={styles.loginButton}
                     />
 
+                    {/* Forgot Password */}
                     <TouchableOpacity
                       style={styles.linkButton}
-                      onPress={() => {
-                        setPinRequested(false);
-                        setPinCode('');
-                      }}
+                      onPress={handleForgotPassword}
                     >
-                      <Text style={styles.linkText}>Request a new PIN</Text>
+                      <Text style={styles.linkText}>Forgot your password?</Text>
                     </TouchableOpacity>
                   </>
                 )}
-              </>
-            ) : (
-              <>
-                <Input
-                  label="Password"
-                  placeholder="Enter your password"
-                  value={password}
-                  onChangeText={setPassword}
-                  secureTextEntry
-                  autoCapitalize="none"
-                  icon="lock-closed-outline"
-                  error={error?.toLowerCase().includes('password') ? error : undefined}
-                />
 
-                {/* Remember Me */}
-                <TouchableOpacity
-                  style={styles.checkboxContainer}
-                  onPress={() => setRememberMe(!rememberMe)}
-                  activeOpacity={0.7}
-                >
-                  <Ionicons
-                    name={rememberMe ? 'checkbox' : 'square-outline'}
-                    size={24}
-                    color={rememberMe ? '#6366f1' : '#94a3b8'}
+                {/* Biometric Login */}
+                {biometricAvailable && biometricEnabled && (
+                  <Button
+                    title={`Use ${Platform.OS === 'ios' ? 'Face ID / Touch ID' : 'Fingerprint'}`}
+                    onPress={handleBiometricLogin}
+                    variant="outline"
+                    size="medium"
+                    fullWidth
+                    icon={Platform.OS === 'ios' ? 'finger-print' : 'fingerprint'}
+                    style={styles.biometricButton}
                   />
-                  <Text style={styles.checkboxLabel}>Remember me (for biometric login)</Text>
-                </TouchableOpacity>
-
-                {/* Login Button */}
-                <Button
-                  title="Log In"
-                  onPress={handlePasswordLogin}
-                  variant="primary"
-                  size="large"
-                  fullWidth
-                  icon="log-in-outline"
-                  style={styles.loginButton}
-                />
-
-                {/* Forgot Password */}
-                <TouchableOpacity
-                  style={styles.linkButton}
-                  onPress={handleForgotPassword}
-                >
-                  <Text style={styles.linkText}>Forgot your password?</Text>
-                </TouchableOpacity>
-              </>
-            )}
-
-            {/* Biometric Login */}
-            {biometricAvailable && biometricEnabled && (
-              <Button
-                title={`Use ${Platform.OS === 'ios' ? 'Face ID / Touch ID' : 'Fingerprint'}`}
-                onPress={handleBiometricLogin}
-                variant="outline"
-                size="medium"
-                fullWidth
-                icon={Platform.OS === 'ios' ? 'finger-print' : 'fingerprint'}
-                style={styles.biometricButton}
-              />
-            )}
-          </View>
+                )}
+              </View>
+            </>
+          )}
 
           {/* Divider */}
           <View style={styles.dividerContainer}>
@@ -341,6 +499,9 @@ export default function LoginScreen({ navigation }: LoginScreenProps) {
             <View style={styles.divider} />
           </View>
 
+          {/* Social Sign-In */}
+          {!twoFactorChallenge && oauthService.isAvailable() && <OAuthButtons onSelect={handleOAuthLogin} />}
+
           {/* Create Account */}
           <Button
             title="Create New Account"
@@ -425,6 +586,47 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: theme.typography.fontWeights.medium,
   },
+  sessionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 24,
+    marginBottom: 24,
+    padding: 12,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  sessionBannerText: {
+    flex: 1,
+    fontSize: theme.typography.sizes.sm,
+    color: '#92400e',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 24,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.background.primary,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountName: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.fontWeights.semibold,
+    color: theme.colors.text.primary,
+  },
+  accountEmail: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text.secondary,
+  },
   toggleContainer: {
     marginBottom: 32,
     alignItems: 'center',
@@ -471,6 +673,22 @@ const styles = StyleSheet.create({
     color: theme.colors.text.secondary,
     fontWeight: theme.typography.fontWeights.medium,
   },
+  twoFactorHeader: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  twoFactorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: theme.colors.text.primary,
+    marginTop: 8,
+  },
+  twoFactorText: {
+    fontSize: 14,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginTop: 4,
+  },
   requestPinButton: {
     marginTop: 8,
   },
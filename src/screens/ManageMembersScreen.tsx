@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { bandService } from '../services';
+import { usePermission } from '../hooks/usePermission';
 import {
   Card,
   LoadingSpinner,
@@ -37,6 +38,7 @@ interface ManageMembersScreenProps {
 
 export default function ManageMembersScreen({ route, navigation }: ManageMembersScreenProps) {
   const { bandId, bandName } = route.params;
+  const { allowed: canManageMembers } = usePermission('band.members.manage', bandId);
 
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -88,7 +90,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
           text: 'Approve',
           onPress: async () => {
             try {
-              await bandService.approveMember(bandId, memberId);
+              await bandService.approveBandMember(bandId, memberId);
               Alert.alert('Success', `${userName} has been approved!`);
               loadMembers();
             } catch (err) {
@@ -112,7 +114,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
           style: 'destructive',
           onPress: async () => {
             try {
-              await bandService.rejectMember(bandId, memberId);
+              await bandService.rejectBandMember(bandId, memberId);
               Alert.alert('Rejected', `${userName}'s request has been rejected`);
               loadMembers();
             } catch (err) {
@@ -136,7 +138,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
           style: 'destructive',
           onPress: async () => {
             try {
-              await bandService.removeMember(bandId, memberId);
+              await bandService.removeBandMember(bandId, memberId);
               Alert.alert('Removed', `${userName} has been removed from the band`);
               loadMembers();
             } catch (err) {
@@ -235,7 +237,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
         {activeTab === 'active' && (
           <>
             {/* Invite Button */}
-            {!showInviteForm && (
+            {canManageMembers && !showInviteForm && (
               <Button
                 title="Invite Member by Email"
                 onPress={() => setShowInviteForm(true)}
@@ -247,7 +249,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
             )}
 
             {/* Invite Form */}
-            {showInviteForm && (
+            {canManageMembers && showInviteForm && (
               <Card style={styles.inviteCard}>
                 <Text style={styles.inviteTitle}>Invite New Member</Text>
                 <Input
@@ -287,7 +289,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
                 <Ionicons name="information-circle" size={20} color="#6366f1" />
                 <Text style={styles.infoText}>
                   Members can view band info, upcoming gigs, and collaborate with the team.
-                  Only you (the owner) can manage members and band settings.
+                  Only the owner and members they allow can manage members and band settings.
                 </Text>
               </View>
             </Card>
@@ -298,8 +300,8 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
                 icon="people"
                 title="No Members Yet"
                 message="Invite musicians to join your band and start collaborating!"
-                actionLabel="Invite Member"
-                onAction={() => setShowInviteForm(true)}
+                actionLabel={canManageMembers ? 'Invite Member' : undefined}
+                onAction={canManageMembers ? () => setShowInviteForm(true) : undefined}
               />
             ) : (
               activeMembers.map((member) => (
@@ -323,7 +325,7 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
                     </View>
                     <View style={styles.memberActions}>
                       <StatusBadge status={member.status} type="user" showIcon={false} />
-                      {!member.is_owner && (
+                      {canManageMembers && !member.is_owner && (
                         <TouchableOpacity
                           onPress={() => handleRemoveMember(member.id, member.user_name)}
                           style={styles.removeButton}
@@ -378,22 +380,24 @@ export default function ManageMembersScreen({ route, navigation }: ManageMembers
                     </View>
                   </View>
 
-                  <View style={styles.requestActions}>
-                    <Button
-                      title="Approve"
-                      onPress={() => handleApproveMember(request.id, request.user_name)}
-                      variant="success"
-                      icon="checkmark-outline"
-                      style={styles.requestButton}
-                    />
-                    <Button
-                      title="Reject"
-                      onPress={() => handleRejectMember(request.id, request.user_name)}
-                      variant="danger"
-                      icon="close-outline"
-                      style={styles.requestButton}
-                    />
-                  </View>
+                  {canManageMembers && (
+                    <View style={styles.requestActions}>
+                      <Button
+                        title="Approve"
+                        onPress={() => handleApproveMember(request.id, request.user_name)}
+                        variant="success"
+                        icon="checkmark-outline"
+                        style={styles.requestButton}
+                      />
+                      <Button
+                        title="Reject"
+                        onPress={() => handleRejectMember(request.id, request.user_name)}
+                        variant="danger"
+                        icon="close-outline"
+                        style={styles.requestButton}
+                      />
+                    </View>
+                  )}
                 </Card>
               ))
             )}
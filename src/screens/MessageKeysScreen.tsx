@@ -0,0 +1,446 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, SafeAreaView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { Button, Input } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { isCancelledError } from '../services/api';
+import { StepUpError } from '../services/appLock';
+import keySyncService, { MIN_PASSPHRASE_LENGTH } from '../services/keySync';
+import { formatLongDate } from '../utils/dateFormatters';
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * Message Keys: back up encryption keys under a passphrase, and move them
+ * between devices so message history follows the user
+ */
+export default function MessageKeysScreen({ navigation }: any) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [linkCode, setLinkCode] = useState('');
+  const [busy, setBusy] = useState<'backup' | 'restore' | 'approve' | null>(null);
+  const [incomingCode, setIncomingCode] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const linkAbort = useRef<AbortController | null>(null);
+
+  const { data: backup, loading, refresh } = useApiQuery(() => keySyncService.getBackup(), [], {
+    errorMessage: 'Failed to load your key backup',
+  });
+
+  // Stop waiting for a link when leaving the screen
+  useEffect(() => () => linkAbort.current?.abort(), []);
+
+  const run = async (kind: 'backup' | 'restore' | 'approve', action: () => Promise<void>, fallback: string) => {
+    setBusy(kind);
+    try {
+      await action();
+    } catch (err) {
+      if (err instanceof StepUpError && err.cancelled) return;
+      Alert.alert('Error', errorMessage(err, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleBackup = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert('Passphrase Too Short', `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      Alert.alert('Passphrases Don\'t Match', 'Enter the same passphrase twice.');
+      return;
+    }
+
+    run(
+      'backup',
+      async () => {
+        await keySyncService.createBackup(passphrase);
+        setPassphrase('');
+        setConfirmPassphrase('');
+        refresh();
+        Alert.alert('Keys Backed Up', 'Keep your passphrase somewhere safe - we can\'t recover it for you.');
+      },
+      'Failed to back up your keys.'
+    );
+  };
+
+  const handleRestore = () => {
+    Alert.alert(
+      'Restore Keys',
+      'This device will use the keys from your backup. Messages it has already read stay readable.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          onPress: () =>
+            run(
+              'restore',
+              async () => {
+                await keySyncService.restoreBackup(restorePassphrase);
+                setRestorePassphrase('');
+                Alert.alert('Keys Restored', 'Your message history is readable on this device.');
+              },
+              'Failed to restore your keys.'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleDeleteBackup = () => {
+    Alert.alert('Delete Backup', 'You won\'t be able to restore your keys with your passphrase any more.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await keySyncService.deleteBackup();
+            refresh();
+          } catch (err) {
+            Alert.alert('Error', errorMessage(err, 'Failed to delete your backup.'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleScan = async () => {
+    const permission = cameraPermission?.granted ? cameraPermission : await requestCameraPermission();
+    if (!permission.granted) {
+      Alert.alert('Camera Needed', 'Allow camera access to scan the code, or paste it below.');
+      return;
+    }
+    setScanning(true);
+  };
+
+  const handleScanned = ({ data }: { data: string }) => {
+    setScanning(false);
+    setLinkCode(data);
+    handleApprove(data);
+  };
+
+  const handleApprove = async (code: string = linkCode) => {
+    setBusy('approve');
+    try {
+      const link = await keySyncService.getLink(code);
+      setBusy(null);
+      Alert.alert(
+        'Link Device',
+        `Send your encryption keys and message history to ${link.device_name ?? 'this device'}? Only do this for a device you own.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Link',
+            onPress: () =>
+              run(
+                'approve',
+                async () => {
+                  await keySyncService.approveLink(code);
+                  setLinkCode('');
+                  Alert.alert('Device Linked', 'Your new device can read your messages now.');
+                },
+                'Failed to link the device.'
+              ),
+          },
+        ]
+      );
+    } catch (err) {
+      setBusy(null);
+      Alert.alert('Error', errorMessage(err, 'No device is waiting with that code.'));
+    }
+  };
+
+  const handleReceive = async () => {
+    const controller = new AbortController();
+    linkAbort.current = controller;
+    try {
+      setIncomingCode(await keySyncService.startLink());
+      await keySyncService.waitForLink({ signal: controller.signal });
+      Alert.alert('Keys Received', 'Your message history is readable on this device.');
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        Alert.alert('Error', errorMessage(err, 'Failed to get your keys.'));
+      }
+    } finally {
+      setIncomingCode(null);
+      linkAbort.current = null;
+    }
+  };
+
+  const handleCancelReceive = () => {
+    linkAbort.current?.abort();
+    keySyncService.cancelLink();
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Message Keys</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>Passphrase Backup</Text>
+        <Text style={styles.text}>
+          Your messages are end-to-end encrypted with keys stored on this device. Back them up under a passphrase
+          to read your history on a new device. We only store the encrypted backup and never see your passphrase.
+        </Text>
+        {loading && !backup ? (
+          <ActivityIndicator color="#6366f1" style={styles.loading} />
+        ) : (
+          backup && (
+            <View style={styles.statusRow}>
+              <Ionicons name="cloud-done-outline" size={18} color="#10b981" />
+              <Text style={styles.statusText}>Backed up {formatLongDate(backup.updated_at)}</Text>
+            </View>
+          )
+        )}
+        <Input
+          label={backup ? 'New passphrase' : 'Passphrase'}
+          value={passphrase}
+          onChangeText={setPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          icon="key-outline"
+          hint={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+        />
+        <Input
+          label="Confirm passphrase"
+          value={confirmPassphrase}
+          onChangeText={setConfirmPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          icon="key-outline"
+        />
+        <Button
+          title={backup ? 'Update Backup' : 'Back Up Keys'}
+          onPress={handleBackup}
+          loading={busy === 'backup'}
+          disabled={busy !== null}
+          icon="cloud-upload-outline"
+          fullWidth
+        />
+
+        {backup && (
+          <>
+            <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Restore From Backup</Text>
+            <Input
+              label="Backup passphrase"
+              value={restorePassphrase}
+              onChangeText={setRestorePassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              icon="key-outline"
+            />
+            <Button
+              title="Restore Keys"
+              onPress={handleRestore}
+              loading={busy === 'restore'}
+              disabled={busy !== null || !restorePassphrase}
+              variant="outline"
+              fullWidth
+            />
+            <TouchableOpacity style={styles.linkButton} onPress={handleDeleteBackup} accessibilityRole="button">
+              <Text style={styles.removeText}>Delete Backup</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Link a New Device</Text>
+        <Text style={styles.text}>
+          On the new device, open Message Keys and choose "Get Keys From Another Device". Scan the QR code it
+          shows, or paste the code under it.
+        </Text>
+        {scanning ? (
+          <View style={styles.scanner}>
+            <CameraView
+              style={styles.camera}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              onBarcodeScanned={handleScanned}
+            />
+            <TouchableOpacity style={styles.linkButton} onPress={() => setScanning(false)} accessibilityRole="button">
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Button
+            title="Scan QR Code"
+            onPress={handleScan}
+            disabled={busy !== null}
+            icon="qr-code-outline"
+            fullWidth
+          />
+        )}
+        <Input
+          label="Code"
+          value={linkCode}
+          onChangeText={setLinkCode}
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="artistspace-link:..."
+          icon="phone-portrait-outline"
+        />
+        <Button
+          title="Link Device"
+          onPress={() => handleApprove()}
+          loading={busy === 'approve'}
+          disabled={busy !== null || !linkCode.trim()}
+          variant="outline"
+          fullWidth
+        />
+
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Move Keys to This Device</Text>
+        {incomingCode ? (
+          <View style={styles.codeCard}>
+            <Text style={styles.text}>Scan this code with a device that's already signed in:</Text>
+            <View style={styles.qrCode}>
+              <QRCode value={incomingCode} size={220} />
+            </View>
+            <Text style={styles.code} selectable>
+              {incomingCode}
+            </Text>
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#6366f1" />
+              <Text style={styles.statusText}>Waiting for your other device...</Text>
+            </View>
+            <TouchableOpacity style={styles.linkButton} onPress={handleCancelReceive} accessibilityRole="button">
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.text}>
+              Signed in on a new phone or tablet? Get your keys from a device you're already using instead of
+              starting over.
+            </Text>
+            <Button
+              title="Get Keys From Another Device"
+              onPress={handleReceive}
+              disabled={busy !== null}
+              variant="outline"
+              icon="swap-horizontal-outline"
+              fullWidth
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loading: {
+    marginVertical: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 8,
+  },
+  sectionSpacing: {
+    marginTop: 32,
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 8,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#374151',
+  },
+  codeCard: {
+    padding: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  qrCode: {
+    padding: 12,
+    backgroundColor: '#fff',
+  },
+  code: {
+    marginVertical: 12,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    color: '#6b7280',
+  },
+  scanner: {
+    marginBottom: 8,
+  },
+  camera: {
+    height: 280,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  removeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
@@ -1,107 +1,251 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
   TouchableOpacity,
-  Image,
   TextInput,
   Platform,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Conversation } from '../types';
+import { ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import messageService from '../services/messages';
+import groupMessageService from '../services/groupMessages';
+import realtimeService, { RealtimeThread } from '../services/realtime';
+import { useAuth } from '../services/AuthContext';
+import messageStore, {
+  MessageSearchResult,
+  quoteMessage,
+  StorableMessage,
+  threadStoreKey,
+} from '../services/messageStore';
+import { Conversation, GroupConversation } from '../types';
 import { formatRelativeTime } from '../utils/dateFormatters';
 import { createShadow } from '../theme';
 
-// Mock conversations
-const MOCK_CONVERSATIONS: Conversation[] = [
-  {
-    id: '1',
-    participants: ['user1', 'user2'],
-    lastMessage: {
-      id: 'm1',
-      conversationId: '1',
-      senderId: 'user2',
-      content: 'Hey, are you available for a show on the 15th?',
-      read: false,
-      createdAt: '2025-11-13T10:30:00Z',
-    },
-    unreadCount: 2,
-    updatedAt: '2025-11-13T10:30:00Z',
-  },
-  {
-    id: '2',
-    participants: ['user1', 'user3'],
-    lastMessage: {
-      id: 'm2',
-      conversationId: '2',
-      senderId: 'user1',
-      content: 'Thanks for the info! Looking forward to working with you.',
-      read: true,
-      createdAt: '2025-11-12T14:20:00Z',
-    },
-    unreadCount: 0,
-    updatedAt: '2025-11-12T14:20:00Z',
-  },
-  {
-    id: '3',
-    participants: ['user1', 'user4'],
-    lastMessage: {
-      id: 'm3',
-      conversationId: '3',
-      senderId: 'user4',
-      content: 'Studio rates are $150/hour. Does that work?',
-      read: false,
-      createdAt: '2025-11-11T09:15:00Z',
-    },
-    unreadCount: 1,
-    updatedAt: '2025-11-11T09:15:00Z',
-  },
-];
+// Message search starts at this many characters, once typing pauses
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** A 1:1 conversation or a group, as one row in the inbox */
+type Thread = { id: string; name: string; time?: string; preview?: string } & (
+  | { kind: 'direct'; conversation: Conversation }
+  | { kind: 'group'; group: GroupConversation }
+);
+
+function toThreads(conversations: Conversation[], groups: GroupConversation[]): Thread[] {
+  const threads: Thread[] = [
+    ...conversations.map((conversation): Thread => ({
+      kind: 'direct',
+      id: `direct:${conversation.user_id}`,
+      name: conversation.name,
+      time: conversation.last_message_time,
+      conversation,
+    })),
+    ...groups.map((group): Thread => ({
+      kind: 'group',
+      id: `group:${group.id}`,
+      name: group.name,
+      time: group.last_message_time ?? group.created_at,
+      group,
+    })),
+  ];
+  return threads.sort((a, b) => (b.time ?? '').localeCompare(a.time ?? ''));
+}
 
-// Mock user data for conversation display
-const MOCK_USER_DATA: { [key: string]: { name: string; userType: string } } = {
-  user2: { name: 'The Blue Note Venue', userType: 'venue' },
-  user3: { name: 'Marcus Johnson', userType: 'artist' },
-  user4: { name: 'Sound Factory Studios', userType: 'studio' },
-};
+function realtimeThread(thread: Thread): RealtimeThread {
+  return thread.kind === 'group' ? { groupId: thread.group.id } : { userId: thread.conversation.user_id };
+}
+
+/**
+ * Preview from the messages stored on this device, which (unlike the server)
+ * can read them - the newest message, or the newest reaction to one. Nothing
+ * when the thread has had messages since it was last opened.
+ */
+function localPreview(thread: Thread, messages: StorableMessage[], userId?: string): string | undefined {
+  const latest = messages[messages.length - 1];
+  if (!latest || (thread.time && latest.created_at < thread.time)) return undefined;
+
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const who = (message: StorableMessage) =>
+    message.sender_id === userId ? 'You' : thread.kind === 'direct' ? thread.name : message.sender_name ?? 'Someone';
 
-export default function MessagesScreen() {
+  const { action } = latest;
+  const target = action?.type === 'reaction' && action.emoji ? byId.get(action.message_id) : undefined;
+  if (target && action?.type === 'reaction' && !target.deleted) {
+    return `${who(latest)} reacted ${action.emoji} to “${quoteMessage(target).preview}”`;
+  }
+
+  // Skips actions, and notices that have no text of their own
+  const message = [...messages]
+    .reverse()
+    .find((candidate) => !candidate.action && (candidate.deleted || quoteMessage(candidate).preview));
+  if (!message || message.decryption_failed) return undefined;
+  const text = message.deleted ? 'Message deleted' : quoteMessage(message).preview;
+  return thread.kind === 'group' ? `${who(message)}: ${text}` : text;
+}
+
+function threadIcon(thread: Thread): keyof typeof Ionicons.glyphMap {
+  if (thread.kind === 'direct') return 'person-outline';
+  return thread.group.kind === 'band' ? 'musical-notes-outline' : 'people-outline';
+}
+
+/**
+ * Inbox: 1:1 conversations and group threads (bands you're in and ad-hoc
+ * groups), newest first. Search matches thread names and the message
+ * history stored on this device.
+ */
+export default function MessagesScreen({ navigation }: any) {
+  const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const [conversations, setConversations] = useState(MOCK_CONVERSATIONS);
-
-  const filteredConversations = conversations.filter((conv) => {
-    const otherUserId = conv.participants.find((p) => p !== 'user1') || '';
-    const userData = MOCK_USER_DATA[otherUserId];
-    return userData?.name.toLowerCase().includes(searchQuery.toLowerCase());
-  });
-
-  const renderConversation = ({ item }: { item: Conversation }) => {
-    const otherUserId = item.participants.find((p) => p !== 'user1') || '';
-    const userData = MOCK_USER_DATA[otherUserId] || {
-      name: 'Unknown User',
-      userType: 'user',
+  const { data: threads, loading, refreshing, error, refresh, reload } = useApiQuery(
+    async (signal) => {
+      const [conversations, groups] = await Promise.all([
+        messageService.getConversations(),
+        groupMessageService.getGroups({ signal }),
+      ]);
+      return await Promise.all(
+        toThreads(conversations, groups).map(async (thread) => {
+          const { messages } = await messageStore.getThread(realtimeThread(thread));
+          return { ...thread, preview: localPreview(thread, messages, user?.id) };
+        })
+      );
+    },
+    [user?.id],
+    { errorMessage: 'Failed to load your messages' }
+  );
+
+  // Unread counts change while a thread is open
+  useEffect(() => navigation.addListener('focus', refresh), [navigation, refresh]);
+
+  // New messages reorder the inbox; typing shows in place of the preview
+  const [, setTypingChanged] = useState(0);
+  useEffect(
+    () =>
+      realtimeService.subscribe((event) => {
+        if (event.type === 'message' || event.type === 'group_message') {
+          refresh();
+        } else if (event.type === 'typing') {
+          setTypingChanged((count) => count + 1);
+        }
+      }),
+    [refresh]
+  );
+
+  // Messages are decrypted on the device, so they're searched there too
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const searchingMessages = searchQuery.trim().length >= MIN_SEARCH_LENGTH;
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < MIN_SEARCH_LENGTH) {
+      setMessageResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      messageStore
+        .search(query)
+        .then((results) => {
+          if (!cancelled) setMessageResults(results);
+        })
+        .catch((searchError) => {
+          if (__DEV__) console.warn('Message search failed:', searchError);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
     };
-    const isUnread = item.unreadCount > 0;
+  }, [searchQuery]);
+
+  const filteredThreads = (threads ?? []).filter((thread) =>
+    thread.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const openThread = (thread: Thread) => {
+    if (thread.kind === 'group') {
+      navigation.navigate('Chat', { groupId: thread.group.id, groupName: thread.group.name });
+    } else {
+      navigation.navigate('Chat', { userId: thread.conversation.user_id, userName: thread.conversation.name });
+    }
+  };
+
+  const resultName = ({ thread, message }: MessageSearchResult) =>
+    threads?.find((item) => item.id === threadStoreKey(thread))?.name ?? message.sender_name ?? 'Conversation';
+
+  const openResult = (result: MessageSearchResult) => {
+    const { thread, message } = result;
+    const name = resultName(result);
+    if ('groupId' in thread) {
+      navigation.navigate('Chat', { groupId: thread.groupId, groupName: name, messageId: message.id });
+    } else {
+      navigation.navigate('Chat', { userId: thread.userId, userName: name, messageId: message.id });
+    }
+  };
+
+  const renderResult = (result: MessageSearchResult) => {
+    const name = resultName(result);
 
     return (
-      <TouchableOpacity style={styles.conversationCard}>
+      <TouchableOpacity
+        key={`${threadStoreKey(result.thread)}:${result.message.id}`}
+        style={styles.resultCard}
+        onPress={() => openResult(result)}
+        accessibilityRole="button"
+        accessibilityLabel={`Open message in ${name}`}
+      >
+        <View style={styles.conversationHeader}>
+          <Text style={styles.userName} numberOfLines={1}>
+            {name}
+          </Text>
+          <Text style={styles.timestamp}>{formatRelativeTime(result.message.created_at)}</Text>
+        </View>
+        <Text style={styles.lastMessage} numberOfLines={2}>
+          {result.snippet}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderThread = ({ item }: { item: Thread }) => {
+    const unreadCount = item.kind === 'group' ? item.group.unread_count : item.conversation.unread_count;
+    const isUnread = unreadCount > 0;
+    const preview =
+      item.preview ??
+      (item.kind === 'group'
+        ? item.group.last_sender_name
+          ? `${item.group.last_sender_name}: 🔒 Encrypted message`
+          : `${item.group.members.length} members`
+        : item.conversation.last_message);
+    const isTyping = realtimeService.getTypingUsers(realtimeThread(item)).length > 0;
+    const subtitle =
+      item.kind === 'group' ? (item.group.kind === 'band' ? 'Band group' : 'Group') : item.conversation.user_type;
+
+    return (
+      <TouchableOpacity
+        style={styles.conversationCard}
+        onPress={() => openThread(item)}
+        accessibilityRole="button"
+        accessibilityLabel={`Open conversation with ${item.name}`}
+      >
         <View style={styles.avatarContainer}>
           <View style={styles.avatarPlaceholder}>
-            <Ionicons name="person-outline" size={24} color="#007AFF" />
+            <Ionicons name={threadIcon(item)} size={24} color="#007AFF" />
           </View>
           {isUnread && <View style={styles.unreadBadge} />}
         </View>
 
         <View style={styles.conversationContent}>
           <View style={styles.conversationHeader}>
-            <Text style={[styles.userName, isUnread && styles.unreadText]}>
-              {userData.name}
-            </Text>
-            <Text style={styles.timestamp}>
-              {formatRelativeTime(item.lastMessage?.createdAt || item.updatedAt)}
+            <Text style={[styles.userName, isUnread && styles.unreadText]} numberOfLines={1}>
+              {item.name}
             </Text>
+            {item.time && <Text style={styles.timestamp}>{formatRelativeTime(item.time)}</Text>}
           </View>
 
           <View style={styles.messageRow}>
@@ -109,19 +253,20 @@ export default function MessagesScreen() {
               style={[
                 styles.lastMessage,
                 isUnread && styles.unreadText,
+                isTyping && styles.typingText,
               ]}
               numberOfLines={1}
             >
-              {item.lastMessage?.content || 'No messages yet'}
+              {isTyping ? 'typing...' : preview || 'No messages yet'}
             </Text>
             {isUnread && (
               <View style={styles.unreadCountBadge}>
-                <Text style={styles.unreadCountText}>{item.unreadCount}</Text>
+                <Text style={styles.unreadCountText}>{unreadCount}</Text>
               </View>
             )}
           </View>
 
-          <Text style={styles.userType}>{userData.userType}</Text>
+          <Text style={styles.userType}>{subtitle}</Text>
         </View>
 
         <Ionicons name="chevron-forward" size={20} color="#ccc" />
@@ -129,6 +274,18 @@ export default function MessagesScreen() {
     );
   };
 
+  if (loading && !threads) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (error && !threads) {
+    return <ErrorMessage title="Couldn't Load Messages" message={error} onRetry={reload} fullScreen />;
+  }
+
   return (
     <View style={styles.container}>
       {/* Search Bar */}
@@ -141,7 +298,7 @@ export default function MessagesScreen() {
         />
         <TextInput
           style={styles.searchInput}
-          placeholder="Search conversations..."
+          placeholder="Search conversations and messages..."
           value={searchQuery}
           onChangeText={setSearchQuery}
         />
@@ -154,23 +311,43 @@ export default function MessagesScreen() {
 
       {/* Conversations List */}
       <FlatList
-        data={filteredConversations}
-        renderItem={renderConversation}
+        data={filteredThreads}
+        renderItem={renderThread}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={refresh} tintColor="#007AFF" />}
+        ListFooterComponent={
+          searchingMessages ? (
+            <View>
+              <Text style={styles.sectionTitle}>Messages</Text>
+              {messageResults.map(renderResult)}
+              <Text style={styles.searchNote}>
+                {messageResults.length === 0 ? 'No messages found. ' : ''}
+                Only messages stored on this device are searched.
+              </Text>
+            </View>
+          ) : null
+        }
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <Ionicons name="chatbubbles-outline" size={64} color="#ccc" />
-            <Text style={styles.emptyText}>No messages yet</Text>
-            <Text style={styles.emptySubtext}>
-              Start a conversation from the Discover tab
-            </Text>
-          </View>
+          searchingMessages ? null : (
+            <View style={styles.emptyContainer}>
+              <Ionicons name="chatbubbles-outline" size={64} color="#ccc" />
+              <Text style={styles.emptyText}>No messages yet</Text>
+              <Text style={styles.emptySubtext}>
+                Start a conversation from the Discover tab
+              </Text>
+            </View>
+          )
         }
       />
 
       {/* Compose Button */}
-      <TouchableOpacity style={styles.composeButton}>
+      <TouchableOpacity
+        style={styles.composeButton}
+        onPress={() => navigation.navigate('NewGroup')}
+        accessibilityLabel="New group"
+        accessibilityRole="button"
+      >
         <Ionicons name="create-outline" size={24} color="#fff" />
       </TouchableOpacity>
     </View>
@@ -182,6 +359,11 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f5f5f5',
   },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -246,6 +428,8 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   userName: {
+    flex: 1,
+    marginRight: 8,
     fontSize: 16,
     color: '#333',
   },
@@ -266,6 +450,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  typingText: {
+    fontStyle: 'italic',
+    color: '#007AFF',
+  },
   unreadCountBadge: {
     backgroundColor: '#007AFF',
     borderRadius: 10,
@@ -286,6 +474,27 @@ const styles = StyleSheet.create({
     color: '#999',
     textTransform: 'capitalize',
   },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#999',
+    textTransform: 'uppercase',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  resultCard: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  searchNote: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    padding: 16,
+  },
   emptyContainer: {
     alignItems: 'center',
     justifyContent: 'center',
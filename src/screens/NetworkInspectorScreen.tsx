@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Share,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import networkLog, { CORRELATION_HEADER, NetworkLogEntry, NetworkLogState } from '../services/networkLog';
+
+const STATE_COLORS: Record<NetworkLogState, string> = {
+  pending: '#6b7280',
+  success: '#10b981',
+  error: '#ef4444',
+  cancelled: '#f59e0b',
+};
+
+function formatBody(body: unknown): string {
+  return typeof body === 'string' ? body : JSON.stringify(body, null, 2);
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '…';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Recent API requests with timing, status, retries and the correlation ID
+ * to quote in support tickets. Opened from developer settings.
+ */
+export default function NetworkInspectorScreen({ navigation }: any) {
+  const [entries, setEntries] = useState<NetworkLogEntry[]>(() => networkLog.getEntries());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  useEffect(() => {
+    networkLog.load().then(() => setEntries(networkLog.getEntries()));
+    return networkLog.subscribe(setEntries);
+  }, []);
+
+  const visibleEntries = errorsOnly ? entries.filter((entry) => entry.state === 'error') : entries;
+
+  const handleShare = (entry: NetworkLogEntry) => {
+    Share.share({
+      message:
+        `${CORRELATION_HEADER}: ${entry.id}\n` +
+        `${entry.method} ${entry.url} → ${entry.status ?? entry.state}\n` +
+        `${new Date(entry.startedAt).toISOString()}` +
+        (entry.error ? `\n${entry.error}` : ''),
+    });
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Network Log', 'Remove all recorded requests?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => networkLog.clear() },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: NetworkLogEntry }) => {
+    const isExpanded = item.id === expandedId;
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        onPress={() => setExpandedId(isExpanded ? null : item.id)}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isExpanded }}
+        accessibilityLabel={`${item.method} ${item.url}, ${item.status ?? item.state}`}
+      >
+        <View style={styles.entryHeader}>
+          <Text style={styles.method}>{item.method}</Text>
+          <Text style={styles.url} numberOfLines={isExpanded ? undefined : 1}>
+            {item.url}
+          </Text>
+          <View style={[styles.statusBadge, { backgroundColor: STATE_COLORS[item.state] }]}>
+            <Text style={styles.statusText}>{item.status ?? item.state}</Text>
+          </View>
+        </View>
+
+        <View style={styles.metaRow}>
+          <Text style={styles.meta}>{new Date(item.startedAt).toLocaleTimeString()}</Text>
+          <Text style={styles.meta}>{formatDuration(item.durationMs)}</Text>
+          {item.retries > 0 && (
+            <Text style={[styles.meta, styles.retries]}>
+              {item.retries} {item.retries === 1 ? 'retry' : 'retries'} · {formatDuration(item.totalMs)} total
+            </Text>
+          )}
+        </View>
+
+        {isExpanded && (
+          <View style={styles.details}>
+            <Text style={styles.detailLabel}>Correlation ID</Text>
+            <View style={styles.correlationRow}>
+              <Text style={styles.correlationId} selectable>
+                {item.id}
+              </Text>
+              <TouchableOpacity
+                onPress={() => handleShare(item)}
+                style={styles.shareButton}
+                accessibilityLabel="Share request details"
+                accessibilityRole="button"
+              >
+                <Ionicons name="share-outline" size={20} color="#6366f1" />
+              </TouchableOpacity>
+            </View>
+
+            {item.error && (
+              <>
+                <Text style={styles.detailLabel}>Error</Text>
+                <Text style={styles.detailText} selectable>
+                  {item.error}
+                </Text>
+              </>
+            )}
+            {item.query !== undefined && (
+              <>
+                <Text style={styles.detailLabel}>Query</Text>
+                <Text style={styles.code} selectable>
+                  {formatBody(item.query)}
+                </Text>
+              </>
+            )}
+            {item.requestBody !== undefined && (
+              <>
+                <Text style={styles.detailLabel}>Request Body</Text>
+                <Text style={styles.code} selectable>
+                  {formatBody(item.requestBody)}
+                </Text>
+              </>
+            )}
+            {item.responseBody !== undefined && (
+              <>
+                <Text style={styles.detailLabel}>Response Body</Text>
+                <Text style={styles.code} selectable>
+                  {formatBody(item.responseBody)}
+                </Text>
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Network Inspector</Text>
+        <TouchableOpacity
+          onPress={handleClear}
+          style={styles.headerButton}
+          accessibilityLabel="Clear network log"
+          accessibilityRole="button"
+        >
+          <Ionicons name="trash-outline" size={22} color="#1f2937" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Filter */}
+      <View style={styles.filterRow}>
+        {[false, true].map((value) => (
+          <TouchableOpacity
+            key={String(value)}
+            style={[styles.filterPill, errorsOnly === value && styles.filterPillActive]}
+            onPress={() => setErrorsOnly(value)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: errorsOnly === value }}
+          >
+            <Text style={[styles.filterText, errorsOnly === value && styles.filterTextActive]}>
+              {value ? 'Errors' : 'All'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={visibleEntries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.empty}>
+            <Ionicons name="pulse-outline" size={48} color="#d1d5db" />
+            <Text style={styles.emptyText}>No requests recorded yet</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  filterPill: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  filterPillActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  filterText: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  filterTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  entry: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  method: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6366f1',
+    width: 56,
+  },
+  url: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1f2937',
+    marginRight: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    marginTop: 6,
+    marginLeft: 56,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginRight: 12,
+  },
+  retries: {
+    color: '#f59e0b',
+  },
+  details: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  detailLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+    textTransform: 'uppercase',
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  correlationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  correlationId: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    color: '#1f2937',
+  },
+  shareButton: {
+    padding: 4,
+  },
+  code: {
+    fontSize: 12,
+    fontFamily: 'monospace',
+    color: '#374151',
+    backgroundColor: '#f9fafb',
+    borderRadius: 6,
+    padding: 8,
+  },
+  empty: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#9ca3af',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { useAuth } from '../services/AuthContext';
+import { ApiError } from '../services/api';
+import groupMessageService from '../services/groupMessages';
+import userService from '../services/users';
+import { DiscoverProfile } from '../types';
+
+/**
+ * Start an ad-hoc group, or add people to one (`groupId` with `memberIds`
+ * already in it)
+ */
+export default function NewGroupScreen({ navigation, route }: any) {
+  const { groupId, memberIds = [] }: { groupId?: string; memberIds?: string[] } = route.params ?? {};
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<DiscoverProfile[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const { data: people, loading } = useApiQuery(
+    (signal) => userService.discover({ search: search.trim() || undefined }, { signal }),
+    [search],
+    { errorMessage: 'Failed to search people' }
+  );
+
+  const candidates = (people ?? []).filter(
+    (person) => person.id !== user?.id && !memberIds.includes(person.id)
+  );
+  const isSelected = (person: DiscoverProfile) => selected.some((candidate) => candidate.id === person.id);
+
+  const toggle = (person: DiscoverProfile) => {
+    setSelected((current) =>
+      isSelected(person) ? current.filter((candidate) => candidate.id !== person.id) : [...current, person]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const ids = selected.map((person) => person.id);
+      if (groupId) {
+        await groupMessageService.addMembers(groupId, ids);
+        navigation.goBack();
+      } else {
+        const group = await groupMessageService.createGroup(name.trim(), ids);
+        navigation.replace('Chat', { groupId: group.id, groupName: group.name });
+      }
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to save the group.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderPerson = ({ item }: { item: DiscoverProfile }) => (
+    <TouchableOpacity
+      style={styles.personRow}
+      onPress={() => toggle(item)}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: isSelected(item) }}
+    >
+      <View style={styles.avatar}>
+        <Ionicons name="person-outline" size={20} color="#007AFF" />
+      </View>
+      <View style={styles.personDetails}>
+        <Text style={styles.personName}>{item.name}</Text>
+        <Text style={styles.personType}>{item.user_type}</Text>
+      </View>
+      <Ionicons
+        name={isSelected(item) ? 'checkmark-circle' : 'ellipse-outline'}
+        size={24}
+        color={isSelected(item) ? '#007AFF' : '#d1d5db'}
+      />
+    </TouchableOpacity>
+  );
+
+  const canSave = selected.length > 0 && (!!groupId || name.trim().length > 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{groupId ? 'Add People' : 'New Group'}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {!groupId && (
+        <TextInput
+          style={styles.input}
+          placeholder="Group name"
+          value={name}
+          onChangeText={setName}
+          maxLength={60}
+        />
+      )}
+      <TextInput
+        style={styles.input}
+        placeholder="Search people..."
+        value={search}
+        onChangeText={setSearch}
+        autoCapitalize="none"
+      />
+      {selected.length > 0 && (
+        <Text style={styles.selectedText}>{selected.map((person) => person.name).join(', ')}</Text>
+      )}
+
+      {loading && !people ? (
+        <ActivityIndicator style={styles.loading} color="#007AFF" />
+      ) : (
+        <FlatList
+          data={candidates}
+          renderItem={renderPerson}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={<Text style={styles.emptyText}>No one found</Text>}
+        />
+      )}
+
+      <View style={styles.footer}>
+        <Button
+          title={groupId ? 'Add to Group' : 'Create Group'}
+          onPress={handleSave}
+          loading={saving}
+          disabled={!canSave || saving}
+          icon={groupId ? 'person-add-outline' : 'people-outline'}
+          fullWidth
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  input: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    padding: 12,
+    fontSize: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  selectedText: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    fontSize: 13,
+    color: '#007AFF',
+  },
+  loading: {
+    marginTop: 32,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  personDetails: {
+    flex: 1,
+  },
+  personName: {
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  personType: {
+    fontSize: 12,
+    color: '#9ca3af',
+    textTransform: 'capitalize',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 32,
+    color: '#9ca3af',
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -6,18 +6,82 @@ import {
   ScrollView,
   TouchableOpacity,
   Image,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
+import { DEV_SETTINGS_ENABLED } from '../services/backendProfiles';
+import { ApiError } from '../services/api';
+import oauthService, { OAUTH_PROVIDERS, OAuthCancelledError } from '../services/oauth';
+import accountDataService from '../services/accountData';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { OAUTH_PROVIDER_DETAILS } from '../components/common';
+import { OAuthProvider } from '../types';
+import { formatLongDate } from '../utils/dateFormatters';
 import theme from '../theme';
 
 export default function ProfileScreen({ navigation }: any) {
-  const { user, logout } = useAuth();
+  const { user, logout, accounts, switchAccount, addAccount, refreshUser } = useAuth();
+  const versionTaps = useRef(0);
+  const [linkingProvider, setLinkingProvider] = useState<OAuthProvider | null>(null);
+  const [cancellingDeletion, setCancellingDeletion] = useState(false);
+  const pendingDeletion = accountDataService.getPendingDeletion(user);
+  const { data: identities, refresh: refreshIdentities } = useApiQuery(
+    (signal) => oauthService.getIdentities({ signal }),
+    [],
+    { errorMessage: 'Failed to load linked accounts' }
+  );
 
   const handleLogout = async () => {
     await logout();
   };
 
+  const updateLink = async (provider: OAuthProvider, action: () => Promise<unknown>) => {
+    setLinkingProvider(provider);
+    try {
+      await action();
+      refreshIdentities();
+    } catch (error) {
+      if (error instanceof OAuthCancelledError) return;
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to update linked account.');
+    } finally {
+      setLinkingProvider(null);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setCancellingDeletion(true);
+    try {
+      await accountDataService.cancelDeletion();
+      await refreshUser();
+    } catch (error) {
+      Alert.alert('Error', error instanceof ApiError ? error.message : 'Failed to cancel the deletion.');
+    } finally {
+      setCancellingDeletion(false);
+    }
+  };
+
+  const handleLink = (provider: OAuthProvider) => updateLink(provider, () => oauthService.link(provider));
+
+  const handleUnlink = (provider: OAuthProvider) => {
+    const { name } = OAUTH_PROVIDER_DETAILS[provider];
+    Alert.alert(`Unlink ${name}`, `You won't be able to sign in with ${name} any more.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Unlink', style: 'destructive', onPress: () => updateLink(provider, () => oauthService.unlink(provider)) },
+    ]);
+  };
+
+  // Tapping the version 7 times opens the hidden developer settings
+  const handleVersionTap = () => {
+    if (!DEV_SETTINGS_ENABLED) return;
+    versionTaps.current += 1;
+    if (versionTaps.current >= 7) {
+      versionTaps.current = 0;
+      navigation.navigate('DeveloperSettings');
+    }
+  };
+
   const handleComingSoon = (feature: string) => {
     // Placeholder for features not yet implemented
     // Will be replaced with actual navigation when screens are ready
@@ -56,8 +120,36 @@ export default function ProfileScreen({ navigation }: any) {
       id: 'privacy',
       icon: 'shield-outline',
       title: 'Privacy & Security',
-      subtitle: 'Control your privacy settings',
-      action: () => handleComingSoon('Privacy'),
+      subtitle: 'Auto-lock and unlock PIN',
+      action: () => navigation.navigate('Security'),
+    },
+    {
+      id: 'message-keys',
+      icon: 'key-outline',
+      title: 'Message Keys',
+      subtitle: 'Back up or move your encryption keys',
+      action: () => navigation.navigate('MessageKeys'),
+    },
+    {
+      id: 'two-factor',
+      icon: 'shield-checkmark-outline',
+      title: 'Two-Factor Authentication',
+      subtitle: user?.two_factor_enabled ? 'On' : 'Add a code from an authenticator app',
+      action: () => navigation.navigate('TwoFactor'),
+    },
+    {
+      id: 'devices',
+      icon: 'phone-portrait-outline',
+      title: 'Devices & Sessions',
+      subtitle: 'See where you\'re signed in',
+      action: () => navigation.navigate('Devices'),
+    },
+    {
+      id: 'account-data',
+      icon: 'download-outline',
+      title: 'Your Data',
+      subtitle: 'Export your data or delete your account',
+      action: () => navigation.navigate('AccountData'),
     },
     {
       id: 'help',
@@ -160,6 +252,23 @@ export default function ProfileScreen({ navigation }: any) {
         </View>
       </View>
 
+      {/* Pending Deletion */}
+      {pendingDeletion && (
+        <View style={styles.deletionBanner}>
+          <Ionicons name="warning-outline" size={20} color="#b45309" />
+          <Text style={styles.deletionText}>
+            Your account will be deleted on {formatLongDate(pendingDeletion.purge_after)}.
+          </Text>
+          {cancellingDeletion ? (
+            <ActivityIndicator color={theme.colors.primary[500]} />
+          ) : (
+            <TouchableOpacity onPress={handleCancelDeletion} accessibilityRole="button">
+              <Text style={styles.linkText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Menu Items */}
       <View style={styles.menuContainer}>
         {menuItems.map((item) => (
@@ -183,6 +292,97 @@ export default function ProfileScreen({ navigation }: any) {
         ))}
       </View>
 
+      {/* Accounts */}
+      <Text style={styles.sectionTitle}>Accounts</Text>
+      <View style={styles.accountsContainer}>
+        {accounts.map((account) => {
+          const isActive = account.id === user?.id;
+          return (
+            <TouchableOpacity
+              key={account.id}
+              style={styles.menuItem}
+              onPress={() => switchAccount(account.id)}
+              disabled={isActive}
+              accessibilityLabel={account.user.name}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isActive }}
+              accessibilityHint={isActive ? undefined : 'Switch to this account'}
+            >
+              <View style={styles.menuIconContainer}>
+                <Ionicons
+                  name={getUserTypeIcon(account.user.user_type) as any}
+                  size={24}
+                  color={theme.colors.primary[500]}
+                />
+              </View>
+              <View style={styles.menuContent}>
+                <Text style={styles.menuTitle}>{account.user.name}</Text>
+                <Text style={styles.menuSubtitle}>
+                  {account.signedIn ? account.user.email : `${account.user.email} · Signed out`}
+                </Text>
+              </View>
+              {isActive && <Ionicons name="checkmark-circle" size={22} color={theme.colors.primary[500]} />}
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={styles.menuItem}
+          onPress={addAccount}
+          accessibilityLabel="Add account"
+          accessibilityRole="button"
+          accessibilityHint="Sign in to another account without signing out of this one"
+        >
+          <View style={styles.menuIconContainer}>
+            <Ionicons name="person-add-outline" size={24} color={theme.colors.primary[500]} />
+          </View>
+          <View style={styles.menuContent}>
+            <Text style={styles.menuTitle}>Add Account</Text>
+            <Text style={styles.menuSubtitle}>Stay signed in to several accounts</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#ccc" />
+        </TouchableOpacity>
+      </View>
+
+      {/* Linked Accounts */}
+      {oauthService.isAvailable() && (
+        <>
+          <Text style={styles.sectionTitle}>Linked Accounts</Text>
+          <View style={styles.accountsContainer}>
+            {OAUTH_PROVIDERS.map((provider) => {
+              const { name, icon, color } = OAUTH_PROVIDER_DETAILS[provider];
+              const identity = identities?.find((candidate) => candidate.provider === provider);
+              return (
+                <View key={provider} style={styles.menuItem}>
+                  <View style={styles.menuIconContainer}>
+                    <Ionicons name={icon} size={24} color={color} />
+                  </View>
+                  <View style={styles.menuContent}>
+                    <Text style={styles.menuTitle}>{name}</Text>
+                    <Text style={styles.menuSubtitle}>
+                      {identity ? identity.email || identity.display_name || 'Linked' : 'Not linked'}
+                    </Text>
+                  </View>
+                  {linkingProvider === provider ? (
+                    <ActivityIndicator color={theme.colors.primary[500]} />
+                  ) : (
+                    <TouchableOpacity
+                      onPress={() => (identity ? handleUnlink(provider) : handleLink(provider))}
+                      disabled={linkingProvider !== null || !identities}
+                      accessibilityLabel={`${identity ? 'Unlink' : 'Link'} ${name}`}
+                      accessibilityRole="button"
+                    >
+                      <Text style={identity ? styles.unlinkText : styles.linkText}>
+                        {identity ? 'Unlink' : 'Link'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        </>
+      )}
+
       {/* Logout Button */}
       <TouchableOpacity
         style={styles.logoutButton}
@@ -197,7 +397,9 @@ export default function ProfileScreen({ navigation }: any) {
 
       {/* App Info */}
       <View style={styles.appInfo}>
-        <Text style={styles.appInfoText}>Artist Space Mobile v1.0.0</Text>
+        <Text style={styles.appInfoText} onPress={handleVersionTap} suppressHighlighting>
+          Artist Space Mobile v1.0.0
+        </Text>
         <Text style={styles.appInfoText}>© 2025 Artist Space</Text>
       </View>
     </ScrollView>
@@ -301,6 +503,21 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.gray[200],
     marginHorizontal: 16,
   },
+  deletionBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+    marginHorizontal: 16,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  deletionText: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 14,
+    color: '#92400e',
+  },
   menuContainer: {
     backgroundColor: theme.colors.background.primary,
     marginTop: 16,
@@ -337,6 +554,31 @@ const styles = StyleSheet.create({
     fontSize: theme.typography.sizes.sm,
     color: theme.colors.text.secondary,
   },
+  sectionTitle: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.fontWeights.semibold,
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+    marginTop: 24,
+    marginBottom: 8,
+    marginHorizontal: 16,
+  },
+  accountsContainer: {
+    backgroundColor: theme.colors.background.primary,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: theme.colors.gray[200],
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: theme.colors.primary[500],
+  },
+  unlinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#F44336',
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
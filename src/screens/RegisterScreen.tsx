@@ -11,8 +11,9 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Button, Input } from '../components/common';
-import { UserType } from '../types';
+import { OAuthProvider, UserType } from '../types';
 import apiService from '../services/api';
+import { useAuth } from '../services/AuthContext';
 
 interface UserTypeOption {
   type: UserType;
@@ -21,7 +22,7 @@ interface UserTypeOption {
   description: string;
 }
 
-type SocialProviderKey = 'facebook' | 'google' | 'patreon' | 'custom';
+type SocialProviderKey = OAuthProvider | 'custom';
 
 const USER_TYPE_OPTIONS: UserTypeOption[] = [
   {
@@ -83,7 +84,8 @@ const SOCIAL_AUTH_PROVIDERS: Array<{
   {
     key: 'patreon',
     label: 'Continue with Patreon',
-    icon: 'logo-patreon',
+    // Ionicons has no Patreon logo
+    icon: 'heart',
     color: '#FF424D',
   },
   {
@@ -111,15 +113,24 @@ export default function RegisterScreen({ navigation }: RegisterScreenProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const { loginWithOAuth } = useAuth();
 
-  const handleSocialAuth = (provider: SocialProviderKey) => {
-    const providerLabel =
-      SOCIAL_AUTH_PROVIDERS.find((item) => item.key === provider)?.label || 'this provider';
+  const handleSocialAuth = async (provider: SocialProviderKey) => {
+    if (provider === 'custom') {
+      Alert.alert(
+        'Coming Soon',
+        'Artist Space ID will be available shortly for Supporter accounts. Please continue with the secure email sign up above for now.'
+      );
+      return;
+    }
 
-    Alert.alert(
-      'Coming Soon',
-      `${providerLabel} will be available shortly for Supporter accounts. Please continue with the secure email sign up above for now.`
-    );
+    try {
+      // Signs straight in - navigation follows the auth state change
+      await loginWithOAuth(provider, { userType: selectedType ?? 'supporter' });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to sign up. Please try again.';
+      Alert.alert('Sign Up Failed', errorMessage);
+    }
   };
 
   const validateForm = (): boolean => {
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, SafeAreaView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, ErrorMessage } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import messageService from '../services/messages';
+import keyVerificationService, { ContactKey, contactKeyStatus } from '../services/keyVerification';
+import { formatLongDate } from '../utils/dateFormatters';
+
+/**
+ * Safety number for a 1:1 conversation (`userId`, `userName`). Matching
+ * numbers on both phones mean nobody swapped the keys in between.
+ */
+export default function SafetyNumberScreen({ navigation, route }: any) {
+  const { userId, userName } = route.params;
+  const [contact, setContact] = useState<ContactKey | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { data: safetyNumber, loading, error, reload } = useApiQuery(
+    async () => {
+      await messageService.refreshPublicKey(userId);
+      setContact(await keyVerificationService.getContactKey(userId));
+      return await keyVerificationService.getSafetyNumber(userId);
+    },
+    [userId],
+    { errorMessage: 'Failed to load the safety number' }
+  );
+
+  const status = contactKeyStatus(contact);
+
+  const update = async (action: () => Promise<ContactKey>) => {
+    setSaving(true);
+    try {
+      setContact(await action());
+    } catch (err) {
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update verification.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Safety Number</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading && !safetyNumber ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      ) : error || !safetyNumber ? (
+        <ErrorMessage
+          title="Couldn't Load Safety Number"
+          message={error ?? 'No encryption key yet'}
+          onRetry={reload}
+          fullScreen
+        />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          {status === 'changed' && (
+            <View style={styles.warningCard}>
+              <Ionicons name="warning-outline" size={20} color="#b45309" />
+              <Text style={styles.warningText}>
+                {userName}'s safety number changed
+                {contact?.changed_at ? ` on ${formatLongDate(contact.changed_at)}` : ''}. Verify it again before
+                sharing anything sensitive.
+              </Text>
+            </View>
+          )}
+
+          <View style={styles.numberCard}>
+            <View style={styles.numberGrid}>
+              {safetyNumber.split(' ').map((group, index) => (
+                <Text key={index} style={styles.numberGroup}>
+                  {group}
+                </Text>
+              ))}
+            </View>
+            <View style={styles.statusRow}>
+              <Ionicons
+                name={status === 'verified' ? 'shield-checkmark' : 'shield-outline'}
+                size={16}
+                color={status === 'verified' ? '#10b981' : '#9ca3af'}
+              />
+              <Text style={[styles.statusText, status === 'verified' && styles.statusTextVerified]}>
+                {status === 'verified' && contact?.verified_at
+                  ? `Verified ${formatLongDate(contact.verified_at)}`
+                  : 'Not verified'}
+              </Text>
+            </View>
+          </View>
+
+          <Text style={styles.text}>
+            To verify end-to-end encryption with {userName}, compare these numbers with the ones on their device,
+            in person or over a call. If they match, mark them as verified. You'll be warned if their key changes.
+          </Text>
+
+          {status === 'verified' ? (
+            <Button
+              title="Clear Verification"
+              onPress={() => update(() => keyVerificationService.clearVerification(userId))}
+              loading={saving}
+              disabled={saving}
+              variant="outline"
+              fullWidth
+            />
+          ) : (
+            <Button
+              title="Mark as Verified"
+              onPress={() => update(() => keyVerificationService.markVerified(userId))}
+              loading={saving}
+              disabled={saving}
+              icon="shield-checkmark-outline"
+              fullWidth
+            />
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  warningCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  warningText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#92400e',
+  },
+  numberCard: {
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+    alignItems: 'center',
+  },
+  numberGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    maxWidth: 280,
+  },
+  numberGroup: {
+    width: 80,
+    marginVertical: 6,
+    textAlign: 'center',
+    fontSize: 20,
+    fontFamily: 'monospace',
+    color: '#1f2937',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  statusText: {
+    marginLeft: 6,
+    fontSize: 13,
+    color: '#9ca3af',
+  },
+  statusTextVerified: {
+    color: '#10b981',
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 16,
+  },
+});
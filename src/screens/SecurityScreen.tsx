@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, SafeAreaView, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Button, Input } from '../components/common';
+import { ApiError } from '../services/api';
+import appLockService, { AUTO_LOCK_OPTIONS, PIN_PATTERN, StepUpError } from '../services/appLock';
+
+/**
+ * Privacy & Security: when the app locks itself, and the unlock PIN used
+ * where biometrics aren't available
+ */
+export default function SecurityScreen({ navigation }: any) {
+  const [autoLockTimeout, setAutoLockTimeout] = useState(() => appLockService.getAutoLockTimeout());
+  const [hasPin, setHasPin] = useState(() => appLockService.hasPin());
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+  const [editingPin, setEditingPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    appLockService.canUseBiometric().then(setBiometricAvailable);
+  }, []);
+
+  /**
+   * Run a change that needs the user to confirm it's them first
+   */
+  const withConfirmation = async (reason: string, action: () => Promise<void>) => {
+    try {
+      await appLockService.confirm(reason);
+      await action();
+    } catch (err) {
+      if (err instanceof StepUpError && err.cancelled) return;
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to update security settings.');
+    }
+  };
+
+  const handleSelectTimeout = async (value: number | null) => {
+    if (value === autoLockTimeout) return;
+
+    if (value !== null && !(await appLockService.hasUnlockMethod())) {
+      Alert.alert('Set Up a PIN First', 'This device has no biometrics. Set an unlock PIN to use auto-lock.');
+      setEditingPin(true);
+      return;
+    }
+
+    const apply = async () => {
+      await appLockService.setAutoLockTimeout(value);
+      setAutoLockTimeout(value);
+    };
+    // Turning the lock off or making it slower needs the same proof as unlocking
+    if (autoLockTimeout !== null && (value === null || value > autoLockTimeout)) {
+      await withConfirmation('Change auto-lock', apply);
+    } else {
+      await apply();
+    }
+  };
+
+  const handleSavePin = async () => {
+    if (!PIN_PATTERN.test(pin)) {
+      Alert.alert('Invalid PIN', 'Your PIN must be 4 to 6 digits.');
+      return;
+    }
+    if (pin !== confirmPin) {
+      Alert.alert('PINs Don\'t Match', 'Enter the same PIN twice.');
+      return;
+    }
+
+    const save = async () => {
+      await appLockService.setPin(pin);
+      setHasPin(true);
+      setEditingPin(false);
+      setPin('');
+      setConfirmPin('');
+    };
+
+    setSaving(true);
+    try {
+      if (hasPin) {
+        await withConfirmation('Change unlock PIN', save);
+      } else {
+        await save();
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemovePin = () => {
+    const lockOff = autoLockTimeout !== null && !biometricAvailable;
+    Alert.alert(
+      'Remove Unlock PIN',
+      lockOff ? 'Auto-lock will be turned off too - there\'s nothing else to unlock with.' : 'You\'ll unlock with biometrics only.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            withConfirmation('Remove unlock PIN', async () => {
+              await appLockService.clearPin();
+              setHasPin(false);
+              if (lockOff) {
+                await appLockService.setAutoLockTimeout(null);
+                setAutoLockTimeout(null);
+              }
+            }),
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerButton}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#1f2937" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Privacy & Security</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.sectionTitle}>Auto-Lock</Text>
+        <Text style={styles.text}>
+          Lock Artist Space when you haven't used it for a while or leave the app. Unlock with
+          {biometricAvailable ? ' biometrics or' : ''} your PIN. Payouts, payment methods and
+          encryption keys always ask first.
+        </Text>
+        <View style={styles.card}>
+          {AUTO_LOCK_OPTIONS.map((option, index) => {
+            const selected = option.value === autoLockTimeout;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[styles.optionRow, index > 0 && styles.optionDivider]}
+                onPress={() => handleSelectTimeout(option.value)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected }}
+              >
+                <Text style={styles.optionText}>{option.label}</Text>
+                {selected && <Ionicons name="checkmark" size={20} color="#6366f1" />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.sectionTitle}>Unlock PIN</Text>
+        <Text style={styles.text}>
+          {hasPin
+            ? 'A PIN is set for this device.'
+            : 'Set a 4 to 6 digit PIN for when biometrics aren\'t available.'}
+          {Platform.OS === 'web' &&
+            ' In a browser the PIN only keeps out someone passing by - it can\'t stop guessing like the app does.'}
+        </Text>
+        {editingPin ? (
+          <>
+            <Input
+              label={hasPin ? 'New PIN' : 'PIN'}
+              value={pin}
+              onChangeText={setPin}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+              icon="keypad-outline"
+            />
+            <Input
+              label="Confirm PIN"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              keyboardType="number-pad"
+              maxLength={6}
+              secureTextEntry
+              icon="keypad-outline"
+            />
+            <Button title="Save PIN" onPress={handleSavePin} loading={saving} disabled={saving} fullWidth />
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => {
+                setEditingPin(false);
+                setPin('');
+                setConfirmPin('');
+              }}
+              accessibilityRole="button"
+            >
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Button
+              title={hasPin ? 'Change PIN' : 'Set PIN'}
+              onPress={() => setEditingPin(true)}
+              variant="outline"
+              fullWidth
+              icon="keypad-outline"
+            />
+            {hasPin && (
+              <TouchableOpacity style={styles.linkButton} onPress={handleRemovePin} accessibilityRole="button">
+                <Text style={styles.removeText}>Remove PIN</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 8,
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 8,
+  },
+  card: {
+    marginBottom: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  optionDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 12,
+    padding: 12,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  removeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
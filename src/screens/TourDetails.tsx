@@ -12,7 +12,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
 import { tourService } from '../services';
-import { LoadingSpinner, ErrorMessage, StatusBadge, Button } from '../components/common';
+import { Can, LoadingSpinner, ErrorMessage, StatusBadge, Button } from '../components/common';
 import { TourDate } from '../types';
 import { formatLongDate, formatTime } from '../utils/dateFormatters';
 import theme from '../theme';
@@ -281,10 +281,12 @@ export default function TourDetails({ navigation, route }: TourDetailsProps) {
           </TouchableOpacity>
         )}
         {canCancel && (
-          <TouchableOpacity style={styles.cancelButton} onPress={handleCancelTour}>
-            <Ionicons name="close-circle" size={20} color={theme.colors.error} />
-            <Text style={styles.cancelButtonText}>Cancel Gig</Text>
-          </TouchableOpacity>
+          <Can permission="tour.cancel" bandId={tour.band_id}>
+            <TouchableOpacity style={styles.cancelButton} onPress={handleCancelTour}>
+              <Ionicons name="close-circle" size={20} color={theme.colors.error} />
+              <Text style={styles.cancelButtonText}>Cancel Gig</Text>
+            </TouchableOpacity>
+          </Can>
         )}
       </View>
     </View>
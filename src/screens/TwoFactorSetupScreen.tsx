@@ -0,0 +1,426 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Image,
+  Linking,
+  Share,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TwoFactorSetup } from '../types';
+import { Button, ErrorMessage, Input } from '../components/common';
+import { useApiQuery } from '../hooks/useApiQuery';
+import { ApiError } from '../services/api';
+import { useAuth } from '../services/AuthContext';
+import twoFactorService, { isTwoFactorRequired } from '../services/twoFactor';
+
+/**
+ * Groups of four, as authenticator apps show secrets
+ */
+function formatSecret(secret: string): string {
+  return secret.replace(/(.{4})/g, '$1 ').trim();
+}
+
+/**
+ * Turn two-factor authentication on or off, and manage recovery codes.
+ * Opened from the profile menu, or shown on its own after sign-in when the
+ * account is required to use 2FA (`route.params.forced`).
+ */
+export default function TwoFactorSetupScreen({ navigation, route }: any) {
+  const forced: boolean = route?.params?.forced ?? false;
+  const { user, refreshUser, logout } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { data: status, loading, error, reload } = useApiQuery(
+    (signal) => twoFactorService.getStatus({ signal }),
+    [],
+    { errorMessage: 'Failed to load two-factor settings' }
+  );
+
+  const required = status?.required ?? (user ? isTwoFactorRequired(user) : false);
+
+  const submit = async (action: () => Promise<void>, failure: string) => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      Alert.alert('Code Required', 'Please enter the 6-digit code from your authenticator app.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : failure);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+    try {
+      setSetup(await twoFactorService.setup());
+    } catch (err) {
+      Alert.alert('Error', err instanceof ApiError ? err.message : 'Failed to start two-factor setup.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleOpenAuthenticator = async () => {
+    if (!setup) return;
+    try {
+      await Linking.openURL(setup.otpauth_url);
+    } catch {
+      Alert.alert('No Authenticator App', 'Enter the setup key in your authenticator app instead.');
+    }
+  };
+
+  const handleEnable = () =>
+    submit(async () => {
+      setRecoveryCodes(await twoFactorService.enable(code.trim()));
+      setSetup(null);
+    }, 'Failed to turn on two-factor authentication.');
+
+  const handleRegenerate = () =>
+    submit(async () => {
+      setRecoveryCodes(await twoFactorService.regenerateRecoveryCodes(code.trim()));
+    }, 'Failed to create new recovery codes.');
+
+  const handleDisable = () => {
+    Alert.alert('Turn Off Two-Factor', 'Signing in will only need your password or PIN.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Turn Off',
+        style: 'destructive',
+        onPress: () =>
+          submit(async () => {
+            await twoFactorService.disable(code.trim());
+            await refreshUser();
+            reload();
+          }, 'Failed to turn off two-factor authentication.'),
+      },
+    ]);
+  };
+
+  const handleShareCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await Share.share({ message: `Artist Space recovery codes:\n\n${recoveryCodes.join('\n')}` });
+    } catch (error) {
+      // Share cancelled or failed - the codes are still on screen
+    }
+  };
+
+  // Recovery codes are saved - a forced setup hands over to the app
+  const handleDone = async () => {
+    setRecoveryCodes(null);
+    await refreshUser();
+    if (!forced) reload();
+  };
+
+  const renderCodeInput = (label: string) => (
+    <Input
+      label={label}
+      placeholder="123456"
+      value={code}
+      onChangeText={setCode}
+      keyboardType="number-pad"
+      maxLength={6}
+      icon="keypad-outline"
+    />
+  );
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <>
+          <Text style={styles.sectionTitle}>Save Your Recovery Codes</Text>
+          <Text style={styles.text}>
+            Each code signs you in once if you lose your authenticator. Keep them somewhere safe -
+            they won't be shown again.
+          </Text>
+          <View style={styles.codesGrid}>
+            {recoveryCodes.map((recoveryCode) => (
+              <Text key={recoveryCode} style={styles.recoveryCode} selectable>
+                {recoveryCode}
+              </Text>
+            ))}
+          </View>
+          <Button title="Share Codes" onPress={handleShareCodes} variant="outline" fullWidth icon="share-outline" />
+          <Button title="I've Saved Them" onPress={handleDone} fullWidth style={styles.button} />
+        </>
+      );
+    }
+
+    if (setup) {
+      return (
+        <>
+          <Text style={styles.sectionTitle}>1. Add Artist Space to your authenticator</Text>
+          {setup.qr_code && <Image source={{ uri: setup.qr_code }} style={styles.qrCode} />}
+          <Button
+            title="Open in Authenticator App"
+            onPress={handleOpenAuthenticator}
+            variant="outline"
+            fullWidth
+            icon="open-outline"
+          />
+          <Text style={styles.text}>Or enter this setup key:</Text>
+          <Text style={styles.secret} selectable>
+            {formatSecret(setup.secret)}
+          </Text>
+
+          <Text style={styles.sectionTitle}>2. Enter the code it shows</Text>
+          {renderCodeInput('Verification Code')}
+          <Button
+            title="Verify & Turn On"
+            onPress={handleEnable}
+            loading={submitting}
+            disabled={submitting}
+            fullWidth
+            icon="shield-checkmark-outline"
+          />
+        </>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <>
+          <View style={styles.statusRow}>
+            <Ionicons name="shield-checkmark" size={24} color="#10b981" />
+            <Text style={styles.statusText}>Two-factor authentication is on</Text>
+          </View>
+          <Text style={styles.text}>
+            {status.recovery_codes_remaining} recovery code{status.recovery_codes_remaining === 1 ? '' : 's'} left.
+            Enter a code from your authenticator to create new ones
+            {required ? '.' : ' or turn two-factor off.'}
+          </Text>
+          {renderCodeInput('Authenticator Code')}
+          <Button
+            title="Create New Recovery Codes"
+            onPress={handleRegenerate}
+            disabled={submitting}
+            variant="outline"
+            fullWidth
+            icon="refresh-outline"
+          />
+          {!required && (
+            <TouchableOpacity
+              style={styles.disableButton}
+              onPress={handleDisable}
+              disabled={submitting}
+              accessibilityRole="button"
+            >
+              <Text style={styles.disableText}>Turn Off Two-Factor Authentication</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.statusRow}>
+          <Ionicons name="shield-outline" size={24} color="#9ca3af" />
+          <Text style={styles.statusText}>Two-factor authentication is off</Text>
+        </View>
+        <Text style={styles.text}>
+          Signing in will also ask for a code from an authenticator app such as Google Authenticator,
+          1Password or Authy.
+        </Text>
+        <Button
+          title="Set Up Two-Factor"
+          onPress={handleStartSetup}
+          loading={submitting}
+          disabled={submitting}
+          fullWidth
+          icon="shield-checkmark-outline"
+        />
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        {forced ? (
+          <View style={styles.headerButton} />
+        ) : (
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.headerButton}
+            accessibilityLabel="Go back"
+            accessibilityRole="button"
+          >
+            <Ionicons name="arrow-back" size={24} color="#1f2937" />
+          </TouchableOpacity>
+        )}
+        <Text style={styles.headerTitle}>Two-Factor Authentication</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading && !status ? (
+        <View style={styles.loading}>
+          <ActivityIndicator size="large" color="#6366f1" />
+        </View>
+      ) : error && !status ? (
+        <ErrorMessage title="Couldn't Load Settings" message={error} onRetry={reload} fullScreen />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          {required && !status?.enabled && (
+            <View style={styles.requiredBanner} accessibilityRole="alert">
+              <Ionicons name="lock-closed-outline" size={20} color="#b45309" />
+              <Text style={styles.requiredText}>
+                Your account type requires two-factor authentication. Set it up to continue.
+              </Text>
+            </View>
+          )}
+
+          {renderContent()}
+
+          {forced && !recoveryCodes && (
+            <TouchableOpacity style={styles.disableButton} onPress={logout} accessibilityRole="button">
+              <Text style={styles.signOutText}>Sign Out</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  requiredBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: '#fef3c7',
+  },
+  requiredText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#92400e',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  statusText: {
+    marginLeft: 8,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  text: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginVertical: 12,
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  secret: {
+    fontSize: 16,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    color: '#1f2937',
+    textAlign: 'center',
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 8,
+    backgroundColor: '#eef2ff',
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    padding: 12,
+    marginBottom: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#fff',
+  },
+  recoveryCode: {
+    width: '48%',
+    fontSize: 15,
+    fontFamily: 'monospace',
+    color: '#1f2937',
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+  button: {
+    marginTop: 12,
+  },
+  disableButton: {
+    alignItems: 'center',
+    marginTop: 24,
+    padding: 12,
+  },
+  disableText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  signOutText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+});
@@ -6,11 +6,13 @@ import {
   ScrollView,
   RefreshControl,
   TouchableOpacity,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../services/AuthContext';
 import { venueService } from '../services';
 import {
+  Can,
   Card,
   LoadingSpinner,
   ErrorMessage,
@@ -321,13 +323,18 @@ export default function VenueDashboardScreen({ navigation }: VenueDashboardScree
             <Text style={styles.actionLabel}>All Events</Text>
           </TouchableOpacity>
 
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={handleViewPremiumContent}
-          >
-            <Ionicons name="videocam" size={32} color="#8b5cf6" />
-            <Text style={styles.actionLabel}>Premium</Text>
-          </TouchableOpacity>
+          <Can permission="venue.premium_content">
+            {({ allowed, message }) => (
+              <TouchableOpacity
+                style={[styles.actionButton, !allowed && styles.actionButtonDisabled]}
+                onPress={allowed ? handleViewPremiumContent : () => Alert.alert('Upgrade Required', message)}
+                accessibilityState={{ disabled: !allowed }}
+              >
+                <Ionicons name="videocam" size={32} color="#8b5cf6" />
+                <Text style={styles.actionLabel}>Premium</Text>
+              </TouchableOpacity>
+            )}
+          </Can>
 
           <TouchableOpacity style={styles.actionButton} onPress={handleViewEarnings}>
             <Ionicons name="stats-chart" size={32} color="#f59e0b" />
@@ -628,6 +635,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     ...createShadow({ width: 0, height: 1 }, 2, 0.05),
   },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
   actionLabel: {
     fontSize: 12,
     fontWeight: '600',
@@ -1,10 +1,27 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { Platform, Alert } from 'react-native';
+import { Platform, Alert, AppState } from 'react-native';
 import { getItemAsync, setItemAsync, deleteItemAsync } from './storage';
-import apiService, { ApiError } from './api';
+import apiService, { ApiError, SessionEndReason, isTwoFactorChallenge } from './api';
 import messageService from './messages';
+import groupMessageService from './groupMessages';
+import uploadService from './uploads';
+import backendProfileService from './backendProfiles';
+import accountService, { Account } from './accounts';
+import sessionService from './sessions';
+import oauthService, { OAuthCancelledError } from './oauth';
+import appLockService from './appLock';
+import realtimeService from './realtime';
+import { getDeviceInfo } from '../utils/device';
 import encryptionService from './encryption';
-import { User, LoginCredentials, RegisterData } from '../types';
+import {
+  User,
+  LoginCredentials,
+  RegisterData,
+  AuthResponse,
+  TwoFactorChallenge,
+  OAuthProvider,
+  UserType,
+} from '../types';
 
 // Conditionally import LocalAuthentication only on native platforms
 let LocalAuthentication: any = null;
@@ -16,12 +33,30 @@ interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  /** The session couldn't be refreshed - the user was sent back to sign in */
+  sessionExpired: boolean;
+  /** Why the session ended: expired, or signed out from another device */
+  sessionEndReason: SessionEndReason | null;
   error: string | null;
+  /** Accounts on this device, including the active one */
+  accounts: Account[];
   biometricAvailable: boolean;
   biometricEnabled: boolean;
+  /** Set when login needs a 2FA code before the user is signed in */
+  twoFactorChallenge: TwoFactorChallenge | null;
   login: (credentials: LoginCredentials, rememberMe?: boolean) => Promise<void>;
   loginWithPin: (email: string, pinCode: string) => Promise<void>;
+  /** Sign in with Google, Facebook or Patreon; new identities sign up as `userType` */
+  loginWithOAuth: (provider: OAuthProvider, options?: { userType?: UserType }) => Promise<void>;
+  /** Finish a 2FA sign-in with the authenticator code, or a recovery code */
+  verifyTwoFactor: (code: string, options?: { recovery?: boolean }) => Promise<void>;
+  /** Abandon the 2FA step and go back to the sign-in form */
+  cancelTwoFactor: () => void;
+  /** Sign the active account out; another signed-in account takes over */
   logout: () => Promise<void>;
+  switchAccount: (accountId: string) => Promise<void>;
+  /** Show sign-in for another account, keeping the current one signed in */
+  addAccount: () => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   refreshUser: () => Promise<void>;
   clearError: () => void;
@@ -40,17 +75,97 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [error, setError] = useState<string | null>(null);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
+  const sessionExpired = sessionEndReason !== null;
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  // "Remember me" from the password step, applied once the code checks out
+  const [twoFactorRememberMe, setTwoFactorRememberMe] = useState(false);
 
   useEffect(() => {
     initializeAuth();
   }, []);
 
+  // Auto-lock only runs while someone is signed in
+  const signedIn = !!user;
+  useEffect(() => {
+    if (signedIn) {
+      appLockService.start();
+    } else {
+      appLockService.stop();
+    }
+  }, [signedIn]);
+
+  // New messages, typing and receipts are pushed to whoever is signed in, and
+  // their disappearing messages are purged whether or not a chat is open
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    realtimeService.start(userId);
+    messageService.startExpiryPurge();
+    return () => {
+      realtimeService.stop();
+      messageService.stopExpiryPurge();
+    };
+  }, [userId]);
+
+  // Public keys were fetched with the previous account's session
+  useEffect(() => {
+    return accountService.subscribe(() => {
+      setAccounts(accountService.getAccounts());
+      messageService.clearPublicKeyCache();
+      groupMessageService.clearSenderKeys();
+    });
+  }, []);
+
+  // Refresh token rejected or this device signed out remotely - back to sign-in.
+  // The account keeps its keys and queued changes for when it signs back in.
+  useEffect(() => {
+    return apiService.onSessionExpired(async (reason) => {
+      setSessionEndReason(reason);
+      setUser(null);
+      await accountService.detach(true);
+    });
+  }, []);
+
+  // The session may have been revoked from another device while we were in
+  // the background - any authenticated request finds out
+  useEffect(() => {
+    let previous = AppState.currentState;
+    const subscription = AppState.addEventListener?.('change', (state) => {
+      if (previous !== 'active' && state === 'active' && accountService.getActiveAccount()) {
+        apiService.getCurrentUser().catch(() => undefined);
+      }
+      previous = state;
+    });
+    return () => subscription?.remove();
+  }, []);
+
+  // Switching backend profiles signs every account out (accountService drops
+  // their keys) - their sessions belong to the old backend
+  useEffect(() => {
+    return backendProfileService.subscribe(({ backendChanged }) => {
+      if (!backendChanged) return;
+
+      setUser(null);
+      setSessionEndReason(null);
+      setTwoFactorChallenge(null);
+    });
+  }, []);
+
   /**
    * Initialize authentication state
    * Check for stored token and biometric availability
    */
   const initializeAuth = async () => {
     try {
+      // Requests below must go to the saved backend profile, with the active account's tokens
+      await backendProfileService.load();
+      await accountService.load();
+      setAccounts(accountService.getAccounts());
+      await appLockService.load();
+
       // Check biometric availability (only on native platforms)
       if (LocalAuthentication) {
         try {
@@ -68,18 +183,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Check if biometric is enabled
       const bioEnabled = await getItemAsync(BIOMETRIC_KEY);
       setBiometricEnabled(bioEnabled === 'true');
+      apiService.setDeviceInfo(getDeviceInfo(bioEnabled === 'true'));
 
       // Try to restore session
       const token = await getItemAsync('authToken');
       if (token) {
+        let userData: User | null = null;
         try {
-          const userData = await apiService.getCurrentUser();
-          setUser(userData);
+          userData = await apiService.getCurrentUser();
         } catch (error) {
-          // Token expired or invalid, clear it
-          await deleteItemAsync('authToken');
-          await deleteItemAsync('userData');
+          if (error instanceof ApiError && (error.status === 401 || error.status === 403)) {
+            // Token expired or revoked, clear it
+            await deleteItemAsync('authToken');
+            await deleteItemAsync('userData');
+            await accountService.detach(true);
+          } else {
+            // Offline or the server is down - carry on as the saved user, from the offline cache
+            userData = (await apiService.getStoredUser()) as User | null;
+          }
+        }
+
+        if (userData) {
+          setUser(userData);
+          // No telling how long the app was closed - a restored session starts locked
+          appLockService.lock();
+          await apiService.resumeSession();
+          await accountService.updateUser(userData);
+          setAccounts(accountService.getAccounts());
         }
+      } else if (accountService.getActiveAccount()) {
+        await accountService.detach(true);
       }
     } catch (error) {
       if (__DEV__) console.error('Auth initialization failed:', error);
@@ -88,6 +221,39 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Hand the new session to the account that signed in. Must run before
+   * E2EE setup so an account that was here before finds its own keys.
+   */
+  const completeSignIn = async (signedIn: User) => {
+    setSessionEndReason(null);
+    await accountService.activate(signedIn);
+  };
+
+  /**
+   * Everything after the server accepted the sign-in (and any 2FA code)
+   */
+  const finishSignIn = async (response: AuthResponse, rememberMe: boolean) => {
+    await completeSignIn(response.user);
+    setUser(response.user);
+
+    // Initialize E2EE encryption keys
+    try {
+      await messageService.initializeE2EE();
+      if (__DEV__) console.log('✅ E2EE initialized successfully');
+    } catch (e2eeError) {
+      if (__DEV__) console.error('⚠️ E2EE initialization failed (non-critical):', e2eeError);
+      // Don't fail login if E2EE initialization fails
+    }
+
+    // SECURITY: Enable biometric for future logins using refresh token
+    // We store the refresh token instead of credentials for better security
+    if (rememberMe && response.refreshToken) {
+      await setItemAsync(BIOMETRIC_KEY, 'true');
+      await setItemAsync('refreshToken', response.refreshToken);
+    }
+  };
+
   /**
    * Login with email and password
    */
@@ -97,23 +263,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setError(null);
 
       const response = await apiService.login(credentials);
-      setUser(response.user);
-
-      // Initialize E2EE encryption keys
-      try {
-        await messageService.initializeE2EE();
-        if (__DEV__) console.log('✅ E2EE initialized successfully');
-      } catch (e2eeError) {
-        if (__DEV__) console.error('⚠️ E2EE initialization failed (non-critical):', e2eeError);
-        // Don't fail login if E2EE initialization fails
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response);
+        setTwoFactorRememberMe(rememberMe);
+        return;
       }
 
-      // SECURITY: Enable biometric for future logins using refresh token
-      // We store the refresh token instead of credentials for better security
-      if (rememberMe && response.refreshToken) {
-        await setItemAsync(BIOMETRIC_KEY, 'true');
-        await setItemAsync('refreshToken', response.refreshToken);
-      }
+      await finishSignIn(response, rememberMe);
     } catch (err) {
       const errorMessage = err instanceof ApiError ? err.message : 'Login failed. Please try again.';
       setError(errorMessage);
@@ -132,16 +288,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setError(null);
 
       const response = await apiService.loginWithPin(email.trim().toLowerCase(), pinCode.trim());
-      setUser(response.user);
-
-      // Initialize E2EE encryption keys
-      try {
-        await messageService.initializeE2EE();
-        if (__DEV__) console.log('✅ E2EE initialized successfully');
-      } catch (e2eeError) {
-        if (__DEV__) console.error('⚠️ E2EE initialization failed (non-critical):', e2eeError);
-        // Don't fail login if E2EE initialization fails
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response);
+        setTwoFactorRememberMe(false);
+        return;
       }
+
+      await finishSignIn(response, false);
     } catch (err) {
       const errorMessage = err instanceof ApiError ? err.message : 'Invalid or expired PIN code. Please try again.';
       setError(errorMessage);
@@ -151,6 +304,64 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Sign in through an OAuth provider. Backing out of the provider's page
+   * isn't an error.
+   */
+  const loginWithOAuth = async (provider: OAuthProvider, options: { userType?: UserType } = {}) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await oauthService.signIn(provider, options);
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response);
+        setTwoFactorRememberMe(false);
+        return;
+      }
+
+      await finishSignIn(response, false);
+    } catch (err) {
+      if (err instanceof OAuthCancelledError) return;
+      const errorMessage = err instanceof ApiError ? err.message : 'Sign-in failed. Please try again.';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Second sign-in step for accounts with two-factor authentication
+   */
+  const verifyTwoFactor = async (code: string, options: { recovery?: boolean } = {}) => {
+    if (!twoFactorChallenge) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { challengeToken } = twoFactorChallenge;
+      const trimmed = code.replace(/\s/g, '');
+      const response = await apiService.verifyTwoFactor(
+        options.recovery ? { challengeToken, recoveryCode: trimmed } : { challengeToken, code: trimmed }
+      );
+      setTwoFactorChallenge(null);
+      await finishSignIn(response, twoFactorRememberMe);
+    } catch (err) {
+      const errorMessage = err instanceof ApiError ? err.message : 'Invalid verification code. Please try again.';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setTwoFactorChallenge(null);
+    setError(null);
+  };
+
   /**
    * Logout
    */
@@ -158,21 +369,75 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       setIsLoading(true);
       await apiService.logout();
-      setUser(null);
+      setSessionEndReason(null);
 
       // Clear encryption keys for security
       await encryptionService.clearKeys();
       messageService.clearPublicKeyCache();
+      groupMessageService.clearSenderKeys();
+
+      // Pending uploads belong to the signed-out user
+      await uploadService.clear();
 
       // Clear refresh token but keep biometric setting so user can re-login with biometric
       await deleteItemAsync('refreshToken');
+
+      const signedOut = accountService.getActiveAccount();
+      if (signedOut) {
+        await accountService.remove(signedOut.id);
+      }
+
+      // Carry on with the most recently used account that's still signed in
+      const next = accountService
+        .getAccounts()
+        .filter((account) => account.signedIn)
+        .sort((a, b) => b.lastActiveAt - a.lastActiveAt)[0];
+      setUser(next ? (await accountService.switchTo(next.id)).user : null);
     } catch (error) {
+      setUser(null);
       if (__DEV__) console.error('Logout error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * Switch to another account on this device. An account whose session
+   * expired goes to sign-in instead.
+   */
+  const switchAccount = async (accountId: string) => {
+    const account = accountService.getAccount(accountId);
+    if (!account || account.id === user?.id) return;
+
+    if (!account.signedIn) {
+      await addAccount();
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const switched = await accountService.switchTo(accountId);
+      setSessionEndReason(null);
+      setUser(switched.user);
+    } finally {
+      setIsLoading(false);
+    }
+
+    // Pick up profile changes made on other devices
+    refreshUser();
+  };
+
+  /**
+   * Sign in another account without signing the current one out
+   */
+  const addAccount = async () => {
+    await accountService.detach();
+    setSessionEndReason(null);
+    setError(null);
+    setUser(null);
+  };
+
   /**
    * Register new user
    */
@@ -185,6 +450,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       // Auto-login after successful registration
       if (response.token && response.user) {
+        await completeSignIn(response.user);
         setUser(response.user);
 
         // Initialize E2EE encryption keys for new user
@@ -211,6 +477,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       const userData = await apiService.getCurrentUser();
       setUser(userData);
+      await accountService.updateUser(userData);
+      setAccounts(accountService.getAccounts());
     } catch (error) {
       if (__DEV__) console.error('Failed to refresh user:', error);
       // If refresh fails, user might need to re-login
@@ -227,6 +495,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setError(null);
   };
 
+  /**
+   * Keep this device's entry in the sessions list in step with the biometric setting
+   */
+  const reportBiometric = (enabled: boolean) => {
+    apiService.setDeviceInfo(getDeviceInfo(enabled));
+    sessionService.updateCurrentDevice({ biometric_enabled: enabled }).catch((error) => {
+      if (__DEV__) console.warn('Failed to update device session:', error);
+    });
+  };
+
   /**
    * Enable biometric authentication
    */
@@ -250,6 +528,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (result.success) {
         await setItemAsync(BIOMETRIC_KEY, 'true');
         setBiometricEnabled(true);
+        reportBiometric(true);
         Alert.alert('Success', 'Biometric authentication enabled!');
       }
     } catch (error) {
@@ -266,6 +545,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await deleteItemAsync(BIOMETRIC_KEY);
       await deleteItemAsync('refreshToken');
       setBiometricEnabled(false);
+      reportBiometric(false);
       Alert.alert('Success', 'Biometric authentication disabled.');
     } catch (error) {
       if (__DEV__) console.error('Disable biometric error:', error);
@@ -293,6 +573,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         if (refreshToken) {
           try {
             const response = await apiService.refreshAuthToken(refreshToken);
+            await completeSignIn(response.user);
             setUser(response.user);
 
             // Initialize E2EE for biometric login
@@ -326,12 +607,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         user,
         isAuthenticated: !!user,
         isLoading,
+        sessionExpired,
+        sessionEndReason,
         error,
+        accounts,
         biometricAvailable,
         biometricEnabled,
+        twoFactorChallenge,
         login,
         loginWithPin,
+        loginWithOAuth,
+        verifyTwoFactor,
+        cancelTwoFactor,
         logout,
+        switchAccount,
+        addAccount,
         register,
         refreshUser,
         clearError,
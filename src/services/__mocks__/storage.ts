@@ -0,0 +1,24 @@
+/**
+ * In-memory storage for tests - `jest.mock('../storage')` picks it up.
+ * Keys aren't scoped per account.
+ */
+
+import { jest } from '@jest/globals';
+
+export const __store = new Map<string, string>();
+
+export const getItemAsync = jest.fn(async (key: string) => __store.get(key) ?? null);
+
+export const setItemAsync = jest.fn(async (key: string, value: string) => {
+  __store.set(key, value);
+});
+
+export const deleteItemAsync = jest.fn(async (key: string) => {
+  __store.delete(key);
+});
+
+export const accountKey = (key: string) => key;
+
+export const setAccountScope = jest.fn(async () => undefined);
+
+export const clearAccountScope = jest.fn(async () => undefined);
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for data export and account deletion against the mock backend
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import accountDataService, { ACCOUNT_DELETION_GRACE_DAYS } from '../accountData';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import { User } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+describe('accountDataService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    await signInAs('sarah');
+  });
+
+  afterEach(async () => {
+    await apiService.logout();
+  });
+
+  it('should export the account with message history decrypted', async () => {
+    await messageService.initializeE2EE();
+
+    const archive = await accountDataService.exportData();
+
+    expect(archive.profile.email).toBe('sarah@demo.artist-space.com');
+    expect(archive.bands.map((band) => band.id)).toEqual(
+      expect.arrayContaining(['b-midnight-echo', 'b-jazz-collective'])
+    );
+    expect(archive.conversations.length).toBeGreaterThan(0);
+    archive.conversations.forEach(({ messages }) =>
+      messages.forEach((message) => {
+        expect(message.text).toEqual(expect.any(String));
+        expect(message.text).not.toBe('[Unable to decrypt message]');
+      })
+    );
+  });
+
+  it('should schedule deletion with a grace period and let the user cancel it', async () => {
+    const deletion = await accountDataService.scheduleDeletion();
+    const graceMs = new Date(deletion.purge_after).getTime() - new Date(deletion.deleted_at).getTime();
+    expect(graceMs).toBe(ACCOUNT_DELETION_GRACE_DAYS * 86400000);
+
+    // Still signed in on this device, and the pending deletion shows on the user
+    const user = (await apiService.getCurrentUser()) as User;
+    expect(accountDataService.getPendingDeletion(user)).toEqual(deletion);
+
+    await accountDataService.cancelDeletion();
+    const restored = (await apiService.getCurrentUser()) as User;
+    expect(accountDataService.getPendingDeletion(restored)).toBeNull();
+  });
+
+  it('should refuse to cancel a deletion that was never scheduled', async () => {
+    await expect(accountDataService.cancelDeletion()).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('should not treat an admin deletion as the user\'s own', () => {
+    const user = { deleted_at: new Date().toISOString(), suspension_reason: 'admin_deleted' } as User;
+
+    expect(accountDataService.getPendingDeletion(user)).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for multi-account storage isolation
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import accountService from '../accounts';
+import offlineService from '../offline';
+import { getItemAsync, setItemAsync } from '../storage';
+import { User } from '../../types';
+
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+
+function makeUser(id: string): User {
+  return {
+    id,
+    email: `${id}@example.com`,
+    name: id,
+    user_type: 'user',
+    status: 'active',
+    requires_password_reset: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  } as User;
+}
+
+/**
+ * Store tokens the way a completed sign-in does, then hand them to the account
+ */
+async function signIn(id: string) {
+  await setItemAsync('authToken', `token-${id}`);
+  await setItemAsync('e2ee_secret_key', `secret-${id}`);
+  return accountService.activate(makeUser(id));
+}
+
+describe('accountService', () => {
+  beforeEach(async () => {
+    offlineService.attach(async () => {
+      throw { status: undefined };
+    });
+    await accountService.removeAll();
+    await AsyncStorage.clear();
+  });
+
+  it('should hand the sign-in tokens to the account that signed in', async () => {
+    await signIn('alice');
+
+    expect(accountService.getActiveAccount()?.id).toBe('alice');
+    expect(await getItemAsync('authToken')).toBe('token-alice');
+
+    await accountService.detach();
+    expect(await getItemAsync('authToken')).toBeNull();
+  });
+
+  it('should keep tokens and E2EE keys separate per account', async () => {
+    await signIn('alice');
+    await accountService.detach();
+    await signIn('bob');
+
+    expect(await getItemAsync('e2ee_secret_key')).toBe('secret-bob');
+
+    await accountService.switchTo('alice');
+    expect(await getItemAsync('authToken')).toBe('token-alice');
+    expect(await getItemAsync('e2ee_secret_key')).toBe('secret-alice');
+    expect(accountService.getAccounts().map((account) => account.id)).toEqual(['alice', 'bob']);
+  });
+
+  it('should keep queued changes with the account that made them', async () => {
+    await signIn('alice');
+    await offlineService.enqueue({ method: 'post', endpoint: '/bands', data: { name: 'A' } });
+    await accountService.detach();
+    await signIn('bob');
+
+    expect(await offlineService.getPendingRequests()).toHaveLength(0);
+
+    await accountService.switchTo('alice');
+    const pending = await offlineService.getPendingRequests();
+    expect(pending.map((request) => request.endpoint)).toEqual(['/bands']);
+  });
+
+  it('should delete a removed account and leave no account active', async () => {
+    await signIn('alice');
+    await accountService.remove('alice');
+
+    expect(accountService.getActiveAccount()).toBeNull();
+    expect(accountService.getAccounts()).toEqual([]);
+
+    await accountService.activate(makeUser('alice'));
+    expect(await getItemAsync('e2ee_secret_key')).toBeNull();
+  });
+
+  it('should keep contact keys per account and delete them with it', async () => {
+    await signIn('alice');
+    await setItemAsync('e2ee_contact_key_u-leo', 'leo-key');
+    await setItemAsync('e2ee_contact_key_u-priya', 'priya-key');
+    await accountService.detach();
+    await signIn('bob');
+    expect(await getItemAsync('e2ee_contact_key_u-leo')).toBeNull();
+
+    await accountService.remove('alice');
+    await accountService.activate(makeUser('alice'));
+    expect(await getItemAsync('e2ee_contact_key_u-leo')).toBeNull();
+    expect(await getItemAsync('e2ee_contact_key_u-priya')).toBeNull();
+  });
+
+  it('should mark an expired account as signed out', async () => {
+    await signIn('alice');
+    await accountService.detach(true);
+
+    expect(accountService.getAccount('alice')?.signedIn).toBe(false);
+    expect(accountService.getActiveAccount()).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit tests for ApiService request de-duplication, cancellation and correlation IDs
+ */
+
+import apiService, { ApiError, OfflineQueuedError, RequestCancelledError, isCancelledError } from '../api';
+import { CORRELATION_HEADER } from '../networkLog';
+import offlineService from '../offline';
+
+type RequestConfig = { url?: string; signal?: AbortSignal };
+
+/**
+ * Replace the axios client's request method with one we can resolve by hand
+ */
+function mockClient() {
+  const pending: Array<{ config: RequestConfig; resolve: (data: unknown) => void }> = [];
+  const request = jest.fn(
+    (config: RequestConfig) =>
+      new Promise((resolve, reject) => {
+        pending.push({ config, resolve: (data) => resolve({ data }) });
+        config.signal?.addEventListener('abort', () => reject(new RequestCancelledError()));
+      })
+  );
+  (apiService as unknown as { client: { request: typeof request } }).client.request = request;
+  return { request, pending };
+}
+
+describe('ApiService', () => {
+  describe('GET de-duplication', () => {
+    it('should share one request between identical concurrent GETs', async () => {
+      const { request, pending } = mockClient();
+
+      const first = apiService.get('/bands/1', undefined, { cachePolicy: 'network-only' });
+      const second = apiService.get('/bands/1', undefined, { cachePolicy: 'network-only' });
+
+      expect(request).toHaveBeenCalledTimes(1);
+      pending[0].resolve({ id: '1' });
+
+      await expect(first).resolves.toEqual({ id: '1' });
+      await expect(second).resolves.toEqual({ id: '1' });
+    });
+
+    it('should send a new request once the previous one finished', async () => {
+      const { request, pending } = mockClient();
+
+      const first = apiService.get('/bands/2', undefined, { cachePolicy: 'network-only' });
+      pending[0].resolve([]);
+      await first;
+
+      apiService.get('/bands/2', undefined, { cachePolicy: 'network-only' });
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not share requests when dedupe is disabled', () => {
+      const { request } = mockClient();
+
+      apiService.get('/bands/3', undefined, { cachePolicy: 'network-only', dedupe: false });
+      apiService.get('/bands/3', undefined, { cachePolicy: 'network-only', dedupe: false });
+
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should reject with RequestCancelledError when aborted', async () => {
+      const { request } = mockClient();
+      const controller = new AbortController();
+
+      const result = apiService.get('/tours', undefined, {
+        cachePolicy: 'network-only',
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+      expect(request.mock.calls[0][0].signal?.aborted).toBe(true);
+    });
+
+    it('should keep a shared request alive while another caller still waits', async () => {
+      const { pending } = mockClient();
+      const controller = new AbortController();
+
+      const cancelled = apiService.get('/tours/my-tours', undefined, {
+        cachePolicy: 'network-only',
+        signal: controller.signal,
+      });
+      const kept = apiService.get('/tours/my-tours', undefined, { cachePolicy: 'network-only' });
+
+      controller.abort();
+      await expect(cancelled).rejects.toBeInstanceOf(RequestCancelledError);
+
+      expect(pending[0].config.signal?.aborted).toBe(false);
+      pending[0].resolve(['tour']);
+      await expect(kept).resolves.toEqual(['tour']);
+    });
+
+    it('should reject immediately if the signal is already aborted', async () => {
+      const { request } = mockClient();
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = apiService.get('/studios', undefined, { signal: controller.signal });
+
+      const error = await result.catch((err) => err);
+      expect(isCancelledError(error)).toBe(true);
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('correlation IDs', () => {
+    it('should reuse one correlation ID across retries and tag the final error', async () => {
+      const request = jest.fn((_config: { headers?: Record<string, string> }) =>
+        Promise.reject(new ApiError('Service unavailable', 503))
+      );
+      (apiService as unknown as { client: { request: typeof request } }).client.request = request;
+
+      const error = await apiService
+        .get('/tours/payments', undefined, {
+          cachePolicy: 'network-only',
+          retry: { maxRetries: 1, baseDelayMs: 0, maxDelayMs: 0 },
+        })
+        .catch((err) => err);
+
+      const ids = request.mock.calls.map(([config]) => config.headers?.[CORRELATION_HEADER]);
+      expect(ids).toHaveLength(2);
+      expect(ids[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(ids[1]).toBe(ids[0]);
+      expect(error.correlationId).toBe(ids[0]);
+    });
+
+    it('should use a new correlation ID for each call', async () => {
+      const { request, pending } = mockClient();
+
+      const first = apiService.post('/tours', { band_id: '1' });
+      pending[0].resolve({});
+      await first;
+      const second = apiService.post('/tours', { band_id: '1' });
+      pending[1].resolve({});
+      await second;
+
+      const [firstConfig, secondConfig] = request.mock.calls.map(
+        ([config]) => config as { headers?: Record<string, string> }
+      );
+      expect(firstConfig.headers?.[CORRELATION_HEADER]).not.toBe(secondConfig.headers?.[CORRELATION_HEADER]);
+    });
+  });
+
+  describe('offline queue', () => {
+    it('should send the same idempotency key on the first attempt and every replay', async () => {
+      const request = jest.fn(
+        (_config: { headers?: Record<string, string> }): Promise<unknown> =>
+          Promise.reject(new ApiError('Network Error', undefined, { networkError: true }))
+      );
+      (apiService as unknown as { client: { request: typeof request } }).client.request = request;
+
+      const error = await apiService
+        .post('/tours/t1/kpis', { attendance: 120 }, { queueOffline: true, retry: false })
+        .catch((err) => err);
+      expect(error).toBeInstanceOf(OfflineQueuedError);
+
+      await offlineService.sync();
+      request.mockResolvedValueOnce({ data: {} });
+      await offlineService.sync();
+
+      const keys = request.mock.calls.map(([config]) => config.headers?.['Idempotency-Key']);
+      expect(keys).toHaveLength(3);
+      expect(keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+      expect(new Set(keys).size).toBe(1);
+      expect(await offlineService.getPendingRequests()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit tests for auto-lock and step-up confirmation
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import nacl from 'tweetnacl';
+import { decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import appLockService, { MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, StepUpError } from '../appLock';
+import apiService from '../api';
+import paymentService from '../payments';
+
+// Outside the factory so a restarted app (a fresh module registry) sees the same store
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async (key: string) => mockSecureStore.get(key) ?? null),
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockSecureStore.set(key, value);
+  }),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockSecureStore.delete(key);
+  }),
+}));
+
+const authenticateAsync = LocalAuthentication.authenticateAsync as jest.Mock;
+const isEnrolledAsync = LocalAuthentication.isEnrolledAsync as jest.Mock;
+
+let changeAppState: (state: AppStateStatus) => void;
+
+describe('appLockService', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, handler: any) => {
+      changeAppState = handler;
+      return { remove: jest.fn() } as any;
+    });
+    authenticateAsync.mockReset();
+    isEnrolledAsync.mockResolvedValue(true);
+
+    appLockService.stop();
+    appLockService.setPinPrompt(null);
+    await appLockService.clearPin();
+    await appLockService.setAutoLockTimeout(null);
+  });
+
+  afterEach(() => {
+    appLockService.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('auto-lock', () => {
+    it('should lock after the inactivity timeout', async () => {
+      await appLockService.setAutoLockTimeout(60 * 1000);
+      appLockService.start();
+
+      jest.advanceTimersByTime(45 * 1000);
+      appLockService.recordActivity();
+      jest.advanceTimersByTime(45 * 1000);
+      expect(appLockService.isLocked()).toBe(false);
+
+      jest.advanceTimersByTime(15 * 1000);
+      expect(appLockService.isLocked()).toBe(true);
+    });
+
+    it('should lock when the app was in the background too long', async () => {
+      await appLockService.setAutoLockTimeout(5 * 60 * 1000);
+      appLockService.start();
+
+      changeAppState('background');
+      jest.setSystemTime(Date.now() + 60 * 1000);
+      changeAppState('active');
+      expect(appLockService.isLocked()).toBe(false);
+
+      changeAppState('background');
+      jest.setSystemTime(Date.now() + 6 * 60 * 1000);
+      changeAppState('active');
+      expect(appLockService.isLocked()).toBe(true);
+    });
+
+    it('should ignore system prompts making the app inactive', async () => {
+      await appLockService.setAutoLockTimeout(0);
+      appLockService.start();
+
+      changeAppState('inactive');
+      changeAppState('active');
+      expect(appLockService.isLocked()).toBe(false);
+
+      changeAppState('background');
+      changeAppState('active');
+      expect(appLockService.isLocked()).toBe(true);
+    });
+
+    it('should not lock when auto-lock is off', () => {
+      appLockService.start();
+
+      changeAppState('background');
+      jest.setSystemTime(Date.now() + 60 * 60 * 1000);
+      changeAppState('active');
+      appLockService.lock();
+      expect(appLockService.isLocked()).toBe(false);
+    });
+
+    it('should stop accepting the PIN after too many wrong attempts', async () => {
+      await appLockService.setPin('2468');
+      await appLockService.setAutoLockTimeout(0);
+      appLockService.start();
+      appLockService.lock();
+
+      expect(await appLockService.unlockWithPin('1111')).toBe(false);
+      expect(appLockService.getRemainingPinAttempts()).toBe(MAX_PIN_ATTEMPTS - 1);
+      expect(await appLockService.unlockWithPin('2468')).toBe(true);
+      expect(appLockService.isLocked()).toBe(false);
+
+      appLockService.lock();
+      for (let i = 0; i < MAX_PIN_ATTEMPTS; i++) {
+        await appLockService.unlockWithPin('1111');
+      }
+      expect(await appLockService.unlockWithPin('2468')).toBe(false);
+      expect(appLockService.isLocked()).toBe(true);
+    });
+
+    it('should keep the attempt count and lockout across restarts', async () => {
+      const restart = async () => {
+        let restarted!: typeof appLockService;
+        jest.isolateModules(() => {
+          restarted = require('../appLock').default;
+        });
+        await restarted.load();
+        return restarted;
+      };
+      await appLockService.setPin('2468');
+
+      await appLockService.unlockWithPin('1111');
+      await appLockService.unlockWithPin('1111');
+      expect((await restart()).getRemainingPinAttempts()).toBe(MAX_PIN_ATTEMPTS - 2);
+
+      for (let i = 2; i < MAX_PIN_ATTEMPTS; i++) {
+        await appLockService.unlockWithPin('1111');
+      }
+      let restarted = await restart();
+      expect(restarted.getRemainingPinAttempts()).toBe(0);
+      expect(await restarted.unlockWithPin('2468')).toBe(false);
+
+      jest.advanceTimersByTime(PIN_LOCKOUT_MS);
+      restarted = await restart();
+      expect(restarted.getRemainingPinAttempts()).toBe(MAX_PIN_ATTEMPTS);
+      expect(await restarted.unlockWithPin('2468')).toBe(true);
+      expect((await restart()).getRemainingPinAttempts()).toBe(MAX_PIN_ATTEMPTS);
+    });
+
+    it('should rehash a PIN saved as a single SHA-512 once it\'s entered', async () => {
+      const legacy = { salt: 'c2FsdA==', hash: encodeBase64(nacl.hash(decodeUTF8('c2FsdA==:2468'))) };
+      mockSecureStore.set('unlockPin', JSON.stringify(legacy));
+      await appLockService.load();
+
+      expect(await appLockService.unlockWithPin('2468')).toBe(true);
+      const saved = JSON.parse(mockSecureStore.get('unlockPin') ?? '{}');
+      expect(saved.iterations).toBeGreaterThan(1);
+      expect(saved.hash).not.toBe(legacy.hash);
+      expect(await appLockService.unlockWithPin('2468')).toBe(true);
+    });
+  });
+
+  describe('confirm', () => {
+    it('should pass once biometrics succeed', async () => {
+      authenticateAsync.mockResolvedValueOnce({ success: true });
+
+      await expect(appLockService.confirm('Confirm payout')).resolves.toBeUndefined();
+      expect(authenticateAsync).toHaveBeenCalledWith(expect.objectContaining({ promptMessage: 'Confirm payout' }));
+    });
+
+    it('should reject when the biometric prompt is cancelled', async () => {
+      authenticateAsync.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+
+      await expect(appLockService.confirm('Confirm payout')).rejects.toMatchObject({
+        name: 'StepUpError',
+        cancelled: true,
+      });
+    });
+
+    it('should fall back to the PIN when biometrics fail', async () => {
+      authenticateAsync.mockResolvedValueOnce({ success: false, error: 'lockout' });
+      await appLockService.setPin('2468');
+      const prompt = jest.fn(async (_reason: string, verify: (pin: string) => Promise<boolean>) => {
+        expect(await verify('1111')).toBe(false);
+        return await verify('2468');
+      });
+      appLockService.setPinPrompt(prompt);
+
+      await expect(appLockService.confirm('Remove payment method')).resolves.toBeUndefined();
+      expect(prompt).toHaveBeenCalledWith('Remove payment method', expect.any(Function));
+    });
+
+    it('should ask for a PIN to be set up when there is no way to confirm', async () => {
+      isEnrolledAsync.mockResolvedValue(false);
+
+      const error = await appLockService.confirm('Confirm payout').catch((err) => err);
+      expect(error).toBeInstanceOf(StepUpError);
+      expect(error.cancelled).toBe(false);
+    });
+
+    it('should not mark a payout paid without confirmation', async () => {
+      authenticateAsync.mockResolvedValueOnce({ success: false, error: 'user_cancel' });
+      const call = jest.spyOn(apiService, 'call');
+
+      await expect(paymentService.markPayoutAsPaid('payment-1', 'payout-1')).rejects.toBeInstanceOf(StepUpError);
+      expect(call).not.toHaveBeenCalled();
+    });
+  });
+});
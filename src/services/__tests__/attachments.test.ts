@@ -0,0 +1,119 @@
+/**
+ * Unit tests for encrypted message attachments
+ */
+
+import { decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import apiService, { ApiError } from '../api';
+import attachmentService, { decodeMessageBody, encodeMessageBody } from '../attachments';
+import backendProfileService from '../backendProfiles';
+import { endpoints } from '../endpoints';
+import groupMessageService from '../groupMessages';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+const STAGE_PLOT = encodeBase64(decodeUTF8('drums center, keys stage left'));
+
+describe('message bodies', () => {
+  it('should leave text-only messages as plain text', () => {
+    expect(encodeMessageBody('See you at 8')).toBe('See you at 8');
+    expect(decodeMessageBody('See you at 8')).toEqual({ content: 'See you at 8' });
+  });
+
+  it('should round-trip text with attachments', () => {
+    const attachment = {
+      id: 'att-1',
+      kind: 'file' as const,
+      name: 'contract.pdf',
+      mime_type: 'application/pdf',
+      size: 10,
+      key: 'key',
+      nonce: 'nonce',
+    };
+
+    expect(decodeMessageBody(encodeMessageBody('Signed copy', [attachment]))).toEqual({
+      content: 'Signed copy',
+      attachments: [attachment],
+    });
+  });
+
+  it('should round-trip replies and actions', () => {
+    const reply_to = { message_id: 'msg-1', sender_id: 'u-leo', preview: 'Soundcheck at 5?' };
+    const action = { type: 'reaction' as const, message_id: 'msg-1', emoji: '👍' };
+
+    expect(decodeMessageBody(encodeMessageBody('Yes', [], { reply_to }))).toEqual({
+      content: 'Yes',
+      attachments: [],
+      reply_to,
+    });
+    expect(decodeMessageBody(encodeMessageBody('', [], { action }))).toEqual({ content: '', attachments: [], action });
+  });
+});
+
+describe('attachmentService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    messageService.clearPublicKeyCache();
+    groupMessageService.clearSenderKeys();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+  });
+
+  afterEach(async () => {
+    attachmentService.clearCache();
+    await apiService.logout();
+  });
+
+  it('should upload only ciphertext and decrypt it on download', async () => {
+    const attachment = await attachmentService.upload({
+      base64: STAGE_PLOT,
+      name: 'stage-plot.txt',
+      mime_type: 'text/plain',
+    });
+    expect(attachment).toMatchObject({ kind: 'file', size: 29 });
+
+    const stored = await apiService.call(endpoints.messages.attachment, { params: { attachmentId: attachment.id } });
+    expect(stored.data).not.toContain(STAGE_PLOT);
+
+    attachmentService.clearCache();
+    expect(await attachmentService.open(attachment)).toBe(`data:text/plain;base64,${STAGE_PLOT}`);
+  });
+
+  it('should deliver attachments with direct and group messages', async () => {
+    const attachment = await attachmentService.upload({
+      base64: STAGE_PLOT,
+      name: 'Voice note.m4a',
+      mime_type: 'audio/mp4',
+      duration_ms: 4200,
+    });
+
+    await messageService.sendMessage({ recipient_id: 'u-leo', content: '', attachments: [attachment] });
+    const thread = await messageService.getConversation('u-leo');
+    expect(thread.find((message) => message.attachments)?.attachments).toEqual([attachment]);
+
+    const [group] = await groupMessageService.getGroups();
+    const photo = await attachmentService.upload({ base64: STAGE_PLOT, name: 'flyer.png', mime_type: 'image/png' });
+    await groupMessageService.sendMessage(group.id, 'New flyer', [photo]);
+    const groupThread = await groupMessageService.getMessages(group.id);
+    const sent = groupThread.find((message) => message.attachments);
+    expect(sent?.content).toBe('New flyer');
+    expect(sent?.attachments).toEqual([photo]);
+  });
+
+  it('should not let others download attachments that weren\'t sent to them', async () => {
+    const attachment = await attachmentService.upload({ base64: STAGE_PLOT, name: 'draft.txt', mime_type: 'text/plain' });
+    attachmentService.clearCache();
+
+    await apiService.logout();
+    await signInAs('leo');
+
+    await expect(attachmentService.open(attachment)).rejects.toBeInstanceOf(ApiError);
+  });
+});
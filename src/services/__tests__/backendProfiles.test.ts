@@ -0,0 +1,103 @@
+/**
+ * Unit tests for backend profile switching
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import backendProfileService, { DEV_PROXY_URL, ProfileChange, getApiBaseUrl } from '../backendProfiles';
+
+describe('backendProfileService', () => {
+  let changes: ProfileChange[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    await backendProfileService.load();
+    for (const profile of backendProfileService.getProfiles()) {
+      await backendProfileService.removeProfile(profile.id);
+    }
+    await backendProfileService.setActiveProfile('env');
+
+    changes = [];
+    unsubscribe = backendProfileService.subscribe((change) => {
+      changes.push(change);
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it('should notify subscribers with backendChanged when the API URL changes', async () => {
+    await backendProfileService.setActiveProfile('staging');
+
+    expect(backendProfileService.getActiveProfile().id).toBe('staging');
+    expect(changes).toHaveLength(1);
+    expect(changes[0].previous.id).toBe('env');
+    expect(changes[0].backendChanged).toBe(true);
+  });
+
+  it('should persist the active profile', async () => {
+    await backendProfileService.setActiveProfile('production');
+
+    const stored = JSON.parse((await AsyncStorage.getItem('backend_profiles')) || '{}');
+    expect(stored.activeId).toBe('production');
+  });
+
+  it('should apply edits to the active profile without a backend change for timeouts', async () => {
+    const active = backendProfileService.getActiveProfile();
+    await backendProfileService.saveProfile({ ...active, timeouts: { ...active.timeouts, api: 30000 } });
+
+    expect(backendProfileService.getActiveProfile().timeouts.api).toBe(30000);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].backendChanged).toBe(false);
+  });
+
+  it('should route through the dev proxy when enabled', async () => {
+    const active = backendProfileService.getActiveProfile();
+    await backendProfileService.saveProfile({ ...active, useProxy: true });
+
+    expect(getApiBaseUrl(backendProfileService.getActiveProfile())).toBe(DEV_PROXY_URL);
+    expect(changes[0].backendChanged).toBe(true);
+  });
+
+  it('should reset an edited built-in profile and fall back from a deleted custom one', async () => {
+    await backendProfileService.saveProfile({ ...backendProfileService.getProfile('local')!, name: 'My laptop' });
+    await backendProfileService.removeProfile('local');
+    expect(backendProfileService.getProfile('local')!.name).toBe('Local');
+
+    const draft = backendProfileService.createDraft();
+    await backendProfileService.saveProfile({ ...draft, apiBaseUrl: 'http://192.168.1.20:8787/api' });
+    await backendProfileService.setActiveProfile(draft.id);
+    await backendProfileService.removeProfile(draft.id);
+
+    expect(backendProfileService.getActiveProfile().id).toBe('env');
+    expect(changes[changes.length - 1].backendChanged).toBe(true);
+  });
+
+  it('should reject unknown profiles', async () => {
+    await expect(backendProfileService.setActiveProfile('nope')).rejects.toThrow('Unknown backend profile');
+  });
+
+  it('should ignore and clear a saved profile in builds without developer settings', async () => {
+    await backendProfileService.setActiveProfile('mock');
+    const { EXPO_PUBLIC_ENV } = process.env;
+    const dev = (global as any).__DEV__;
+
+    let production!: typeof backendProfileService;
+    try {
+      process.env.EXPO_PUBLIC_ENV = 'production';
+      (global as any).__DEV__ = false;
+      jest.isolateModules(() => {
+        production = require('../backendProfiles').default;
+      });
+      await production.load();
+    } finally {
+      if (EXPO_PUBLIC_ENV === undefined) delete process.env.EXPO_PUBLIC_ENV;
+      else process.env.EXPO_PUBLIC_ENV = EXPO_PUBLIC_ENV;
+      (global as any).__DEV__ = dev;
+    }
+
+    expect(production.getActiveProfile().id).toBe('env');
+    expect(await AsyncStorage.getItem('backend_profiles')).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Unit tests for encrypted storage
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import accountService from '../accounts';
+import { readEncrypted, writeEncrypted } from '../encryptedStorage';
+
+jest.mock('../storage');
+
+const storage = jest.requireMock('../storage') as { __store: Map<string, string> };
+
+describe('encryptedStorage', () => {
+  beforeEach(async () => {
+    storage.__store.clear();
+    await AsyncStorage.clear();
+    // Forgets the data key of the previous test
+    await accountService.removeAll();
+  });
+
+  it('should use one data key for concurrent first writes', async () => {
+    await Promise.all([writeEncrypted('sessions', { a: 1 }), writeEncrypted('history', { b: 2 })]);
+
+    expect(await readEncrypted('sessions')).toEqual({ a: 1 });
+    expect(await readEncrypted('history')).toEqual({ b: 2 });
+  });
+
+  it('should reject a value that fails to decrypt with the current key', async () => {
+    await writeEncrypted('sessions', { a: 1 });
+    await writeEncrypted('history', { b: 2 });
+    const sessions = JSON.parse((await AsyncStorage.getItem('sessions')) || '{}');
+    const history = JSON.parse((await AsyncStorage.getItem('history')) || '{}');
+    await AsyncStorage.setItem('sessions', JSON.stringify({ ...sessions, nonce: history.nonce }));
+
+    await expect(readEncrypted('sessions')).rejects.toThrow('could not be decrypted');
+  });
+
+  it('should start over on a value written under a data key that\'s gone', async () => {
+    await writeEncrypted('sessions', { a: 1 });
+    storage.__store.clear();
+    await accountService.removeAll();
+
+    expect(await readEncrypted('sessions')).toBeNull();
+  });
+});
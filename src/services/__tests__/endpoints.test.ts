@@ -0,0 +1,53 @@
+/**
+ * Unit tests for the endpoint registry
+ */
+
+import { buildPath, endpoints } from '../endpoints';
+
+describe('endpoints', () => {
+  describe('buildPath', () => {
+    it('should fill in every path param', () => {
+      expect(buildPath(endpoints.bandMembers.remove.path, { bandId: 'b1', memberId: 'm2' })).toBe(
+        '/band-members/b1/m2'
+      );
+    });
+
+    it('should leave paths without params unchanged', () => {
+      expect(buildPath(endpoints.bands.mine.path)).toBe('/bands/my/all');
+    });
+
+    it('should URL-encode param values', () => {
+      expect(buildPath(endpoints.bands.getById.path, { bandId: 'a/b c' })).toBe('/bands/a%2Fb%20c');
+    });
+
+    it('should throw when a param is missing', () => {
+      expect(() => buildPath(endpoints.tours.kpis.path, {})).toThrow('Missing path param "tourId"');
+    });
+  });
+
+  describe('route table', () => {
+    it('should record the HTTP method for each route', () => {
+      expect(endpoints.bands.getById.method).toBe('GET');
+      expect(endpoints.bands.update.method).toBe('PUT');
+      expect(endpoints.messages.send.method).toBe('POST');
+      expect(endpoints.bandMedia.remove.method).toBe('DELETE');
+    });
+
+    it('should not declare the same method and path twice', () => {
+      const seen = new Set<string>();
+      const visit = (node: object) => {
+        Object.values(node).forEach((value) => {
+          if (value && typeof value.path === 'string') {
+            const key = `${value.method} ${value.path}`;
+            expect(seen.has(key)).toBe(false);
+            seen.add(key);
+          } else if (value && typeof value === 'object') {
+            visit(value);
+          }
+        });
+      };
+      visit(endpoints);
+      expect(seen.size).toBeGreaterThan(50);
+    });
+  });
+});
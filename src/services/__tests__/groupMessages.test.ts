@@ -0,0 +1,107 @@
+/**
+ * Unit tests for encrypted group messages against the mock backend
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import { endpoints } from '../endpoints';
+import groupMessageService from '../groupMessages';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+/**
+ * Recipients of each sender key Sarah hands out while `run` runs
+ */
+async function distributedTo(run: () => Promise<unknown>): Promise<string[][]> {
+  const call = jest.spyOn(apiService, 'call');
+  try {
+    await run();
+    return call.mock.calls
+      .filter(([endpoint]) => endpoint === endpoints.groups.distributeSenderKey)
+      .map(([, request]) =>
+        (request as { body: { envelopes: Array<{ recipient_id: string }> } }).body.envelopes.map(
+          (envelope) => envelope.recipient_id
+        )
+      );
+  } finally {
+    call.mockRestore();
+  }
+}
+
+describe('groupMessageService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    groupMessageService.clearSenderKeys();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+  });
+
+  afterEach(async () => {
+    await apiService.logout();
+  });
+
+  it('should list band groups alongside ad-hoc groups', async () => {
+    const groups = await groupMessageService.getGroups();
+
+    expect(groups.map((group) => group.id)).toEqual(
+      expect.arrayContaining(['grp-b-midnight-echo', 'grp-b-jazz-collective', 'grp-harbor-hall'])
+    );
+  });
+
+  it('should decrypt messages from other members with their sender keys', async () => {
+    const messages = await groupMessageService.getMessages('grp-harbor-hall');
+
+    expect(messages.map((message) => message.content)).toEqual([
+      'Welcome, everyone - this one is for the Harbor Hall show.',
+      'Doors at 7, stage time 9. Parking is round the back.',
+    ]);
+  });
+
+  it('should encrypt once for the group and read its own messages back', async () => {
+    const sent = await groupMessageService.sendMessage('grp-b-midnight-echo', 'New merch arrived 👕');
+    expect(sent.content).toBe('New merch arrived 👕');
+    expect(sent.ciphertext).not.toContain('merch');
+
+    // A fresh device state recovers the sender key from its own envelope
+    groupMessageService.clearSenderKeys();
+    const messages = await groupMessageService.getMessages('grp-b-midnight-echo');
+    expect(messages.find((message) => message.id === sent.id)?.content).toBe('New merch arrived 👕');
+  });
+
+  it('should rotate to a new sender key that leaves out removed members', async () => {
+    const group = await groupMessageService.createGroup('Load-in', ['u-leo', 'u-priya']);
+
+    const before = await distributedTo(() => groupMessageService.sendMessage(group.id, 'Van leaves at 3'));
+    expect(before).toEqual([expect.arrayContaining(['u-sarah', 'u-leo', 'u-priya'])]);
+
+    await groupMessageService.removeMember(group.id, 'u-priya');
+    const after = await distributedTo(() => groupMessageService.sendMessage(group.id, 'Actually 2:30'));
+
+    expect(after).toHaveLength(1);
+    expect(after[0]).not.toContain('u-priya');
+    expect((await groupMessageService.getGroup(group.id)).key_epoch).toBe(group.key_epoch + 1);
+  });
+
+  it('should re-encrypt for the new epoch when membership changes mid-send', async () => {
+    const group = await groupMessageService.createGroup('Horns', ['u-leo']);
+    const stale = await groupMessageService.getGroup(group.id);
+    await groupMessageService.addMembers(group.id, ['u-priya']);
+
+    // First attempt encrypts for the epoch it just looked up, which is gone
+    const getGroup = jest.spyOn(groupMessageService, 'getGroup').mockResolvedValueOnce(stale);
+    try {
+      const sent = await groupMessageService.sendMessage(group.id, 'Welcome Priya!');
+      expect(sent.key_epoch).toBe(stale.key_epoch + 1);
+    } finally {
+      getGroup.mockRestore();
+    }
+  });
+});
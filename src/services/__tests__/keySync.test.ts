@@ -0,0 +1,107 @@
+/**
+ * Unit tests for passphrase key backup and device linking
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import encryptionService from '../encryption';
+import keySyncService, { WRONG_PASSPHRASE_MESSAGE, derivePassphraseKey } from '../keySync';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+const PASSPHRASE = 'correct horse battery staple';
+// Backups derive their key with the full iteration count
+const BACKUP_TIMEOUT_MS = 30000;
+
+describe('derivePassphraseKey', () => {
+  it('should depend on the passphrase, salt and iterations', async () => {
+    const key = await derivePassphraseKey(PASSPHRASE, 'c2FsdA==', 10);
+
+    expect(await derivePassphraseKey(PASSPHRASE, 'c2FsdA==', 10)).toBe(key);
+    expect(await derivePassphraseKey(`${PASSPHRASE}!`, 'c2FsdA==', 10)).not.toBe(key);
+    expect(await derivePassphraseKey(PASSPHRASE, 'cGVwcGVy', 10)).not.toBe(key);
+    expect(await derivePassphraseKey(PASSPHRASE, 'c2FsdA==', 11)).not.toBe(key);
+  });
+
+  it('should still open backups made with fewer iterations', async () => {
+    expect(await derivePassphraseKey('correct horse', 'c2FsdA==', 1000)).toBe(
+      'OLVIYs9d725fWAOJJefTRceqvLMxlIyJ7RdZ81m79nQ='
+    );
+  });
+});
+
+describe('keySyncService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    messageService.clearPublicKeyCache();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+  });
+
+  afterEach(async () => {
+    await keySyncService.cancelLink();
+    await apiService.logout();
+  });
+
+  it('should restore keys from a passphrase backup', async () => {
+    const original = await encryptionService.initializeKeys();
+    const backup = await keySyncService.createBackup(PASSPHRASE);
+    expect(backup.ciphertext).not.toContain(original.secretKey);
+    expect(backup.iterations).toBeGreaterThanOrEqual(210000);
+
+    await encryptionService.rotateKeys();
+    await keySyncService.restoreBackup(PASSPHRASE);
+
+    expect((await encryptionService.initializeKeys()).publicKey).toBe(original.publicKey);
+  }, BACKUP_TIMEOUT_MS);
+
+  it('should reject the wrong passphrase', async () => {
+    await keySyncService.createBackup(PASSPHRASE);
+    const current = await encryptionService.initializeKeys();
+
+    await expect(keySyncService.restoreBackup('not my passphrase')).rejects.toThrow(WRONG_PASSPHRASE_MESSAGE);
+    expect(await encryptionService.initializeKeys()).toEqual(current);
+  }, BACKUP_TIMEOUT_MS);
+
+  it('should move keys to a device that scans the code', async () => {
+    const original = await encryptionService.initializeKeys();
+    const code = await keySyncService.startLink();
+    expect(code).toMatch(/^artistspace-link:[A-Z2-7]{103}\.[A-Z2-7]{32}$/);
+
+    await keySyncService.approveLink(code);
+    const replaced = await encryptionService.rotateKeys();
+    await keySyncService.waitForLink();
+
+    expect((await encryptionService.initializeKeys()).publicKey).toBe(original.publicKey);
+    expect((await encryptionService.getPreviousKeyPairs()).map((keyPair) => keyPair.publicKey)).toContain(
+      replaced.publicKey
+    );
+  });
+
+  it('should not accept keys sent without the code\'s secret', async () => {
+    const code = await keySyncService.startLink();
+    const wrongSecret = code.slice(0, -1) + (code.endsWith('A') ? 'B' : 'A');
+
+    await keySyncService.approveLink(wrongSecret);
+    const current = await encryptionService.initializeKeys();
+
+    await expect(keySyncService.waitForLink()).rejects.toThrow();
+    expect(await encryptionService.initializeKeys()).toEqual(current);
+  });
+
+  it('should refuse a link whose key doesn\'t match the whole hash in the code', async () => {
+    const code = await keySyncService.startLink();
+    const [, hash] = code.match(/:([A-Z2-7]+)\./) ?? [];
+    const wrongHash = code.replace(hash, hash.slice(0, -1) + (hash.endsWith('A') ? 'B' : 'A'));
+
+    await expect(keySyncService.getLink(wrongHash)).rejects.toThrow('doesn\'t match the code');
+  });
+});
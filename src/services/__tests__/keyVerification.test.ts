@@ -0,0 +1,97 @@
+/**
+ * Unit tests for safety numbers and contact key change detection
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import encryptionService from '../encryption';
+import keyVerificationService, { ContactKey, computeSafetyNumber, contactKeyStatus } from '../keyVerification';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+const storage = jest.requireMock('../storage') as { __store: Map<string, string> };
+
+describe('computeSafetyNumber', () => {
+  const sarah = { userId: 'u-sarah', publicKey: encryptionService.generateKeyPair().publicKey };
+  const leo = { userId: 'u-leo', publicKey: encryptionService.generateKeyPair().publicKey };
+
+  it('should give both sides the same 60 digits', () => {
+    const number = computeSafetyNumber(sarah, leo);
+
+    expect(number).toMatch(/^(\d{5} ){11}\d{5}$/);
+    expect(computeSafetyNumber(leo, sarah)).toBe(number);
+  });
+
+  it('should change when either key changes', () => {
+    const rotated = { ...leo, publicKey: encryptionService.generateKeyPair().publicKey };
+
+    expect(computeSafetyNumber(sarah, rotated)).not.toBe(computeSafetyNumber(sarah, leo));
+  });
+});
+
+describe('keyVerificationService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    storage.__store.clear();
+    messageService.clearPublicKeyCache();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+  });
+
+  afterEach(async () => {
+    await apiService.logout();
+  });
+
+  it('should trust the first key seen and remember verification', async () => {
+    const publicKey = await messageService.getPublicKey('u-leo');
+
+    const seen = await keyVerificationService.getContactKey('u-leo');
+    expect(seen?.public_key).toBe(publicKey);
+    expect(contactKeyStatus(seen)).toBe('unverified');
+
+    await keyVerificationService.markVerified('u-leo');
+    expect(contactKeyStatus(await keyVerificationService.getContactKey('u-leo'))).toBe('verified');
+  });
+
+  it('should warn and drop verification when a contact\'s key changes', async () => {
+    const original = await messageService.getPublicKey('u-leo');
+    await keyVerificationService.markVerified('u-leo');
+
+    // Leo reinstalls and uploads a new key
+    await apiService.logout();
+    await signInAs('leo');
+    await encryptionService.rotateKeys();
+    await messageService.uploadPublicKey();
+    await apiService.logout();
+    await signInAs('sarah');
+
+    const changes: ContactKey[] = [];
+    const unsubscribe = keyVerificationService.subscribe((contact) => changes.push(contact));
+    await messageService.refreshPublicKey('u-leo');
+    unsubscribe();
+
+    const contact = await keyVerificationService.getContactKey('u-leo');
+    expect(contactKeyStatus(contact)).toBe('changed');
+    expect(contact?.previous_key).toBe(original);
+    expect(contact?.verified_at).toBeUndefined();
+    expect(changes).toEqual([contact]);
+
+    await keyVerificationService.acknowledgeChange('u-leo');
+    expect(contactKeyStatus(await keyVerificationService.getContactKey('u-leo'))).toBe('unverified');
+  });
+
+  it('should not flag an unchanged key fetched again', async () => {
+    await messageService.getPublicKey('u-marcus');
+    await messageService.refreshPublicKey('u-marcus');
+
+    expect(contactKeyStatus(await keyVerificationService.getContactKey('u-marcus'))).toBe('unverified');
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the local message store and search
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import { endpoints } from '../endpoints';
+import messageService from '../messages';
+import messageStore, { quoteMessage } from '../messageStore';
+import mockBackend from '../mockBackend';
+import { Message, MessageAction } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+describe('messageStore', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    messageService.clearPublicKeyCache();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+    await messageStore.clear();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await apiService.logout();
+  });
+
+  it('should only download messages it hasn\'t stored', async () => {
+    const first = await messageService.getConversation('u-leo');
+    const call = jest.spyOn(apiService, 'call');
+
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Soundcheck at 5' });
+    const second = await messageService.getConversation('u-leo');
+
+    const fetches = call.mock.calls.filter(([endpoint]) => endpoint === endpoints.messages.conversation);
+    expect(fetches).toHaveLength(1);
+    expect(fetches[0][1]?.query).toEqual({ after: first[first.length - 1].id });
+
+    const fetched: Message[] = await call.mock.results[call.mock.calls.indexOf(fetches[0])].value;
+    expect(fetched.map((message) => message.id)).toContain(sent.id);
+    expect(fetched.filter((message) => first.some((old) => old.id === message.id))).toEqual([]);
+    expect(second.find((message) => message.id === sent.id)?.content).toBe('Soundcheck at 5');
+  });
+
+  it('should find stored messages ignoring case and accents', async () => {
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Drinks at Café Noir after the show?' });
+    await messageService.getConversation('u-leo');
+
+    const results = await messageStore.search('cafe NOIR');
+    expect(results.map((result) => result.message.id)).toContain(sent.id);
+    expect(results.find((result) => result.message.id === sent.id)).toMatchObject({
+      thread: { userId: 'u-leo' },
+      snippet: 'Drinks at Café Noir after the show?',
+    });
+
+    // Every word has to match
+    expect(await messageStore.search('cafe breakfast')).toEqual([]);
+  });
+
+  it('should keep a decrypted copy over one that failed to decrypt', async () => {
+    const thread = { userId: 'u-leo' };
+    const message = { id: 'm-1', sender_id: 'u-leo', content: 'Setlist attached', created_at: '2026-01-01T00:00:00Z' };
+    await messageStore.sync(thread, async () => ({ messages: [message], fromServer: [message] }));
+
+    const failed = { ...message, content: undefined, decryption_failed: true };
+    const stored = await messageStore.sync(thread, async () => ({ messages: [failed], fromServer: [] }));
+
+    expect(stored).toEqual([message]);
+    expect((await messageStore.getThread(thread)).cursor).toBe('m-1');
+  });
+
+  it('should not return messages that failed to decrypt', async () => {
+    const thread = { groupId: 'g-1' };
+    const failed = {
+      id: 'm-2',
+      sender_id: 'u-leo',
+      content: 'Setlist',
+      created_at: '2026-01-01T00:00:00Z',
+      decryption_failed: true,
+    };
+    await messageStore.sync(thread, async () => ({ messages: [failed], fromServer: [failed] }));
+
+    expect(await messageStore.search('setlist')).toEqual([]);
+  });
+
+  it('should fold reactions and edits into the message they change', async () => {
+    const thread = { userId: 'u-leo' };
+    const at = (minute: number) => `2026-01-01T00:0${minute}:00Z`;
+    const message = { id: 'm-1', sender_id: 'u-sarah', content: 'Load in at 4', created_at: at(0) };
+    const actions = [
+      { id: 'm-2', sender_id: 'u-leo', content: '', created_at: at(1), action: react('👍') },
+      { id: 'm-3', sender_id: 'u-sarah', content: '', created_at: at(2), action: edit('Load in at 5') },
+      // Only whoever sent a message can change it
+      { id: 'm-4', sender_id: 'u-leo', content: '', created_at: at(3), action: edit('Load in at 9') },
+      { id: 'm-5', sender_id: 'u-leo', content: '', created_at: at(4), action: react('🔥') },
+      { id: 'm-6', sender_id: 'u-sarah', content: '', created_at: at(5), action: react('👍') },
+    ];
+    const fromServer = [message, ...actions];
+    const stored = await messageStore.sync(thread, async () => ({ messages: fromServer, fromServer }));
+
+    expect(stored.find((item) => item.id === 'm-1')).toMatchObject({
+      content: 'Load in at 5',
+      edited_at: at(2),
+      edit_history: [{ content: 'Load in at 4', created_at: at(0) }],
+      reactions: { 'u-leo': '🔥', 'u-sarah': '👍' },
+    });
+    expect(await messageStore.search('load')).toHaveLength(1);
+
+    const undo = { id: 'm-7', sender_id: 'u-leo', content: '', created_at: at(6), action: react(null) };
+    const after = await messageStore.sync(thread, async () => ({ messages: [undo], fromServer: [undo] }));
+    expect(after.find((item) => item.id === 'm-1')?.reactions).toEqual({ 'u-sarah': '👍' });
+  });
+
+  it('should leave nothing of a message deleted for everyone', async () => {
+    const thread = { groupId: 'g-1' };
+    const message = { id: 'm-1', sender_id: 'u-leo', content: 'Door code 4821', created_at: '2026-01-01T00:00:00Z' };
+    const fromServer = [
+      message,
+      {
+        id: 'm-2',
+        sender_id: 'u-sarah',
+        content: 'Thanks',
+        created_at: '2026-01-01T00:01:00Z',
+        reply_to: quoteMessage(message),
+      },
+      {
+        id: 'm-3',
+        sender_id: 'u-leo',
+        content: '',
+        created_at: '2026-01-01T00:02:00Z',
+        action: { type: 'delete' as const, message_id: 'm-1' },
+      },
+    ];
+    const stored = await messageStore.sync(thread, async () => ({ messages: fromServer, fromServer }));
+
+    expect(stored.find((item) => item.id === 'm-1')).toMatchObject({ content: '', deleted: true });
+    expect(stored.find((item) => item.id === 'm-2')?.reply_to).toEqual({
+      message_id: 'm-1',
+      sender_id: 'u-leo',
+      preview: '',
+    });
+    expect(await messageStore.search('4821')).toEqual([]);
+  });
+});
+
+function react(emoji: string | null): MessageAction {
+  return { type: 'reaction', message_id: 'm-1', emoji };
+}
+
+function edit(content: string): MessageAction {
+  return { type: 'edit', message_id: 'm-1', content };
+}
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for disappearing messages, message retention, and replies,
+ * reactions and edits
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import adminService from '../admin';
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import { endpoints } from '../endpoints';
+import messageService from '../messages';
+import messageStore, { quoteMessage } from '../messageStore';
+import mockBackend from '../mockBackend';
+import { Message } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+const HOUR = 3600;
+
+beforeAll(async () => {
+  mockBackend.latency = [0, 0];
+  await backendProfileService.setActiveProfile('mock');
+});
+
+beforeEach(async () => {
+  mockBackend.reset();
+  messageService.clearPublicKeyCache();
+  await signInAs('sarah');
+  await messageService.initializeE2EE();
+  await messageStore.clear();
+});
+
+afterEach(async () => {
+  messageService.stopExpiryPurge();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  await apiService.logout();
+});
+
+describe('messageService disappearing messages', () => {
+  it('should announce a new timer and stamp messages sent after it', async () => {
+    const notice = await messageService.setExpiry('u-leo', HOUR);
+    expect(notice.system).toEqual({ type: 'expiry_timer', ttl_seconds: HOUR });
+    expect(await messageService.getExpiry('u-leo')).toEqual({ ttl_seconds: HOUR, max_ttl_seconds: null });
+
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Deposit is 40%' });
+    expect(Date.parse(sent.expires_at!) - Date.parse(sent.created_at)).toBe(HOUR * 1000);
+
+    const thread = await messageService.getConversation('u-leo');
+    expect(thread.map((message) => message.id)).toEqual(expect.arrayContaining([notice.id, sent.id]));
+  });
+
+  it('should delete expired messages here and on the server', async () => {
+    // Fake time still moves on its own, for the mock backend's latency
+    jest.useFakeTimers({ advanceTimers: true });
+    await messageService.setExpiry('u-leo', 2);
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Account number 1234' });
+    await messageService.getConversation('u-leo');
+    expect(await messageStore.search('account number')).toHaveLength(1);
+
+    jest.advanceTimersByTime(2100);
+    const thread = await messageService.getConversation('u-leo');
+
+    expect(thread.find((message) => message.id === sent.id)).toBeUndefined();
+    expect(await messageStore.search('account number')).toEqual([]);
+    await expect(
+      apiService.call(endpoints.messages.remove, { params: { messageId: sent.id } })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should purge expired messages on start, on foreground and every minute', async () => {
+    let changeAppState: (state: AppStateStatus) => void = () => undefined;
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, handler: any) => {
+      changeAppState = handler;
+      return { remove: jest.fn() } as any;
+    });
+    const deleteExpired = jest.spyOn(messageService, 'deleteExpired').mockResolvedValue(undefined);
+    jest.useFakeTimers();
+
+    messageService.startExpiryPurge();
+    expect(deleteExpired).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(60 * 1000);
+    expect(deleteExpired).toHaveBeenCalledTimes(2);
+    changeAppState('background');
+    changeAppState('active');
+    expect(deleteExpired).toHaveBeenCalledTimes(3);
+
+    messageService.stopExpiryPurge();
+    jest.advanceTimersByTime(60 * 1000);
+    expect(deleteExpired).toHaveBeenCalledTimes(3);
+  });
+
+  it('should hold conversations to the admin retention policy', async () => {
+    await expect(adminService.getMessageRetention()).rejects.toMatchObject({ status: 403 });
+
+    await apiService.logout();
+    await signInAs('priya');
+    await adminService.updateMessageRetention({ default_ttl_seconds: 24 * HOUR, max_ttl_seconds: 7 * 24 * HOUR });
+    await apiService.logout();
+    await signInAs('sarah');
+
+    expect(await messageService.getExpiry('u-leo')).toEqual({ ttl_seconds: 24 * HOUR, max_ttl_seconds: 7 * 24 * HOUR });
+    await expect(messageService.setExpiry('u-leo', null)).rejects.toThrow('Messages can be kept for at most 1 week');
+    await expect(messageService.setExpiry('u-leo', 30 * 24 * HOUR)).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('messageService replies, reactions and edits', () => {
+  it('should send replies and reactions inside the ciphertext', async () => {
+    const original = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Who has the van keys?' });
+    const reply = await messageService.sendMessage({
+      recipient_id: 'u-leo',
+      content: 'Never mind, found them',
+      reply_to: quoteMessage(original),
+    });
+    await messageService.react('u-leo', original.id, '😂');
+
+    const call = jest.spyOn(apiService, 'call');
+    const thread = await messageService.getConversation('u-leo');
+    const fetch = call.mock.calls.findIndex(([endpoint]) => endpoint === endpoints.messages.conversation);
+    const fetched: Message[] = await call.mock.results[fetch].value;
+    expect(fetched.length).toBeGreaterThan(0);
+    expect(JSON.stringify(fetched)).not.toMatch(/van keys|😂/);
+
+    expect(thread.find((message) => message.id === original.id)?.reactions).toEqual({ 'u-sarah': '😂' });
+    expect(thread.find((message) => message.id === reply.id)?.reply_to).toEqual({
+      message_id: original.id,
+      sender_id: 'u-sarah',
+      preview: 'Who has the van keys?',
+    });
+  });
+
+  it('should keep the edit history and delete for everyone', async () => {
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Set starts at 9' });
+    await messageService.editMessage('u-leo', sent.id, 'Set starts at 10');
+
+    let thread = await messageService.getConversation('u-leo');
+    expect(thread.find((message) => message.id === sent.id)).toMatchObject({
+      content: 'Set starts at 10',
+      edit_history: [{ content: 'Set starts at 9' }],
+    });
+
+    await messageService.deleteForEveryone('u-leo', sent.id);
+    thread = await messageService.getConversation('u-leo');
+    expect(thread.find((message) => message.id === sent.id)).toMatchObject({ content: '', deleted: true });
+    expect(await messageStore.search('set starts')).toEqual([]);
+    await expect(
+      apiService.call(endpoints.messages.remove, { params: { messageId: sent.id } })
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('should drop edited and deleted text from the history backups copy', async () => {
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Gate code is 4471' });
+    await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Thanks', reply_to: quoteMessage(sent) });
+    await messageService.getConversation('u-leo');
+    await messageService.editMessage('u-leo', sent.id, 'Gate code is 5582');
+    await messageService.getConversation('u-leo');
+
+    let history = Object.values(await messageService.exportHistory());
+    expect(history).not.toContain('Gate code is 4471');
+    expect(history.join('\n')).toContain('5582');
+
+    await messageService.deleteForEveryone('u-leo', sent.id);
+    history = Object.values(await messageService.exportHistory());
+    expect(history.join('\n')).not.toMatch(/gate code/i);
+    expect(history.join('\n')).toContain('Thanks');
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for the in-process mock backend
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import mockBackend from '../mockBackend';
+import encryptionService from '../encryption';
+import { MOCK_PASSWORD } from '../mockFixtures';
+import { generateTotp } from '../../utils/totp';
+
+const SARAH = 'sarah@demo.artist-space.com';
+
+/**
+ * Client wired to the mock adapter, signed in as `email` when given
+ */
+async function createClient(email?: string): Promise<AxiosInstance> {
+  const client = axios.create({ baseURL: 'mock://artist-space/api', adapter: mockBackend.adapter });
+  if (email) {
+    const { data } = await client.post('/auth/login', { email, password: MOCK_PASSWORD });
+    client.defaults.headers.common.Authorization = `Bearer ${data.token}`;
+  }
+  return client;
+}
+
+describe('mockBackend', () => {
+  beforeEach(() => {
+    mockBackend.latency = [0, 0];
+    mockBackend.reset();
+  });
+
+  it('should sign in a demo account and reject a wrong password', async () => {
+    const client = await createClient();
+
+    const { data } = await client.post('/auth/login', { email: SARAH, password: MOCK_PASSWORD });
+    expect(data.user.email).toBe(SARAH);
+    expect(data.user).not.toHaveProperty('password');
+
+    await expect(client.post('/auth/login', { email: SARAH, password: 'wrong' })).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+  });
+
+  it('should require a token for private routes', async () => {
+    const client = await createClient();
+
+    await expect(client.get('/bands/my/all')).rejects.toMatchObject({ response: { status: 401 } });
+  });
+
+  it('should prefer static routes over parameterised ones', async () => {
+    const client = await createClient(SARAH);
+
+    const { data } = await client.get('/bands/my/all');
+    expect(Array.isArray(data)).toBe(true);
+    expect(data.map((band: { id: string }) => band.id)).toContain('b-midnight-echo');
+  });
+
+  it('should find a band by its join code, ignoring case', async () => {
+    const client = await createClient(SARAH);
+
+    const { data } = await client.get('/bands/join-code/echo42');
+    expect(data.id).toBe('b-midnight-echo');
+    await expect(client.get('/bands/join-code/NOPE00')).rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it('should filter discovery by user type and search', async () => {
+    const client = await createClient(SARAH);
+
+    const { data: studios } = await client.get('/users/discover', { params: { user_type: 'studio' } });
+    expect(studios.length).toBeGreaterThan(0);
+    expect(studios.every((profile: { user_type: string }) => profile.user_type === 'studio')).toBe(true);
+
+    const { data: results } = await client.get('/users/discover', { params: { search: 'marcus' } });
+    expect(results.map((profile: { id: string }) => profile.id)).toEqual(['u-marcus']);
+  });
+
+  it('should keep changes until reset', async () => {
+    const client = await createClient(SARAH);
+
+    await client.delete('/bands/b-midnight-echo');
+    await expect(client.get('/bands/b-midnight-echo')).rejects.toMatchObject({ response: { status: 404 } });
+
+    mockBackend.reset();
+    await expect(client.get('/bands/b-midnight-echo')).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('should list signed-in devices and reject revoked sessions', async () => {
+    const client = await createClient(SARAH);
+
+    const { data: sessions } = await client.get('/auth/sessions');
+    expect(sessions.filter((session: { current: boolean }) => session.current)).toHaveLength(1);
+    expect(sessions.length).toBeGreaterThan(1);
+
+    const { data } = await client.post('/auth/sessions/revoke-others');
+    expect(data.data.revoked).toBe(sessions.length - 1);
+
+    const current = sessions.find((session: { current: boolean }) => session.current);
+    await client.delete(`/auth/sessions/${current.id}`);
+    await expect(client.get('/auth/me')).rejects.toMatchObject({
+      response: { status: 401, data: { code: 'session_revoked' } },
+    });
+  });
+
+  it('should challenge for a TOTP code once 2FA is on, and accept a recovery code once', async () => {
+    const client = await createClient(SARAH);
+
+    const { data: setup } = await client.post('/auth/2fa/setup');
+    expect(setup.otpauth_url).toContain(`secret=${setup.secret}`);
+    await expect(client.post('/auth/2fa/enable', { code: '000000' })).rejects.toMatchObject({
+      response: { status: 400 },
+    });
+    const { data: enabled } = await client.post('/auth/2fa/enable', { code: generateTotp(setup.secret) });
+    expect(enabled.recovery_codes).toHaveLength(10);
+
+    const login = () => client.post('/auth/login', { email: SARAH, password: MOCK_PASSWORD });
+    const { data: challenge } = await login();
+    expect(challenge).toMatchObject({ twoFactorRequired: true });
+    expect(challenge).not.toHaveProperty('token');
+
+    const { data: session } = await client.post('/auth/2fa/verify', {
+      challengeToken: challenge.challengeToken,
+      code: generateTotp(setup.secret),
+    });
+    expect(session.user.two_factor_enabled).toBe(true);
+
+    const [recoveryCode] = enabled.recovery_codes;
+    const { data: retry } = await login();
+    await client.post('/auth/2fa/verify', { challengeToken: retry.challengeToken, recoveryCode });
+    const { data: reused } = await login();
+    await expect(
+      client.post('/auth/2fa/verify', { challengeToken: reused.challengeToken, recoveryCode })
+    ).rejects.toMatchObject({ response: { status: 400 } });
+  });
+
+  it('should not let accounts that require 2FA turn it off', async () => {
+    const client = await createClient('priya@demo.artist-space.com');
+
+    const { data: status } = await client.get('/auth/2fa');
+    expect(status).toEqual({ enabled: false, required: true, recovery_codes_remaining: 0 });
+    await expect(client.post('/auth/2fa/disable', { code: '123456' })).rejects.toMatchObject({
+      response: { status: 403 },
+    });
+  });
+
+  it('should answer unknown routes with a 404', async () => {
+    const client = await createClient(SARAH);
+
+    await expect(client.get('/nope')).rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it('should end-to-end encrypt seeded messages for the uploaded public key', async () => {
+    const client = await createClient(SARAH);
+    const keyPair = encryptionService.generateKeyPair();
+    await client.post('/messages/upload-public-key', { public_key: keyPair.publicKey });
+
+    const { data: messages } = await client.get('/messages/conversation/u-leo');
+    const { data: leo } = await client.get('/messages/public-key/u-leo');
+
+    expect(messages[0].content).toBeUndefined();
+    const plaintext = encryptionService.decryptMessage(
+      { ciphertext: messages[0].encrypted_content, nonce: messages[0].nonce },
+      leo.public_key,
+      keyPair.secretKey
+    );
+    expect(plaintext).toBe('Soundcheck at Harbor Hall is 5pm, right?');
+  });
+});
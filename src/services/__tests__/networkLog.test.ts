@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the network log
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import accountService from '../accounts';
+import networkLog, { createCorrelationId } from '../networkLog';
+import { User } from '../../types';
+
+jest.mock('../storage');
+
+describe('networkLog', () => {
+  beforeEach(async () => {
+    await networkLog.clear();
+  });
+
+  it('should record a request through to its response', () => {
+    const id = createCorrelationId();
+    networkLog.start(id, { method: 'post', url: '/tours', data: JSON.stringify({ band_id: 'b-1' }) });
+    expect(networkLog.getEntry(id)).toMatchObject({ method: 'POST', state: 'pending', retries: 0 });
+
+    networkLog.succeed(id, { status: 201, data: { id: 't-1' } });
+
+    const entry = networkLog.getEntry(id);
+    expect(entry).toMatchObject({
+      state: 'success',
+      status: 201,
+      requestBody: { band_id: 'b-1' },
+      responseBody: { id: 't-1' },
+    });
+    expect(entry?.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should count attempts with the same correlation ID as retries', () => {
+    const id = createCorrelationId();
+    networkLog.start(id, { method: 'get', url: '/tour-payments' });
+    networkLog.fail(id, { status: 503, message: 'Service unavailable' });
+    networkLog.start(id, { method: 'get', url: '/tour-payments' });
+    networkLog.succeed(id, { status: 200, data: [] });
+
+    expect(networkLog.getEntries()).toHaveLength(1);
+    expect(networkLog.getEntry(id)).toMatchObject({ state: 'success', status: 200, retries: 1, error: undefined });
+  });
+
+  it('should sanitize credentials before storing them', () => {
+    const id = createCorrelationId();
+    networkLog.start(id, {
+      method: 'post',
+      url: '/auth/login',
+      data: JSON.stringify({ email: 'sarah@example.com', password: 'hunter2' }),
+    });
+    networkLog.succeed(id, { status: 200, data: { token: 'abc', refreshToken: 'def' } });
+
+    const entry = networkLog.getEntry(id);
+    expect(entry?.requestBody).toEqual({ email: 'sarah@example.com', password: '[REDACTED]' });
+    expect(entry?.responseBody).toEqual({ token: '[REDACTED]', refreshToken: '[REDACTED]' });
+  });
+
+  it('should sanitize two-factor and OAuth secrets', () => {
+    const setup = createCorrelationId();
+    networkLog.start(setup, { method: 'post', url: '/auth/2fa/setup' });
+    networkLog.succeed(setup, {
+      status: 200,
+      data: { secret: 'JBSWY3DPEHPK3PXP', otpauth_url: 'otpauth://totp/Artist%20Space?secret=JBSWY3DPEHPK3PXP' },
+    });
+    expect(JSON.stringify(networkLog.getEntry(setup))).not.toContain('JBSWY3DPEHPK3PXP');
+
+    const enable = createCorrelationId();
+    networkLog.start(enable, { method: 'post', url: '/auth/2fa/enable', data: JSON.stringify({ code: '123456' }) });
+    networkLog.succeed(enable, { status: 200, data: { recovery_codes: ['abcd-efgh', 'ijkl-mnop'] } });
+    expect(networkLog.getEntry(enable)).toMatchObject({
+      requestBody: { code: '[REDACTED]' },
+      responseBody: { recovery_codes: '[REDACTED]' },
+    });
+
+    const verify = createCorrelationId();
+    networkLog.start(verify, {
+      method: 'post',
+      url: '/auth/2fa/verify',
+      data: JSON.stringify({ challengeToken: 'c-1', recoveryCode: 'abcd-efgh' }),
+    });
+    expect(networkLog.getEntry(verify)?.requestBody).toMatchObject({ recoveryCode: '[REDACTED]' });
+
+    const callback = createCorrelationId();
+    networkLog.start(callback, {
+      method: 'post',
+      url: '/auth/oauth/google/callback',
+      data: JSON.stringify({ code: 'auth-code', code_verifier: 'verifier', redirect_uri: 'artistspace://oauth' }),
+    });
+    expect(networkLog.getEntry(callback)?.requestBody).toEqual({
+      code: '[REDACTED]',
+      code_verifier: '[REDACTED]',
+      redirect_uri: 'artistspace://oauth',
+    });
+  });
+
+  it('should record cancellations separately from errors', () => {
+    const id = createCorrelationId();
+    networkLog.start(id, { method: 'get', url: '/bands' });
+    networkLog.fail(id, { message: 'canceled', cancelled: true });
+
+    expect(networkLog.getEntry(id)?.state).toBe('cancelled');
+  });
+
+  it('should persist entries', async () => {
+    jest.useFakeTimers();
+    try {
+      const id = createCorrelationId();
+      networkLog.start(id, { method: 'get', url: '/venues' });
+      jest.runOnlyPendingTimers();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const stored = JSON.parse((await AsyncStorage.getItem('network_log')) || '[]');
+    expect(stored[0]).toMatchObject({ method: 'GET', url: '/venues' });
+  });
+
+  it('should clear entries when switching accounts', async () => {
+    await accountService.activate({ id: 'u-alice' } as User);
+    await accountService.activate({ id: 'u-bob' } as User);
+    networkLog.start(createCorrelationId(), { method: 'get', url: '/payments' });
+
+    await accountService.switchTo('u-alice');
+
+    expect(networkLog.getEntries()).toEqual([]);
+    expect(JSON.parse((await AsyncStorage.getItem('network_log')) || '[]')).toEqual([]);
+    await accountService.removeAll();
+  });
+});
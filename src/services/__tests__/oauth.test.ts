@@ -0,0 +1,108 @@
+/**
+ * Unit tests for OAuth sign-in and account linking against the mock identity provider
+ */
+
+import apiService, { ApiError, isTwoFactorChallenge } from '../api';
+import backendProfileService from '../backendProfiles';
+import oauthService, { OAUTH_REDIRECT_URI, OAuthCancelledError } from '../oauth';
+import mockBackend from '../mockBackend';
+import mockIdentityProvider from '../mockIdentityProvider';
+import { AuthResponse, LoginResponse } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+function expectSession(response: LoginResponse): AuthResponse {
+  if (isTwoFactorChallenge(response)) throw new Error('Expected a session, got a 2FA challenge');
+  return response;
+}
+
+describe('oauthService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(() => {
+    mockBackend.reset();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await apiService.logout();
+  });
+
+  it('should sign in to the user a provider identity is linked to', async () => {
+    const session = expectSession(await oauthService.signIn('google'));
+
+    expect(session.user.email).toBe('sarah@demo.artist-space.com');
+    expect(session.isNewUser).toBeFalsy();
+  });
+
+  it('should create a supporter account for a new identity', async () => {
+    const session = expectSession(await oauthService.signIn('facebook'));
+
+    expect(session.isNewUser).toBe(true);
+    expect(session.user).toMatchObject({ email: 'alex.rivera@example.com', user_type: 'supporter' });
+
+    // Signing in again finds the same user
+    await apiService.logout();
+    const again = expectSession(await oauthService.signIn('facebook'));
+    expect(again.user.id).toBe(session.user.id);
+  });
+
+  it('should not take over an existing account with the same email', async () => {
+    mockIdentityProvider.setAccount('patreon', {
+      subject: 'patreon-1',
+      email: 'leo@demo.artist-space.com',
+      name: 'Leo Park',
+    });
+
+    await expect(oauthService.signIn('patreon')).rejects.toMatchObject({
+      status: 409,
+      data: { code: 'oauth_account_exists' },
+    });
+  });
+
+  it('should treat a denied authorization as cancelled', async () => {
+    mockIdentityProvider.denyNext = true;
+
+    await expect(oauthService.signIn('google')).rejects.toBeInstanceOf(OAuthCancelledError);
+  });
+
+  it('should only use the mock provider with the mock backend', async () => {
+    const profile = backendProfileService.getActiveProfile();
+    jest.spyOn(backendProfileService, 'getActiveProfile').mockReturnValue({ ...profile, mock: false });
+    const authorize = jest.spyOn(mockIdentityProvider, 'authorize');
+
+    await expect(oauthService.signIn('google')).rejects.toThrow('Sign-in with this provider failed');
+    expect(authorize).not.toHaveBeenCalled();
+  });
+
+  it('should reject a code exchanged without the matching PKCE verifier', async () => {
+    await expect(
+      apiService.loginWithOAuth('google', {
+        code: 'not-a-code',
+        code_verifier: 'x'.repeat(43),
+        redirect_uri: OAUTH_REDIRECT_URI,
+      })
+    ).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it('should link and unlink provider accounts for the signed-in user', async () => {
+    await signInAs('leo');
+
+    const identity = await oauthService.link('patreon');
+    expect(identity).toMatchObject({ provider: 'patreon', email: 'jordan.lee@example.com' });
+    expect((await oauthService.getIdentities()).map((linked) => linked.provider)).toEqual(['patreon']);
+
+    await oauthService.unlink('patreon');
+    expect(await oauthService.getIdentities()).toEqual([]);
+  });
+
+  it('should keep the only sign-in method of an OAuth-only account', async () => {
+    await oauthService.signIn('facebook');
+
+    await expect(oauthService.unlink('facebook')).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for the offline cache and mutation queue
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import offlineService, { OfflineEvent, QueuedRequest } from '../offline';
+
+describe('offlineService', () => {
+  let events: OfflineEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(async () => {
+    await offlineService.clear();
+    await AsyncStorage.clear();
+    events = [];
+    unsubscribe = offlineService.subscribe((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    offlineService.attach(async () => undefined);
+  });
+
+  describe('getCacheKey', () => {
+    it('should ignore param order', () => {
+      expect(offlineService.getCacheKey('/tours', { status: 'confirmed', band_id: '1' })).toBe(
+        offlineService.getCacheKey('/tours', { band_id: '1', status: 'confirmed' })
+      );
+    });
+
+    it('should skip undefined params', () => {
+      expect(offlineService.getCacheKey('/tours', { status: undefined })).toBe('/tours');
+    });
+  });
+
+  describe('response cache', () => {
+    it('should persist cached responses', async () => {
+      await offlineService.setCached('/bands/my/all', [{ id: 'b1' }]);
+
+      const entry = await offlineService.getCached('/bands/my/all');
+      expect(entry?.data).toEqual([{ id: 'b1' }]);
+      expect(await AsyncStorage.getItem('offline_cache:/bands/my/all')).toBeTruthy();
+    });
+
+    it('should invalidate entries by endpoint prefix', async () => {
+      await offlineService.setCached('/tours/t1/kpis', { attendance: 10 });
+      await offlineService.setCached('/bands/my/all', []);
+
+      await offlineService.invalidate('/tours/t1');
+
+      expect(await offlineService.getCached('/tours/t1/kpis')).toBeNull();
+      expect(await offlineService.getCached('/bands/my/all')).not.toBeNull();
+    });
+  });
+
+  describe('sync', () => {
+    const queueTwo = async () => {
+      await offlineService.enqueue({ method: 'post', endpoint: '/tours/t1/kpis', data: { attendance: 1 }, tag: 'tour-kpis' });
+      await offlineService.enqueue({ method: 'put', endpoint: '/messages/m1/read', tag: 'messages' });
+    };
+
+    it('should replay queued requests in order', async () => {
+      const sent: string[] = [];
+      offlineService.attach(async (request: QueuedRequest) => {
+        sent.push(request.endpoint);
+        return { ok: true };
+      });
+
+      await queueTwo();
+      await offlineService.sync();
+
+      expect(sent).toEqual(['/tours/t1/kpis', '/messages/m1/read']);
+      expect(await offlineService.getPendingRequests()).toHaveLength(0);
+      expect(events.filter((e) => e.type === 'replayed')).toHaveLength(2);
+    });
+
+    it('should stop and keep the queue on network errors', async () => {
+      offlineService.attach(async () => {
+        throw { status: undefined, message: 'Network Error' };
+      });
+
+      await queueTwo();
+      await offlineService.sync();
+
+      const pending = await offlineService.getPendingRequests();
+      expect(pending).toHaveLength(2);
+      expect(pending[0].attempts).toBe(1);
+      expect(offlineService.isOnline()).toBe(false);
+    });
+
+    it('should report conflicts and continue with the rest of the queue', async () => {
+      offlineService.attach(async (request: QueuedRequest) => {
+        if (request.tag === 'tour-kpis') {
+          throw { status: 409, message: 'Conflict', data: { attendance: 250 } };
+        }
+        return { ok: true };
+      });
+
+      await queueTwo();
+      await offlineService.sync();
+
+      const conflict = events.find((e) => e.type === 'conflict');
+      expect(conflict).toMatchObject({
+        type: 'conflict',
+        status: 409,
+        serverData: { attendance: 250 },
+        request: { tag: 'tour-kpis' },
+      });
+      expect(events.filter((e) => e.type === 'replayed')).toHaveLength(1);
+      expect(await offlineService.getPendingRequests()).toHaveLength(0);
+    });
+
+    it('should keep requests for later on server errors', async () => {
+      offlineService.attach(async () => {
+        throw { status: 503, message: 'Service Unavailable' };
+      });
+
+      await queueTwo();
+      await offlineService.sync();
+
+      expect(await offlineService.getPendingRequests()).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for permission rules and checks against the mock backend
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import permissionService, { evaluatePermission, isUpgradeable } from '../permissions';
+import mockBackend from '../mockBackend';
+import { Band, BandMember, User } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+const MIDNIGHT_ECHO = 'b-midnight-echo';
+
+describe('evaluatePermission', () => {
+  const owner = { id: 'u-1', user_type: 'user' } as User;
+  const member = { id: 'u-2', user_type: 'user' } as User;
+  const band = { id: 'b-1', user_id: 'u-1' } as Band;
+  const membership = {
+    user_id: 'u-2',
+    status: 'active',
+    permissions: { can_modify_profile: false, can_receive_band_emails: true, can_manage_members: true },
+  } as BandMember;
+
+  it('should deny everything when signed out', () => {
+    expect(evaluatePermission('payments.view', { user: null })).toMatchObject({ allowed: false, reason: 'role' });
+  });
+
+  it('should follow membership permissions for members who are not the owner', () => {
+    const subject = { user: member, band: { band, membership } };
+
+    expect(evaluatePermission('band.members.manage', subject).allowed).toBe(true);
+    expect(evaluatePermission('band.edit', subject)).toMatchObject({ allowed: false, reason: 'membership' });
+    expect(evaluatePermission('band.delete', subject).allowed).toBe(false);
+    expect(evaluatePermission('band.leave', subject).allowed).toBe(true);
+    expect(evaluatePermission('band.leave', { user: owner, band: { band, membership: null } }).allowed).toBe(false);
+  });
+
+  it('should treat plan and feature denials as upgradeable', () => {
+    const decision = evaluatePermission('analytics.view', { user: owner, subscription: null });
+
+    expect(decision).toMatchObject({ allowed: false, reason: 'feature' });
+    expect(isUpgradeable(decision)).toBe(true);
+    expect(isUpgradeable(evaluatePermission('venue.premium_content', { user: owner }))).toBe(false);
+  });
+
+  it('should not allow creating a band when the plan\'s limit is unknown', () => {
+    expect(evaluatePermission('band.create', { user: owner, bandLimits: null })).toMatchObject({
+      allowed: false,
+      reason: 'plan',
+    });
+  });
+});
+
+describe('permissionService', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(() => {
+    mockBackend.reset();
+    permissionService.invalidate();
+  });
+
+  afterEach(async () => {
+    await apiService.logout();
+  });
+
+  it('should let the owner manage members but not a plain member', async () => {
+    const sarah = await signInAs('sarah');
+    expect((await permissionService.check('band.members.manage', sarah, MIDNIGHT_ECHO)).allowed).toBe(true);
+    await apiService.logout();
+    permissionService.invalidate();
+
+    const leo = await signInAs('leo');
+    expect(await permissionService.check('band.members.manage', leo, MIDNIGHT_ECHO)).toMatchObject({
+      allowed: false,
+      reason: 'membership',
+    });
+    expect((await permissionService.check('band.leave', leo, MIDNIGHT_ECHO)).allowed).toBe(true);
+  });
+
+  it('should unlock features from the plan and from admin assignments', async () => {
+    const sarah = await signInAs('sarah');
+    expect((await permissionService.check('analytics.view', sarah)).allowed).toBe(true);
+    await apiService.logout();
+    permissionService.invalidate();
+
+    // Free plan, but a live streaming trial
+    const leo = await signInAs('leo');
+    expect((await permissionService.check('stream.go_live', leo)).allowed).toBe(true);
+    expect((await permissionService.check('analytics.view', leo)).reason).toBe('feature');
+  });
+
+  it('should deny creating bands past the plan limit', async () => {
+    const marcus = await signInAs('marcus');
+
+    expect(await permissionService.check('band.create', marcus)).toMatchObject({ allowed: false, reason: 'plan' });
+  });
+
+  it('should notify subscribers when access is invalidated', () => {
+    const listener = jest.fn();
+    const unsubscribe = permissionService.subscribe(listener);
+
+    permissionService.invalidate(MIDNIGHT_ECHO);
+    unsubscribe();
+    permissionService.invalidate();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
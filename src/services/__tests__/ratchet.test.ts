@@ -0,0 +1,121 @@
+/**
+ * Unit tests for forward-secret ratchet sessions
+ */
+
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import encryptionService, { EncryptedMessage } from '../encryption';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import {
+  RatchetHeader,
+  RatchetSession,
+  acceptSession,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+} from '../ratchet';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+type Sent = { header: RatchetHeader; message: EncryptedMessage };
+
+function send(session: RatchetSession, text: string): [RatchetSession, Sent] {
+  const { session: next, header, message } = ratchetEncrypt(session, text);
+  return [next, { header, message }];
+}
+
+describe('ratchet sessions', () => {
+  const alice = encryptionService.generateKeyPair();
+  const bob = encryptionService.generateKeyPair();
+
+  it('should carry a conversation both ways with a new key per message', () => {
+    let aliceSession = initiateSession(alice, bob.publicKey);
+    let first: Sent;
+    let second: Sent;
+    [aliceSession, first] = send(aliceSession, 'Soundcheck at 6?');
+    [aliceSession, second] = send(aliceSession, 'Bring the spare cables');
+    expect(first.message.ciphertext).not.toBe(second.message.ciphertext);
+
+    let bobSession = acceptSession(bob, first.header);
+    let result = ratchetDecrypt(bobSession, first.header, first.message);
+    expect(result.plaintext).toBe('Soundcheck at 6?');
+    result = ratchetDecrypt(result.session, second.header, second.message);
+    expect(result.plaintext).toBe('Bring the spare cables');
+    bobSession = result.session;
+
+    let reply: Sent;
+    [bobSession, reply] = send(bobSession, 'Works for me');
+    expect(reply.header.ik).toBeUndefined();
+    const replied = ratchetDecrypt(aliceSession, reply.header, reply.message);
+    expect(replied.plaintext).toBe('Works for me');
+    expect(replied.session.pending_handshake).toBeUndefined();
+
+    // Alice's next message uses a new ratchet key
+    const [, next] = send(replied.session, 'See you there');
+    expect(next.header.dh).not.toBe(first.header.dh);
+    expect(ratchetDecrypt(bobSession, next.header, next.message).plaintext).toBe('See you there');
+  });
+
+  it('should read messages that arrive out of order', () => {
+    let session = initiateSession(alice, bob.publicKey);
+    const sent: Sent[] = [];
+    ['one', 'two', 'three'].forEach((text) => {
+      let message: Sent;
+      [session, message] = send(session, text);
+      sent.push(message);
+    });
+
+    let bobSession = acceptSession(bob, sent[2].header);
+    const read = [2, 0, 1].map((index) => {
+      const result = ratchetDecrypt(bobSession, sent[index].header, sent[index].message);
+      bobSession = result.session;
+      return result.plaintext;
+    });
+
+    expect(read).toEqual(['three', 'one', 'two']);
+    expect(bobSession.skipped).toEqual({});
+  });
+
+  it('should reject replayed and tampered messages', () => {
+    const [, sent] = send(initiateSession(alice, bob.publicKey), 'Setlist attached');
+    const bobSession = ratchetDecrypt(acceptSession(bob, sent.header), sent.header, sent.message).session;
+
+    expect(() => ratchetDecrypt(bobSession, sent.header, sent.message)).toThrow();
+    expect(() =>
+      ratchetDecrypt(acceptSession(bob, sent.header), { ...sent.header, pn: 1 }, sent.message)
+    ).toThrow();
+  });
+});
+
+describe('messageService with ratchet sessions', () => {
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    messageService.clearPublicKeyCache();
+    await signInAs('sarah');
+    await messageService.initializeE2EE();
+  });
+
+  afterEach(async () => {
+    await apiService.logout();
+  });
+
+  it('should keep sent and older messages readable after rotating keys', async () => {
+    await messageService.sendMessage({ recipient_id: 'u-leo', content: 'New riff idea' });
+    const before = await messageService.getConversation('u-leo');
+
+    await encryptionService.rotateKeys();
+    await messageService.uploadPublicKey();
+    const after = await messageService.getConversation('u-leo');
+
+    expect(after.map((message) => message.content)).toEqual(before.map((message) => message.content));
+    expect(after.map((message) => message.content)).toContain('New riff idea');
+    expect(after.map((message) => message.content)).not.toContain('[Unable to decrypt message]');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for realtime message events, typing and receipts
+ */
+
+import accountService from '../accounts';
+import apiService from '../api';
+import backendProfileService from '../backendProfiles';
+import { endpoints } from '../endpoints';
+import messageService from '../messages';
+import mockBackend from '../mockBackend';
+import realtimeService from '../realtime';
+import { MessageData } from '../livekit';
+import { RealtimeEvent } from '../../types';
+import { signInAs } from './testUtils';
+
+jest.mock('../storage');
+
+describe('realtimeService', () => {
+  let events: RealtimeEvent[];
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    messageService.clearPublicKeyCache();
+    const user = await signInAs('sarah');
+    await messageService.initializeE2EE();
+
+    await realtimeService.start(user.id);
+    events = [];
+    unsubscribe = realtimeService.subscribe((event) => events.push(event));
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    jest.restoreAllMocks();
+    await realtimeService.stop();
+    await apiService.logout();
+  });
+
+  it('should load the unread count when it connects', async () => {
+    expect(realtimeService.isConnected()).toBe(true);
+    expect(realtimeService.getUnreadCount()).toBe(await realtimeService.refreshUnreadCount());
+    expect(realtimeService.getUnreadCount()).toBeGreaterThan(0);
+  });
+
+  it('should push the reply, read receipt and unread count after sending', async () => {
+    const sent = await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Running late' });
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'receipt', user_id: 'u-leo', status: 'read', message_ids: [sent.id] })
+    );
+    const reply = events.find((event) => event.type === 'message');
+    expect(reply).toMatchObject({ message: { sender_id: 'u-leo', recipient_id: sent.sender_id } });
+    expect(events[events.length - 1]).toEqual({ type: 'unread', total: realtimeService.getUnreadCount() });
+
+    // The reply arrived, so Leo is no longer typing
+    expect(realtimeService.getTypingUsers({ userId: 'u-leo' })).toEqual([]);
+  });
+
+  it('should send a conversation\'s read receipts in one request', async () => {
+    await messageService.sendMessage({ recipient_id: 'u-leo', content: 'Setlist?' });
+    const call = jest.spyOn(apiService, 'call');
+    const thread = await messageService.getConversation('u-leo');
+    const unread = thread.filter((message) => message.sender_id === 'u-leo' && !message.read);
+    expect(unread.length).toBeGreaterThan(1);
+    const before = realtimeService.getUnreadCount();
+
+    unread.forEach((message) => realtimeService.markRead('u-leo', [message.id]));
+    await realtimeService.flushReceipts();
+
+    const receipts = call.mock.calls.filter(([endpoint]) => endpoint === endpoints.messages.receipts);
+    expect(receipts).toHaveLength(1);
+    expect(realtimeService.getUnreadCount()).toBe(before - unread.length);
+
+    const conversations = await messageService.getConversations();
+    expect(conversations.find((conversation) => conversation.user_id === 'u-leo')?.unread_count).toBe(0);
+  });
+
+  it('should ignore events a participant publishes about someone else', () => {
+    const publish = (event: RealtimeEvent, senderIdentity?: string) => {
+      const message: MessageData = { type: 'system', from: 'server', content: JSON.stringify(event), timestamp: 0 };
+      (realtimeService as unknown as {
+        handleData: (data: MessageData, identity?: string) => void;
+      }).handleData(message, senderIdentity);
+    };
+    const typing: RealtimeEvent = { type: 'typing', user_id: 'u-leo', typing: true };
+
+    publish(typing, 'u-priya');
+    publish({ type: 'unread', total: 99 }, 'u-leo');
+    expect(events).toEqual([]);
+    expect(realtimeService.getTypingUsers({ userId: 'u-leo' })).toEqual([]);
+
+    publish(typing, 'u-leo');
+    publish({ type: 'unread', total: 3 });
+    expect(events).toEqual([typing, { type: 'unread', total: 3 }]);
+    expect(realtimeService.getTypingUsers({ userId: 'u-leo' })).toEqual(['u-leo']);
+  });
+
+  it('should drop waiting receipts when the account changes', async () => {
+    await accountService.activate(await apiService.getCurrentUser());
+    const call = jest.spyOn(apiService, 'call');
+    realtimeService.markRead('u-leo', ['msg-1']);
+
+    // Another account signs in before the batch goes out
+    await accountService.detach();
+    await realtimeService.stop();
+
+    expect(call.mock.calls.filter(([endpoint]) => endpoint === endpoints.messages.receipts)).toEqual([]);
+    await accountService.removeAll();
+  });
+
+  it('should only tell the server about typing every few seconds', () => {
+    const call = jest.spyOn(apiService, 'call').mockResolvedValue(undefined);
+
+    realtimeService.setTyping({ userId: 'u-leo' }, true);
+    realtimeService.setTyping({ userId: 'u-leo' }, true);
+    realtimeService.setTyping({ userId: 'u-leo' }, true);
+    realtimeService.setTyping({ userId: 'u-leo' }, false);
+
+    expect(call.mock.calls.map(([, request]) => request?.body)).toEqual([{ typing: true }, { typing: false }]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the API retry policy
+ */
+
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  getRetryAfterMs,
+  getRetryDelay,
+  isIdempotentMethod,
+  parseRetryAfter,
+  wait,
+} from '../retryPolicy';
+
+describe('retryPolicy', () => {
+  describe('isIdempotentMethod', () => {
+    it('should treat GET, PUT and DELETE as idempotent', () => {
+      expect(isIdempotentMethod('get')).toBe(true);
+      expect(isIdempotentMethod('PUT')).toBe(true);
+      expect(isIdempotentMethod('delete')).toBe(true);
+    });
+
+    it('should not treat POST and PATCH as idempotent', () => {
+      expect(isIdempotentMethod('post')).toBe(false);
+      expect(isIdempotentMethod('patch')).toBe(false);
+    });
+  });
+
+  describe('computeRetryDelay', () => {
+    it('should grow exponentially', () => {
+      const noJitter = () => 1;
+      expect(computeRetryDelay(1, DEFAULT_RETRY_POLICY, undefined, noJitter)).toBe(500);
+      expect(computeRetryDelay(2, DEFAULT_RETRY_POLICY, undefined, noJitter)).toBe(1000);
+      expect(computeRetryDelay(3, DEFAULT_RETRY_POLICY, undefined, noJitter)).toBe(2000);
+    });
+
+    it('should apply jitter between half and the full delay', () => {
+      expect(computeRetryDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 0)).toBe(500);
+      expect(computeRetryDelay(2, DEFAULT_RETRY_POLICY, undefined, () => 0.5)).toBe(750);
+    });
+
+    it('should cap at maxDelayMs', () => {
+      expect(computeRetryDelay(10, DEFAULT_RETRY_POLICY, undefined, () => 1)).toBe(10000);
+    });
+
+    it('should honor retryAfter when provided', () => {
+      expect(computeRetryDelay(1, DEFAULT_RETRY_POLICY, 4000)).toBe(4000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read the Retry-After header in seconds', () => {
+      expect(parseRetryAfter('3', { retryAfter: 60 })).toBe(3000);
+    });
+
+    it('should read a Retry-After date', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', undefined, now)).toBe(5000);
+    });
+
+    it('should read retryAfter seconds and retryAfterMinutes from the body', () => {
+      expect(parseRetryAfter(undefined, { retryAfter: 3 })).toBe(3000);
+      expect(parseRetryAfter(undefined, { retryAfterMinutes: 2 })).toBe(120000);
+    });
+
+    it('should return undefined without a hint', () => {
+      expect(parseRetryAfter(undefined, { error: 'Slow down' })).toBeUndefined();
+      expect(parseRetryAfter('soon', {})).toBeUndefined();
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should read the parsed retryAfterMs', () => {
+      expect(getRetryAfterMs({ data: { retryAfterMs: 1500 } })).toBe(1500);
+    });
+
+    it('should not take retryAfter as a hint', () => {
+      expect(getRetryAfterMs({ data: { retryAfter: 3 } })).toBeUndefined();
+    });
+
+    it('should return undefined without a hint', () => {
+      expect(getRetryAfterMs({ data: {} })).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should retry transient 5xx errors on GET', () => {
+      expect(getRetryDelay({ status: 503 }, 'get', 1, DEFAULT_RETRY_POLICY)).not.toBeNull();
+    });
+
+    it('should not retry client errors', () => {
+      expect(getRetryDelay({ status: 400 }, 'get', 1, DEFAULT_RETRY_POLICY)).toBeNull();
+      expect(getRetryDelay({ status: 500 }, 'get', 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should not replay POST after a 5xx or network error', () => {
+      expect(getRetryDelay({ status: 503 }, 'post', 1, DEFAULT_RETRY_POLICY)).toBeNull();
+      expect(getRetryDelay({ status: undefined }, 'post', 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should replay POST with an idempotency key', () => {
+      expect(getRetryDelay({ status: 503 }, 'post', 1, DEFAULT_RETRY_POLICY, true)).not.toBeNull();
+    });
+
+    it('should always allow retrying a 429', () => {
+      expect(getRetryDelay({ status: 429, data: { retryAfterMs: 2000 } }, 'post', 1, DEFAULT_RETRY_POLICY)).toBe(2000);
+    });
+
+    it('should back off exponentially on a 429 without a hint', () => {
+      const delay = getRetryDelay({ status: 429, data: {} }, 'get', 1, DEFAULT_RETRY_POLICY);
+      expect(delay).toBeGreaterThanOrEqual(DEFAULT_RETRY_POLICY.baseDelayMs / 2);
+      expect(delay).toBeLessThanOrEqual(DEFAULT_RETRY_POLICY.baseDelayMs);
+    });
+
+    it('should give up when the server asks for a long back-off', () => {
+      expect(getRetryDelay({ status: 429, data: { retryAfterMs: 900000 } }, 'get', 1, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+
+    it('should stop after maxRetries', () => {
+      expect(getRetryDelay({ status: 503 }, 'get', 4, DEFAULT_RETRY_POLICY)).toBeNull();
+    });
+  });
+
+  describe('wait', () => {
+    it('should resolve early when the signal is aborted', async () => {
+      jest.useFakeTimers();
+      const controller = new AbortController();
+      const done = jest.fn();
+
+      wait(10000, controller.signal).then(done);
+      controller.abort();
+      await Promise.resolve();
+
+      expect(done).toHaveBeenCalled();
+      jest.useRealTimers();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for ApiService session refresh and expiry
+ */
+
+import axios from 'axios';
+import apiService, { ApiError, isTwoFactorChallenge } from '../api';
+import backendProfileService from '../backendProfiles';
+import sessionService from '../sessions';
+import twoFactorService from '../twoFactor';
+import mockBackend from '../mockBackend';
+import { MOCK_PASSWORD } from '../mockFixtures';
+import { generateTotp } from '../../utils/totp';
+
+jest.mock('../storage');
+
+const storage = jest.requireMock('../storage') as {
+  getItemAsync: (key: string) => Promise<string | null>;
+  deleteItemAsync: (key: string) => Promise<void>;
+};
+
+describe('ApiService session', () => {
+  let expired: jest.Mock;
+  let unsubscribe: () => void;
+
+  beforeAll(async () => {
+    mockBackend.latency = [0, 0];
+    await backendProfileService.setActiveProfile('mock');
+  });
+
+  beforeEach(async () => {
+    mockBackend.reset();
+    mockBackend.accessTokenTtlSeconds = 15 * 60;
+    await apiService.login({ email: 'sarah@demo.artist-space.com', password: MOCK_PASSWORD });
+
+    expired = jest.fn();
+    unsubscribe = apiService.onSessionExpired(expired);
+  });
+
+  afterEach(async () => {
+    unsubscribe();
+    jest.restoreAllMocks();
+    await apiService.logout();
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    const refresh = jest.spyOn(apiService, 'refreshAuthToken');
+
+    const [first, second] = await Promise.all([apiService.refreshSession(), apiService.refreshSession()]);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(await storage.getItemAsync('authToken')).toBe(first);
+  });
+
+  it('should refresh before sending a request with an expiring token', async () => {
+    const refresh = jest.spyOn(apiService, 'refreshAuthToken');
+    const before = await storage.getItemAsync('authToken');
+
+    // 14 minutes into a 15 minute token
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 14 * 60 * 1000);
+
+    const results = await Promise.all([apiService.getCurrentUser(), apiService.getCurrentUser()]);
+
+    expect(results[0].email).toBe('sarah@demo.artist-space.com');
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await storage.getItemAsync('authToken')).not.toBe(before);
+  });
+
+  it('should expire the session when the refresh token is rejected', async () => {
+    const refresh = jest
+      .spyOn(apiService, 'refreshAuthToken')
+      .mockRejectedValue(new ApiError('Invalid refresh token', 401));
+
+    await expect(apiService.refreshSession()).rejects.toThrow('Invalid refresh token');
+    await expect(apiService.refreshSession()).rejects.toThrow();
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(await storage.getItemAsync('authToken')).toBeNull();
+  });
+
+  it('should keep the session when the refresh fails for lack of network', async () => {
+    jest
+      .spyOn(apiService, 'refreshAuthToken')
+      .mockRejectedValue(new ApiError('Network Error', undefined, { networkError: true }));
+
+    await expect(apiService.refreshSession()).rejects.toThrow('Network Error');
+
+    expect(expired).not.toHaveBeenCalled();
+    expect(await storage.getItemAsync('refreshToken')).not.toBeNull();
+  });
+
+  it('should end a session revoked from another device without refreshing', async () => {
+    const refresh = jest.spyOn(apiService, 'refreshAuthToken');
+    const sessions = await sessionService.list();
+    const current = sessions.find((session) => session.current)!;
+
+    // Sign in on a second device and revoke this one from there
+    const other = axios.create({ baseURL: 'mock://artist-space/api', adapter: mockBackend.adapter });
+    const { data } = await other.post('/auth/login', { email: 'sarah@demo.artist-space.com', password: MOCK_PASSWORD });
+    await other.delete(`/auth/sessions/${current.id}`, { headers: { Authorization: `Bearer ${data.token}` } });
+
+    await expect(apiService.getCurrentUser()).rejects.toMatchObject({ status: 401 });
+    expect(refresh).not.toHaveBeenCalled();
+    expect(expired).toHaveBeenCalledWith('revoked');
+  });
+
+  it('should only store a 2FA sign-in once the code is verified', async () => {
+    const { secret } = await twoFactorService.setup();
+    await twoFactorService.enable(generateTotp(secret));
+    await apiService.logout();
+
+    const response = await apiService.login({ email: 'sarah@demo.artist-space.com', password: MOCK_PASSWORD });
+    expect(isTwoFactorChallenge(response)).toBe(true);
+    expect(await storage.getItemAsync('authToken')).toBeNull();
+
+    if (!isTwoFactorChallenge(response)) return;
+    const session = await apiService.verifyTwoFactor({
+      challengeToken: response.challengeToken,
+      code: generateTotp(secret),
+    });
+    expect(await storage.getItemAsync('authToken')).toBe(session.token);
+  });
+
+  it('should expire the session when there is no refresh token', async () => {
+    await storage.deleteItemAsync('refreshToken');
+
+    await expect(apiService.refreshSession()).rejects.toMatchObject({ status: 401 });
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Helpers shared by tests that run against the mock backend
+ */
+
+import apiService, { isTwoFactorChallenge } from '../api';
+import { MOCK_PASSWORD } from '../mockFixtures';
+import { User } from '../../types';
+
+/**
+ * Sign in as a fixture user by first name (e.g. 'sarah')
+ */
+export async function signInAs(name: string): Promise<User> {
+  const response = await apiService.login({ email: `${name}@demo.artist-space.com`, password: MOCK_PASSWORD });
+  if (isTwoFactorChallenge(response)) throw new Error('Expected a session, got a 2FA challenge');
+  return response.user;
+}
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the resumable upload manager
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import uploadService, { DEFAULT_CHUNK_SIZE } from '../uploads';
+import { ApiError } from '../api';
+import { UploadTask } from '../../types/uploads';
+
+jest.mock('../uploadTransports', () => {
+  const transport = {
+    createSession: jest.fn(),
+    getOffset: jest.fn(),
+    sendChunk: jest.fn(),
+    complete: jest.fn(),
+    uploadWhole: jest.fn(),
+    abort: jest.fn(),
+  };
+  return { uploadTransports: { 'band-media': transport, w2: transport, 'mux-direct': transport } };
+});
+
+const mockTransport = jest.requireMock('../uploadTransports').uploadTransports['band-media'];
+
+const FILE_SIZE = DEFAULT_CHUNK_SIZE * 2 + 1024;
+const file = { uri: 'file:///tmp/show.mp4', name: 'show.mp4', mimeType: 'video/mp4' };
+
+describe('uploadService', () => {
+  beforeEach(async () => {
+    await uploadService.clear();
+    await AsyncStorage.clear();
+    jest.clearAllMocks();
+
+    global.fetch = jest.fn(() =>
+      Promise.resolve({ blob: () => Promise.resolve(new Blob([new Uint8Array(FILE_SIZE)])) })
+    ) as unknown as typeof fetch;
+
+    mockTransport.createSession.mockResolvedValue({ uploadId: 'up-1', resumable: true });
+    mockTransport.sendChunk.mockImplementation(
+      async (_task: UploadTask, chunk: Blob, start: number) => start + chunk.size
+    );
+    mockTransport.complete.mockResolvedValue({ id: 'media-1' });
+  });
+
+  it('should send the file in chunks and resolve with the server response', async () => {
+    const task = await uploadService.start('band-media', file, { band_id: 'band-1' });
+    const result = await uploadService.waitForCompletion(task.id);
+
+    expect(result).toEqual({ id: 'media-1' });
+    expect(mockTransport.sendChunk).toHaveBeenCalledTimes(3);
+    expect(mockTransport.sendChunk.mock.calls.map((call) => call[2])).toEqual([
+      0,
+      DEFAULT_CHUNK_SIZE,
+      DEFAULT_CHUNK_SIZE * 2,
+    ]);
+    expect(uploadService.getTasks()[0]).toMatchObject({ status: 'completed', uploadedBytes: FILE_SIZE });
+  });
+
+  it('should fall back to a single request when sessions are not supported', async () => {
+    mockTransport.createSession.mockResolvedValue({ uploadId: '', resumable: false });
+    mockTransport.uploadWhole.mockResolvedValue({ id: 'w2-1' });
+
+    const task = await uploadService.uploadW2(file, 2025);
+
+    await expect(uploadService.waitForCompletion(task.id)).resolves.toEqual({ id: 'w2-1' });
+    expect(mockTransport.sendChunk).not.toHaveBeenCalled();
+  });
+
+  it('should retry a chunk after a transient failure', async () => {
+    jest.spyOn(global.Math, 'random').mockReturnValue(0);
+    mockTransport.sendChunk.mockRejectedValueOnce(new ApiError('Bad gateway', 502));
+
+    const task = await uploadService.start('band-media', file);
+    await uploadService.waitForCompletion(task.id);
+
+    expect(mockTransport.sendChunk).toHaveBeenCalledTimes(4);
+    jest.restoreAllMocks();
+  });
+
+  it('should resume from the offset the server reports', async () => {
+    let releaseChunk: () => void = () => undefined;
+    mockTransport.sendChunk.mockImplementationOnce(
+      () => new Promise((_resolve, reject) => (releaseChunk = () => reject(new Error('aborted'))))
+    );
+
+    const task = await uploadService.start('band-media', file);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await uploadService.pause(task.id);
+    releaseChunk();
+    expect(uploadService.getTasks()[0].status).toBe('paused');
+
+    mockTransport.getOffset.mockResolvedValue(DEFAULT_CHUNK_SIZE);
+    await uploadService.resume(task.id);
+    await uploadService.waitForCompletion(task.id);
+
+    expect(mockTransport.createSession).toHaveBeenCalledTimes(1);
+    expect(mockTransport.sendChunk.mock.calls.slice(1).map((call) => call[2])).toEqual([
+      DEFAULT_CHUNK_SIZE,
+      DEFAULT_CHUNK_SIZE * 2,
+    ]);
+  });
+
+  it('should persist unfinished uploads', async () => {
+    mockTransport.createSession.mockReturnValue(new Promise(() => undefined));
+
+    await uploadService.start('band-media', file);
+    const saved = JSON.parse((await AsyncStorage.getItem('upload_sessions')) || '[]');
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ kind: 'band-media', file });
+  });
+
+  it('should reject waiters and clean up the session when cancelled', async () => {
+    mockTransport.sendChunk.mockReturnValue(new Promise(() => undefined));
+
+    const task = await uploadService.start('band-media', file);
+    const completion = uploadService.waitForCompletion(task.id);
+    await new Promise((resolve) => setImmediate(resolve));
+    await uploadService.cancel(task.id);
+
+    await expect(completion).rejects.toThrow('Request was cancelled');
+    expect(mockTransport.abort).toHaveBeenCalled();
+  });
+});
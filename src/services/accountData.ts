@@ -0,0 +1,118 @@
+import { Share } from 'react-native';
+import apiService from './api';
+import appLockService from './appLock';
+import { endpoints } from './endpoints';
+import messageService from './messages';
+import { AccountDeletion, AccountExport, ApiResponse, Message, User } from '../types';
+
+/**
+ * Account Data Service
+ * Self-service data export and account deletion
+ *
+ * - The archive is put together on the device: the backend only holds
+ *   ciphertext, so message history is decrypted here before it's exported
+ * - Deletion is scheduled, not immediate - the account can be restored until
+ *   the backend's cleanup job removes it after the grace period
+ * - Both ask the user to prove it's them first (biometrics or unlock PIN)
+ */
+
+/** Days a deleted account can still be restored - matches the backend's cleanup job */
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+export interface ArchivedMessage {
+  id: string;
+  sender_id: string;
+  sender_name?: string;
+  sent_at: string;
+  /** Null if it couldn't be decrypted on this device */
+  text: string | null;
+}
+
+/** What the user gets: their data, with messages in plaintext */
+export interface AccountArchive extends Omit<AccountExport, 'conversations'> {
+  conversations: {
+    user_id: string;
+    name: string;
+    messages: ArchivedMessage[];
+  }[];
+}
+
+function toArchivedMessage(message: Message): ArchivedMessage {
+  return {
+    id: message.id,
+    sender_id: message.sender_id,
+    sender_name: message.sender_name,
+    sent_at: message.created_at,
+    text: message.content ?? null,
+  };
+}
+
+class AccountDataService {
+  // ============================================================================
+  // EXPORT
+  // ============================================================================
+
+  /**
+   * Everything we hold for the signed-in user, with messages decrypted
+   */
+  async exportData(): Promise<AccountArchive> {
+    await appLockService.confirm('Export your data');
+
+    const { conversations, ...data } = await apiService.call(endpoints.account.export);
+    return {
+      ...data,
+      conversations: await Promise.all(
+        conversations.map(async ({ user_id, name, messages }) => ({
+          user_id,
+          name,
+          messages: (await messageService.decryptMessages(messages)).map(toArchivedMessage),
+        }))
+      ),
+    };
+  }
+
+  /**
+   * Export, then hand the archive (JSON) to the share sheet to save or send
+   */
+  async downloadExport(): Promise<AccountArchive> {
+    const archive = await this.exportData();
+    await Share.share({
+      title: `artist-space-export-${archive.exported_at.slice(0, 10)}.json`,
+      message: JSON.stringify(archive, null, 2),
+    });
+    return archive;
+  }
+
+  // ============================================================================
+  // DELETION
+  // ============================================================================
+
+  /**
+   * Schedule the account for deletion. Other devices are signed out; this one
+   * stays signed in so the user can change their mind.
+   */
+  async scheduleDeletion(): Promise<AccountDeletion> {
+    await appLockService.confirm('Delete account');
+    return await apiService.call(endpoints.account.scheduleDeletion, { body: {} });
+  }
+
+  /**
+   * Keep the account - only possible during the grace period
+   */
+  async cancelDeletion(): Promise<ApiResponse> {
+    return await apiService.call(endpoints.account.cancelDeletion, { body: {} });
+  }
+
+  /**
+   * The user's own pending deletion, if they asked for one (deletions by an
+   * admin aren't theirs to cancel)
+   */
+  getPendingDeletion(user: User | null): AccountDeletion | null {
+    if (!user?.deleted_at || user.suspension_reason !== 'user_deleted') return null;
+
+    const purgeAfter = new Date(user.deleted_at).getTime() + ACCOUNT_DELETION_GRACE_DAYS * 86400000;
+    return { deleted_at: user.deleted_at, purge_after: new Date(purgeAfter).toISOString() };
+  }
+}
+
+export default new AccountDataService();
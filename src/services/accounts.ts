@@ -0,0 +1,280 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getItemAsync, setAccountScope, clearAccountScope } from './storage';
+import backendProfileService from './backendProfiles';
+import { User } from '../types';
+
+/**
+ * Account Service
+ * Accounts signed in on this device and which one is active
+ *
+ * - Each account's tokens and E2EE keys live under its own storage scope
+ *   (storage.ts); the offline cache, queued changes and uploads are kept per
+ *   account by their services
+ * - Signing in always happens with no account active; completing it hands the
+ *   new tokens to the account that signed in
+ * - Subscribers (ApiService, offline, uploads, AuthContext) are awaited, so by
+ *   the time a switch resolves every service is looking at the new account
+ */
+
+export interface Account {
+  id: string;
+  /** Profile as of the last sign-in or refresh, for the account switcher */
+  user: User;
+  /** False once the session expired - switching back needs a new sign-in */
+  signedIn: boolean;
+  addedAt: number;
+  lastActiveAt: number;
+}
+
+export interface AccountChange {
+  /** Active account, null while another account signs in */
+  account: Account | null;
+  previous: Account | null;
+  /** Accounts signed out by this change - their local data should go */
+  removed: string[];
+}
+
+export type AccountChangeListener = (change: AccountChange) => void | Promise<void>;
+
+const STORAGE_KEY = 'accounts';
+
+interface StoredAccounts {
+  activeId: string | null;
+  accounts: Account[];
+}
+
+class AccountService {
+  private accounts: Account[] = [];
+  private activeId: string | null = null;
+  private listeners: Set<AccountChangeListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  constructor() {
+    // Sessions issued by the old backend are useless - sign every account out
+    backendProfileService.subscribe(async ({ backendChanged }) => {
+      if (backendChanged) {
+        await this.removeAll();
+      }
+    });
+  }
+
+  // ============================================================================
+  // ACCOUNTS
+  // ============================================================================
+
+  /**
+   * Accounts in the order they were added
+   */
+  getAccounts(): Account[] {
+    return [...this.accounts];
+  }
+
+  getAccount(accountId: string): Account | undefined {
+    return this.accounts.find((account) => account.id === accountId);
+  }
+
+  getActiveAccount(): Account | null {
+    return (this.activeId && this.getAccount(this.activeId)) || null;
+  }
+
+  /**
+   * Make the user who just signed in the active account, adding it if it's new
+   */
+  async activate(user: User): Promise<Account> {
+    await this.load();
+
+    const now = Date.now();
+    const existing = this.getAccount(user.id);
+    const account: Account = existing
+      ? { ...existing, user, signedIn: true, lastActiveAt: now }
+      : { id: user.id, user, signedIn: true, addedAt: now, lastActiveAt: now };
+
+    this.accounts = existing
+      ? this.accounts.map((entry) => (entry.id === account.id ? account : entry))
+      : [...this.accounts, account];
+    await this.setActive(account.id);
+    return account;
+  }
+
+  /**
+   * Switch to another account on this device
+   */
+  async switchTo(accountId: string): Promise<Account> {
+    await this.load();
+
+    const account = this.getAccount(accountId);
+    if (!account) {
+      throw new Error(`Unknown account: ${accountId}`);
+    }
+
+    const switched: Account = { ...account, lastActiveAt: Date.now() };
+    this.accounts = this.accounts.map((entry) => (entry.id === accountId ? switched : entry));
+    await this.setActive(accountId);
+    return switched;
+  }
+
+  /**
+   * Step away from the active account without signing it out, so another
+   * account can sign in. `expired` marks its session as needing a new sign-in.
+   */
+  async detach(expired: boolean = false): Promise<void> {
+    await this.load();
+
+    if (expired && this.activeId) {
+      this.accounts = this.accounts.map((entry) =>
+        entry.id === this.activeId ? { ...entry, signedIn: false } : entry
+      );
+    }
+    await this.setActive(null);
+  }
+
+  /**
+   * Keep the switcher's copy of a user's profile current
+   */
+  async updateUser(user: User): Promise<void> {
+    await this.load();
+    if (!this.getAccount(user.id)) return;
+
+    this.accounts = this.accounts.map((entry) => (entry.id === user.id ? { ...entry, user } : entry));
+    await this.persist();
+  }
+
+  /**
+   * Sign an account out of this device and delete its stored keys.
+   * Removing the active account leaves no account active.
+   */
+  async remove(accountId: string): Promise<void> {
+    await this.load();
+    if (!this.getAccount(accountId)) return;
+
+    const previous = this.getActiveAccount();
+    this.accounts = this.accounts.filter((entry) => entry.id !== accountId);
+    if (this.activeId === accountId) {
+      this.activeId = null;
+      await setAccountScope(null);
+    }
+
+    await clearAccountScope(accountId);
+    await this.persist();
+    await this.emit(previous, [accountId]);
+  }
+
+  /**
+   * Sign every account out of this device
+   */
+  async removeAll(): Promise<void> {
+    await this.load();
+
+    const previous = this.getActiveAccount();
+    const removed = this.accounts.map((account) => account.id);
+    this.accounts = [];
+    this.activeId = null;
+    await setAccountScope(null);
+
+    for (const accountId of removed) {
+      await clearAccountScope(accountId);
+    }
+    await this.persist();
+    await this.emit(previous, removed);
+  }
+
+  private async setActive(accountId: string | null): Promise<void> {
+    const previous = this.getActiveAccount();
+    this.activeId = accountId;
+    await setAccountScope(accountId);
+    await this.persist();
+
+    if (previous?.id !== accountId) {
+      await this.emit(previous, []);
+    }
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Load saved accounts and apply the active one's storage scope. Call before
+   * reading any tokens.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          if (raw) {
+            const stored: StoredAccounts = JSON.parse(raw);
+            this.accounts = stored.accounts ?? [];
+            this.activeId = stored.activeId && this.getAccount(stored.activeId) ? stored.activeId : null;
+          } else {
+            await this.migrateSingleAccount();
+          }
+
+          await setAccountScope(this.activeId);
+          await this.emit(null, []);
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to load accounts:', error);
+        }
+      })();
+    }
+
+    return this.loaded;
+  }
+
+  /**
+   * Installs from before multi-account support kept one session under
+   * unscoped keys - turn it into the first account
+   */
+  private async migrateSingleAccount(): Promise<void> {
+    const token = await getItemAsync('authToken');
+    const userData = await getItemAsync('userData');
+    if (!token || !userData) return;
+
+    const user: User = JSON.parse(userData);
+    const now = Date.now();
+    this.accounts = [{ id: user.id, user, signedIn: true, addedAt: now, lastActiveAt: now }];
+    this.activeId = user.id;
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    const stored: StoredAccounts = { activeId: this.activeId, accounts: this.accounts };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to persist accounts:', error);
+    }
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to account switches and sign-outs
+   */
+  subscribe(listener: AccountChangeListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async emit(previous: Account | null, removed: string[]): Promise<void> {
+    const change: AccountChange = { account: this.getActiveAccount(), previous, removed };
+
+    await Promise.all(
+      Array.from(this.listeners).map(async (listener) => {
+        try {
+          await listener(change);
+        } catch (error) {
+          if (__DEV__) console.error('Account listener error:', error);
+        }
+      })
+    );
+  }
+}
+
+export default new AccountService();
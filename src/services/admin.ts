@@ -1,5 +1,22 @@
 import apiService from './api';
-import { User, ManagedUser, BillingAdjustment, UserFeature, UserState, GiftCard } from '../types';
+import { endpoints } from './endpoints';
+import {
+  User,
+  ManagedUser,
+  BillingAdjustment,
+  UserFeature,
+  UserState,
+  GiftCard,
+  MessageRetentionPolicy,
+  AdminStats,
+  AgentStatus,
+  Band,
+  BookingAgent,
+  FeatureValue,
+  GiftCardTransaction,
+  Metadata,
+  UserAssignment,
+} from '../types';
 
 /**
  * Admin API Service
@@ -18,44 +35,45 @@ class AdminService {
     status?: string;
     search?: string;
   }): Promise<User[]> {
-    return await apiService.get('/admin/users', params);
+    return await apiService.call(endpoints.admin.users, { query: params });
   }
 
   /**
    * Get user by ID
    */
   async getUserById(userId: string): Promise<User> {
-    return await apiService.get(`/admin/users/${userId}`);
+    return await apiService.call(endpoints.admin.user, { params: { userId } });
   }
 
   /**
    * Approve user
    */
   async approveUser(userId: string): Promise<User> {
-    return await apiService.put(`/admin/users/${userId}/approve`, {});
+    return await apiService.call(endpoints.admin.approveUser, { params: { userId }, body: {} });
   }
 
   /**
    * Reject user
    */
   async rejectUser(userId: string, reason?: string): Promise<void> {
-    return await apiService.put(`/admin/users/${userId}/reject`, { reason });
+    return await apiService.call(endpoints.admin.rejectUser, { params: { userId }, body: { reason } });
   }
 
   /**
    * Delete user (soft delete)
    */
   async deleteUser(userId: string, suspensionReason?: string): Promise<void> {
-    return await apiService.delete(`/admin/users/${userId}`, {
-      suspension_reason: suspensionReason,
+    return await apiService.call(endpoints.admin.deleteUser, {
+      params: { userId },
+      body: { suspension_reason: suspensionReason },
     });
   }
 
   /**
    * Get admin statistics
    */
-  async getAdminStats(): Promise<any> {
-    return await apiService.get('/admin/stats');
+  async getAdminStats(): Promise<AdminStats> {
+    return await apiService.call(endpoints.admin.stats);
   }
 
   /**
@@ -63,10 +81,29 @@ class AdminService {
    */
   async getPendingApprovals(): Promise<{
     users: User[];
-    bands: any[];
+    bands: Band[];
     total: number;
   }> {
-    return await apiService.get('/admin/pending-approvals');
+    return await apiService.call(endpoints.admin.pendingApprovals);
+  }
+
+  // ============================================================================
+  // MESSAGE RETENTION
+  // ============================================================================
+
+  /**
+   * Get the disappearing-message default and limit for all conversations
+   */
+  async getMessageRetention(): Promise<MessageRetentionPolicy> {
+    return await apiService.call(endpoints.admin.messageRetention, {}, { cachePolicy: 'network-only' });
+  }
+
+  /**
+   * Set the disappearing-message default and limit. Conversations with a
+   * longer timer (or none) are held to the limit from their next message.
+   */
+  async updateMessageRetention(policy: MessageRetentionPolicy): Promise<MessageRetentionPolicy> {
+    return await apiService.call(endpoints.admin.setMessageRetention, { body: policy });
   }
 
   // ============================================================================
@@ -81,7 +118,7 @@ class AdminService {
     users: ManagedUser[];
   }> {
     const params = userType ? { userType } : undefined;
-    return await apiService.get('/booking-manager/my-users', params);
+    return await apiService.call(endpoints.bookingManager.users, { query: params });
   }
 
   /**
@@ -95,7 +132,7 @@ class AdminService {
     user: User;
     message: string;
   }> {
-    return await apiService.put(`/booking-manager/users/${userId}/status`, { status });
+    return await apiService.call(endpoints.bookingManager.updateStatus, { params: { userId }, body: { status } });
   }
 
   /**
@@ -106,7 +143,7 @@ class AdminService {
     user: User;
     message: string;
   }> {
-    return await apiService.put(`/booking-manager/users/${userId}/band-limit`, { bandLimit });
+    return await apiService.call(endpoints.bookingManager.setBandLimit, { params: { userId }, body: { bandLimit } });
   }
 
   /**
@@ -117,7 +154,10 @@ class AdminService {
     message: string;
     user: User;
   }> {
-    return await apiService.delete(`/booking-manager/users/${userId}`, { suspensionReason });
+    return await apiService.call(endpoints.bookingManager.softDeleteUser, {
+      params: { userId },
+      body: { suspensionReason },
+    });
   }
 
   // ============================================================================
@@ -140,7 +180,7 @@ class AdminService {
     adjustment: BillingAdjustment;
     message: string;
   }> {
-    return await apiService.put(`/booking-manager/users/${userId}/billing-adjustment`, data);
+    return await apiService.call(endpoints.bookingManager.billingAdjustment, { params: { userId }, body: data });
   }
 
   // ============================================================================
@@ -154,7 +194,7 @@ class AdminService {
     userId: string,
     data: {
       featureType: string;
-      featureValue?: any;
+      featureValue?: FeatureValue;
       expiresAt?: string;
     }
   ): Promise<{
@@ -162,7 +202,7 @@ class AdminService {
     feature: UserFeature;
     message: string;
   }> {
-    return await apiService.post(`/booking-manager/users/${userId}/features`, data);
+    return await apiService.call(endpoints.bookingManager.assignFeature, { params: { userId }, body: data });
   }
 
   /**
@@ -172,7 +212,7 @@ class AdminService {
     success: boolean;
     message: string;
   }> {
-    return await apiService.delete(`/booking-manager/users/${userId}/features/${featureId}`);
+    return await apiService.call(endpoints.bookingManager.removeFeature, { params: { userId, featureId } });
   }
 
   // ============================================================================
@@ -187,14 +227,14 @@ class AdminService {
     data: {
       stateType: string;
       stateValue: string;
-      metadata?: any;
+      metadata?: Metadata;
     }
   ): Promise<{
     success: boolean;
     state: UserState;
     message: string;
   }> {
-    return await apiService.post(`/booking-manager/users/${userId}/states`, data);
+    return await apiService.call(endpoints.bookingManager.assignState, { params: { userId }, body: data });
   }
 
   /**
@@ -204,7 +244,7 @@ class AdminService {
     success: boolean;
     message: string;
   }> {
-    return await apiService.delete(`/booking-manager/users/${userId}/states/${stateId}`);
+    return await apiService.call(endpoints.bookingManager.removeState, { params: { userId, stateId } });
   }
 
   /**
@@ -212,10 +252,10 @@ class AdminService {
    */
   async assignUser(userId: string, notes?: string): Promise<{
     success: boolean;
-    assignment: any;
+    assignment: UserAssignment;
     message: string;
   }> {
-    return await apiService.post('/booking-manager/assign-user', { userId, notes });
+    return await apiService.call(endpoints.bookingManager.assignUser, { body: { userId, notes } });
   }
 
   // ============================================================================
@@ -229,7 +269,7 @@ class AdminService {
     status?: string;
     recipient_type?: string;
   }): Promise<GiftCard[]> {
-    return await apiService.get('/admin-gift-cards', params);
+    return await apiService.call(endpoints.adminGiftCards.list, { query: params });
   }
 
   /**
@@ -246,7 +286,7 @@ class AdminService {
     giftCard: GiftCard;
     message: string;
   }> {
-    return await apiService.post('/admin-gift-cards', data);
+    return await apiService.call(endpoints.adminGiftCards.create, { body: data });
   }
 
   /**
@@ -259,14 +299,14 @@ class AdminService {
       notes?: string;
     }
   ): Promise<GiftCard> {
-    return await apiService.put(`/admin-gift-cards/${giftCardId}`, data);
+    return await apiService.call(endpoints.adminGiftCards.update, { params: { giftCardId }, body: data });
   }
 
   /**
    * Get gift card transactions
    */
-  async getGiftCardTransactions(giftCardId: string): Promise<any[]> {
-    return await apiService.get(`/admin-gift-cards/${giftCardId}/transactions`);
+  async getGiftCardTransactions(giftCardId: string): Promise<GiftCardTransaction[]> {
+    return await apiService.call(endpoints.adminGiftCards.transactions, { params: { giftCardId } });
   }
 
   // ============================================================================
@@ -276,25 +316,25 @@ class AdminService {
   /**
    * Get all booking agents
    */
-  async getBookingAgents(): Promise<any[]> {
-    return await apiService.get('/admin-booking-agents');
+  async getBookingAgents(): Promise<BookingAgent[]> {
+    return await apiService.call(endpoints.adminBookingAgents.list);
   }
 
   /**
    * Update booking agent status
    */
-  async updateAgentStatus(
-    agentId: string,
-    status: 'pending' | 'active' | 'suspended'
-  ): Promise<any> {
-    return await apiService.put(`/admin-booking-agents/${agentId}/status`, { status });
+  async updateAgentStatus(agentId: string, status: AgentStatus): Promise<BookingAgent> {
+    return await apiService.call(endpoints.adminBookingAgents.updateStatus, { params: { agentId }, body: { status } });
   }
 
   /**
    * Set agent as admin
    */
-  async setAdminAgent(agentId: string, isAdmin: boolean): Promise<any> {
-    return await apiService.put(`/admin-booking-agents/${agentId}/admin`, { is_admin_agent: isAdmin });
+  async setAdminAgent(agentId: string, isAdmin: boolean): Promise<BookingAgent> {
+    return await apiService.call(endpoints.adminBookingAgents.setAdmin, {
+      params: { agentId },
+      body: { is_admin_agent: isAdmin },
+    });
   }
 }
 
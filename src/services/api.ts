@@ -1,37 +1,121 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from 'axios';
 import { Platform } from 'react-native';
 import { getItemAsync, setItemAsync, deleteItemAsync } from './storage';
+import offlineService, { CachePolicy, QueuedMethod, QueuedRequest } from './offline';
+import backendProfileService, { BackendProfile, ProfileChange, getApiBaseUrl, getMockBackend } from './backendProfiles';
+import accountService, { AccountChange } from './accounts';
+import networkLog, { CORRELATION_HEADER, createCorrelationId } from './networkLog';
+import {
+  RetryPolicy,
+  RetryInfo,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  parseRetryAfter,
+  wait,
+} from './retryPolicy';
+import {
+  AnyEndpoint,
+  EndpointArgs,
+  EndpointResponse,
+  buildPath,
+  endpoints,
+} from './endpoints';
 import {
   AuthResponse,
+  DeviceInfo,
   LoginCredentials,
+  LoginResponse,
+  OAuthCodeExchange,
+  OAuthProvider,
   RegisterData,
+  TwoFactorChallenge,
+  TwoFactorVerification,
+  UserType,
   ApiResponse
 } from '../types';
+import { decodeJwt } from '../utils/jwt';
 
 // Configuration
-// Load from environment variables (configured in .env file)
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:8787/api';
-const API_TIMEOUT = parseInt(process.env.EXPO_PUBLIC_API_TIMEOUT || '15000', 10);
+// Base URL and timeouts come from the active backend profile (see backendProfiles.ts)
 const IS_WEB = Platform.OS === 'web';
 
-// Validate API URL is configured
-if (!process.env.EXPO_PUBLIC_API_BASE_URL) {
-  console.warn('⚠️ EXPO_PUBLIC_API_BASE_URL not configured. Using default localhost. Please create .env file from .env.example');
+// Refresh access tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Requests that establish or end a session - never refreshed for
+const AUTH_PATHS = [
+  endpoints.auth.login,
+  endpoints.auth.register,
+  endpoints.auth.refresh,
+  endpoints.auth.logout,
+  endpoints.auth.requestLoginPin,
+  endpoints.auth.requestPasswordReset,
+  endpoints.auth.verifyPasswordResetPin,
+  endpoints.auth.resetPassword,
+  endpoints.twoFactor.verify,
+  endpoints.oauth.authorize,
+  endpoints.oauth.callback,
+].map((endpoint) => new RegExp(`^${endpoint.path.replace(/:[A-Za-z0-9_]+/g, '[^/]+')}$`));
+
+function isAuthRequest(url?: string): boolean {
+  return !!url && AUTH_PATHS.some((pattern) => pattern.test(url));
+}
+
+// Error code the backend sends once a session was signed out from another device
+const SESSION_REVOKED_CODE = 'session_revoked';
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Why the user was sent back to sign-in
+ */
+export type SessionEndReason = 'expired' | 'revoked';
+
+function isSessionRevoked(data: unknown): boolean {
+  return (data as Record<string, unknown> | undefined)?.code === SESSION_REVOKED_CODE;
+}
+
+/**
+ * Login needs a second factor before it returns a session
+ */
+export function isTwoFactorChallenge(response: LoginResponse): response is TwoFactorChallenge {
+  return 'twoFactorRequired' in response && response.twoFactorRequired === true;
+}
+
+/**
+ * When to refresh an access token (ms since the epoch), or null if it doesn't
+ * expire. Short-lived tokens refresh at half-life so we don't refresh in a loop.
+ */
+function getRefreshTime(token: string): number | null {
+  const claims = decodeJwt(token);
+  if (typeof claims?.exp !== 'number') return null;
+
+  const lifetimeMs = typeof claims.iat === 'number' ? (claims.exp - claims.iat) * 1000 : Infinity;
+  return claims.exp * 1000 - Math.min(TOKEN_REFRESH_MARGIN_MS, lifetimeMs / 2);
 }
 
-// Warn if on web and using remote API (likely CORS issue)
-if (IS_WEB && API_BASE_URL.startsWith('https://') && !API_BASE_URL.includes('localhost')) {
-  console.warn('⚠️ CORS WARNING: You are on web platform using a remote API URL.');
-  console.warn('   This will likely cause CORS errors unless the backend sends CORS headers.');
-  console.warn('   Solutions:');
-  console.warn('   1. Use the proxy server: npm run proxy (then set EXPO_PUBLIC_API_BASE_URL=http://localhost:3001/api)');
-  console.warn('   2. Use native platforms: npm run ios or npm run android');
-  console.warn('   3. Configure backend to send CORS headers');
-  console.warn(`   Current API URL: ${API_BASE_URL}`);
+/**
+ * Warn if on web and using remote API (likely CORS issue)
+ */
+function warnIfCorsLikely(baseUrl: string) {
+  if (IS_WEB && baseUrl.startsWith('https://') && !baseUrl.includes('localhost')) {
+    console.warn('⚠️ CORS WARNING: You are on web platform using a remote API URL.');
+    console.warn('   This will likely cause CORS errors unless the backend sends CORS headers.');
+    console.warn('   Solutions:');
+    console.warn('   1. Use the proxy server: npm run proxy (then enable "Use dev proxy" in Developer Settings)');
+    console.warn('   2. Use native platforms: npm run ios or npm run android');
+    console.warn('   3. Configure backend to send CORS headers');
+    console.warn(`   Current API URL: ${baseUrl}`);
+  }
 }
 
 // Error handling helper
 export class ApiError extends Error {
+  /** X-Correlation-ID of the failed request, for matching backend logs */
+  correlationId?: string;
+
   constructor(
     message: string,
     public status?: number,
@@ -42,13 +126,106 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Thrown when a mutation couldn't reach the server and was queued for replay.
+ * The change will be sent automatically once connectivity returns.
+ */
+export class OfflineQueuedError extends ApiError {
+  constructor(public queuedRequest: QueuedRequest) {
+    super(
+      "You're offline. Your change has been saved and will sync when you're back online.",
+      undefined,
+      { networkError: true, queued: true, requestId: queuedRequest.id }
+    );
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+/**
+ * Thrown when a request is aborted through its AbortSignal (screen unmounted,
+ * a newer load replaced it). Callers should ignore it rather than show an error.
+ */
+export class RequestCancelledError extends ApiError {
+  constructor() {
+    super('Request was cancelled', undefined, { cancelled: true });
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Returns true if the request was cancelled by the caller
+ */
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof RequestCancelledError;
+}
+
+/**
+ * Returns true if the request never got a response (offline, DNS, timeout)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof ApiError) || error.status !== undefined) return false;
+  const data = error.data as Record<string, unknown> | undefined;
+  return !!(data?.networkError || data?.corsError);
+}
+
+/**
+ * Per-call options for the generic request methods
+ */
+export interface RequestOptions {
+  /** GET only: how to use the offline response cache (default: network-first) */
+  cachePolicy?: CachePolicy;
+  /** GET only: max age in ms for a cache-first hit before going to the network */
+  maxAge?: number;
+  /** Mutations only: queue the request for replay if the network is unreachable */
+  queueOffline?: boolean;
+  /** Label attached to queued requests so screens can pick out their own conflicts */
+  offlineTag?: string;
+  /** Override the retry policy for this call, or pass false to disable retries */
+  retry?: false | Partial<RetryPolicy>;
+  /** Sent as Idempotency-Key; lets POST/PATCH be retried after transient failures */
+  idempotencyKey?: string;
+  /** Called before each retry so screens can show "retrying in Ns" */
+  onRetry?: (info: RetryInfo) => void;
+  /** Abort the request (and any pending retry) when this signal fires */
+  signal?: AbortSignal;
+  /**
+   * GET only: share one network request between identical concurrent calls
+   * (default: true). Options of the first caller win for the shared request.
+   */
+  dedupe?: boolean;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting on the shared request */
+  subscribers: number;
+}
+
+/**
+ * Arguments for `call()` - optional when the endpoint has no params or body
+ */
+type CallArgs<E extends AnyEndpoint> = {} extends EndpointArgs<E>
+  ? [args?: EndpointArgs<E>, options?: RequestOptions]
+  : [args: EndpointArgs<E>, options?: RequestOptions];
+
 class ApiService {
   private client: AxiosInstance;
-  private isRefreshing = false;
-  private failedQueue: Array<{
-    resolve: (value?: any) => void;
-    reject: (reason?: any) => void;
-  }> = [];
+  /** Refresh in progress, shared by every caller that needs a new token */
+  private refreshPromise: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionListeners: Set<(reason: SessionEndReason) => void> = new Set();
+  /** Expiry was already reported for the current session */
+  private sessionExpired = false;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private retryListeners: Set<(info: RetryInfo) => void> = new Set();
+  private inFlight: Map<string, InFlightRequest> = new Map();
+  /** Sent with every sign-in so the backend can list this device */
+  private deviceInfo: DeviceInfo | null = null;
+  private baseUrl: string;
+  private uploadTimeout: number;
+  /** axios' own adapter, restored when leaving mock mode */
+  private networkAdapter: AxiosRequestConfig['adapter'];
 
   constructor() {
     // Configure default headers for CORS on web
@@ -77,21 +254,43 @@ class ApiService {
       // 3. The real solution is to use the proxy server for development or configure CORS_ORIGIN on staging
     }
 
+    const profile = backendProfileService.getActiveProfile();
+    this.baseUrl = getApiBaseUrl(profile);
+    this.uploadTimeout = profile.timeouts.upload;
+    warnIfCorsLikely(this.baseUrl);
+
     this.client = axios.create({
-      baseURL: API_BASE_URL,
+      baseURL: this.baseUrl,
       headers: defaultHeaders,
-      timeout: API_TIMEOUT,
+      timeout: profile.timeouts.api,
       // For web, don't send credentials by default unless needed
       withCredentials: false,
     });
+    this.networkAdapter = this.client.defaults.adapter;
+    this.useAdapter(profile);
 
     // Add auth token to requests
     this.client.interceptors.request.use(
       async (config) => {
-        const token = await getItemAsync('authToken');
+        let token = await getItemAsync('authToken');
+
+        // Refresh first rather than send a token the server is about to reject
+        const refreshAt = token ? getRefreshTime(token) : null;
+        if (refreshAt !== null && refreshAt <= Date.now() && !isAuthRequest(config.url)) {
+          token = await this.refreshSession().catch(() => getItemAsync('authToken'));
+        }
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
+
+        // send() sets the ID up front so retries share it; stamp anything else here
+        let correlationId = config.headers.get(CORRELATION_HEADER);
+        if (!correlationId) {
+          correlationId = createCorrelationId();
+          config.headers.set(CORRELATION_HEADER, correlationId);
+        }
+        networkLog.start(String(correlationId), config);
+
         return config;
       },
       (error) => Promise.reject(error)
@@ -99,10 +298,32 @@ class ApiService {
 
     // Handle responses and errors with automatic token refresh
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        offlineService.setOnline(true);
+        networkLog.succeed(String(response.config.headers.get(CORRELATION_HEADER)), response);
+        return response;
+      },
       async (error: AxiosError) => {
         const originalRequest: any = error.config;
 
+        const correlationId = error.config?.headers.get(CORRELATION_HEADER);
+        if (correlationId) {
+          networkLog.fail(String(correlationId), {
+            status: error.response?.status,
+            data: error.response?.data,
+            message: error.message,
+            cancelled: axios.isCancel(error),
+          });
+        }
+
+        // Aborted by the caller - says nothing about connectivity
+        if (axios.isCancel(error)) {
+          throw new RequestCancelledError();
+        }
+
+        // Any response at all (even an error) means we're reachable
+        offlineService.setOnline(!!error.response);
+
         // Handle CORS errors on web platform (check before token refresh)
         if (IS_WEB && !error.response) {
           const isCorsError = 
@@ -119,85 +340,60 @@ class ApiService {
             throw new ApiError(
               corsMessage,
               undefined,
-              { corsError: true, originalError: error.message, url: error.config?.url }
+              { corsError: true, networkError: true, originalError: error.message, url: error.config?.url }
             );
           }
         }
 
-        // If 401 and we haven't tried to refresh yet
-        if (error.response?.status === 401 && !originalRequest._retry) {
-          if (this.isRefreshing) {
-            // Wait for the current refresh to complete
-            return new Promise((resolve, reject) => {
-              this.failedQueue.push({ resolve, reject });
-            })
-              .then(() => this.client.request(originalRequest))
-              .catch((err) => Promise.reject(err));
-          }
-
+        // Access token rejected - refresh (sharing any refresh already running) and retry once.
+        // A session revoked from another device can't be refreshed.
+        if (
+          error.response?.status === 401 &&
+          !isSessionRevoked(error.response.data) &&
+          !originalRequest._retry &&
+          !isAuthRequest(originalRequest.url) &&
+          originalRequest.headers?.Authorization
+        ) {
           originalRequest._retry = true;
-          this.isRefreshing = true;
-
-          try {
-            const refreshToken = await getItemAsync('refreshToken');
-            if (refreshToken) {
-              // Try to refresh the token
-              const response = await this.client.post('/auth/refresh', { refreshToken });
-
-              if (response.data.token) {
-                await setItemAsync('authToken', response.data.token);
-                if (response.data.refreshToken) {
-                  await setItemAsync('refreshToken', response.data.refreshToken);
-                }
-
-                // Update Authorization header
-                originalRequest.headers.Authorization = `Bearer ${response.data.token}`;
-
-                // Process queued requests
-                this.failedQueue.forEach(({ resolve }) => resolve());
-                this.failedQueue = [];
-
-                // Retry original request
-                return this.client.request(originalRequest);
-              }
-            }
-          } catch (refreshError) {
-            // Refresh failed, clear all auth data
-            this.failedQueue.forEach(({ reject }) => reject(refreshError));
-            this.failedQueue = [];
-
-            await deleteItemAsync('authToken');
-            await deleteItemAsync('refreshToken');
-            await deleteItemAsync('userData');
-
-            throw refreshError;
-          } finally {
-            this.isRefreshing = false;
+
+          // Another request may have refreshed while this one was in flight
+          const current = await getItemAsync('authToken');
+          if (!current || originalRequest.headers.Authorization === `Bearer ${current}`) {
+            await this.refreshSession();
           }
+          return this.client.request(originalRequest);
         }
 
         // Handle rate limiting (429)
         if (error.response?.status === 429) {
           const responseData = error.response?.data as Record<string, unknown> | undefined;
-          const retryAfter = (responseData?.retryAfter as number) || (responseData?.retryAfterMinutes as number) || 1;
-          const message = 
+          const retryAfterMs = parseRetryAfter(error.response?.headers?.['retry-after'], responseData);
+          const minutes = retryAfterMs !== undefined ? Math.max(1, Math.ceil(retryAfterMs / 60000)) : undefined;
+          const message =
             (responseData?.error as string) ||
-            `Too many requests. Please wait ${retryAfter} minute${retryAfter !== 1 ? 's' : ''} before trying again.`;
-          
+            (minutes
+              ? `Too many requests. Please wait ${minutes} minute${minutes !== 1 ? 's' : ''} before trying again.`
+              : 'Too many requests. Please wait a moment before trying again.');
+
           throw new ApiError(
             message,
             error.response?.status,
-            { ...error.response?.data, retryAfter }
+            { ...error.response?.data, retryAfterMs }
           );
         }
 
         if (error.response?.status === 401) {
           // Clear token on unauthorized
           await deleteItemAsync('authToken');
+
+          // Still rejected after a refresh, or revoked - the session is gone
+          if (!isAuthRequest(originalRequest?.url) && originalRequest?.headers?.Authorization) {
+            await this.expireSession(isSessionRevoked(error.response.data) ? 'revoked' : 'expired');
+          }
           
           // Provide more helpful error message for 401 on web platform
           // This might be Cloudflare blocking the request
-          if (IS_WEB && API_BASE_URL.includes('stage-www.artist-space.com')) {
+          if (IS_WEB && this.baseUrl.includes('stage-www.artist-space.com')) {
             const responseData = error.response?.data as Record<string, unknown> | undefined;
             const errorMessage = 
               (responseData?.error as string) ||
@@ -223,6 +419,15 @@ class ApiService {
           }
         }
 
+        // No response at all - offline, DNS failure or timeout
+        if (!error.response) {
+          throw new ApiError(
+            error.message || 'Network request failed',
+            undefined,
+            { networkError: true, code: error.code, url: error.config?.url }
+          );
+        }
+
         const responseData = error.response?.data as Record<string, unknown> | undefined;
         const message =
           (responseData?.error as string) ||
@@ -237,115 +442,338 @@ class ApiService {
         );
       }
     );
+
+    // Queued offline mutations are replayed through the same client
+    offlineService.attach(async (request) => {
+      const response = await this.client.request({
+        method: request.method,
+        url: request.endpoint,
+        data: request.data,
+        headers: { [IDEMPOTENCY_HEADER]: request.idempotencyKey },
+      });
+      await offlineService.invalidate(request.endpoint);
+      return response.data;
+    });
+
+    backendProfileService.subscribe((change) => this.handleProfileChange(change));
+    accountService.subscribe((change) => this.handleAccountChange(change));
   }
 
   // ============================================================================
-  // AUTHENTICATION
+  // BACKEND PROFILE
   // ============================================================================
 
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response = await this.client.post('/auth/login', credentials);
+  /**
+   * Point the client at a backend profile's URL and timeouts
+   */
+  private configure(profile: BackendProfile): void {
+    this.baseUrl = getApiBaseUrl(profile);
+    this.uploadTimeout = profile.timeouts.upload;
+    this.client.defaults.baseURL = this.baseUrl;
+    this.client.defaults.timeout = profile.timeouts.api;
+    this.useAdapter(profile);
+    warnIfCorsLikely(this.baseUrl);
+  }
+
+  /**
+   * Answer requests in-process when the profile uses the mock backend
+   */
+  private useAdapter(profile: BackendProfile): void {
+    this.client.defaults.adapter = profile.mock ? getMockBackend().adapter : this.networkAdapter;
+  }
 
-    if (response.data.token) {
-      await setItemAsync('authToken', response.data.token);
-      // Store user data for offline access
-      await setItemAsync('userData', JSON.stringify(response.data.user));
+  /**
+   * Reconfigure live when the active profile changes. Moving to another
+   * backend drops everything tied to the old one: requests, tokens and cache.
+   */
+  private async handleProfileChange({ profile, backendChanged }: ProfileChange): Promise<void> {
+    this.configure(profile);
+    if (!backendChanged) return;
+
+    this.inFlight.forEach((request) => request.controller.abort());
+    this.inFlight.clear();
+    this.clearRefreshTimer();
+
+    await deleteItemAsync('authToken');
+    await deleteItemAsync('refreshToken');
+    await deleteItemAsync('userData');
+    await offlineService.clear();
+  }
+
+  /**
+   * Requests in flight and the refresh timer belong to the previous account
+   */
+  private async handleAccountChange({ account, previous }: AccountChange): Promise<void> {
+    if (account?.id === previous?.id) return;
+
+    this.inFlight.forEach((request) => request.controller.abort());
+    this.inFlight.clear();
+    this.clearRefreshTimer();
+    this.sessionExpired = false;
+
+    if (account) {
+      await this.resumeSession();
     }
+  }
 
-    // Store refresh token if provided
-    if (response.data.refreshToken) {
-      await setItemAsync('refreshToken', response.data.refreshToken);
+  /**
+   * Base URL requests currently go to (proxy URL when the proxy is on)
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  // ============================================================================
+  // AUTHENTICATION
+  // ============================================================================
+
+  /**
+   * Sign in with a password. Accounts with 2FA get a challenge back instead of
+   * a session - finish it with verifyTwoFactor().
+   */
+  async login(credentials: LoginCredentials): Promise<LoginResponse> {
+    const response = await this.client.post(endpoints.auth.login.path, {
+      ...credentials,
+      device: this.deviceInfo ?? undefined,
+    });
+
+    if (!isTwoFactorChallenge(response.data)) {
+      await this.storeSession(response.data);
     }
 
     return response.data;
   }
 
   async requestLoginPin(email: string): Promise<ApiResponse> {
-    const response = await this.client.post('/auth/request-login-pin', { email });
+    const response = await this.client.post(endpoints.auth.requestLoginPin.path, { email });
     return response.data;
   }
 
-  async loginWithPin(email: string, pinCode: string): Promise<AuthResponse> {
-    const response = await this.client.post('/auth/login', {
+  async loginWithPin(email: string, pinCode: string): Promise<LoginResponse> {
+    const response = await this.client.post(endpoints.auth.login.path, {
       email: email.trim().toLowerCase(),
-      pinCode
+      pinCode,
+      device: this.deviceInfo ?? undefined,
     });
 
-    if (response.data.token) {
-      await setItemAsync('authToken', response.data.token);
-      // Store user data for offline access
-      await setItemAsync('userData', JSON.stringify(response.data.user));
-    }
-
-    // Store refresh token if provided
-    if (response.data.refreshToken) {
-      await setItemAsync('refreshToken', response.data.refreshToken);
+    if (!isTwoFactorChallenge(response.data)) {
+      await this.storeSession(response.data);
     }
 
     return response.data;
   }
 
-  async register(data: RegisterData): Promise<AuthResponse> {
-    const response = await this.client.post('/auth/register', data);
+  /**
+   * Sign in (or sign up, with `user_type`) with an authorization code from an
+   * OAuth provider - see oauthService for getting one
+   */
+  async loginWithOAuth(
+    provider: OAuthProvider,
+    exchange: OAuthCodeExchange & { user_type?: UserType }
+  ): Promise<LoginResponse> {
+    const response = await this.client.post(buildPath(endpoints.oauth.callback.path, { provider }), {
+      ...exchange,
+      device: this.deviceInfo ?? undefined,
+    });
 
-    if (response.data.token) {
-      await setItemAsync('authToken', response.data.token);
-      await setItemAsync('userData', JSON.stringify(response.data.user));
+    if (!isTwoFactorChallenge(response.data)) {
+      await this.storeSession(response.data);
     }
 
-    // Store refresh token if provided
-    if (response.data.refreshToken) {
-      await setItemAsync('refreshToken', response.data.refreshToken);
-    }
+    return response.data;
+  }
 
+  /**
+   * Second sign-in step for accounts with 2FA: the authenticator code, or a
+   * recovery code if the authenticator is lost
+   */
+  async verifyTwoFactor(verification: TwoFactorVerification): Promise<AuthResponse> {
+    const response = await this.client.post(endpoints.twoFactor.verify.path, verification);
+    await this.storeSession(response.data);
     return response.data;
   }
 
-  async refreshAuthToken(refreshToken: string): Promise<AuthResponse> {
-    const response = await this.client.post('/auth/refresh', { refreshToken });
+  async register(data: RegisterData): Promise<AuthResponse> {
+    const response = await this.client.post(endpoints.auth.register.path, {
+      ...data,
+      device: this.deviceInfo ?? undefined,
+    });
 
-    if (response.data.token) {
-      await setItemAsync('authToken', response.data.token);
-      await setItemAsync('userData', JSON.stringify(response.data.user));
+    await this.storeSession(response.data);
+    return response.data;
+  }
+
+  private async storeSession(data: AuthResponse): Promise<void> {
+    if (data.token) {
+      await setItemAsync('authToken', data.token);
+      this.startSession(data.token);
+      // Store user data for offline access
+      await setItemAsync('userData', JSON.stringify(data.user));
     }
 
-    // Update refresh token if a new one is provided
-    if (response.data.refreshToken) {
-      await setItemAsync('refreshToken', response.data.refreshToken);
+    // Store refresh token if provided
+    if (data.refreshToken) {
+      await setItemAsync('refreshToken', data.refreshToken);
     }
+  }
+
+  async refreshAuthToken(refreshToken: string): Promise<AuthResponse> {
+    const response = await this.client.post(endpoints.auth.refresh.path, { refreshToken });
 
+    // Rotates the refresh token if a new one is provided
+    await this.storeSession(response.data);
     return response.data;
   }
 
   async logout(): Promise<void> {
+    this.clearRefreshTimer();
     try {
-      await this.client.post('/auth/logout');
+      await this.client.post(endpoints.auth.logout.path);
     } catch (error) {
       // Logout anyway even if API call fails
     } finally {
       await deleteItemAsync('authToken');
       await deleteItemAsync('userData');
       await deleteItemAsync('refreshToken');
+      // Cached responses and pending changes belong to the signed-out user
+      await offlineService.clear();
+    }
+  }
+
+  // ============================================================================
+  // SESSION
+  // ============================================================================
+
+  /**
+   * Exchange the refresh token for a new access token. Concurrent callers -
+   * API requests, LiveKit token requests, the pre-expiry timer - share one
+   * refresh. A rejected refresh token ends the session; a network error doesn't.
+   */
+  refreshSession(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = await getItemAsync('refreshToken');
+        if (!refreshToken) {
+          await this.expireSession();
+          throw new ApiError('Your session has expired. Please sign in again.', 401);
+        }
+
+        try {
+          const response = await this.refreshAuthToken(refreshToken);
+          if (!response.token) {
+            throw new ApiError('Your session has expired. Please sign in again.', 401);
+          }
+          return response.token;
+        } catch (error) {
+          if (!isNetworkError(error)) {
+            await this.expireSession(
+              error instanceof ApiError && isSessionRevoked(error.data) ? 'revoked' : 'expired'
+            );
+          }
+          throw error;
+        }
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Arm the pre-expiry refresh for a session restored from storage
+   */
+  async resumeSession(): Promise<void> {
+    const token = await getItemAsync('authToken');
+    if (token) {
+      this.startSession(token);
+    }
+  }
+
+  /**
+   * Describe this device for the sessions list. Applies from the next sign-in;
+   * use sessionService.updateCurrentDevice() to change the current session.
+   */
+  setDeviceInfo(device: DeviceInfo): void {
+    this.deviceInfo = device;
+  }
+
+  getDeviceInfo(): DeviceInfo | null {
+    return this.deviceInfo;
+  }
+
+  /**
+   * Called when the session can't be refreshed or was revoked from another
+   * device, and the user has to sign in again
+   */
+  onSessionExpired(listener: (reason: SessionEndReason) => void): () => void {
+    this.sessionListeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  /**
+   * A new access token was stored
+   */
+  private startSession(token: string): void {
+    this.sessionExpired = false;
+    this.clearRefreshTimer();
+
+    const refreshAt = getRefreshTime(token);
+    if (refreshAt === null) return;
+
+    // Long-lived tokens are refreshed by the request interceptor instead
+    const delay = Math.max(refreshAt - Date.now(), 0);
+    if (delay > MAX_TIMER_DELAY_MS) return;
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshSession().catch((error) => {
+        if (__DEV__) console.warn('Scheduled token refresh failed:', error);
+      });
+    }, delay);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
     }
   }
 
+  private async expireSession(reason: SessionEndReason = 'expired'): Promise<void> {
+    this.clearRefreshTimer();
+    if (this.sessionExpired) return;
+    this.sessionExpired = true;
+
+    await deleteItemAsync('authToken');
+    await deleteItemAsync('refreshToken');
+    await deleteItemAsync('userData');
+
+    if (__DEV__) console.log(reason === 'revoked' ? '🔒 Session revoked' : '🔒 Session expired');
+    this.sessionListeners.forEach((listener) => listener(reason));
+  }
+
   async getCurrentUser() {
-    const response = await this.client.get('/auth/me');
+    const response = await this.client.get(endpoints.auth.me.path);
     return response.data;
   }
 
   async requestPasswordReset(email: string) {
-    const response = await this.client.post('/password-reset/request', { email });
+    const response = await this.client.post(endpoints.auth.requestPasswordReset.path, { email });
     return response.data;
   }
 
   async verifyPasswordResetPin(email: string, pin_code: string) {
-    const response = await this.client.post('/password-reset/verify', { email, pin_code });
+    const response = await this.client.post(endpoints.auth.verifyPasswordResetPin.path, { email, pin_code });
     return response.data;
   }
 
   async resetPassword(email: string, pin_code: string, new_password: string) {
-    const response = await this.client.post('/password-reset/reset', {
+    const response = await this.client.post(endpoints.auth.resetPassword.path, {
       email,
       pin_code,
       new_password
@@ -357,40 +785,262 @@ class ApiService {
   // GENERIC API METHODS
   // ============================================================================
 
-  async get<T = unknown>(endpoint: string, params?: Record<string, unknown>): Promise<T> {
-    const response = await this.client.get(endpoint, { params });
-    return response.data;
+  /**
+   * Call an endpoint from the registry. Path params, query, body and the
+   * response type are all checked against the route table.
+   *
+   * @example
+   * const band = await apiService.call(endpoints.bands.getById, { params: { bandId } });
+   */
+  async call<E extends AnyEndpoint>(endpoint: E, ...[args, options]: CallArgs<E>): Promise<EndpointResponse<E>> {
+    const { params, query, body } = (args ?? {}) as {
+      params?: Record<string, string>;
+      query?: Record<string, unknown>;
+      body?: unknown;
+    };
+    const url = buildPath(endpoint.path, params);
+
+    if (endpoint.method === 'GET') {
+      return this.get<EndpointResponse<E>>(url, query, options);
+    }
+
+    const method = endpoint.method.toLowerCase() as QueuedMethod;
+    return this.mutate<EndpointResponse<E>>(method, url, body, options ?? {});
   }
 
-  async post<T = unknown>(endpoint: string, data: unknown): Promise<T> {
-    const response = await this.client.post(endpoint, data);
-    return response.data;
+  /**
+   * GET with offline support. By default the network is tried first and the
+   * cached response is returned if the server can't be reached.
+   */
+  async get<T = unknown>(
+    endpoint: string,
+    params?: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const cachePolicy = options.cachePolicy ?? 'network-first';
+    const cacheKey = offlineService.getCacheKey(endpoint, params);
+
+    if (cachePolicy === 'cache-first') {
+      const cached = await offlineService.getCached<T>(cacheKey);
+      const isFresh = cached && (options.maxAge === undefined || Date.now() - cached.cachedAt <= options.maxAge);
+      if (cached && isFresh) {
+        return cached.data;
+      }
+    }
+
+    const load = async (signal?: AbortSignal): Promise<T> => {
+      try {
+        const response = await this.send({ method: 'get', url: endpoint, params }, { ...options, signal });
+        if (cachePolicy !== 'network-only') {
+          await offlineService.setCached(cacheKey, response.data);
+        }
+        return response.data;
+      } catch (error) {
+        if (cachePolicy !== 'network-only' && isNetworkError(error)) {
+          const cached = await offlineService.getCached<T>(cacheKey);
+          if (cached) {
+            return cached.data;
+          }
+        }
+        throw error;
+      }
+    };
+
+    if (options.dedupe === false) {
+      return load(options.signal);
+    }
+    return this.joinInFlight(cacheKey, options.signal, load);
   }
 
-  async put<T = unknown>(endpoint: string, data: unknown): Promise<T> {
-    const response = await this.client.put(endpoint, data);
-    return response.data;
+  /**
+   * Share one request between identical concurrent GETs. Each caller can
+   * cancel independently; the network request is only aborted once every
+   * caller has gone away.
+   */
+  private joinInFlight<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    load: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError());
+    }
+
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: load(controller.signal).finally(() => {
+          if (this.inFlight.get(key) === created) {
+            this.inFlight.delete(key);
+          }
+        }),
+      };
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers += 1;
+
+    if (!signal) {
+      return shared.promise as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers -= 1;
+        if (shared.subscribers === 0) {
+          // Nobody is waiting any more - cancel, and don't let new callers join it
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+          shared.controller.abort();
+        }
+        reject(new RequestCancelledError());
+      };
+
+      signal.addEventListener('abort', onAbort);
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
   }
 
-  async patch<T = unknown>(endpoint: string, data: unknown): Promise<T> {
-    const response = await this.client.patch(endpoint, data);
-    return response.data;
+  async post<T = unknown>(endpoint: string, data: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.mutate<T>('post', endpoint, data, options);
   }
 
-  async delete<T = unknown>(endpoint: string): Promise<T> {
-    const response = await this.client.delete(endpoint);
-    return response.data;
+  async put<T = unknown>(endpoint: string, data: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.mutate<T>('put', endpoint, data, options);
+  }
+
+  async patch<T = unknown>(endpoint: string, data: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.mutate<T>('patch', endpoint, data, options);
+  }
+
+  async delete<T = unknown>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    return this.mutate<T>('delete', endpoint, undefined, options);
+  }
+
+  /**
+   * Send a mutation, queueing it for later if the caller opted in and we're offline
+   */
+  private async mutate<T>(
+    method: QueuedMethod,
+    endpoint: string,
+    data: unknown,
+    options: RequestOptions
+  ): Promise<T> {
+    // Queued requests keep the key of their first attempt, so a replay of one
+    // the server did get isn't applied twice
+    const idempotencyKey = options.idempotencyKey ?? (options.queueOffline ? createCorrelationId() : undefined);
+    try {
+      const response = await this.send({ method, url: endpoint, data }, { ...options, idempotencyKey });
+      await offlineService.invalidate(endpoint);
+      return response.data;
+    } catch (error) {
+      if (options.queueOffline && isNetworkError(error)) {
+        const queued = await offlineService.enqueue({
+          method,
+          endpoint,
+          data,
+          tag: options.offlineTag,
+          idempotencyKey,
+        });
+        throw new OfflineQueuedError(queued);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy
+   */
+  private async send(config: AxiosRequestConfig, options: RequestOptions) {
+    const policy: RetryPolicy =
+      options.retry === false
+        ? { ...this.retryPolicy, maxRetries: 0 }
+        : { ...this.retryPolicy, ...options.retry };
+    const method = config.method || 'get';
+    const correlationId = createCorrelationId();
+
+    config.headers = { ...config.headers, [CORRELATION_HEADER]: correlationId };
+    if (options.idempotencyKey) {
+      config.headers = { ...config.headers, [IDEMPOTENCY_HEADER]: options.idempotencyKey };
+    }
+    if (options.signal) {
+      config.signal = options.signal;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.client.request(config);
+      } catch (error) {
+        if (error instanceof ApiError) {
+          error.correlationId = correlationId;
+        }
+        if (!(error instanceof ApiError) || error instanceof RequestCancelledError) throw error;
+
+        const delayMs = getRetryDelay(error, method, attempt, policy, !!options.idempotencyKey);
+        if (delayMs === null) throw error;
+
+        const info: RetryInfo = {
+          attempt,
+          maxRetries: policy.maxRetries,
+          delayMs,
+          status: error.status,
+          method,
+          endpoint: config.url || '',
+        };
+        options.onRetry?.(info);
+        this.retryListeners.forEach((listener) => listener(info));
+
+        await wait(delayMs, options.signal);
+        if (options.signal?.aborted) {
+          throw new RequestCancelledError();
+        }
+      }
+    }
+  }
+
+  /**
+   * Change the default retry policy for all requests
+   */
+  configureRetry(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * Observe retries across the app (e.g. for a global "retrying..." indicator)
+   */
+  onRetry(listener: (info: RetryInfo) => void): () => void {
+    this.retryListeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.retryListeners.delete(listener);
+    };
   }
 
   // ============================================================================
   // FILE UPLOAD
   // ============================================================================
 
-  async uploadFile(endpoint: string, file: FormData, onProgress?: (progress: number) => void) {
+  async uploadFile(
+    endpoint: string,
+    file: FormData,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) {
     const response = await this.client.post(endpoint, file, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      timeout: this.uploadTimeout,
+      signal,
       onUploadProgress: (progressEvent) => {
         if (onProgress && progressEvent.total) {
           const percentCompleted = Math.round((progressEvent.loaded * 100) / progressEvent.total);
@@ -401,12 +1051,38 @@ class ApiService {
     return response.data;
   }
 
+  /**
+   * Send one chunk of a resumable upload. `start` is the byte offset of the
+   * chunk within the whole file; progress reports bytes sent for this chunk.
+   * Not retried here - the upload manager retries chunks itself.
+   */
+  async uploadChunk<T = unknown>(
+    endpoint: string,
+    chunk: Blob,
+    range: { start: number; total: number },
+    options: { signal?: AbortSignal; onProgress?: (loadedBytes: number) => void } = {}
+  ): Promise<T> {
+    const end = range.start + chunk.size - 1;
+    const response = await this.client.put(endpoint, chunk, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Range': `bytes ${range.start}-${end}/${range.total}`,
+      },
+      timeout: this.uploadTimeout,
+      signal: options.signal,
+      onUploadProgress: (progressEvent) => {
+        options.onProgress?.(progressEvent.loaded);
+      },
+    });
+    return response.data;
+  }
+
   // ============================================================================
   // HEALTH CHECK
   // ============================================================================
 
   async healthCheck() {
-    const response = await this.client.get('/health');
+    const response = await this.client.get(endpoints.health.path);
     return response.data;
   }
 
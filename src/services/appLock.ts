@@ -0,0 +1,463 @@
+import { AppState, AppStateStatus, NativeEventSubscription, Platform } from 'react-native';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha512 } from '@noble/hashes/sha2';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import { getItemAsync, setItemAsync, deleteItemAsync } from './storage';
+import { ApiError } from './api';
+
+// Conditionally import LocalAuthentication only on native platforms
+let LocalAuthentication: any = null;
+if (Platform.OS !== 'web') {
+  LocalAuthentication = require('expo-local-authentication');
+}
+
+/**
+ * App Lock Service
+ * Locks the app behind biometrics or an unlock PIN after a period of
+ * inactivity or time in the background, and confirms sensitive actions
+ * (step-up) the same way.
+ *
+ * - Settings are per device: every account on it shares the lock
+ * - Biometrics fall back to the device passcode; the unlock PIN covers
+ *   devices without either (and web)
+ * - Too many wrong PINs leave only biometrics or signing out until the
+ *   lockout ends - restarting the app doesn't reset the count
+ * - On web the PIN's hash and the attempt count sit in localStorage, where
+ *   anyone at the browser can reset them: there the PIN keeps a passer-by
+ *   out, but its lockout isn't enforced
+ *
+ * @example
+ * await appLockService.confirm('Mark payout as paid');
+ * // throws StepUpError if the user cancels or can't confirm
+ */
+
+export const AUTO_LOCK_OPTIONS: { label: string; value: number | null }[] = [
+  { label: 'When I leave the app', value: 0 },
+  { label: 'After 1 minute', value: 60 * 1000 },
+  { label: 'After 5 minutes', value: 5 * 60 * 1000 },
+  { label: 'After 15 minutes', value: 15 * 60 * 1000 },
+  { label: 'Never', value: null },
+];
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 30 * 60 * 1000;
+
+const AUTO_LOCK_KEY = 'autoLockTimeout';
+const UNLOCK_PIN_KEY = 'unlockPin';
+const PIN_ATTEMPTS_KEY = 'unlockPinAttempts';
+// A 4-6 digit PIN has few enough values to try them all, so each try is made
+// slow. Stored with the PIN, so it can be raised later.
+const PIN_ITERATIONS = 50000;
+
+// System prompts dismissed by the user (or the OS), rather than failed
+const CANCEL_ERRORS = ['user_cancel', 'system_cancel', 'app_cancel'];
+
+/**
+ * A sensitive action wasn't confirmed. Extends ApiError so screens show the
+ * message like any other failed request.
+ */
+export class StepUpError extends ApiError {
+  constructor(message: string, public cancelled: boolean = false) {
+    super(message);
+    this.name = 'StepUpError';
+  }
+}
+
+/**
+ * Asks for the unlock PIN and checks it with `verify` until it's right
+ * (true) or the user gives up or runs out of attempts (false)
+ */
+export type PinPrompt = (reason: string, verify: (pin: string) => Promise<boolean>) => Promise<boolean>;
+
+export type AppLockListener = (locked: boolean) => void;
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+  /** PBKDF2 iterations; missing on PINs saved as a single SHA-512 */
+  iterations?: number;
+}
+
+/**
+ * PBKDF2-HMAC-SHA512 of the PIN, or the single salted SHA-512 PINs used to
+ * be saved as
+ */
+async function hashPin(pin: string, salt: string, iterations?: number): Promise<string> {
+  if (!iterations) {
+    return encodeBase64(nacl.hash(decodeUTF8(`${salt}:${pin}`)));
+  }
+  return encodeBase64(await pbkdf2Async(sha512, decodeUTF8(pin), decodeBase64(salt), { c: iterations, dkLen: 32 }));
+}
+
+class AppLockService {
+  private timeoutMs: number | null = null;
+  private pin: StoredPin | null = null;
+  private failedAttempts = 0;
+  private lockedOutUntil: number | null = null;
+  private locked = false;
+  private active = false;
+  private lastActivity = Date.now();
+  private backgroundedAt: number | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private pinPrompt: PinPrompt | null = null;
+  private listeners: Set<AppLockListener> = new Set();
+
+  /**
+   * Read the saved settings. Call before start().
+   */
+  async load(): Promise<void> {
+    try {
+      const timeout = await getItemAsync(AUTO_LOCK_KEY);
+      this.timeoutMs = timeout === null ? null : Number(timeout);
+
+      const pin = await getItemAsync(UNLOCK_PIN_KEY);
+      this.pin = pin ? JSON.parse(pin) : null;
+
+      const attempts = await getItemAsync(PIN_ATTEMPTS_KEY);
+      if (attempts) {
+        ({ failedAttempts: this.failedAttempts, lockedOutUntil: this.lockedOutUntil } = JSON.parse(attempts));
+      }
+    } catch (error) {
+      if (__DEV__) console.error('Failed to load app lock settings:', error);
+    }
+  }
+
+  // ============================================================================
+  // SETTINGS
+  // ============================================================================
+
+  /**
+   * Milliseconds of inactivity before locking; 0 locks as soon as the app is
+   * left, null turns auto-lock off
+   */
+  getAutoLockTimeout(): number | null {
+    return this.timeoutMs;
+  }
+
+  async setAutoLockTimeout(timeoutMs: number | null): Promise<void> {
+    this.timeoutMs = timeoutMs;
+    if (timeoutMs === null) {
+      await deleteItemAsync(AUTO_LOCK_KEY);
+    } else {
+      await setItemAsync(AUTO_LOCK_KEY, String(timeoutMs));
+    }
+    this.clearIdleTimer();
+    this.recordActivity();
+  }
+
+  isEnabled(): boolean {
+    return this.timeoutMs !== null;
+  }
+
+  hasPin(): boolean {
+    return this.pin !== null;
+  }
+
+  async setPin(pin: string): Promise<void> {
+    if (!PIN_PATTERN.test(pin)) {
+      throw new ApiError('Your PIN must be 4 to 6 digits.');
+    }
+
+    await this.savePin(pin);
+    await this.setFailedAttempts(0);
+  }
+
+  async clearPin(): Promise<void> {
+    this.pin = null;
+    await this.setFailedAttempts(0);
+    await deleteItemAsync(UNLOCK_PIN_KEY);
+  }
+
+  /**
+   * Biometrics (or the device passcode behind them) are set up on this device
+   */
+  async canUseBiometric(): Promise<boolean> {
+    if (!LocalAuthentication) return false;
+    try {
+      return (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+    } catch (error) {
+      if (__DEV__) console.warn('Biometric check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Auto-lock needs something to unlock with
+   */
+  async hasUnlockMethod(): Promise<boolean> {
+    return this.hasPin() || (await this.canUseBiometric());
+  }
+
+  // ============================================================================
+  // LOCKING
+  // ============================================================================
+
+  /**
+   * Begin watching for inactivity and backgrounding (a session became active)
+   */
+  start(): void {
+    if (this.active) return;
+
+    this.active = true;
+    this.appStateSubscription = AppState.addEventListener?.('change', this.handleAppStateChange) ?? null;
+    this.recordActivity();
+  }
+
+  /**
+   * Stop watching and unlock (everyone signed out)
+   */
+  stop(): void {
+    // Signing back in with a password proves as much as the PIN would. Not
+    // on launch, before anyone has signed in - that would undo a lockout.
+    if (this.active) {
+      this.setFailedAttempts(0).catch((error) => {
+        if (__DEV__) console.error('Failed to reset PIN attempts:', error);
+      });
+    }
+
+    this.active = false;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.clearIdleTimer();
+    this.backgroundedAt = null;
+    this.setLocked(false);
+  }
+
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Lock now, if auto-lock is on
+   */
+  lock(): void {
+    if (!this.isEnabled()) return;
+    this.clearIdleTimer();
+    this.setLocked(true);
+  }
+
+  /**
+   * The user touched the app - restart the inactivity timer
+   */
+  recordActivity(): void {
+    this.lastActivity = Date.now();
+    if (!this.active || this.locked) return;
+
+    // A zero timeout only locks when the app is left
+    if (!this.timeoutMs) {
+      this.clearIdleTimer();
+      return;
+    }
+    if (!this.idleTimer) {
+      this.scheduleIdleCheck(this.timeoutMs);
+    }
+  }
+
+  private scheduleIdleCheck(delay: number): void {
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (!this.active || this.locked || !this.timeoutMs) return;
+
+      // Touches don't move the timer; check how long it's really been
+      const idle = Date.now() - this.lastActivity;
+      if (idle >= this.timeoutMs) {
+        this.lock();
+      } else {
+        this.scheduleIdleCheck(this.timeoutMs - idle);
+      }
+    }, delay);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  // 'inactive' also fires for system prompts (including Face ID) - only a real
+  // trip to the background counts
+  private handleAppStateChange = (state: AppStateStatus): void => {
+    if (state === 'background') {
+      if (this.backgroundedAt === null) this.backgroundedAt = Date.now();
+      return;
+    }
+
+    if (state === 'active' && this.backgroundedAt !== null) {
+      const away = Date.now() - this.backgroundedAt;
+      this.backgroundedAt = null;
+      if (this.timeoutMs !== null && away >= this.timeoutMs) {
+        this.lock();
+      } else {
+        this.recordActivity();
+      }
+    }
+  };
+
+  // ============================================================================
+  // UNLOCKING
+  // ============================================================================
+
+  /**
+   * Show the system biometric prompt. Resolves false if it was cancelled or failed.
+   */
+  async unlockWithBiometric(): Promise<boolean> {
+    const result = await this.authenticate('Unlock Artist Space');
+    if (result.success) {
+      await this.unlock();
+    }
+    return result.success;
+  }
+
+  /**
+   * Unlock with the PIN. False if it's wrong or no attempts are left.
+   */
+  async unlockWithPin(pin: string): Promise<boolean> {
+    const valid = await this.verifyPin(pin);
+    if (valid) {
+      await this.unlock();
+    }
+    return valid;
+  }
+
+  getRemainingPinAttempts(): number {
+    if (this.lockedOutUntil !== null) {
+      return Date.now() < this.lockedOutUntil ? 0 : MAX_PIN_ATTEMPTS;
+    }
+    return Math.max(0, MAX_PIN_ATTEMPTS - this.failedAttempts);
+  }
+
+  private async verifyPin(pin: string): Promise<boolean> {
+    if (!this.pin || this.getRemainingPinAttempts() === 0) return false;
+
+    const { salt, hash, iterations } = this.pin;
+    if ((await hashPin(pin, salt, iterations)) !== hash) {
+      // A finished lockout starts the count again
+      await this.setFailedAttempts((this.lockedOutUntil === null ? this.failedAttempts : 0) + 1);
+      return false;
+    }
+    if (iterations !== PIN_ITERATIONS) {
+      await this.savePin(pin);
+    }
+    await this.setFailedAttempts(0);
+    return true;
+  }
+
+  private async savePin(pin: string): Promise<void> {
+    const salt = encodeBase64(nacl.randomBytes(16));
+    this.pin = { salt, hash: await hashPin(pin, salt, PIN_ITERATIONS), iterations: PIN_ITERATIONS };
+    await setItemAsync(UNLOCK_PIN_KEY, JSON.stringify(this.pin));
+  }
+
+  /**
+   * Saved so restarting the app doesn't give more attempts. Running out
+   * locks the PIN for PIN_LOCKOUT_MS.
+   */
+  private async setFailedAttempts(count: number): Promise<void> {
+    if (count === this.failedAttempts && this.lockedOutUntil === null) return;
+
+    this.failedAttempts = count;
+    this.lockedOutUntil = count >= MAX_PIN_ATTEMPTS ? Date.now() + PIN_LOCKOUT_MS : null;
+    if (count === 0) {
+      await deleteItemAsync(PIN_ATTEMPTS_KEY);
+    } else {
+      await setItemAsync(
+        PIN_ATTEMPTS_KEY,
+        JSON.stringify({ failedAttempts: count, lockedOutUntil: this.lockedOutUntil })
+      );
+    }
+  }
+
+  private async unlock(): Promise<void> {
+    await this.setFailedAttempts(0);
+    this.setLocked(false);
+    this.recordActivity();
+  }
+
+  // ============================================================================
+  // STEP-UP CONFIRMATION
+  // ============================================================================
+
+  /**
+   * Set how the PIN is asked for when biometrics aren't available
+   */
+  setPinPrompt(prompt: PinPrompt | null): void {
+    this.pinPrompt = prompt;
+  }
+
+  /**
+   * Ask the user to prove it's them before a sensitive action. `reason` is
+   * shown in the prompt. Throws StepUpError unless they do.
+   */
+  async confirm(reason: string): Promise<void> {
+    if (await this.canUseBiometric()) {
+      const result = await this.authenticate(reason);
+      if (result.success) {
+        this.recordActivity();
+        return;
+      }
+      if (CANCEL_ERRORS.includes(result.error ?? '') || !this.hasPin()) {
+        throw new StepUpError('Confirmation was cancelled.', true);
+      }
+      // Biometrics failed or were locked out - try the PIN
+    }
+
+    if (this.hasPin() && this.pinPrompt) {
+      if (this.getRemainingPinAttempts() === 0) {
+        throw new StepUpError(
+          'Too many incorrect PIN attempts. Try again later, or unlock with biometrics or sign in again.'
+        );
+      }
+      const confirmed = await this.pinPrompt(reason, (pin) => this.verifyPin(pin));
+      if (confirmed) {
+        this.recordActivity();
+        return;
+      }
+      // Out of attempts - whoever is holding the device shouldn't stay in
+      if (this.getRemainingPinAttempts() === 0) {
+        this.lock();
+      }
+      throw new StepUpError('Confirmation was cancelled.', true);
+    }
+
+    throw new StepUpError('Set up an unlock PIN in Privacy & Security to confirm this action.');
+  }
+
+  private async authenticate(promptMessage: string): Promise<{ success: boolean; error?: string }> {
+    if (!LocalAuthentication) return { success: false, error: 'not_available' };
+    try {
+      return await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: 'Cancel',
+        disableDeviceFallback: false,
+      });
+    } catch (error) {
+      if (__DEV__) console.error('Biometric authentication error:', error);
+      return { success: false, error: 'unknown' };
+    }
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  subscribe(listener: AppLockListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setLocked(locked: boolean): void {
+    if (this.locked === locked) return;
+    this.locked = locked;
+    this.listeners.forEach((listener) => listener(locked));
+  }
+}
+
+export default new AppLockService();
@@ -0,0 +1,182 @@
+import apiService from './api';
+import accountService from './accounts';
+import { endpoints } from './endpoints';
+import encryptionService from './encryption';
+import { AttachmentFile, AttachmentKind, MessageAction, MessageAttachment, MessageReply } from '../types';
+
+/**
+ * Attachment Service
+ * Encrypted images, voice notes and files for direct and group messages
+ *
+ * - Each file is encrypted on the device with its own random key
+ *   (XSalsa20-Poly1305) and uploaded as an opaque blob
+ * - The key, name and type of the file travel inside the encrypted message,
+ *   so only people who can read the message can open the file
+ * - Files are downloaded and decrypted when opened, and kept in memory for a
+ *   while so previews don't download again
+ */
+
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const ATTACHMENT_TOO_LARGE_CODE = 'attachment_too_large';
+
+// Message bodies with attachments, a quoted reply or an action are JSON
+// after this marker; plain text otherwise
+const BODY_MARKER = '\u0000att1:';
+
+// Decrypted files kept in memory
+const MAX_CACHED_FILES = 20;
+
+/**
+ * What a file shows as in the chat
+ */
+export function attachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+/** What goes inside the encrypted message besides the text and files */
+export interface MessageBodyExtras {
+  reply_to?: MessageReply;
+  action?: MessageAction;
+}
+
+/**
+ * Plaintext to encrypt for a message with attachments, a reply or an action
+ */
+export function encodeMessageBody(
+  content: string,
+  attachments: MessageAttachment[] = [],
+  { reply_to, action }: MessageBodyExtras = {}
+): string {
+  if (attachments.length === 0 && !reply_to && !action) return content;
+  return BODY_MARKER + JSON.stringify({ content, attachments, reply_to, action });
+}
+
+/**
+ * Split decrypted plaintext back into the text, its attachments and extras
+ */
+export function decodeMessageBody(
+  body: string
+): { content: string; attachments?: MessageAttachment[] } & MessageBodyExtras {
+  if (!body.startsWith(BODY_MARKER)) return { content: body };
+
+  try {
+    const { content, attachments, reply_to, action } = JSON.parse(body.slice(BODY_MARKER.length));
+    return {
+      content: typeof content === 'string' ? content : '',
+      attachments: Array.isArray(attachments) ? attachments : [],
+      ...(typeof reply_to?.message_id === 'string' && { reply_to }),
+      ...(typeof action?.message_id === 'string' && { action }),
+    };
+  } catch {
+    return { content: body };
+  }
+}
+
+class AttachmentService {
+  // Decrypted files as data URIs, by attachment ID (oldest first)
+  private files: Map<string, string> = new Map();
+
+  constructor() {
+    accountService.subscribe(() => this.clearCache());
+  }
+
+  /**
+   * Encrypt and upload a file. Send the result with the message.
+   */
+  async upload(file: AttachmentFile): Promise<MessageAttachment> {
+    const data = file.base64 ?? (await this.readFile(file.uri));
+    const size = base64Size(data);
+    if (size > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`${file.name} is too large - attachments can be up to 25 MB`);
+    }
+
+    const key = encryptionService.generateSymmetricKey();
+    const encrypted = encryptionService.encryptDataWithKey(data, key);
+    const uploaded = await apiService.call(endpoints.messages.uploadAttachment, { body: { data: encrypted.ciphertext } });
+
+    const attachment: MessageAttachment = {
+      id: uploaded.id,
+      kind: attachmentKind(file.mime_type),
+      name: file.name,
+      mime_type: file.mime_type,
+      size,
+      key,
+      nonce: encrypted.nonce,
+      duration_ms: file.duration_ms,
+      width: file.width,
+      height: file.height,
+    };
+    this.remember(attachment.id, toDataUri(attachment, data));
+    return attachment;
+  }
+
+  /**
+   * Download and decrypt an attachment. Resolves with a data URI for Image,
+   * Share and the like.
+   */
+  async open(attachment: MessageAttachment): Promise<string> {
+    const cached = this.files.get(attachment.id);
+    if (cached) {
+      this.remember(attachment.id, cached);
+      return cached;
+    }
+
+    const blob = await apiService.call(
+      endpoints.messages.attachment,
+      { params: { attachmentId: attachment.id } },
+      { cachePolicy: 'network-only' }
+    );
+    const data = encryptionService.decryptDataWithKey({ ciphertext: blob.data, nonce: attachment.nonce }, attachment.key);
+
+    const uri = toDataUri(attachment, data);
+    this.remember(attachment.id, uri);
+    return uri;
+  }
+
+  /**
+   * Forget decrypted files (call on logout or account switch)
+   */
+  clearCache(): void {
+    this.files.clear();
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private remember(id: string, uri: string): void {
+    this.files.delete(id);
+    this.files.set(id, uri);
+    if (this.files.size > MAX_CACHED_FILES) {
+      this.files.delete(this.files.keys().next().value!);
+    }
+  }
+
+  /**
+   * Read a local file as Base64
+   */
+  private async readFile(uri?: string): Promise<string> {
+    if (!uri) throw new Error('Attachment has no file');
+
+    const blob = await (await fetch(uri)).blob();
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+      reader.onerror = () => reject(new Error('Failed to read the file'));
+      reader.readAsDataURL(blob);
+    });
+  }
+}
+
+function base64Size(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+function toDataUri(attachment: MessageAttachment, data: string): string {
+  return `data:${attachment.mime_type};base64,${data}`;
+}
+
+export default new AttachmentService();
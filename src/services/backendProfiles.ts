@@ -0,0 +1,337 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Backend Profile Service
+ * Which backend the app talks to: API base URL, LiveKit instances and timeouts
+ *
+ * - Built-in profiles for the .env defaults, local, staging, production and
+ *   the in-process mock backend
+ * - Profiles can be edited or added from the hidden developer settings screen
+ * - The active profile is persisted, and subscribers (ApiService, LiveKit,
+ *   AuthContext) reconfigure themselves when it changes - no rebuild needed
+ */
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  apiBaseUrl: string;
+  livekit: {
+    main: string;
+    meet: string;
+    chat: string;
+  };
+  timeouts: {
+    /** Regular API requests (ms) */
+    api: number;
+    /** File uploads and upload chunks (ms) */
+    upload: number;
+  };
+  /** Route API calls through dev-proxy-server.js instead of apiBaseUrl */
+  useProxy: boolean;
+  /** Answer API calls from the in-process mock backend (mockBackend.ts) */
+  mock?: boolean;
+}
+
+export interface ProfileChange {
+  profile: BackendProfile;
+  previous: BackendProfile;
+  /** The effective API URL changed - sessions from the old backend are invalid */
+  backendChanged: boolean;
+}
+
+export type ProfileChangeListener = (change: ProfileChange) => void | Promise<void>;
+
+const STORAGE_KEY = 'backend_profiles';
+
+// Port and path served by dev-proxy-server.js (npm run proxy)
+export const DEV_PROXY_URL = 'http://localhost:3001/api';
+
+// Never resolves on the network; only the mock adapter answers it
+export const MOCK_API_URL = 'mock://artist-space/api';
+
+// Authorization URLs the mock backend hands out for its identity provider
+export const MOCK_IDP_URL = 'mock-idp://';
+
+// Hidden in production builds so a tester can't be pointed at a look-alike backend
+export const DEV_SETTINGS_ENABLED = __DEV__ || process.env.EXPO_PUBLIC_ENV !== 'production';
+
+const DEFAULT_TIMEOUTS = {
+  api: parseInt(process.env.EXPO_PUBLIC_API_TIMEOUT || '15000', 10),
+  upload: 120000,
+};
+
+const DEFAULT_LIVEKIT = {
+  main: process.env.EXPO_PUBLIC_LIVEKIT_URL || '',
+  meet: process.env.EXPO_PUBLIC_LIVEKIT_MEET_URL || 'wss://meet.artist-space.com',
+  chat: process.env.EXPO_PUBLIC_LIVEKIT_CHAT_URL || 'wss://chat.artist-space.com',
+};
+
+// Validate API URL is configured
+if (!process.env.EXPO_PUBLIC_API_BASE_URL) {
+  console.warn('⚠️ EXPO_PUBLIC_API_BASE_URL not configured. Using default localhost. Please create .env file from .env.example');
+}
+
+export const BUILT_IN_PROFILES: BackendProfile[] = [
+  {
+    id: 'env',
+    name: 'Default (.env)',
+    apiBaseUrl: process.env.EXPO_PUBLIC_API_BASE_URL || 'http://localhost:8787/api',
+    livekit: DEFAULT_LIVEKIT,
+    timeouts: DEFAULT_TIMEOUTS,
+    useProxy: false,
+    mock: process.env.EXPO_PUBLIC_MOCK_API === 'true',
+  },
+  {
+    id: 'mock',
+    name: 'Mock (offline demo)',
+    apiBaseUrl: MOCK_API_URL,
+    livekit: DEFAULT_LIVEKIT,
+    timeouts: DEFAULT_TIMEOUTS,
+    useProxy: false,
+    mock: true,
+  },
+  {
+    id: 'local',
+    name: 'Local',
+    apiBaseUrl: 'http://localhost:8787/api',
+    livekit: { ...DEFAULT_LIVEKIT, main: 'ws://localhost:7880' },
+    timeouts: DEFAULT_TIMEOUTS,
+    useProxy: false,
+  },
+  {
+    id: 'staging',
+    name: 'Staging',
+    apiBaseUrl: 'https://stage-www.artist-space.com/api',
+    livekit: DEFAULT_LIVEKIT,
+    timeouts: DEFAULT_TIMEOUTS,
+    useProxy: false,
+  },
+  {
+    id: 'production',
+    name: 'Production',
+    apiBaseUrl: 'https://www.artist-space.com/api',
+    livekit: DEFAULT_LIVEKIT,
+    timeouts: DEFAULT_TIMEOUTS,
+    useProxy: false,
+  },
+];
+
+const DEFAULT_PROFILE_ID = BUILT_IN_PROFILES[0].id;
+
+interface StoredProfiles {
+  activeId: string;
+  /** Edited built-ins (by id) and user-added profiles */
+  saved: Record<string, BackendProfile>;
+}
+
+/**
+ * URL API requests actually go to, taking the mock and proxy toggles into account
+ */
+export function getApiBaseUrl(profile: BackendProfile): string {
+  if (profile.mock) return MOCK_API_URL;
+  return profile.useProxy ? DEV_PROXY_URL : profile.apiBaseUrl;
+}
+
+export function isBuiltInProfile(profileId: string): boolean {
+  return BUILT_IN_PROFILES.some((profile) => profile.id === profileId);
+}
+
+/**
+ * The mock backend, loaded on first use - its fixtures (demo accounts and
+ * their password) are only read once a mock profile needs them
+ */
+export function getMockBackend(): typeof import('./mockBackend').default {
+  return require('./mockBackend').default;
+}
+
+export function getMockIdentityProvider(): typeof import('./mockIdentityProvider').default {
+  return require('./mockIdentityProvider').default;
+}
+
+class BackendProfileService {
+  private activeId = DEFAULT_PROFILE_ID;
+  private saved: Record<string, BackendProfile> = {};
+  private listeners: Set<ProfileChangeListener> = new Set();
+  private loaded: Promise<void> | null = null;
+
+  // ============================================================================
+  // PROFILES
+  // ============================================================================
+
+  /**
+   * Built-in profiles (with any local edits) followed by user-added ones
+   */
+  getProfiles(): BackendProfile[] {
+    const builtIn = BUILT_IN_PROFILES.map((profile) => this.saved[profile.id] ?? profile);
+    const custom = Object.values(this.saved).filter((profile) => !isBuiltInProfile(profile.id));
+    return [...builtIn, ...custom];
+  }
+
+  getProfile(profileId: string): BackendProfile | undefined {
+    return this.getProfiles().find((profile) => profile.id === profileId);
+  }
+
+  /**
+   * True for user-added profiles and built-ins that were edited
+   */
+  isCustomized(profileId: string): boolean {
+    return !!this.saved[profileId];
+  }
+
+  getActiveProfile(): BackendProfile {
+    return this.getProfile(this.activeId) ?? BUILT_IN_PROFILES[0];
+  }
+
+  /**
+   * Switch to another profile. Subscribers are awaited, so by the time this
+   * resolves the API client points at the new backend and auth is cleared.
+   */
+  async setActiveProfile(profileId: string): Promise<void> {
+    await this.load();
+    if (!this.getProfile(profileId)) {
+      throw new Error(`Unknown backend profile: ${profileId}`);
+    }
+    if (profileId === this.activeId) return;
+
+    const previous = this.getActiveProfile();
+    this.activeId = profileId;
+    await this.persist();
+    await this.emit(previous);
+  }
+
+  /**
+   * Add or update a profile. Saving the active profile applies it immediately.
+   */
+  async saveProfile(profile: BackendProfile): Promise<void> {
+    await this.load();
+
+    const previous = this.getActiveProfile();
+    this.saved[profile.id] = profile;
+    await this.persist();
+
+    if (profile.id === this.activeId) {
+      await this.emit(previous);
+    }
+  }
+
+  /**
+   * Delete a user-added profile, or reset an edited built-in to its defaults.
+   * Deleting the active profile falls back to the default one.
+   */
+  async removeProfile(profileId: string): Promise<void> {
+    await this.load();
+    if (!this.saved[profileId]) return;
+
+    const previous = this.getActiveProfile();
+    delete this.saved[profileId];
+    if (!this.getProfile(this.activeId)) {
+      this.activeId = DEFAULT_PROFILE_ID;
+    }
+    await this.persist();
+
+    if (profileId === previous.id) {
+      await this.emit(previous);
+    }
+  }
+
+  /**
+   * New profile pre-filled from the active one, for the settings screen
+   */
+  createDraft(): BackendProfile {
+    const active = this.getActiveProfile();
+    return {
+      ...active,
+      id: `custom-${Date.now().toString(36)}`,
+      name: `${active.name} (copy)`,
+      livekit: { ...active.livekit },
+      timeouts: { ...active.timeouts },
+    };
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Load saved profiles. Call before the first request so it goes to the
+   * right backend; applying the saved profile doesn't clear auth. Builds
+   * without developer settings drop what a development build saved - there's
+   * no screen to switch back from it.
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          if (!raw) return;
+          if (!DEV_SETTINGS_ENABLED) {
+            await AsyncStorage.removeItem(STORAGE_KEY);
+            return;
+          }
+
+          const stored: StoredProfiles = JSON.parse(raw);
+          const previous = this.getActiveProfile();
+          this.saved = stored.saved ?? {};
+          this.activeId = this.getProfile(stored.activeId) ? stored.activeId : DEFAULT_PROFILE_ID;
+
+          // Tokens on disk were issued by the saved profile's backend
+          await this.emit(previous, false);
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to load backend profiles:', error);
+        }
+      })();
+    }
+
+    return this.loaded;
+  }
+
+  private async persist(): Promise<void> {
+    const stored: StoredProfiles = { activeId: this.activeId, saved: this.saved };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to persist backend profiles:', error);
+    }
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to active profile changes
+   */
+  subscribe(listener: ProfileChangeListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async emit(previous: BackendProfile, canChangeBackend: boolean = true): Promise<void> {
+    const profile = this.getActiveProfile();
+    const change: ProfileChange = {
+      profile,
+      previous,
+      backendChanged: canChangeBackend && getApiBaseUrl(profile) !== getApiBaseUrl(previous),
+    };
+
+    if (__DEV__ && change.backendChanged) {
+      console.log(`🔀 Backend profile: ${profile.name} (${getApiBaseUrl(profile)})`);
+    }
+
+    await Promise.all(
+      Array.from(this.listeners).map(async (listener) => {
+        try {
+          await listener(change);
+        } catch (error) {
+          if (__DEV__) console.error('Backend profile listener error:', error);
+        }
+      })
+    );
+  }
+}
+
+export default new BackendProfileService();
@@ -1,4 +1,7 @@
-import apiService from './api';
+import apiService, { RequestOptions } from './api';
+import { endpoints } from './endpoints';
+import uploadService from './uploads';
+import permissionService from './permissions';
 import {
   Band,
   BandLimits,
@@ -10,25 +13,11 @@ import {
   ArtistDashboardData,
   PaymentLedgerEntry,
   BandPaymentSummary,
-  SubscriptionPlan,
-  UserSubscription,
+  MemberPermissionFlags,
+  MutationResponse,
+  SubscriptionSummary,
 } from '../types';
-
-interface SubscriptionResponse {
-  current_plan?: SubscriptionPlan;
-  subscription?: UserSubscription;
-  features?: Record<string, boolean | number>;
-  limits?: Record<string, number>;
-}
-
-interface MemberPermissions {
-  can_edit_band?: boolean;
-  can_manage_members?: boolean;
-  can_manage_tours?: boolean;
-  can_view_financials?: boolean;
-  can_upload_media?: boolean;
-  [key: string]: boolean | undefined;
-}
+import { UploadFile, UploadTask } from '../types/uploads';
 
 /**
  * Band API Service
@@ -42,30 +31,37 @@ class BandService {
   /**
    * Get all public bands
    */
-  async getAllBands(bookingManagerId?: string): Promise<Band[]> {
+  async getAllBands(bookingManagerId?: string, options?: RequestOptions): Promise<Band[]> {
     const params = bookingManagerId ? { booking_manager_id: bookingManagerId } : undefined;
-    return await apiService.get('/bands', params);
+    return await apiService.call(endpoints.bands.list, { query: params }, options);
   }
 
   /**
    * Get band by ID
    */
-  async getBandById(bandId: string): Promise<Band> {
-    return await apiService.get(`/bands/${bandId}`);
+  async getBandById(bandId: string, options?: RequestOptions): Promise<Band> {
+    return await apiService.call(endpoints.bands.getById, { params: { bandId } }, options);
   }
 
   /**
    * Get user's band limits and current count
    */
-  async getBandLimits(): Promise<BandLimits> {
-    return await apiService.get('/bands/my/limits');
+  async getBandLimits(options?: RequestOptions): Promise<BandLimits> {
+    return await apiService.call(endpoints.bands.limits, {}, options);
   }
 
   /**
    * Get all bands user owns or is a member of
    */
-  async getMyBands(): Promise<Band[]> {
-    return await apiService.get('/bands/my/all');
+  async getMyBands(options?: RequestOptions): Promise<Band[]> {
+    return await apiService.call(endpoints.bands.mine, {}, options);
+  }
+
+  /**
+   * Find a band by the join code its owner shared
+   */
+  async getBandByJoinCode(joinCode: string): Promise<Band> {
+    return await apiService.call(endpoints.bands.byJoinCode, { params: { joinCode } });
   }
 
   /**
@@ -81,7 +77,10 @@ class BandService {
     status: string;
     isSolo?: boolean;
   }> {
-    return await apiService.post('/bands/create', data);
+    const result = await apiService.call(endpoints.bands.create, { body: data });
+    // Counts against the plan's band limit
+    permissionService.invalidate();
+    return result;
   }
 
   /**
@@ -95,7 +94,7 @@ class BandService {
     band: Band;
     status: string;
   }> {
-    return await apiService.post('/bands/join', data);
+    return await apiService.call(endpoints.bands.join, { body: data });
   }
 
   /**
@@ -105,7 +104,18 @@ class BandService {
    * @returns Updated band
    */
   async updateBand(bandId: string, data: UpdateBandData): Promise<Band> {
-    return await apiService.put(`/bands/${bandId}`, data);
+    const band = await apiService.call(endpoints.bands.update, { params: { bandId }, body: data });
+    // A new booking manager changes who can do what
+    permissionService.invalidate(bandId);
+    return band;
+  }
+
+  /**
+   * Delete a band (owner only)
+   */
+  async deleteBand(bandId: string): Promise<void> {
+    await apiService.call(endpoints.bands.remove, { params: { bandId } });
+    permissionService.invalidate();
   }
 
   /**
@@ -114,9 +124,9 @@ class BandService {
   async getBandSubscription(bandId: string): Promise<{
     success: boolean;
     bandId: string;
-    subscription: SubscriptionResponse;
+    subscription: SubscriptionSummary;
   }> {
-    return await apiService.get(`/bands/${bandId}/subscription`);
+    return await apiService.call(endpoints.bands.subscription, { params: { bandId } });
   }
 
   /**
@@ -124,9 +134,9 @@ class BandService {
    */
   async getMySubscription(): Promise<{
     success: boolean;
-    subscription: SubscriptionResponse;
+    subscription: SubscriptionSummary;
   }> {
-    return await apiService.get('/bands/my/subscription');
+    return await apiService.call(endpoints.bands.mySubscription);
   }
 
   // ============================================================================
@@ -136,8 +146,15 @@ class BandService {
   /**
    * Get band members
    */
-  async getBandMembers(bandId: string): Promise<BandMember[]> {
-    return await apiService.get(`/band-members/${bandId}`);
+  async getBandMembers(bandId: string, options?: RequestOptions): Promise<BandMember[]> {
+    return await apiService.call(endpoints.bandMembers.list, { params: { bandId } }, options);
+  }
+
+  /**
+   * Get members waiting for approval to join a band
+   */
+  async getPendingMemberRequests(bandId: string, options?: RequestOptions): Promise<BandMember[]> {
+    return await apiService.call(endpoints.bandMembers.pending, { params: { bandId } }, options);
   }
 
   /**
@@ -148,10 +165,10 @@ class BandService {
     data: {
       user_id: string;
       role?: string;
-      permissions?: MemberPermissions;
+      permissions?: MemberPermissionFlags;
     }
   ): Promise<BandMember> {
-    return await apiService.post(`/band-members/${bandId}`, data);
+    return await apiService.call(endpoints.bandMembers.add, { params: { bandId }, body: data });
   }
 
   /**
@@ -163,31 +180,42 @@ class BandService {
     data: {
       role?: string;
       status?: string;
-      permissions?: MemberPermissions;
+      permissions?: MemberPermissionFlags;
     }
   ): Promise<BandMember> {
-    return await apiService.put(`/band-members/${bandId}/${memberId}`, data);
+    const member = await apiService.call(endpoints.bandMembers.update, { params: { bandId, memberId }, body: data });
+    permissionService.invalidate(bandId);
+    return member;
   }
 
   /**
    * Remove band member
    */
   async removeBandMember(bandId: string, memberId: string): Promise<void> {
-    return await apiService.delete(`/band-members/${bandId}/${memberId}`);
+    await apiService.call(endpoints.bandMembers.remove, { params: { bandId, memberId } });
+    // Could be the caller leaving
+    permissionService.invalidate(bandId);
   }
 
   /**
    * Approve pending band member
    */
   async approveBandMember(bandId: string, memberId: string): Promise<BandMember> {
-    return await apiService.put(`/band-members/${bandId}/${memberId}/approve`, {});
+    return await apiService.call(endpoints.bandMembers.approve, { params: { bandId, memberId }, body: {} });
+  }
+
+  /**
+   * Invite someone to join a band by email
+   */
+  async inviteMember(bandId: string, email: string): Promise<MutationResponse> {
+    return await apiService.call(endpoints.bandMembers.invite, { params: { bandId }, body: { email } });
   }
 
   /**
    * Reject pending band member
    */
   async rejectBandMember(bandId: string, memberId: string): Promise<void> {
-    return await apiService.delete(`/band-members/${bandId}/${memberId}`);
+    return await apiService.call(endpoints.bandMembers.remove, { params: { bandId, memberId } });
   }
 
   // ============================================================================
@@ -197,26 +225,24 @@ class BandService {
   /**
    * Get band media files
    */
-  async getBandMedia(bandId: string): Promise<BandMedia[]> {
-    return await apiService.get(`/band-media/${bandId}`);
+  async getBandMedia(bandId: string, options?: RequestOptions): Promise<BandMedia[]> {
+    return await apiService.call(endpoints.bandMedia.list, { params: { bandId } }, options);
   }
 
   /**
-   * Upload band media
+   * Upload band media in resumable chunks. Progress, pause/resume and
+   * cancel go through uploadService (and show in the upload tray).
+   * @returns The upload task; await uploadService.waitForCompletion(task.id) for the media record
    */
-  async uploadBandMedia(
-    bandId: string,
-    file: FormData,
-    onProgress?: (progress: number) => void
-  ): Promise<BandMedia> {
-    return await apiService.uploadFile(`/band-media/${bandId}`, file, onProgress);
+  async uploadBandMedia(bandId: string, file: UploadFile): Promise<UploadTask> {
+    return await uploadService.start('band-media', file, { band_id: bandId });
   }
 
   /**
    * Delete band media
    */
   async deleteBandMedia(bandId: string, mediaId: string): Promise<void> {
-    return await apiService.delete(`/band-media/${bandId}/${mediaId}`);
+    return await apiService.call(endpoints.bandMedia.remove, { params: { bandId, mediaId } });
   }
 
   // ============================================================================
@@ -227,23 +253,23 @@ class BandService {
    * Get all artist dashboard data
    * Returns bands, tours, media, and booking agents
    */
-  async getArtistDashboard(): Promise<ArtistDashboardData> {
-    return await apiService.get('/artist-dashboard/data');
+  async getArtistDashboard(options?: RequestOptions): Promise<ArtistDashboardData> {
+    return await apiService.call(endpoints.artistDashboard.data, {}, options);
   }
 
   /**
    * Get artist payment ledger
    * Returns all payments sent to this artist from booking managers
    */
-  async getPaymentLedger(): Promise<PaymentLedgerEntry[]> {
-    return await apiService.get('/artist-dashboard/payment-ledger');
+  async getPaymentLedger(options?: RequestOptions): Promise<PaymentLedgerEntry[]> {
+    return await apiService.call(endpoints.artistDashboard.paymentLedger, {}, options);
   }
 
   /**
    * Get band payment summary for a specific band
    */
   async getBandPaymentSummary(bandId: string): Promise<BandPaymentSummary[]> {
-    return await apiService.get(`/artist-dashboard/band-payment-summary/${bandId}`);
+    return await apiService.call(endpoints.artistDashboard.bandPaymentSummary, { params: { bandId } });
   }
 }
 
@@ -0,0 +1,98 @@
+/**
+ * Encrypted storage for data too large for SecureStore (E2EE sessions,
+ * decrypted message history)
+ *
+ * Values are JSON, encrypted with a random per-account data key and kept in
+ * AsyncStorage; only the data key lives in SecureStore. Removing an account
+ * deletes its data key (see ACCOUNT_KEYS), which leaves its blobs unreadable.
+ * Each blob names the key it was written with, so those are told apart from
+ * blobs that fail to decrypt with the right key.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import nacl from 'tweetnacl';
+import { decodeBase64, encodeBase64 } from 'tweetnacl-util';
+import encryptionService from './encryption';
+import accountService from './accounts';
+import { accountKey, getItemAsync, setItemAsync } from './storage';
+
+const DATA_KEY = 'e2ee_storage_key';
+
+interface StoredBlob {
+  ciphertext: string;
+  nonce: string;
+  /** Id of the data key it was encrypted with (missing on older blobs) */
+  key_id?: string;
+}
+
+interface DataKey {
+  key: string;
+  id: string;
+}
+
+// One lookup per account, so concurrent first writes agree on the key
+let dataKey: Promise<DataKey> | null = null;
+
+accountService.subscribe(() => {
+  dataKey = null;
+});
+
+function getDataKey(): Promise<DataKey> {
+  if (!dataKey) {
+    const loading = loadDataKey();
+    dataKey = loading;
+    loading.catch(() => {
+      if (dataKey === loading) dataKey = null;
+    });
+  }
+  return dataKey;
+}
+
+async function loadDataKey(): Promise<DataKey> {
+  let key = await getItemAsync(DATA_KEY);
+  if (!key) {
+    key = encryptionService.generateSymmetricKey();
+    await setItemAsync(DATA_KEY, key);
+  }
+  return { key, id: encodeBase64(nacl.hash(decodeBase64(key))).slice(0, 16) };
+}
+
+/**
+ * Read a value written with writeEncrypted() for the active account.
+ * Resolves with null if there's none, or if it was written under a data key
+ * that's gone. Rejects if it can't be decrypted with the current key, so
+ * callers don't go on to overwrite it.
+ */
+export async function readEncrypted<T>(key: string): Promise<T | null> {
+  const raw = await AsyncStorage.getItem(accountKey(key));
+  if (!raw) return null;
+
+  const { ciphertext, nonce, key_id }: StoredBlob = JSON.parse(raw);
+  const current = await getDataKey();
+  if (key_id && key_id !== current.id) {
+    // Left behind by a removed account - start over
+    return null;
+  }
+
+  try {
+    return JSON.parse(encryptionService.decryptWithKey({ ciphertext, nonce }, current.key)) as T;
+  } catch (error) {
+    if (__DEV__) console.warn(`Failed to read encrypted ${key}:`, error);
+    throw new Error(`Stored ${key} could not be decrypted`);
+  }
+}
+
+/**
+ * Encrypt and store a value for the active account
+ */
+export async function writeEncrypted(key: string, value: unknown): Promise<void> {
+  const { key: secret, id } = await getDataKey();
+  const blob: StoredBlob = { ...encryptionService.encryptWithKey(JSON.stringify(value), secret), key_id: id };
+  await AsyncStorage.setItem(accountKey(key), JSON.stringify(blob));
+}
+
+/**
+ * Delete a value for the active account
+ */
+export async function removeEncrypted(key: string): Promise<void> {
+  await AsyncStorage.removeItem(accountKey(key));
+}
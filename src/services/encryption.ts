@@ -29,8 +29,12 @@ class EncryptionService {
     PUBLIC_KEY: 'e2ee_public_key',
     SECRET_KEY: 'e2ee_secret_key',
     KEY_TIMESTAMP: 'e2ee_key_timestamp',
+    PREVIOUS_KEYS: 'e2ee_previous_keys',
   };
 
+  // Retired key pairs kept for reading older messages
+  private static readonly MAX_PREVIOUS_KEYS = 5;
+
   /**
    * Generate a new encryption key pair
    * Uses X25519 (Curve25519) for key exchange
@@ -105,14 +109,59 @@ class EncryptionService {
   }
 
   /**
-   * Rotate keys (for security best practice - should be done periodically)
+   * Rotate keys (for security best practice - should be done periodically).
+   * The old key pair is kept so messages encrypted for it stay readable.
    */
   async rotateKeys(): Promise<KeyPair> {
+    const current = await this.getStoredKeyPair();
+    if (current) {
+      const previous = [current, ...(await this.getPreviousKeyPairs())];
+      await setItemAsync(
+        EncryptionService.STORAGE_KEYS.PREVIOUS_KEYS,
+        JSON.stringify(previous.slice(0, EncryptionService.MAX_PREVIOUS_KEYS))
+      );
+    }
+
     const newKeyPair = this.generateKeyPair();
     await this.storeKeyPair(newKeyPair);
     return newKeyPair;
   }
 
+  /**
+   * Replace this device's keys with ones from another device (key backup or
+   * device link). A different local key pair is archived, not lost.
+   */
+  async importKeyPairs(keyPair: KeyPair, previous: KeyPair[]): Promise<void> {
+    const current = await this.getStoredKeyPair();
+    const archived = [...previous, ...(await this.getPreviousKeyPairs())];
+    if (current && current.publicKey !== keyPair.publicKey) {
+      archived.unshift(current);
+    }
+
+    const unique = archived.filter(
+      (pair, index) =>
+        pair.publicKey !== keyPair.publicKey &&
+        archived.findIndex((other) => other.publicKey === pair.publicKey) === index
+    );
+    await setItemAsync(
+      EncryptionService.STORAGE_KEYS.PREVIOUS_KEYS,
+      JSON.stringify(unique.slice(0, EncryptionService.MAX_PREVIOUS_KEYS))
+    );
+    await this.storeKeyPair(keyPair);
+  }
+
+  /**
+   * Key pairs retired by rotateKeys(), newest first
+   */
+  async getPreviousKeyPairs(): Promise<KeyPair[]> {
+    try {
+      const raw = await getItemAsync(EncryptionService.STORAGE_KEYS.PREVIOUS_KEYS);
+      return raw ? (JSON.parse(raw) as KeyPair[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Encrypt a message for a specific recipient
    * Uses the recipient's public key and sender's secret key
@@ -128,7 +177,7 @@ class EncryptionService {
   ): EncryptedMessage {
     try {
       // Convert message to Uint8Array
-      const messageUint8 = encodeUTF8(message);
+      const messageUint8 = decodeUTF8(message);
 
       // Generate a unique nonce (24 bytes for nacl.box)
       const nonce = nacl.randomBytes(nacl.box.nonceLength);
@@ -192,13 +241,94 @@ class EncryptionService {
       }
 
       // Convert back to string
-      return decodeUTF8(decrypted);
+      return encodeUTF8(decrypted);
     } catch (error) {
       console.error('Decryption error:', error);
       throw new Error('Failed to decrypt message');
     }
   }
 
+  /**
+   * Generate a random symmetric key (e.g. a group sender key)
+   * Used with XSalsa20-Poly1305 (nacl.secretbox)
+   */
+  generateSymmetricKey(): string {
+    return encodeBase64(nacl.randomBytes(nacl.secretbox.keyLength));
+  }
+
+  /**
+   * Encrypt a message with a symmetric key, once for every holder of the key
+   *
+   * @param message - Plain text message
+   * @param key - Base64 encoded symmetric key
+   */
+  encryptWithKey(message: string, key: string): EncryptedMessage {
+    try {
+      const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+      const ciphertext = nacl.secretbox(decodeUTF8(message), nonce, decodeBase64(key));
+
+      return {
+        ciphertext: encodeBase64(ciphertext),
+        nonce: encodeBase64(nonce),
+      };
+    } catch (error) {
+      console.error('Encryption error:', error);
+      throw new Error('Failed to encrypt message');
+    }
+  }
+
+  /**
+   * Decrypt a message encrypted with encryptWithKey()
+   *
+   * @param encryptedMessage - Encrypted message object
+   * @param key - Base64 encoded symmetric key
+   */
+  decryptWithKey(encryptedMessage: EncryptedMessage, key: string): string {
+    try {
+      const decrypted = nacl.secretbox.open(
+        decodeBase64(encryptedMessage.ciphertext),
+        decodeBase64(encryptedMessage.nonce),
+        decodeBase64(key)
+      );
+
+      if (!decrypted) {
+        throw new Error('Decryption failed - message may be corrupted or tampered with');
+      }
+
+      return encodeUTF8(decrypted);
+    } catch (error) {
+      console.error('Decryption error:', error);
+      throw new Error('Failed to decrypt message');
+    }
+  }
+
+  /**
+   * Encrypt binary data (e.g. an attachment) with a symmetric key
+   *
+   * @param data - Base64 encoded data
+   * @param key - Base64 encoded symmetric key
+   */
+  encryptDataWithKey(data: string, key: string): EncryptedMessage {
+    const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+    const ciphertext = nacl.secretbox(decodeBase64(data), nonce, decodeBase64(key));
+    return { ciphertext: encodeBase64(ciphertext), nonce: encodeBase64(nonce) };
+  }
+
+  /**
+   * Decrypt data encrypted with encryptDataWithKey(); returns Base64
+   */
+  decryptDataWithKey(encrypted: EncryptedMessage, key: string): string {
+    const decrypted = nacl.secretbox.open(
+      decodeBase64(encrypted.ciphertext),
+      decodeBase64(encrypted.nonce),
+      decodeBase64(key)
+    );
+    if (!decrypted) {
+      throw new Error('Decryption failed - file may be corrupted or tampered with');
+    }
+    return encodeBase64(decrypted);
+  }
+
   /**
    * Verify message integrity
    * Returns true if message can be decrypted without errors
@@ -226,6 +356,7 @@ class EncryptionService {
       await deleteItemAsync(EncryptionService.STORAGE_KEYS.PUBLIC_KEY);
       await deleteItemAsync(EncryptionService.STORAGE_KEYS.SECRET_KEY);
       await deleteItemAsync(EncryptionService.STORAGE_KEYS.KEY_TIMESTAMP);
+      await deleteItemAsync(EncryptionService.STORAGE_KEYS.PREVIOUS_KEYS);
     } catch (error) {
       console.error('Failed to clear keys:', error);
     }
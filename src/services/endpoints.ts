@@ -0,0 +1,835 @@
+/**
+ * API Endpoint Registry
+ * Single typed route table for every backend endpoint the app calls
+ *
+ * Each entry records the HTTP method and path template; the request query,
+ * body and response types ride along as phantom types. Services call
+ * `apiService.call(endpoints.bands.getById, { params: { bandId } })` so a
+ * wrong path param, body shape or response type is a compile error.
+ */
+
+import {
+  AccountDeletion,
+  AccountExport,
+  AdminStats,
+  AgentStatus,
+  ArtistDashboardData,
+  AuthResponse,
+  Band,
+  BandLimits,
+  BandMedia,
+  BandMember,
+  BandPaymentSummary,
+  BillingAdjustment,
+  BookingAgent,
+  Conversation,
+  ConversationExpiry,
+  CreateBandData,
+  CreateMemberPayoutData,
+  CreateTourData,
+  CreateTourPaymentData,
+  DeviceInfo,
+  DeviceLink,
+  DeviceSession,
+  DiscoverProfile,
+  Equipment,
+  FeatureValue,
+  GiftCard,
+  GiftCardTransaction,
+  GroupConversation,
+  GroupMessage,
+  JoinBandData,
+  KeyBackup,
+  LoginCredentials,
+  LoginResponse,
+  ManagedUser,
+  MemberPermissionFlags,
+  Message,
+  MessageRetentionPolicy,
+  Metadata,
+  MutationResponse,
+  OAuthCodeExchange,
+  OAuthIdentity,
+  PaymentIntentConfirmation,
+  PaymentLedgerEntry,
+  PremiumBandInfo,
+  ReceiptStatus,
+  RecordingFile,
+  RecordingStudio,
+  RegisterData,
+  SavedPaymentMethod,
+  SenderKeyEnvelope,
+  StreamingContent,
+  StudioDashboardData,
+  StudioSession,
+  SubscriptionPayment,
+  SubscriptionPlan,
+  SubscriptionSummary,
+  Tour,
+  TourDate,
+  TourKPI,
+  TourMemberPayout,
+  TourPayment,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  TwoFactorVerification,
+  UpdateBandData,
+  User,
+  UserAssignment,
+  UserFeature,
+  UserState,
+  UserSubscription,
+  UserType,
+  Venue,
+  VenueDashboardData,
+  VenuePayment,
+  W2Document,
+  ApiResponse,
+} from '../types';
+import { MuxMonitoringData } from '../types/muxStreaming';
+
+// ============================================================================
+// REGISTRY TYPES
+// ============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface EndpointTypes {
+  query?: object;
+  body?: unknown;
+  response: unknown;
+}
+
+export interface Endpoint<M extends HttpMethod, P extends string, T extends EndpointTypes> {
+  method: M;
+  path: P;
+  /** Phantom field carrying query/body/response types - never set at runtime */
+  readonly __types?: T;
+}
+
+export type AnyEndpoint = Endpoint<HttpMethod, string, EndpointTypes>;
+
+/**
+ * Extract `:param` names from a path template
+ * e.g. '/band-members/:bandId/:memberId' -> 'bandId' | 'memberId'
+ */
+type PathParamNames<P extends string> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParamNames<Rest>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+type ParamsArg<P extends string> = [PathParamNames<P>] extends [never]
+  ? {}
+  : { params: Record<PathParamNames<P>, string> };
+type QueryArg<T> = T extends { query: infer Q } ? { query?: Q } : {};
+type BodyArg<T> = T extends { body: infer B } ? { body: B } : {};
+
+/** Arguments needed to call an endpoint: path params, query and body */
+export type EndpointArgs<E> = E extends Endpoint<HttpMethod, infer P, infer T>
+  ? ParamsArg<P> & QueryArg<T> & BodyArg<T>
+  : never;
+
+export type EndpointQuery<E> = E extends Endpoint<HttpMethod, string, infer T>
+  ? T extends { query: infer Q } ? Q : never
+  : never;
+
+export type EndpointBody<E> = E extends Endpoint<HttpMethod, string, infer T>
+  ? T extends { body: infer B } ? B : never
+  : never;
+
+export type EndpointResponse<E> = E extends Endpoint<HttpMethod, string, infer T> ? T['response'] : never;
+
+/**
+ * Declare an endpoint. Curried so the method and path are inferred as literals
+ * while the request/response types are given explicitly.
+ */
+function route<T extends EndpointTypes>() {
+  return <M extends HttpMethod, P extends string>(method: M, path: P): Endpoint<M, P, T> => ({
+    method,
+    path,
+  });
+}
+
+/**
+ * Fill path params into a template ('/bands/:bandId' -> '/bands/42')
+ */
+export function buildPath(path: string, params?: Record<string, string>): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) {
+      throw new Error(`Missing path param "${name}" for ${path}`);
+    }
+    return encodeURIComponent(value);
+  });
+}
+
+// ============================================================================
+// SHARED SHAPES
+// ============================================================================
+
+type TourDateInput = {
+  venue_id: string;
+  date: string;
+  start_time: string;
+  end_time?: string;
+  payment_amount?: number;
+  payment_currency?: string;
+  notes?: string;
+};
+
+type TourKPIInput = {
+  attendance?: number;
+  bar_sales?: number;
+  sales_currency?: string;
+  new_customers?: number;
+  notes?: string;
+};
+
+type StudioInput = {
+  studio_name: string;
+  description?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  equipment?: Equipment;
+  daw_software?: string;
+  hourly_rate?: number;
+  eth_wallet?: string;
+  website?: string;
+  protools_version?: string;
+  sonobus_enabled?: boolean;
+  webrtc_enabled?: boolean;
+};
+
+type SubscriptionMutation = MutationResponse & { subscription: UserSubscription };
+
+type LiveStreamRecord = {
+  id: string;
+  stream_key: string;
+  playback_id: string;
+  stream_url: string;
+  playback_url: string;
+  status?: 'idle' | 'active' | 'disconnected';
+};
+
+type CreateLiveStreamResponse = LiveStreamRecord & {
+  success?: boolean;
+  stream?: LiveStreamRecord;
+  mux_data?: {
+    playback_url?: string;
+    stream_key?: string;
+    rtmp_url?: string;
+  };
+};
+
+type UploadSessionStatus = {
+  upload_id: string;
+  received_bytes: number;
+  chunk_size?: number;
+};
+
+// ============================================================================
+// ROUTE TABLE
+// ============================================================================
+
+export const endpoints = {
+  auth: {
+    login: route<{
+      body: (LoginCredentials | { email: string; pinCode: string }) & { device?: DeviceInfo };
+      response: LoginResponse;
+    }>()('POST', '/auth/login'),
+    requestLoginPin: route<{ body: { email: string }; response: ApiResponse }>()('POST', '/auth/request-login-pin'),
+    register: route<{ body: RegisterData & { device?: DeviceInfo }; response: AuthResponse }>()(
+      'POST',
+      '/auth/register'
+    ),
+    refresh: route<{ body: { refreshToken: string }; response: AuthResponse }>()('POST', '/auth/refresh'),
+    logout: route<{ response: ApiResponse }>()('POST', '/auth/logout'),
+    me: route<{ response: User }>()('GET', '/auth/me'),
+    requestPasswordReset: route<{ body: { email: string }; response: ApiResponse }>()(
+      'POST',
+      '/password-reset/request'
+    ),
+    verifyPasswordResetPin: route<{ body: { email: string; pin_code: string }; response: ApiResponse }>()(
+      'POST',
+      '/password-reset/verify'
+    ),
+    resetPassword: route<{
+      body: { email: string; pin_code: string; new_password: string };
+      response: ApiResponse;
+    }>()('POST', '/password-reset/reset'),
+  },
+
+  twoFactor: {
+    status: route<{ response: TwoFactorStatus }>()('GET', '/auth/2fa'),
+    setup: route<{ response: TwoFactorSetup }>()('POST', '/auth/2fa/setup'),
+    enable: route<{ body: { code: string }; response: { recovery_codes: string[] } }>()(
+      'POST',
+      '/auth/2fa/enable'
+    ),
+    disable: route<{ body: { code: string }; response: ApiResponse }>()('POST', '/auth/2fa/disable'),
+    regenerateRecoveryCodes: route<{ body: { code: string }; response: { recovery_codes: string[] } }>()(
+      'POST',
+      '/auth/2fa/recovery-codes'
+    ),
+    verify: route<{ body: TwoFactorVerification; response: AuthResponse }>()('POST', '/auth/2fa/verify'),
+  },
+
+  oauth: {
+    authorize: route<{
+      query: {
+        redirect_uri: string;
+        state: string;
+        code_challenge: string;
+        code_challenge_method: 'S256';
+      };
+      response: { authorization_url: string };
+    }>()('GET', '/auth/oauth/:provider/authorize'),
+    callback: route<{
+      body: OAuthCodeExchange & { user_type?: UserType; device?: DeviceInfo };
+      response: LoginResponse;
+    }>()('POST', '/auth/oauth/:provider/callback'),
+    identities: route<{ response: OAuthIdentity[] }>()('GET', '/auth/oauth/identities'),
+    link: route<{ body: OAuthCodeExchange; response: OAuthIdentity }>()('POST', '/auth/oauth/:provider/link'),
+    unlink: route<{ response: ApiResponse }>()('DELETE', '/auth/oauth/:provider'),
+  },
+
+  authSessions: {
+    list: route<{ response: DeviceSession[] }>()('GET', '/auth/sessions'),
+    updateCurrent: route<{ body: Partial<DeviceInfo>; response: DeviceSession }>()(
+      'PATCH',
+      '/auth/sessions/current'
+    ),
+    revoke: route<{ response: ApiResponse }>()('DELETE', '/auth/sessions/:sessionId'),
+    revokeOthers: route<{ response: ApiResponse<{ revoked: number }> }>()('POST', '/auth/sessions/revoke-others'),
+  },
+
+  account: {
+    export: route<{ response: AccountExport }>()('GET', '/auth/account/export'),
+    scheduleDeletion: route<{ body: {}; response: AccountDeletion }>()('POST', '/auth/account/delete'),
+    cancelDeletion: route<{ body: {}; response: ApiResponse }>()('POST', '/auth/account/delete/cancel'),
+  },
+
+  users: {
+    discover: route<{
+      query: { user_type?: string; search?: string };
+      response: DiscoverProfile[];
+    }>()('GET', '/users/discover'),
+  },
+
+  bands: {
+    list: route<{ query: { booking_manager_id?: string }; response: Band[] }>()('GET', '/bands'),
+    getById: route<{ response: Band }>()('GET', '/bands/:bandId'),
+    limits: route<{ response: BandLimits }>()('GET', '/bands/my/limits'),
+    mine: route<{ response: Band[] }>()('GET', '/bands/my/all'),
+    byJoinCode: route<{ response: Band }>()('GET', '/bands/join-code/:joinCode'),
+    create: route<{
+      body: CreateBandData;
+      response: MutationResponse & {
+        band: Band;
+        requiresApproval?: boolean;
+        status: string;
+        isSolo?: boolean;
+      };
+    }>()('POST', '/bands/create'),
+    join: route<{
+      body: JoinBandData;
+      response: MutationResponse & { band: Band; status: string };
+    }>()('POST', '/bands/join'),
+    update: route<{ body: UpdateBandData; response: Band }>()('PUT', '/bands/:bandId'),
+    remove: route<{ response: ApiResponse }>()('DELETE', '/bands/:bandId'),
+    subscription: route<{
+      response: { success: boolean; bandId: string; subscription: SubscriptionSummary };
+    }>()('GET', '/bands/:bandId/subscription'),
+    mySubscription: route<{ response: { success: boolean; subscription: SubscriptionSummary } }>()(
+      'GET',
+      '/bands/my/subscription'
+    ),
+  },
+
+  bandMembers: {
+    list: route<{ response: BandMember[] }>()('GET', '/band-members/:bandId'),
+    pending: route<{ response: BandMember[] }>()('GET', '/band-members/pending/:bandId'),
+    add: route<{
+      body: { user_id: string; role?: string; permissions?: MemberPermissionFlags };
+      response: BandMember;
+    }>()('POST', '/band-members/:bandId'),
+    update: route<{
+      body: { role?: string; status?: string; permissions?: MemberPermissionFlags };
+      response: BandMember;
+    }>()('PUT', '/band-members/:bandId/:memberId'),
+    approve: route<{ body: {}; response: BandMember }>()('PUT', '/band-members/:bandId/:memberId/approve'),
+    invite: route<{ body: { email: string }; response: MutationResponse }>()('POST', '/band-members/:bandId/invite'),
+    remove: route<{ response: void }>()('DELETE', '/band-members/:bandId/:memberId'),
+  },
+
+  bandMedia: {
+    list: route<{ response: BandMedia[] }>()('GET', '/band-media/:bandId'),
+    upload: route<{ body: FormData; response: BandMedia }>()('POST', '/band-media/:bandId'),
+    remove: route<{ response: void }>()('DELETE', '/band-media/:bandId/:mediaId'),
+  },
+
+  artistDashboard: {
+    data: route<{ response: ArtistDashboardData }>()('GET', '/artist-dashboard/data'),
+    paymentLedger: route<{ response: PaymentLedgerEntry[] }>()('GET', '/artist-dashboard/payment-ledger'),
+    bandPaymentSummary: route<{ response: BandPaymentSummary[] }>()(
+      'GET',
+      '/artist-dashboard/band-payment-summary/:bandId'
+    ),
+  },
+
+  tours: {
+    list: route<{
+      query: { status?: string; band_id?: string; venue_id?: string };
+      response: TourDate[];
+    }>()('GET', '/tours'),
+    mine: route<{ response: TourDate[] }>()('GET', '/tours/my-tours'),
+    datesForTour: route<{ response: TourDate[] }>()('GET', '/tours/tour/:tourId'),
+    create: route<{ body: CreateTourData; response: TourDate }>()('POST', '/tours'),
+    update: route<{
+      body: {
+        status?: string;
+        date?: string;
+        start_time?: string;
+        end_time?: string;
+        payment_amount?: number;
+        payment_currency?: string;
+        notes?: string;
+      };
+      response: TourDate;
+    }>()('PUT', '/tours/:tourId'),
+    kpis: route<{ response: TourKPI }>()('GET', '/tours/:tourId/kpis'),
+    addKpis: route<{ body: TourKPIInput; response: TourKPI }>()('POST', '/tours/:tourId/kpis'),
+    updateKpis: route<{ body: TourKPIInput; response: TourKPI }>()('PUT', '/tours/:tourId/kpis'),
+  },
+
+  toursManagement: {
+    bands: route<{ response: Band[] }>()('GET', '/tours-management/bands'),
+    create: route<{
+      body: { tour_name: string; band_id: string; description?: string; dates: TourDateInput[] };
+      response: MutationResponse & { tour: Tour; dates: TourDate[] };
+    }>()('POST', '/tours-management/tours'),
+    addDates: route<{ body: { dates: TourDateInput[] }; response: MutationResponse & { dates: TourDate[] } }>()(
+      'POST',
+      '/tours-management/tours/:tourId/dates'
+    ),
+  },
+
+  venues: {
+    // Venues are called "bars" in the backend
+    list: route<{ response: Venue[] }>()('GET', '/bars'),
+    getById: route<{ response: Venue }>()('GET', '/bars/:venueId'),
+    create: route<{
+      body: {
+        venue_name: string;
+        address: string;
+        city: string;
+        state: string;
+        capacity?: number;
+        description?: string;
+        amenities?: string[];
+        eth_wallet?: string;
+      };
+      response: Venue;
+    }>()('POST', '/bars'),
+    update: route<{ body: Partial<Venue>; response: void }>()('PUT', '/bars/:venueId'),
+    dashboard: route<{ response: VenueDashboardData }>()('GET', '/venue/dashboard'),
+    premiumContent: route<{
+      response: {
+        success: boolean;
+        assets: Array<{
+          id: string;
+          title: string;
+          description: string;
+          playbackId: string;
+          thumbnailTime: number;
+        }>;
+        total: number;
+        max_allowed: number;
+      };
+    }>()('GET', '/venue/premium-content'),
+    premiumBands: route<{ response: { success: boolean; bands: PremiumBandInfo[] } }>()(
+      'GET',
+      '/venue/bands/premium-info'
+    ),
+    bandPremiumInfo: route<{ response: { success: boolean; band: PremiumBandInfo } }>()(
+      'GET',
+      '/venue/bands/:bandId/premium-info'
+    ),
+  },
+
+  studios: {
+    list: route<{ response: RecordingStudio[] }>()('GET', '/studios'),
+    getById: route<{ response: RecordingStudio }>()('GET', '/studios/:studioId'),
+    create: route<{ body: StudioInput; response: RecordingStudio }>()('POST', '/studios'),
+    update: route<{ body: Partial<RecordingStudio>; response: void }>()('PUT', '/studios/:studioId'),
+    dashboard: route<{ response: StudioDashboardData }>()('GET', '/studios/my/dashboard'),
+  },
+
+  sessions: {
+    list: route<{
+      query: { studio_id?: string; band_id?: string; status?: string };
+      response: StudioSession[];
+    }>()('GET', '/sessions'),
+    getById: route<{ response: StudioSession }>()('GET', '/sessions/:sessionId'),
+    create: route<{
+      body: {
+        studio_id: string;
+        band_id: string;
+        session_date: string;
+        start_time: string;
+        end_time?: string;
+        connection_type?: string;
+        session_notes?: string;
+        livekit_room_name?: string;
+      };
+      response: StudioSession;
+    }>()('POST', '/sessions'),
+    update: route<{
+      body: {
+        end_time?: string;
+        session_notes?: string;
+        recording_files?: RecordingFile[];
+        status?: string;
+      };
+      response: StudioSession;
+    }>()('PUT', '/sessions/:sessionId'),
+  },
+
+  messages: {
+    conversations: route<{ response: Conversation[] }>()('GET', '/messages/conversations'),
+    conversation: route<{ query: { limit?: number; offset?: number; after?: string }; response: Message[] }>()(
+      'GET',
+      '/messages/conversation/:userId'
+    ),
+    send: route<{
+      body: { recipient_id: string; encrypted_content: string; iv: string; content?: string; attachment_ids?: string[] };
+      response: Message;
+    }>()('POST', '/messages/send'),
+    markRead: route<{ body: {}; response: void }>()('PUT', '/messages/:messageId/read'),
+    remove: route<{ response: void }>()('DELETE', '/messages/:messageId'),
+    uploadPublicKey: route<{ body: { public_key: string }; response: ApiResponse }>()(
+      'POST',
+      '/messages/upload-public-key'
+    ),
+    publicKey: route<{ response: { public_key: string } }>()('GET', '/messages/public-key/:userId'),
+    uploadAttachment: route<{ body: { data: string }; response: { id: string; size: number } }>()(
+      'POST',
+      '/messages/attachments'
+    ),
+    attachment: route<{ response: { id: string; data: string } }>()('GET', '/messages/attachments/:attachmentId'),
+    typing: route<{ body: { typing: boolean }; response: void }>()('POST', '/messages/conversation/:userId/typing'),
+    receipts: route<{ body: { status: ReceiptStatus; message_ids: string[] }; response: void }>()(
+      'PUT',
+      '/messages/conversation/:userId/receipts'
+    ),
+    unread: route<{ response: { total: number } }>()('GET', '/messages/unread'),
+    expiry: route<{ response: ConversationExpiry }>()('GET', '/messages/conversation/:userId/expiry'),
+    setExpiry: route<{ body: { ttl_seconds: number | null }; response: Message }>()(
+      'PUT',
+      '/messages/conversation/:userId/expiry'
+    ),
+  },
+
+  keySync: {
+    backup: route<{ response: KeyBackup }>()('GET', '/messages/keys/backup'),
+    saveBackup: route<{
+      body: Pick<KeyBackup, 'ciphertext' | 'nonce' | 'salt' | 'iterations'>;
+      response: KeyBackup;
+    }>()('PUT', '/messages/keys/backup'),
+    removeBackup: route<{ response: ApiResponse }>()('DELETE', '/messages/keys/backup'),
+    createLink: route<{
+      body: Pick<DeviceLink, 'id' | 'public_key' | 'device_name'>;
+      response: DeviceLink;
+    }>()('POST', '/messages/keys/links'),
+    link: route<{ response: DeviceLink }>()('GET', '/messages/keys/links/:linkId'),
+    approveLink: route<{ body: NonNullable<DeviceLink['payload']>; response: ApiResponse }>()(
+      'PUT',
+      '/messages/keys/links/:linkId'
+    ),
+    removeLink: route<{ response: ApiResponse }>()('DELETE', '/messages/keys/links/:linkId'),
+  },
+
+  groups: {
+    list: route<{ response: GroupConversation[] }>()('GET', '/messages/groups'),
+    get: route<{ response: GroupConversation }>()('GET', '/messages/groups/:groupId'),
+    create: route<{ body: { name: string; member_ids: string[] }; response: GroupConversation }>()(
+      'POST',
+      '/messages/groups'
+    ),
+    addMembers: route<{ body: { user_ids: string[] }; response: GroupConversation }>()(
+      'POST',
+      '/messages/groups/:groupId/members'
+    ),
+    removeMember: route<{ response: ApiResponse }>()('DELETE', '/messages/groups/:groupId/members/:userId'),
+    messages: route<{ query: { limit?: number; offset?: number; after?: string }; response: GroupMessage[] }>()(
+      'GET',
+      '/messages/groups/:groupId/messages'
+    ),
+    send: route<{
+      body: { key_epoch: number; ciphertext: string; nonce: string; attachment_ids?: string[] };
+      response: GroupMessage;
+    }>()('POST', '/messages/groups/:groupId/messages'),
+    markRead: route<{ body: {}; response: void }>()('PUT', '/messages/groups/:groupId/read'),
+    typing: route<{ body: { typing: boolean }; response: void }>()('POST', '/messages/groups/:groupId/typing'),
+    senderKeys: route<{ response: SenderKeyEnvelope[] }>()('GET', '/messages/groups/:groupId/sender-keys'),
+    distributeSenderKey: route<{
+      body: { key_epoch: number; envelopes: Array<Pick<SenderKeyEnvelope, 'recipient_id' | 'encrypted_key' | 'nonce'>> };
+      response: ApiResponse;
+    }>()('POST', '/messages/groups/:groupId/sender-keys'),
+  },
+
+  subscriptions: {
+    plans: route<{ query: { user_type?: string }; response: SubscriptionPlan[] }>()('GET', '/subscriptions/plans'),
+    plan: route<{ response: SubscriptionPlan }>()('GET', '/subscriptions/plans/:planId'),
+    mine: route<{ response: UserSubscription | null }>()('GET', '/subscriptions/my-subscription'),
+    subscribe: route<{
+      body: {
+        plan_id: string;
+        billing_cycle: 'monthly' | 'yearly';
+        payment_method: string;
+        stripe_payment_method_id?: string;
+      };
+      response: SubscriptionMutation;
+    }>()('POST', '/subscriptions/subscribe'),
+    update: route<{
+      body: { plan_id?: string; billing_cycle?: 'monthly' | 'yearly' };
+      response: SubscriptionMutation;
+    }>()('PUT', '/subscriptions/update'),
+    cancel: route<{ body: { cancel_at_period_end: boolean }; response: SubscriptionMutation }>()(
+      'PUT',
+      '/subscriptions/cancel'
+    ),
+    reactivate: route<{ body: {}; response: SubscriptionMutation }>()('PUT', '/subscriptions/reactivate'),
+    paymentMethods: route<{ response: SavedPaymentMethod[] }>()('GET', '/subscriptions/payment-methods'),
+    addPaymentMethod: route<{
+      body: { type: string; stripe_payment_method_id?: string; eth_wallet?: string };
+      response: SavedPaymentMethod;
+    }>()('POST', '/subscriptions/payment-methods'),
+    setDefaultPaymentMethod: route<{ body: {}; response: void }>()(
+      'PUT',
+      '/subscriptions/payment-methods/:paymentMethodId/default'
+    ),
+    deletePaymentMethod: route<{ response: void }>()('DELETE', '/subscriptions/payment-methods/:paymentMethodId'),
+    payments: route<{ response: SubscriptionPayment[] }>()('GET', '/subscriptions/payments'),
+    retryPayment: route<{ body: {}; response: MutationResponse & { payment: SubscriptionPayment } }>()(
+      'POST',
+      '/subscriptions/payments/:paymentId/retry'
+    ),
+  },
+
+  tourPayments: {
+    list: route<{
+      query: { tour_date_id?: string; band_id?: string; status?: string };
+      response: TourPayment[];
+    }>()('GET', '/tour-payments'),
+    getById: route<{ response: TourPayment }>()('GET', '/tour-payments/:paymentId'),
+    mine: route<{ response: TourPayment[] }>()('GET', '/tour-payments/my-payments'),
+    create: route<{ body: CreateTourPaymentData; response: MutationResponse & { payment: TourPayment } }>()(
+      'POST',
+      '/tour-payments'
+    ),
+    update: route<{ body: Partial<CreateTourPaymentData>; response: TourPayment }>()(
+      'PUT',
+      '/tour-payments/:paymentId'
+    ),
+    updateStatus: route<{
+      body: { status: 'pending' | 'succeeded' | 'failed' | 'cancelled' };
+      response: TourPayment;
+    }>()('PUT', '/tour-payments/:paymentId/status'),
+    memberPayouts: route<{ response: TourMemberPayout[] }>()('GET', '/tour-payments/:tourPaymentId/member-payouts'),
+    distributeMemberPayouts: route<{
+      body: { payouts: CreateMemberPayoutData[] };
+      response: MutationResponse & { payouts: TourMemberPayout[] };
+    }>()('POST', '/tour-payments/:tourPaymentId/member-payouts'),
+    updateMemberPayout: route<{
+      body: {
+        payout_amount?: number;
+        payout_status?: string;
+        payment_method?: string;
+        transaction_hash?: string;
+        notes?: string;
+      };
+      response: TourMemberPayout;
+    }>()('PUT', '/tour-payments/:tourPaymentId/member-payouts/:payoutId'),
+  },
+
+  venuePayments: {
+    list: route<{ query: { venue_id?: string }; response: VenuePayment[] }>()('GET', '/venue-payments'),
+    create: route<{
+      body: {
+        tour_date_id: string;
+        amount: number;
+        currency?: string;
+        payment_method?: string;
+        transaction_hash?: string;
+        notes?: string;
+      };
+      response: MutationResponse & { payment: VenuePayment };
+    }>()('POST', '/venue-payments'),
+  },
+
+  payments: {
+    createPaymentIntent: route<{
+      body: { amount: number; currency?: string; description?: string; metadata?: Metadata };
+      response: { clientSecret: string; paymentIntentId: string };
+    }>()('POST', '/payments/create-payment-intent'),
+    confirm: route<{ body: {}; response: PaymentIntentConfirmation }>()('POST', '/payments/:paymentIntentId/confirm'),
+  },
+
+  admin: {
+    users: route<{
+      query: { user_type?: string; status?: string; search?: string };
+      response: User[];
+    }>()('GET', '/admin/users'),
+    user: route<{ response: User }>()('GET', '/admin/users/:userId'),
+    approveUser: route<{ body: {}; response: User }>()('PUT', '/admin/users/:userId/approve'),
+    rejectUser: route<{ body: { reason?: string }; response: void }>()('PUT', '/admin/users/:userId/reject'),
+    deleteUser: route<{ body: { suspension_reason?: string }; response: void }>()('DELETE', '/admin/users/:userId'),
+    stats: route<{ response: AdminStats }>()('GET', '/admin/stats'),
+    pendingApprovals: route<{ response: { users: User[]; bands: Band[]; total: number } }>()(
+      'GET',
+      '/admin/pending-approvals'
+    ),
+    messageRetention: route<{ response: MessageRetentionPolicy }>()('GET', '/admin/message-retention'),
+    setMessageRetention: route<{ body: MessageRetentionPolicy; response: MessageRetentionPolicy }>()(
+      'PUT',
+      '/admin/message-retention'
+    ),
+  },
+
+  bookingManager: {
+    users: route<{ query: { userType?: string }; response: { success: boolean; users: ManagedUser[] } }>()(
+      'GET',
+      '/booking-manager/my-users'
+    ),
+    updateStatus: route<{
+      body: { status: 'pending' | 'approved' | 'rejected' };
+      response: MutationResponse & { user: User };
+    }>()('PUT', '/booking-manager/users/:userId/status'),
+    setBandLimit: route<{ body: { bandLimit: number | null }; response: MutationResponse & { user: User } }>()(
+      'PUT',
+      '/booking-manager/users/:userId/band-limit'
+    ),
+    softDeleteUser: route<{ body: { suspensionReason?: string }; response: MutationResponse & { user: User } }>()(
+      'DELETE',
+      '/booking-manager/users/:userId'
+    ),
+    billingAdjustment: route<{
+      body: { originalAmount: number; adjustedAmount: number; discountPercentage?: number; reason?: string };
+      response: MutationResponse & { adjustment: BillingAdjustment };
+    }>()('PUT', '/booking-manager/users/:userId/billing-adjustment'),
+    assignFeature: route<{
+      body: { featureType: string; featureValue?: FeatureValue; expiresAt?: string };
+      response: MutationResponse & { feature: UserFeature };
+    }>()('POST', '/booking-manager/users/:userId/features'),
+    removeFeature: route<{ response: MutationResponse }>()(
+      'DELETE',
+      '/booking-manager/users/:userId/features/:featureId'
+    ),
+    assignState: route<{
+      body: { stateType: string; stateValue: string; metadata?: Metadata };
+      response: MutationResponse & { state: UserState };
+    }>()('POST', '/booking-manager/users/:userId/states'),
+    removeState: route<{ response: MutationResponse }>()('DELETE', '/booking-manager/users/:userId/states/:stateId'),
+    assignUser: route<{
+      body: { userId: string; notes?: string };
+      response: MutationResponse & { assignment: UserAssignment };
+    }>()(
+      'POST',
+      '/booking-manager/assign-user'
+    ),
+  },
+
+  adminGiftCards: {
+    list: route<{ query: { status?: string; recipient_type?: string }; response: GiftCard[] }>()(
+      'GET',
+      '/admin-gift-cards'
+    ),
+    create: route<{
+      body: { amount: number; recipient_type: string; recipient_id: string; expires_at?: string; notes?: string };
+      response: MutationResponse & { giftCard: GiftCard };
+    }>()('POST', '/admin-gift-cards'),
+    update: route<{ body: { status?: string; notes?: string }; response: GiftCard }>()(
+      'PUT',
+      '/admin-gift-cards/:giftCardId'
+    ),
+    transactions: route<{ response: GiftCardTransaction[] }>()('GET', '/admin-gift-cards/:giftCardId/transactions'),
+  },
+
+  adminBookingAgents: {
+    list: route<{ response: BookingAgent[] }>()('GET', '/admin-booking-agents'),
+    updateStatus: route<{ body: { status: AgentStatus }; response: BookingAgent }>()(
+      'PUT',
+      '/admin-booking-agents/:agentId/status'
+    ),
+    setAdmin: route<{ body: { is_admin_agent: boolean }; response: BookingAgent }>()(
+      'PUT',
+      '/admin-booking-agents/:agentId/admin'
+    ),
+  },
+
+  artistW2: {
+    list: route<{ response: W2Document[] }>()('GET', '/artist-w2/list'),
+    upload: route<{ body: FormData; response: W2Document }>()('POST', '/artist-w2/upload'),
+  },
+
+  streamingContent: {
+    createMuxUpload: route<{
+      body: {
+        title: string;
+        description?: string;
+        content_type: 'video' | 'audio';
+        metadata?: Record<string, unknown>;
+        tags?: string[];
+      };
+      response: { success: boolean; content: StreamingContent; upload_url: string; upload_id: string };
+    }>()('POST', '/streaming-content/upload/mux-direct'),
+    muxStatus: route<{ response: { success?: boolean; status: string; content?: StreamingContent } }>()(
+      'GET',
+      '/streaming-content/mux-status/:uploadId'
+    ),
+    remove: route<{ response: void }>()('DELETE', '/streaming-content/:contentId'),
+  },
+
+  // Resumable upload sessions; the binary chunks themselves go through apiService.uploadChunk
+  uploads: {
+    createSession: route<{
+      body: {
+        kind: string;
+        file_name: string;
+        file_size: number;
+        mime_type: string;
+        chunk_size: number;
+        metadata?: Record<string, string>;
+      };
+      response: UploadSessionStatus;
+    }>()('POST', '/uploads/sessions'),
+    status: route<{ response: UploadSessionStatus }>()('GET', '/uploads/sessions/:uploadId'),
+    chunk: route<{ body: Blob; response: UploadSessionStatus }>()('PUT', '/uploads/sessions/:uploadId'),
+    complete: route<{ body: {}; response: unknown }>()('POST', '/uploads/sessions/:uploadId/complete'),
+    cancel: route<{ response: void }>()('DELETE', '/uploads/sessions/:uploadId'),
+  },
+
+  livekit: {
+    token: route<{
+      body: { instance: string; roomName: string; participantName: string };
+      response: { token: string };
+    }>()('POST', '/livekit/token'),
+  },
+
+  mux: {
+    createLiveStream: route<{ body: { title: string; description?: string }; response: CreateLiveStreamResponse }>()(
+      'POST',
+      '/mux/live-streams/create'
+    ),
+    startLiveStream: route<{ body: {}; response: unknown }>()('PUT', '/mux/live-streams/:streamId/start'),
+    endLiveStream: route<{ body: {}; response: unknown }>()('PUT', '/mux/live-streams/:streamId/end'),
+    monitoring: route<{ response: MuxMonitoringData }>()('GET', '/mux/live-streams/:streamId/monitoring'),
+  },
+
+  health: route<{ response: unknown }>()('GET', '/health'),
+} as const;
+
+export type Endpoints = typeof endpoints;
@@ -0,0 +1,319 @@
+import apiService, { ApiError, RequestOptions } from './api';
+import { decodeMessageBody, encodeMessageBody, MessageBodyExtras } from './attachments';
+import { endpoints } from './endpoints';
+import encryptionService from './encryption';
+import messageService from './messages';
+import messageStore from './messageStore';
+import { ApiResponse, GroupConversation, GroupMessage, MessageAction, MessageAttachment, User } from '../types';
+
+/**
+ * Group Message Service
+ * End-to-end encrypted group threads: one per band (members follow the band)
+ * and ad-hoc groups anyone can start
+ *
+ * Sender keys:
+ * - Each member encrypts a message once, with a random key of their own for
+ *   the group's current key epoch (XSalsa20-Poly1305)
+ * - The sender key reaches each member boxed with the 1:1 E2EE keys - the
+ *   server only relays envelopes it can't open
+ * - Every membership change bumps the epoch; each member's next message goes
+ *   out under a fresh key sent only to the current members, so whoever left
+ *   can't read anything after
+ */
+
+// Error code when a message was encrypted for an epoch that has moved on
+export const STALE_KEY_EPOCH_CODE = 'stale_key_epoch';
+
+const UNDECRYPTABLE = '[Unable to decrypt message]';
+
+function isStaleKeyEpoch(error: unknown): boolean {
+  return error instanceof ApiError && (error.data as Record<string, unknown> | undefined)?.code === STALE_KEY_EPOCH_CODE;
+}
+
+class GroupMessageService {
+  // Sender keys this device can read with, by group, sender and epoch
+  private senderKeys: Map<string, string> = new Map();
+
+  // ============================================================================
+  // GROUPS
+  // ============================================================================
+
+  /**
+   * Band groups and ad-hoc groups the current user is in
+   */
+  async getGroups(options?: RequestOptions): Promise<GroupConversation[]> {
+    return await apiService.call(endpoints.groups.list, {}, options);
+  }
+
+  /**
+   * Get a group with its members and current key epoch
+   */
+  async getGroup(groupId: string, options?: RequestOptions): Promise<GroupConversation> {
+    return await apiService.call(endpoints.groups.get, { params: { groupId } }, options);
+  }
+
+  /**
+   * Start an ad-hoc group with the current user and `memberIds`
+   */
+  async createGroup(name: string, memberIds: string[]): Promise<GroupConversation> {
+    return await apiService.call(endpoints.groups.create, { body: { name, member_ids: memberIds } });
+  }
+
+  /**
+   * Add people to an ad-hoc group. They can read from the next epoch on.
+   */
+  async addMembers(groupId: string, userIds: string[]): Promise<GroupConversation> {
+    return await apiService.call(endpoints.groups.addMembers, { params: { groupId }, body: { user_ids: userIds } });
+  }
+
+  /**
+   * Remove someone from an ad-hoc group (its creator only). Band groups
+   * follow the band's members instead.
+   */
+  async removeMember(groupId: string, userId: string): Promise<ApiResponse> {
+    return await apiService.call(endpoints.groups.removeMember, { params: { groupId, userId } });
+  }
+
+  /**
+   * Leave an ad-hoc group
+   */
+  async leaveGroup(groupId: string): Promise<ApiResponse> {
+    return await this.removeMember(groupId, await this.getCurrentUserId());
+  }
+
+  // ============================================================================
+  // MESSAGES
+  // ============================================================================
+
+  /**
+   * Get a group's messages (decrypts messages automatically). Without
+   * `params`, only messages the device hasn't stored yet are downloaded;
+   * pages are read straight from the server.
+   */
+  async getMessages(
+    groupId: string,
+    params?: { limit?: number; offset?: number },
+    options?: RequestOptions
+  ): Promise<GroupMessage[]> {
+    if (params) {
+      const page = await apiService.call(endpoints.groups.messages, { params: { groupId }, query: params }, options);
+      return this.decryptMessages(groupId, page);
+    }
+
+    return messageStore.sync<GroupMessage>({ groupId }, async (stored) => {
+      const fresh = await apiService.call(
+        endpoints.groups.messages,
+        { params: { groupId }, query: { after: stored.cursor } },
+        { ...options, cachePolicy: 'network-only' }
+      );
+      // Sender keys may have arrived since
+      const failed = stored.messages.filter((message) => message.decryption_failed);
+      const decrypted = await this.decryptMessages(groupId, [...failed, ...fresh]);
+      return { messages: decrypted, fromServer: decrypted.slice(failed.length) };
+    });
+  }
+
+  /**
+   * Send a message to a group (encrypts automatically before sending)
+   */
+  async sendMessage(
+    groupId: string,
+    content: string,
+    attachments?: MessageAttachment[],
+    extras: MessageBodyExtras = {}
+  ): Promise<GroupMessage> {
+    const group = await this.getGroup(groupId);
+    try {
+      return await this.sendEncrypted(group, content, attachments, extras);
+    } catch (error) {
+      // Membership changed since we looked - encrypt again under the new epoch
+      if (isStaleKeyEpoch(error)) {
+        return await this.sendEncrypted(await this.getGroup(groupId), content, attachments, extras);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * React to a group message with an emoji, replacing this user's reaction
+   * (null removes it)
+   */
+  async react(groupId: string, messageId: string, emoji: string | null): Promise<void> {
+    await this.sendAction(groupId, { type: 'reaction', message_id: messageId, emoji });
+  }
+
+  /**
+   * Replace the text of a message this user sent to the group
+   */
+  async editMessage(groupId: string, messageId: string, content: string): Promise<void> {
+    await this.sendAction(groupId, { type: 'edit', message_id: messageId, content });
+  }
+
+  /**
+   * Delete a message this user sent, for every member. The ciphertext stays
+   * on the server, but members who join later can't read it anyway.
+   */
+  async deleteForEveryone(groupId: string, messageId: string): Promise<void> {
+    await this.sendAction(groupId, { type: 'delete', message_id: messageId });
+  }
+
+  /**
+   * Mark every message in the group as read
+   */
+  async markAsRead(groupId: string): Promise<void> {
+    return await apiService.call(endpoints.groups.markRead, { params: { groupId }, body: {} });
+  }
+
+  /**
+   * Forget sender keys (call on logout or account switch)
+   */
+  clearSenderKeys(): void {
+    this.senderKeys.clear();
+  }
+
+  // ============================================================================
+  // SENDER KEYS
+  // ============================================================================
+
+  private async sendEncrypted(
+    group: GroupConversation,
+    content: string,
+    attachments?: MessageAttachment[],
+    extras: MessageBodyExtras = {}
+  ): Promise<GroupMessage> {
+    const senderKey = await this.getOwnSenderKey(group);
+    const encrypted = encryptionService.encryptWithKey(encodeMessageBody(content, attachments, extras), senderKey);
+
+    const sent = await apiService.call(endpoints.groups.send, {
+      params: { groupId: group.id },
+      body: {
+        key_epoch: group.key_epoch,
+        ciphertext: encrypted.ciphertext,
+        nonce: encrypted.nonce,
+        attachment_ids: attachments?.map((attachment) => attachment.id),
+      },
+    });
+    return { ...sent, content, attachments, ...extras };
+  }
+
+  /**
+   * This user's sender key for the group's current epoch - from this device,
+   * from the envelope sent to ourselves, or a new one sent to every member
+   */
+  private async getOwnSenderKey(group: GroupConversation): Promise<string> {
+    const userId = await this.getCurrentUserId();
+    const id = this.keyId({ group_id: group.id, sender_id: userId, key_epoch: group.key_epoch });
+
+    if (!this.senderKeys.has(id)) {
+      await this.loadSenderKeys(group.id);
+    }
+    return this.senderKeys.get(id) ?? (await this.distributeSenderKey(group, userId));
+  }
+
+  /**
+   * Create a sender key for the current epoch and box it for each member
+   * (ourselves included, for other devices and history)
+   */
+  private async distributeSenderKey(group: GroupConversation, userId: string): Promise<string> {
+    const keyPair = await encryptionService.initializeKeys();
+    const senderKey = encryptionService.generateSymmetricKey();
+
+    const envelopes = await Promise.all(
+      group.members.map(async ({ user_id }) => {
+        try {
+          const publicKey = user_id === userId ? keyPair.publicKey : await messageService.getPublicKey(user_id);
+          const boxed = encryptionService.encryptMessage(senderKey, publicKey, keyPair.secretKey);
+          return { recipient_id: user_id, encrypted_key: boxed.ciphertext, nonce: boxed.nonce };
+        } catch (error) {
+          // No E2EE keys yet - they won't be able to read this epoch
+          if (__DEV__) console.warn(`No public key for group member ${user_id}:`, error);
+          return null;
+        }
+      })
+    );
+
+    await apiService.call(endpoints.groups.distributeSenderKey, {
+      params: { groupId: group.id },
+      body: {
+        key_epoch: group.key_epoch,
+        envelopes: envelopes.filter((envelope): envelope is NonNullable<typeof envelope> => envelope !== null),
+      },
+    });
+
+    this.senderKeys.set(this.keyId({ group_id: group.id, sender_id: userId, key_epoch: group.key_epoch }), senderKey);
+    return senderKey;
+  }
+
+  /**
+   * Open every sender key envelope addressed to us that we haven't yet
+   */
+  private async loadSenderKeys(groupId: string): Promise<void> {
+    const keyPair = await encryptionService.getStoredKeyPair();
+    if (!keyPair) return;
+
+    const userId = await this.getCurrentUserId();
+    const envelopes = await apiService.call(endpoints.groups.senderKeys, { params: { groupId } });
+
+    await Promise.all(
+      envelopes
+        .filter((envelope) => !this.senderKeys.has(this.keyId(envelope)))
+        .map(async (envelope) => {
+          try {
+            const senderPublicKey =
+              envelope.sender_id === userId ? keyPair.publicKey : await messageService.getPublicKey(envelope.sender_id);
+            const senderKey = encryptionService.decryptMessage(
+              { ciphertext: envelope.encrypted_key, nonce: envelope.nonce },
+              senderPublicKey,
+              keyPair.secretKey
+            );
+            this.senderKeys.set(this.keyId(envelope), senderKey);
+          } catch {
+            // Boxed for keys we no longer have (rotated, or another device)
+          }
+        })
+    );
+  }
+
+  private async sendAction(groupId: string, action: MessageAction): Promise<void> {
+    await this.sendMessage(groupId, '', undefined, { action });
+  }
+
+  private async decryptMessages(groupId: string, messages: GroupMessage[]): Promise<GroupMessage[]> {
+    // Fetch envelopes only when a sender key isn't known yet
+    if (messages.some((message) => message.ciphertext && !this.senderKeys.has(this.keyId(message)))) {
+      await this.loadSenderKeys(groupId);
+    }
+
+    return messages.map((message) => {
+      // Legacy message sent before E2EE was enabled
+      if (!message.ciphertext) {
+        return { ...message, content: message.content ?? '' };
+      }
+
+      const key = this.senderKeys.get(this.keyId(message));
+      if (!key) {
+        return { ...message, content: UNDECRYPTABLE, decryption_failed: true };
+      }
+      try {
+        const body = encryptionService.decryptWithKey({ ciphertext: message.ciphertext, nonce: message.nonce }, key);
+        return { ...message, ...decodeMessageBody(body), decryption_failed: undefined };
+      } catch {
+        return { ...message, content: UNDECRYPTABLE, decryption_failed: true };
+      }
+    });
+  }
+
+  private keyId({ group_id, sender_id, key_epoch }: Pick<GroupMessage, 'group_id' | 'sender_id' | 'key_epoch'>): string {
+    return `${group_id}:${sender_id}:${key_epoch}`;
+  }
+
+  /**
+   * Get current user ID from stored user data
+   */
+  private async getCurrentUserId(): Promise<string> {
+    const user = (await apiService.getStoredUser()) as User | null;
+    return user?.id || '';
+  }
+}
+
+export default new GroupMessageService();
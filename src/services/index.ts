@@ -8,10 +8,84 @@ export { default as bandService } from './bands';
 export { default as tourService } from './tours';
 export { default as studioService } from './studios';
 export { default as venueService } from './venues';
-export { default as messageService } from './messages';
+export { default as messageService, EXPIRY_TIMER_OPTIONS } from './messages';
+export { default as groupMessageService, STALE_KEY_EPOCH_CODE } from './groupMessages';
+export { default as keyVerificationService } from './keyVerification';
+export { default as ratchetService } from './ratchet';
+export { default as attachmentService } from './attachments';
+export { default as keySyncService } from './keySync';
+export { default as realtimeService } from './realtime';
+export { default as messageStore } from './messageStore';
 export { default as subscriptionService } from './subscriptions';
 export { default as paymentService } from './payments';
 export { default as adminService } from './admin';
+export { default as offlineService } from './offline';
+export { default as uploadService } from './uploads';
+export { default as backendProfileService } from './backendProfiles';
+export { default as accountService } from './accounts';
+export { default as userService } from './users';
+export { default as sessionService } from './sessions';
+export { default as twoFactorService } from './twoFactor';
+export { default as permissionService } from './permissions';
+export { default as accountDataService } from './accountData';
+export { default as networkLog } from './networkLog';
 
 // Export error class
-export { ApiError } from './api';
+export {
+  ApiError,
+  OfflineQueuedError,
+  RequestCancelledError,
+  isNetworkError,
+  isCancelledError,
+  isTwoFactorChallenge,
+} from './api';
+export type { RequestOptions, SessionEndReason } from './api';
+
+// Export backend profile types
+export type { BackendProfile, ProfileChange } from './backendProfiles';
+
+// Export account types
+export type { Account, AccountChange } from './accounts';
+
+// Export two-factor policy
+export { isTwoFactorRequired, needsTwoFactorSetup, TWO_FACTOR_REQUIRED_ROLES } from './twoFactor';
+
+// Export permission engine
+export { evaluatePermission, isUpgradeable } from './permissions';
+export type { Permission, PermissionDecision, PermissionDenial, FeatureKey } from './permissions';
+
+// Export key verification types
+export { computeSafetyNumber, contactKeyStatus } from './keyVerification';
+export type { ContactKey, ContactKeyStatus } from './keyVerification';
+
+// Export attachment helpers
+export { MAX_ATTACHMENT_BYTES, ATTACHMENT_TOO_LARGE_CODE, attachmentKind } from './attachments';
+
+// Export key sync helpers
+export { MIN_PASSPHRASE_LENGTH, WRONG_PASSPHRASE_MESSAGE } from './keySync';
+
+// Export ratchet session types
+export type { RatchetHeader, RatchetSession } from './ratchet';
+
+// Export realtime types
+export { TYPING_TIMEOUT_MS } from './realtime';
+export type { RealtimeThread } from './realtime';
+
+// Export message store types
+export { threadStoreKey } from './messageStore';
+export type { StorableMessage, StoredMessage, StoredThread, MessageSearchResult } from './messageStore';
+
+// Export account data types
+export { ACCOUNT_DELETION_GRACE_DAYS } from './accountData';
+export type { AccountArchive, ArchivedMessage } from './accountData';
+
+// Export network log types
+export { CORRELATION_HEADER } from './networkLog';
+export type { NetworkLogEntry, NetworkLogState } from './networkLog';
+
+// Export retry policy types
+export type { RetryPolicy, RetryInfo } from './retryPolicy';
+
+// Export endpoint registry
+export { endpoints, buildPath } from './endpoints';
+export type { EndpointArgs, EndpointResponse } from './endpoints';
@@ -0,0 +1,285 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha512 } from '@noble/hashes/sha2';
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import apiService, { ApiError, RequestOptions } from './api';
+import appLockService from './appLock';
+import { endpoints } from './endpoints';
+import encryptionService, { KeyPair } from './encryption';
+import messageService from './messages';
+import { wait } from './retryPolicy';
+import { DeviceLink, KeyBackup } from '../types';
+import { encodeBase32 } from '../utils/totp';
+
+/**
+ * Key Sync Service
+ * Moves a user's E2EE identity - key pairs and the message history this
+ * device can read - to their other devices
+ *
+ * - Passphrase backup: encrypted with a key derived from a passphrase only
+ *   the user knows (PBKDF2-HMAC-SHA512) and stored on the server as ciphertext
+ * - Device linking: the new device shows a QR code holding the hash of a
+ *   one-off public key and a secret. A signed-in device scans it, checks the
+ *   key against the hash, so the server can't slip in its own, and sends the
+ *   keys boxed for it under the secret.
+ *
+ * Ratchet sessions aren't moved - each device keeps its own. Messages on a
+ * session started before the move stay readable on the device that has it.
+ */
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+export const WRONG_PASSPHRASE_MESSAGE = 'Wrong passphrase - the backup could not be decrypted';
+
+// The backup sits on the server, open to offline guessing. Stored with each
+// backup, so it can be raised without breaking older ones.
+const PBKDF2_ITERATIONS = 210000;
+const LINK_POLL_INTERVAL_MS = 2000;
+// Link codes, shown as a QR code: the prefix, then the SHA-512 of the link key
+// (103 base32 characters) and a 20-byte secret (32), joined by a dot
+const LINK_CODE_PREFIX = 'artistspace-link:';
+const LINK_CODE_PATTERN = new RegExp(`^${LINK_CODE_PREFIX}([A-Z2-7]{103})\\.([A-Z2-7]{32})$`);
+const LINK_SECRET_BYTES = 20;
+// The server finds a link by the start of its key hash
+const LINK_ID_LENGTH = 8;
+
+interface KeyBundle {
+  version: 1;
+  key_pair: KeyPair;
+  previous_keys: KeyPair[];
+  /** Plaintext of ratchet messages, by nonce */
+  history: Record<string, string>;
+}
+
+// ============================================================================
+// KEY DERIVATION
+// ============================================================================
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/**
+ * PBKDF2-HMAC-SHA512 - a 32-byte secretbox key. Runs in slices, so the UI
+ * keeps responding.
+ */
+export async function derivePassphraseKey(passphrase: string, salt: string, iterations: number): Promise<string> {
+  const password = decodeUTF8(passphrase.normalize('NFKC'));
+  const key = await pbkdf2Async(sha512, password, decodeBase64(salt), {
+    c: iterations,
+    dkLen: nacl.secretbox.keyLength,
+  });
+  return encodeBase64(key);
+}
+
+/**
+ * Base32 SHA-512 of a link key
+ */
+export function deviceKeyHash(publicKey: string): string {
+  return encodeBase32(nacl.hash(decodeBase64(publicKey)));
+}
+
+/**
+ * Split a scanned or pasted link code into the link ID, key hash and secret
+ */
+function parseLinkCode(code: string): { id: string; keyHash: string; secret: string } {
+  const match = code.trim().match(LINK_CODE_PATTERN);
+  if (!match) {
+    throw new Error('That isn\'t a device link code - scan the QR code shown on your new device');
+  }
+  return { id: match[1].slice(0, LINK_ID_LENGTH), keyHash: match[1], secret: match[2] };
+}
+
+/**
+ * Key for the link payload: the box shared key mixed with the code's secret,
+ * which the server never sees - it can't send the new device keys of its own
+ */
+function linkPayloadKey(publicKey: string, secretKey: string, secret: string): string {
+  const shared = nacl.box.before(decodeBase64(publicKey), decodeBase64(secretKey));
+  return encodeBase64(nacl.hash(concat(shared, decodeUTF8(secret))).slice(0, nacl.secretbox.keyLength));
+}
+
+class KeySyncService {
+  // One-off key pair and secret of the link this device is waiting on
+  private pendingLink: { id: string; secret: string; keyPair: KeyPair } | null = null;
+
+  // ============================================================================
+  // PASSPHRASE BACKUP
+  // ============================================================================
+
+  /**
+   * The account's backup, or null if there isn't one
+   */
+  async getBackup(): Promise<KeyBackup | null> {
+    try {
+      return await apiService.call(endpoints.keySync.backup, {}, { cachePolicy: 'network-only' });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Back up this device's keys and history under `passphrase`, replacing any
+   * earlier backup. Asks the user to confirm it's them first.
+   */
+  async createBackup(passphrase: string): Promise<KeyBackup> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    await appLockService.confirm('Back up encryption keys');
+
+    const salt = encodeBase64(nacl.randomBytes(16));
+    const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const encrypted = encryptionService.encryptWithKey(JSON.stringify(await this.exportBundle()), key);
+
+    return await apiService.call(endpoints.keySync.saveBackup, {
+      body: { ciphertext: encrypted.ciphertext, nonce: encrypted.nonce, salt, iterations: PBKDF2_ITERATIONS },
+    });
+  }
+
+  /**
+   * Restore keys and history from the backup. Throws WRONG_PASSPHRASE_MESSAGE
+   * if `passphrase` doesn't open it.
+   */
+  async restoreBackup(passphrase: string): Promise<void> {
+    const backup = await apiService.call(endpoints.keySync.backup, {}, { cachePolicy: 'network-only' });
+    const key = await derivePassphraseKey(passphrase, backup.salt, backup.iterations);
+
+    let bundle: KeyBundle;
+    try {
+      bundle = JSON.parse(encryptionService.decryptWithKey(backup, key));
+    } catch {
+      throw new Error(WRONG_PASSPHRASE_MESSAGE);
+    }
+    await this.importBundle(bundle);
+  }
+
+  async deleteBackup(): Promise<void> {
+    await apiService.call(endpoints.keySync.removeBackup);
+  }
+
+  // ============================================================================
+  // DEVICE LINKING
+  // ============================================================================
+
+  /**
+   * New device: ask for the account's keys. Returns the code to show as a
+   * QR code for a signed-in device to scan; then call waitForLink().
+   */
+  async startLink(): Promise<string> {
+    const keyPair = encryptionService.generateKeyPair();
+    const keyHash = deviceKeyHash(keyPair.publicKey);
+    const id = keyHash.slice(0, LINK_ID_LENGTH);
+    const secret = encodeBase32(nacl.randomBytes(LINK_SECRET_BYTES));
+
+    await apiService.call(endpoints.keySync.createLink, {
+      body: { id, public_key: keyPair.publicKey, device_name: apiService.getDeviceInfo()?.device_name },
+    });
+    this.pendingLink = { id, secret, keyPair };
+    return `${LINK_CODE_PREFIX}${keyHash}.${secret}`;
+  }
+
+  /**
+   * New device: wait until a signed-in device approves the link, then take
+   * over its keys and history
+   */
+  async waitForLink(options: RequestOptions = {}): Promise<void> {
+    const pending = this.pendingLink;
+    if (!pending) throw new Error('No device link in progress');
+
+    let link = await this.fetchLink(pending.id, options);
+    while (!link.payload) {
+      await wait(LINK_POLL_INTERVAL_MS, options.signal);
+      link = await this.fetchLink(pending.id, options);
+    }
+
+    const { ciphertext, nonce, sender_public_key } = link.payload;
+    const key = linkPayloadKey(sender_public_key, pending.keyPair.secretKey, pending.secret);
+    let bundle: KeyBundle;
+    try {
+      bundle = JSON.parse(encryptionService.decryptWithKey({ ciphertext, nonce }, key));
+    } catch {
+      throw new Error('The keys sent for this code couldn\'t be opened - check the code and try again');
+    }
+    await this.importBundle(bundle);
+
+    this.pendingLink = null;
+    await apiService.call(endpoints.keySync.removeLink, { params: { linkId: pending.id } }).catch(() => undefined);
+  }
+
+  /**
+   * New device: give up on the link
+   */
+  async cancelLink(): Promise<void> {
+    const pending = this.pendingLink;
+    this.pendingLink = null;
+    if (pending) {
+      await apiService.call(endpoints.keySync.removeLink, { params: { linkId: pending.id } }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Signed-in device: the link request for a code, checked against it
+   */
+  async getLink(code: string): Promise<DeviceLink> {
+    const { id, keyHash } = parseLinkCode(code);
+    const link = await this.fetchLink(id);
+    if (deviceKeyHash(link.public_key) !== keyHash) {
+      throw new Error('This link request doesn\'t match the code - don\'t link this device');
+    }
+    return link;
+  }
+
+  /**
+   * Signed-in device: send this device's keys and history to the device
+   * showing `code`. Asks the user to confirm it's them first.
+   */
+  async approveLink(code: string): Promise<void> {
+    const link = await this.getLink(code);
+    await appLockService.confirm('Link a new device');
+
+    const sender = encryptionService.generateKeyPair();
+    const key = linkPayloadKey(link.public_key, sender.secretKey, parseLinkCode(code).secret);
+    const encrypted = encryptionService.encryptWithKey(JSON.stringify(await this.exportBundle()), key);
+    await apiService.call(endpoints.keySync.approveLink, {
+      params: { linkId: link.id },
+      body: { ciphertext: encrypted.ciphertext, nonce: encrypted.nonce, sender_public_key: sender.publicKey },
+    });
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private async fetchLink(linkId: string, options: RequestOptions = {}): Promise<DeviceLink> {
+    return await apiService.call(
+      endpoints.keySync.link,
+      { params: { linkId } },
+      { ...options, cachePolicy: 'network-only', dedupe: false }
+    );
+  }
+
+  private async exportBundle(): Promise<KeyBundle> {
+    return {
+      version: 1,
+      key_pair: await encryptionService.initializeKeys(),
+      previous_keys: await encryptionService.getPreviousKeyPairs(),
+      history: await messageService.exportHistory(),
+    };
+  }
+
+  /**
+   * Take over keys and history from another device, and tell contacts the
+   * account's key is the restored one again
+   */
+  private async importBundle(bundle: KeyBundle): Promise<void> {
+    await encryptionService.importKeyPairs(bundle.key_pair, bundle.previous_keys);
+    await messageService.importHistory(bundle.history);
+    await messageService.uploadPublicKey();
+  }
+}
+
+export default new KeySyncService();
@@ -0,0 +1,223 @@
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8 } from 'tweetnacl-util';
+import apiService from './api';
+import accountService from './accounts';
+import encryptionService from './encryption';
+import { getItemAsync, setItemAsync } from './storage';
+import { User } from '../types';
+
+/**
+ * Key Verification Service
+ * Remembers each contact's E2EE public key on this device, so a key swapped
+ * by the server (or a contact's reinstall or key rotation) can't go unnoticed.
+ *
+ * - The first key seen for a contact is trusted until verified (TOFU)
+ * - Verifying = comparing safety numbers in person or over a call; the
+ *   verified state is stored locally per account, never on the server
+ * - A different key later marks the contact as changed and drops verification
+ *   until the user verifies again or dismisses the warning
+ *
+ * @example
+ * const contact = await keyVerificationService.getContactKey(userId);
+ * if (contactKeyStatus(contact) === 'changed') showWarning();
+ */
+
+export type ContactKeyStatus = 'unverified' | 'verified' | 'changed';
+
+export interface ContactKey {
+  user_id: string;
+  public_key: string;
+  first_seen_at: string;
+  verified_at?: string;
+  /** Set when the key differs from the one seen before, until verified or dismissed */
+  changed_at?: string;
+  previous_key?: string;
+}
+
+type ContactKeyListener = (contact: ContactKey) => void;
+
+// A per-account key prefix in storage.ts
+const STORAGE_PREFIX = 'e2ee_contact_key_';
+
+// Same construction as Signal's numeric fingerprints
+const FINGERPRINT_VERSION = 0;
+const FINGERPRINT_ITERATIONS = 5200;
+
+export function contactKeyStatus(contact: ContactKey | null): ContactKeyStatus {
+  if (contact?.changed_at) return 'changed';
+  return contact?.verified_at ? 'verified' : 'unverified';
+}
+
+/**
+ * 30 digits identifying one user's key
+ */
+function fingerprintDigits(userId: string, publicKey: string): string {
+  const key = decodeBase64(publicKey);
+  const id = decodeUTF8(userId);
+
+  let hash = nacl.hash(concat(new Uint8Array([0, FINGERPRINT_VERSION]), key, id));
+  for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = nacl.hash(concat(hash, key));
+  }
+
+  // Six 5-byte chunks, each read as a number mod 100000
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    const value = Array.from(hash.slice(chunk * 5, chunk * 5 + 5)).reduce((total, byte) => total * 256 + byte, 0);
+    digits += String(value % 100000).padStart(5, '0');
+  }
+  return digits;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+/**
+ * Safety number for a pair of users: 60 digits in 12 groups of 5. Both sides
+ * get the same number, and it changes if either key does.
+ */
+export function computeSafetyNumber(
+  a: { userId: string; publicKey: string },
+  b: { userId: string; publicKey: string }
+): string {
+  const [first, second] = [a, b]
+    .map(({ userId, publicKey }) => ({ userId, digits: fingerprintDigits(userId, publicKey) }))
+    .sort((x, y) => x.userId.localeCompare(y.userId));
+
+  return `${first.digits}${second.digits}`.match(/\d{5}/g)!.join(' ');
+}
+
+class KeyVerificationService {
+  // Records read this session; null = no key seen for the contact yet
+  private contacts: Map<string, ContactKey | null> = new Map();
+  private listeners: Set<ContactKeyListener> = new Set();
+
+  constructor() {
+    // Records are per account
+    accountService.subscribe(() => this.contacts.clear());
+  }
+
+  /**
+   * What this device knows about a contact's key (null if never seen)
+   */
+  async getContactKey(userId: string): Promise<ContactKey | null> {
+    if (!this.contacts.has(userId)) {
+      const raw = await getItemAsync(this.storageKey(userId));
+      this.contacts.set(userId, raw ? (JSON.parse(raw) as ContactKey) : null);
+    }
+    return this.contacts.get(userId) ?? null;
+  }
+
+  /**
+   * Record the key the server gave for a contact. Called by messageService
+   * whenever it fetches a public key.
+   */
+  async observeKey(userId: string, publicKey: string): Promise<ContactKey> {
+    const known = await this.getContactKey(userId);
+    if (known?.public_key === publicKey) return known;
+
+    if (!known) {
+      return await this.save({ user_id: userId, public_key: publicKey, first_seen_at: new Date().toISOString() });
+    }
+
+    if (__DEV__) console.warn(`🔑 Public key for ${userId} changed`);
+    return await this.save({
+      user_id: userId,
+      public_key: publicKey,
+      first_seen_at: known.first_seen_at,
+      changed_at: new Date().toISOString(),
+      previous_key: known.public_key,
+    });
+  }
+
+  /**
+   * Mark the contact's current key as verified (safety numbers matched)
+   */
+  async markVerified(userId: string): Promise<ContactKey> {
+    const contact = await this.requireContactKey(userId);
+    const { changed_at, previous_key, ...rest } = contact;
+    return await this.save({ ...rest, verified_at: new Date().toISOString() });
+  }
+
+  /**
+   * Go back to trusting the current key without verification
+   */
+  async clearVerification(userId: string): Promise<ContactKey> {
+    const { verified_at, ...contact } = await this.requireContactKey(userId);
+    return await this.save(contact);
+  }
+
+  /**
+   * Dismiss a key-change warning without verifying
+   */
+  async acknowledgeChange(userId: string): Promise<ContactKey> {
+    const { changed_at, previous_key, ...contact } = await this.requireContactKey(userId);
+    return await this.save(contact);
+  }
+
+  /**
+   * Safety number for the signed-in user and a contact, from the keys this
+   * device actually encrypts with
+   */
+  async getSafetyNumber(userId: string): Promise<string> {
+    const [contact, keyPair, user] = await Promise.all([
+      this.requireContactKey(userId),
+      encryptionService.getStoredKeyPair(),
+      apiService.getStoredUser() as Promise<User | null>,
+    ]);
+    if (!keyPair || !user) {
+      throw new Error('Encryption keys are not set up on this device');
+    }
+
+    return computeSafetyNumber(
+      { userId: user.id, publicKey: keyPair.publicKey },
+      { userId, publicKey: contact.public_key }
+    );
+  }
+
+  /**
+   * Subscribe to changes of any contact's record
+   */
+  subscribe(listener: ContactKeyListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async requireContactKey(userId: string): Promise<ContactKey> {
+    const contact = await this.getContactKey(userId);
+    if (!contact) {
+      throw new Error('No encryption key seen for this contact yet');
+    }
+    return contact;
+  }
+
+  private async save(contact: ContactKey): Promise<ContactKey> {
+    this.contacts.set(contact.user_id, contact);
+    try {
+      await setItemAsync(this.storageKey(contact.user_id), JSON.stringify(contact));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to save contact key:', error);
+    }
+    this.listeners.forEach((listener) => listener(contact));
+    return contact;
+  }
+
+  private storageKey(userId: string): string {
+    // SecureStore keys may only contain alphanumerics, '.', '-' and '_'.
+    // Storage keeps them per account and deletes them with it.
+    return `${STORAGE_PREFIX}${userId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+  }
+}
+
+export default new KeyVerificationService();
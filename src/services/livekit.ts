@@ -12,6 +12,8 @@ import {
   ParticipantEvent,
 } from 'livekit-client';
 import apiService from './api';
+import { endpoints } from './endpoints';
+import backendProfileService, { ProfileChange } from './backendProfiles';
 
 // Lazy load and register WebRTC globals for React Native
 // Only register if not in Expo Go (development build required)
@@ -71,28 +73,52 @@ export interface MessageData {
   metadata?: any;
 }
 
+/**
+ * Receives data messages. `senderIdentity` is the publishing participant as
+ * LiveKit authenticated it - undefined for data sent by the server itself.
+ * `message.from` is whatever the sender wrote.
+ */
+export type MessageHandler = (message: MessageData, senderIdentity?: string) => void;
+
 class LiveKitService {
   private rooms: Map<LiveKitInstance, Room> = new Map();
-  private messageHandlers: Map<LiveKitInstance, Set<(message: MessageData) => void>> = new Map();
+  private messageHandlers: Map<LiveKitInstance, Set<MessageHandler>> = new Map();
+
+  constructor() {
+    backendProfileService.subscribe((change) => this.handleProfileChange(change));
+  }
 
   /**
-   * Get LiveKit URL for specific instance
+   * Get LiveKit URL for specific instance from the active backend profile
    */
   private getInstanceUrl(instance: LiveKitInstance): string {
+    const { livekit } = backendProfileService.getActiveProfile();
     switch (instance) {
       case LiveKitInstance.MAIN:
-        return process.env.EXPO_PUBLIC_LIVEKIT_URL || '';
+        return livekit.main;
       case LiveKitInstance.MEET:
-        return process.env.EXPO_PUBLIC_LIVEKIT_MEET_URL || 'wss://meet.artist-space.com';
+        return livekit.meet;
       case LiveKitInstance.CHAT:
-        return process.env.EXPO_PUBLIC_LIVEKIT_CHAT_URL || 'wss://chat.artist-space.com';
+        return livekit.chat;
       default:
-        return process.env.EXPO_PUBLIC_LIVEKIT_URL || '';
+        return livekit.main;
     }
   }
 
   /**
-   * Get LiveKit access token from backend
+   * Leave rooms on servers that are no longer part of the active profile.
+   * Their tokens came from the old backend, so a backend switch drops them all.
+   */
+  private async handleProfileChange({ profile, previous, backendChanged }: ProfileChange): Promise<void> {
+    const stale = Array.from(this.rooms.keys()).filter(
+      (instance) => backendChanged || profile.livekit[instance] !== previous.livekit[instance]
+    );
+    await Promise.all(stale.map((instance) => this.disconnect(instance)));
+  }
+
+  /**
+   * Get LiveKit access token from backend. Goes through ApiService, so an
+   * expiring session is refreshed first (sharing any refresh already running).
    *
    * @param instance - Which LiveKit instance to connect to
    * @param roomName - Name of the room to join
@@ -104,10 +130,8 @@ class LiveKitService {
     participantName: string
   ): Promise<string> {
     try {
-      const response = await apiService.post<{ token: string }>('/livekit/token', {
-        instance,
-        roomName,
-        participantName,
+      const response = await apiService.call(endpoints.livekit.token, {
+        body: { instance, roomName, participantName },
       });
 
       return response.token;
@@ -243,7 +267,7 @@ class LiveKitService {
         // Notify message handlers
         const handlers = this.messageHandlers.get(instance);
         if (handlers) {
-          handlers.forEach(handler => handler(message));
+          handlers.forEach(handler => handler(message, participant?.identity));
         }
       } catch (error) {
         console.error('Failed to parse data message:', error);
@@ -305,7 +329,7 @@ class LiveKitService {
    */
   onMessage(
     instance: LiveKitInstance,
-    handler: (message: MessageData) => void
+    handler: MessageHandler
   ): () => void {
     let handlers = this.messageHandlers.get(instance);
     if (!handlers) {
@@ -0,0 +1,339 @@
+import { readEncrypted, removeEncrypted, writeEncrypted } from './encryptedStorage';
+import type { RealtimeThread } from './realtime';
+import { MessageAction, MessageAttachment, MessageReply, MessageRevision } from '../types';
+
+/**
+ * Message Store
+ * Decrypted direct and group messages kept on the device, so threads only
+ * download what's new and history can be searched - the server only has
+ * ciphertext.
+ *
+ * - Each thread is one blob in encrypted storage (see encryptedStorage.ts),
+ *   with the ID of the newest message from the server as its sync cursor
+ * - Changes run one at a time, so a message is never decrypted twice
+ *   (ratchet keys only work once)
+ * - Search runs on the device over every stored thread
+ * - Disappearing messages are dropped once they expire (purgeExpired())
+ * - Reactions, edits and deletes arrive as messages of their own and are
+ *   applied to the message they point at as they're stored
+ */
+
+// Thread keys of the active account's stored threads
+const INDEX_KEY = 'e2ee_message_store';
+// Oldest messages are dropped past this many per thread
+const MAX_MESSAGES_PER_THREAD = 2000;
+const SNIPPET_RADIUS = 40;
+// Replies quote this much of the original
+const QUOTE_LENGTH = 100;
+// Cleared when a message is deleted for everyone
+const DELETED_FIELDS = {
+  attachments: undefined,
+  reply_to: undefined,
+  reactions: undefined,
+  edited_at: undefined,
+  edit_history: undefined,
+};
+
+/** What the store needs from a direct or group message */
+export interface StorableMessage {
+  id: string;
+  sender_id: string;
+  sender_name?: string;
+  content?: string;
+  attachments?: MessageAttachment[];
+  reply_to?: MessageReply;
+  /** Applied to another message when stored, then kept only for receipts */
+  action?: MessageAction;
+  reactions?: Record<string, string>;
+  edited_at?: string;
+  edit_history?: MessageRevision[];
+  deleted?: boolean;
+  created_at: string;
+  /** Disappearing message - removed from the device after this */
+  expires_at?: string;
+  /** Couldn't be decrypted when stored - tried again on the next sync */
+  decryption_failed?: boolean;
+}
+
+export interface StoredThread<T extends StorableMessage> {
+  /** Newest message from the server - fetch what came after it */
+  cursor?: string;
+  messages: T[];
+}
+
+/** A message and the thread it was stored in */
+export interface StoredMessage {
+  thread: RealtimeThread;
+  message: StorableMessage;
+}
+
+export interface MessageSearchResult extends StoredMessage {
+  /** The content around the first match */
+  snippet: string;
+}
+
+export function threadStoreKey(thread: RealtimeThread): string {
+  return 'groupId' in thread ? `group:${thread.groupId}` : `direct:${thread.userId}`;
+}
+
+/**
+ * What a reply to `message` quotes
+ */
+export function quoteMessage(message: StorableMessage): MessageReply {
+  const text = message.content?.trim() || (message.attachments?.[0] ? `📎 ${message.attachments[0].name}` : '');
+  return {
+    message_id: message.id,
+    sender_id: message.sender_id,
+    preview: text.length > QUOTE_LENGTH ? `${text.slice(0, QUOTE_LENGTH).trim()}…` : text,
+  };
+}
+
+function parseThreadKey(key: string): RealtimeThread {
+  const id = key.slice(key.indexOf(':') + 1);
+  return key.startsWith('group:') ? { groupId: id } : { userId: id };
+}
+
+/**
+ * Lower-case and strip accents, so "Café" matches "cafe"
+ */
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function isExpired(message: StorableMessage, now: number = Date.now()): boolean {
+  return !!message.expires_at && Date.parse(message.expires_at) <= now;
+}
+
+function snippetAround(content: string, term: string): string {
+  // Normalizing can change lengths; fall back to the start if it did
+  const index = normalize(content).length === content.length ? normalize(content).indexOf(term) : 0;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + term.length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${content.slice(start, end).trim()}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Apply a reaction, edit or delete to the message it points at
+ */
+function applyAction<T extends StorableMessage>(messages: Map<string, T>, { action, sender_id, created_at }: T): void {
+  const target = action && messages.get(action.message_id);
+  if (!action || !target || target.deleted || target.decryption_failed) return;
+
+  switch (action.type) {
+    case 'reaction': {
+      const reactions = { ...target.reactions };
+      if (action.emoji) {
+        reactions[sender_id] = action.emoji;
+      } else {
+        delete reactions[sender_id];
+      }
+      messages.set(target.id, { ...target, reactions });
+      break;
+    }
+    case 'edit': {
+      if (target.sender_id !== sender_id) return;
+      const previous = { content: target.content ?? '', created_at: target.edited_at ?? target.created_at };
+      messages.set(target.id, {
+        ...target,
+        content: action.content,
+        edited_at: created_at,
+        edit_history: [...(target.edit_history ?? []), previous],
+      });
+      break;
+    }
+    case 'delete': {
+      if (target.sender_id !== sender_id) return;
+      messages.set(target.id, { ...target, content: '', deleted: true, ...DELETED_FIELDS });
+
+      // Nothing of it stays on the device - not in quotes, not in old edits
+      messages.forEach((message) => {
+        if (message.reply_to?.message_id === target.id) {
+          messages.set(message.id, { ...message, reply_to: { ...message.reply_to, preview: '' } });
+        } else if (message.action?.type === 'edit' && message.action.message_id === target.id) {
+          messages.set(message.id, { ...message, action: { ...message.action, content: '' } });
+        }
+      });
+      break;
+    }
+  }
+}
+
+class MessageStoreService {
+  // Changes waiting to run, one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // ============================================================================
+  // THREADS
+  // ============================================================================
+
+  /**
+   * Stored messages of a thread, oldest first
+   */
+  async getThread<T extends StorableMessage>(thread: RealtimeThread): Promise<StoredThread<T>> {
+    return (await readEncrypted<StoredThread<T>>(this.storageKey(thread))) ?? { messages: [] };
+  }
+
+  /**
+   * Bring a thread up to date. `fetchNew` gets what's stored and returns
+   * messages to add or replace - new ones from the server (in server order)
+   * and any it decrypted again. Resolves with the whole thread.
+   *
+   * `fetchNew` must not call the store - it runs inside its queue.
+   */
+  async sync<T extends StorableMessage>(
+    thread: RealtimeThread,
+    fetchNew: (stored: StoredThread<T>) => Promise<{ messages: T[]; fromServer: T[] }>
+  ): Promise<T[]> {
+    return this.exclusive(async () => {
+      const stored = await this.getThread<T>(thread);
+      const { messages, fromServer } = await fetchNew(stored);
+
+      const cursor = fromServer.length > 0 ? fromServer[fromServer.length - 1].id : stored.cursor;
+      const merged = this.merge(stored.messages, messages);
+      await this.write(thread, { cursor, messages: merged });
+      return merged;
+    });
+  }
+
+  /**
+   * Change stored messages in place (read state, receipts)
+   */
+  async update<T extends StorableMessage>(
+    thread: RealtimeThread,
+    messageIds: string[],
+    changes: Partial<T>
+  ): Promise<void> {
+    await this.exclusive(async () => {
+      const stored = await this.getThread<T>(thread);
+      const ids = new Set(messageIds);
+      if (!stored.messages.some((message) => ids.has(message.id))) return;
+
+      const messages = stored.messages.map((message) => (ids.has(message.id) ? { ...message, ...changes } : message));
+      await this.write(thread, { ...stored, messages });
+    });
+  }
+
+  /**
+   * Forget a message (deleted by its sender)
+   */
+  async remove(thread: RealtimeThread, messageId: string): Promise<void> {
+    await this.exclusive(async () => {
+      const stored = await this.getThread(thread);
+      const messages = stored.messages.filter((message) => message.id !== messageId);
+      if (messages.length !== stored.messages.length) {
+        await this.write(thread, { ...stored, messages });
+      }
+    });
+  }
+
+  /**
+   * Delete messages whose disappearing timer has run out, in every thread.
+   * Resolves with what was deleted.
+   */
+  async purgeExpired(now: number = Date.now()): Promise<StoredMessage[]> {
+    return this.exclusive(async () => {
+      const purged: StoredMessage[] = [];
+      const keys = (await readEncrypted<string[]>(INDEX_KEY)) ?? [];
+      for (const key of keys) {
+        const thread = parseThreadKey(key);
+        const stored = await this.getThread(thread);
+        const expired = stored.messages.filter((message) => isExpired(message, now));
+        if (expired.length === 0) continue;
+
+        const messages = stored.messages.filter((message) => !isExpired(message, now));
+        await this.write(thread, { ...stored, messages });
+        purged.push(...expired.map((message) => ({ thread, message })));
+      }
+      return purged;
+    });
+  }
+
+  /**
+   * Delete every stored thread of the active account
+   */
+  async clear(): Promise<void> {
+    await this.exclusive(async () => {
+      const keys = (await readEncrypted<string[]>(INDEX_KEY)) ?? [];
+      await Promise.all(keys.map((key) => removeEncrypted(this.storageKey(parseThreadKey(key)))));
+      await removeEncrypted(INDEX_KEY);
+    });
+  }
+
+  // ============================================================================
+  // SEARCH
+  // ============================================================================
+
+  /**
+   * Stored messages containing every word of `query` (ignoring case and
+   * accents) in their text or attachment names, newest first
+   */
+  async search(query: string, limit: number = 50): Promise<MessageSearchResult[]> {
+    const terms = normalize(query).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const keys = (await readEncrypted<string[]>(INDEX_KEY)) ?? [];
+    const results: MessageSearchResult[] = [];
+    for (const key of keys) {
+      const thread = parseThreadKey(key);
+      const { messages } = await this.getThread(thread);
+      messages.forEach((message) => {
+        if (message.decryption_failed || message.action || isExpired(message)) return;
+
+        const content = message.content ?? '';
+        const names = (message.attachments ?? []).map((attachment) => attachment.name).join(' ');
+        const text = normalize(`${content} ${names}`);
+        if (!terms.every((term) => text.includes(term))) return;
+
+        results.push({ thread, message, snippet: content ? snippetAround(content, terms[0]) : names });
+      });
+    }
+
+    return results.sort((a, b) => b.message.created_at.localeCompare(a.message.created_at)).slice(0, limit);
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  private storageKey(thread: RealtimeThread): string {
+    return `${INDEX_KEY}.${threadStoreKey(thread)}`;
+  }
+
+  /**
+   * Messages stored decrypted are kept as they are - actions may have changed
+   * them since. Actions are applied the first time they're stored decrypted.
+   */
+  private merge<T extends StorableMessage>(stored: T[], incoming: T[]): T[] {
+    const byId = new Map(stored.map((message) => [message.id, message]));
+    const actions: T[] = [];
+    incoming.forEach((message) => {
+      const existing = byId.get(message.id);
+      if (existing && !existing.decryption_failed) return;
+      if (message.action && !message.decryption_failed) actions.push(message);
+      byId.set(message.id, message);
+    });
+    actions.forEach((message) => applyAction(byId, message));
+
+    return Array.from(byId.values())
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(-MAX_MESSAGES_PER_THREAD);
+  }
+
+  private async write<T extends StorableMessage>(thread: RealtimeThread, stored: StoredThread<T>): Promise<void> {
+    await writeEncrypted(this.storageKey(thread), stored);
+
+    const key = threadStoreKey(thread);
+    const keys = (await readEncrypted<string[]>(INDEX_KEY)) ?? [];
+    if (!keys.includes(key)) {
+      await writeEncrypted(INDEX_KEY, [...keys, key]);
+    }
+  }
+
+  private exclusive<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export default new MessageStoreService();
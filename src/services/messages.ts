@@ -1,6 +1,16 @@
+import { AppState, NativeEventSubscription } from 'react-native';
 import apiService from './api';
-import encryptionService, { EncryptedMessage } from './encryption';
-import { Message, Conversation, SendMessageData } from '../types';
+import appLockService from './appLock';
+import { decodeMessageBody, encodeMessageBody } from './attachments';
+import { endpoints } from './endpoints';
+import accountService from './accounts';
+import { readEncrypted, writeEncrypted } from './encryptedStorage';
+import encryptionService, { EncryptedMessage, KeyPair } from './encryption';
+import keyVerificationService from './keyVerification';
+import messageStore from './messageStore';
+import ratchetService, { isRatchetMessage } from './ratchet';
+import realtimeService from './realtime';
+import { Message, MessageAction, Conversation, ConversationExpiry, SendMessageData, User } from '../types';
 
 /**
  * Message API Service
@@ -11,10 +21,47 @@ import { Message, Conversation, SendMessageData } from '../types';
  * - Public key exchange via secure API
  * - Messages encrypted client-side before sending
  * - Messages decrypted client-side after receiving
+ * - Forward secrecy: each message has its own key from a ratchet session
+ *   (see ratchetService). Messages from before sessions, or from contacts
+ *   whose keys have since rotated, still decrypt with the identity keys.
+ * - Decrypted conversations are kept in messageStore, so only new messages
+ *   are downloaded and decrypted
+ * - Disappearing messages are deleted from the device, and the server, once
+ *   their conversation's timer runs out - checked on sync, on foreground and
+ *   every minute
+ * - Replies, reactions, edits and deletes travel inside the ciphertext - the
+ *   server sees them as ordinary messages
  */
+
+// Plaintext of ratchet messages by nonce - their keys are used once
+const HISTORY_KEY = 'e2ee_message_history';
+
+// Disappearing-message timers offered in a conversation, in seconds
+export const EXPIRY_TIMER_OPTIONS = [3600, 86400, 604800, 2419200];
+// How often expired messages are purged while someone is signed in
+const EXPIRY_PURGE_INTERVAL_MS = 60 * 1000;
+
 class MessageService {
   // Cache for recipient public keys (reduces API calls)
   private publicKeyCache: Map<string, string> = new Map();
+  // Ratchet message history for the active account (null = not loaded)
+  private history: Record<string, string> | null = null;
+  private expiryTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+
+  constructor() {
+    accountService.subscribe(() => {
+      this.history = null;
+    });
+
+    // Keep receipts for our messages with the stored conversation
+    realtimeService.subscribe((event) => {
+      if (event.type !== 'receipt') return;
+      const changes: Partial<Message> =
+        event.status === 'read' ? { read: true, read_at: event.at } : { delivered_at: event.at };
+      messageStore.update({ userId: event.user_id }, event.message_ids, changes).catch(() => undefined);
+    });
+  }
 
   // ============================================================================
   // CONVERSATIONS
@@ -24,62 +71,94 @@ class MessageService {
    * Get all conversations for current user
    */
   async getConversations(): Promise<Conversation[]> {
-    return await apiService.get('/messages/conversations');
+    return await apiService.call(endpoints.messages.conversations);
   }
 
   /**
-   * Get messages with a specific user (decrypts messages automatically)
+   * Get messages with a specific user (decrypts messages automatically).
+   * Without `params`, only messages the device hasn't stored yet are
+   * downloaded; pages are read straight from the server.
    */
   async getConversation(userId: string, params?: {
     limit?: number;
     offset?: number;
   }): Promise<Message[]> {
-    const messages = await apiService.get<Message[]>(`/messages/conversation/${userId}`, params);
+    if (params) {
+      const page = await apiService.call(endpoints.messages.conversation, { params: { userId }, query: params });
+      return this.decryptMessages(page);
+    }
 
-    // Decrypt messages
+    await this.deleteExpired();
+    const messages = await messageStore.sync<Message>({ userId }, async (stored) => {
+      const fresh = await apiService.call(
+        endpoints.messages.conversation,
+        { params: { userId }, query: { after: stored.cursor } },
+        { cachePolicy: 'network-only' }
+      );
+      // Keys may have arrived since (restored backup, refreshed contact key)
+      const failed = stored.messages.filter((message) => message.decryption_failed);
+      const decrypted = await this.decryptMessages([...failed, ...fresh]);
+      return { messages: decrypted, fromServer: decrypted.slice(failed.length) };
+    });
+    await this.forgetReplaced(messages, messages);
+    return messages;
+  }
+
+  /**
+   * Decrypt messages fetched from the server with this device's keys
+   */
+  async decryptMessages(messages: Message[]): Promise<Message[]> {
     const keyPair = await encryptionService.getStoredKeyPair();
     if (!keyPair) {
       // No encryption keys found - messages may not decrypt
-      return messages;
+      return messages.map((message) =>
+        message.encrypted_content && message.nonce ? { ...message, decryption_failed: true } : message
+      );
     }
 
-    // Decrypt each message
-    return Promise.all(
-      messages.map(async (message) => {
-        if (message.encrypted_content && message.nonce) {
-          try {
-            // Determine if we're the sender or recipient
-            const isSender = message.sender_id === (await this.getCurrentUserId());
-            const otherUserId = isSender ? message.recipient_id : message.sender_id;
-
-            // Get the other user's public key
-            const otherUserPublicKey = await this.getPublicKey(otherUserId);
-
-            // Decrypt the message
-            const decryptedContent = encryptionService.decryptMessage(
-              {
-                ciphertext: message.encrypted_content,
-                nonce: message.nonce,
-              },
-              otherUserPublicKey,
-              keyPair.secretKey
-            );
-
-            return {
-              ...message,
-              content: decryptedContent,
-            };
-          } catch (error) {
-            // Failed to decrypt message
-            return {
-              ...message,
-              content: '[Unable to decrypt message]',
-            };
-          }
+    const currentUserId = await this.getCurrentUserId();
+    const history = await this.loadHistory();
+    const decrypted: Record<string, string> = {};
+
+    // One at a time - each ratchet message moves its session on
+    const result: Message[] = [];
+    for (const message of messages) {
+      if (!message.encrypted_content || !message.nonce) {
+        result.push(message);
+        continue;
+      }
+
+      const known = history[message.nonce];
+      if (known !== undefined) {
+        result.push({ ...message, ...decodeMessageBody(known), decryption_failed: undefined });
+        continue;
+      }
+
+      try {
+        const encrypted = { ciphertext: message.encrypted_content, nonce: message.nonce };
+        const isSender = message.sender_id === currentUserId;
+        const otherUserId = isSender ? message.recipient_id : message.sender_id;
+
+        let content: string;
+        if (isRatchetMessage(encrypted.ciphertext)) {
+          // Our own ratchet messages are only readable from history
+          if (isSender) throw new Error('Sent from another device');
+          content = await ratchetService.decrypt(otherUserId, await this.getPublicKey(otherUserId), encrypted);
+          decrypted[message.nonce] = content;
+        } else {
+          content = await this.decryptWithIdentityKeys(encrypted, otherUserId, keyPair);
         }
-        return message;
-      })
-    );
+        result.push({ ...message, ...decodeMessageBody(content), decryption_failed: undefined });
+      } catch (error) {
+        // Failed to decrypt message
+        result.push({ ...message, content: '[Unable to decrypt message]', decryption_failed: true });
+      }
+    }
+
+    if (Object.keys(decrypted).length > 0) {
+      await this.remember(decrypted);
+    }
+    return result;
   }
 
   // ============================================================================
@@ -90,18 +169,17 @@ class MessageService {
    * Send a message (encrypts automatically before sending)
    */
   async sendMessage(data: SendMessageData): Promise<Message> {
-    // Get or initialize encryption keys
-    const keyPair = await encryptionService.initializeKeys();
-
     // Get recipient's public key
     const recipientPublicKey = await this.getPublicKey(data.recipient_id);
 
-    // Encrypt the message
-    const encrypted = encryptionService.encryptMessage(
-      data.content,
-      recipientPublicKey,
-      keyPair.secretKey
-    );
+    // Attachment keys, quotes and actions travel inside the encrypted message
+    const body = encodeMessageBody(data.content, data.attachments, { reply_to: data.reply_to, action: data.action });
+
+    // Encrypt with the next key of our session with them
+    const encrypted = await ratchetService.encrypt(data.recipient_id, recipientPublicKey, body);
+
+    // The message key is gone once used - keep the plaintext to show it later
+    await this.remember({ [encrypted.nonce]: body });
 
     // Send encrypted message to server
     const encryptedData = {
@@ -111,29 +189,147 @@ class MessageService {
       // Optionally include plaintext content for server-side search/moderation
       // (only if your security model allows it)
       content: undefined,
+      attachment_ids: data.attachments?.map((attachment) => attachment.id),
     };
 
-    const sentMessage = await apiService.post<Message>('/messages/send', encryptedData);
+    // Only ciphertext is ever queued, so offline messages stay end-to-end encrypted
+    const sentMessage = await apiService.call(endpoints.messages.send, { body: encryptedData }, {
+      queueOffline: true,
+      offlineTag: 'messages',
+    });
 
     // Return message with decrypted content for local display
     return {
       ...sentMessage,
       content: data.content,
+      attachments: data.attachments,
+      reply_to: data.reply_to,
+      action: data.action,
     };
   }
 
   /**
-   * Mark message as read
+   * React to a message with an emoji, replacing this user's reaction
+   * (null removes it)
+   */
+  async react(userId: string, messageId: string, emoji: string | null): Promise<void> {
+    await this.sendAction(userId, { type: 'reaction', message_id: messageId, emoji });
+  }
+
+  /**
+   * Replace the text of a message this user sent. Both devices keep the
+   * earlier versions; backups and linked devices get only the latest.
+   */
+  async editMessage(userId: string, messageId: string, content: string): Promise<void> {
+    const sent = await this.sendAction(userId, { type: 'edit', message_id: messageId, content });
+    const { messages } = await messageStore.getThread<Message>({ userId });
+    await this.forgetReplaced(messages, [sent]);
+  }
+
+  /**
+   * Delete a message this user sent, on both devices and the server
+   */
+  async deleteForEveryone(userId: string, messageId: string): Promise<void> {
+    const sent = await this.sendAction(userId, { type: 'delete', message_id: messageId });
+    const { messages } = await messageStore.getThread<Message>({ userId });
+    await this.forgetReplaced(messages, [sent]);
+    // The other device may not have downloaded it yet
+    await this.deleteMessage(messageId).catch(() => undefined);
+  }
+
+  /**
+   * Mark message as read. Screens use markConversationRead(), which sends a
+   * conversation's receipts together.
    */
   async markAsRead(messageId: string): Promise<void> {
-    return await apiService.put(`/messages/${messageId}/read`, {});
+    return await apiService.call(endpoints.messages.markRead, { params: { messageId }, body: {} });
+  }
+
+  /**
+   * Mark messages from `userId` as read, here and (batched) for them
+   */
+  async markConversationRead(userId: string, messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+    realtimeService.markRead(userId, messageIds);
+    await messageStore.update<Message>({ userId }, messageIds, { read: true });
   }
 
   /**
    * Delete message
    */
   async deleteMessage(messageId: string): Promise<void> {
-    return await apiService.delete(`/messages/${messageId}`);
+    return await apiService.call(endpoints.messages.remove, { params: { messageId } });
+  }
+
+  // ============================================================================
+  // DISAPPEARING MESSAGES
+  // ============================================================================
+
+  /**
+   * The conversation's disappearing-message timer, and the longest the
+   * retention policy allows
+   */
+  async getExpiry(userId: string): Promise<ConversationExpiry> {
+    return await apiService.call(endpoints.messages.expiry, { params: { userId } }, { cachePolicy: 'network-only' });
+  }
+
+  /**
+   * Set how long new messages with `userId` last (null = keep them). Either
+   * person can change it; the server announces it in the conversation.
+   *
+   * @returns The announcement
+   */
+  async setExpiry(userId: string, ttlSeconds: number | null): Promise<Message> {
+    return await apiService.call(endpoints.messages.setExpiry, {
+      params: { userId },
+      body: { ttl_seconds: ttlSeconds },
+    });
+  }
+
+  /**
+   * Delete expired messages from this device, then from the server
+   */
+  async deleteExpired(): Promise<void> {
+    const purged = await messageStore.purgeExpired();
+    const expired = purged.filter(({ thread }) => 'userId' in thread).map(({ message }) => message as Message);
+    if (expired.length === 0) return;
+
+    await this.forget(expired.map((message) => message.nonce).filter((nonce): nonce is string => !!nonce));
+    await Promise.all(
+      expired.map((message) =>
+        // The other person's device may have deleted it already
+        this.deleteMessage(message.id).catch(() => undefined)
+      )
+    );
+  }
+
+  /**
+   * Run deleteExpired() now, whenever the app returns to the foreground and
+   * every minute, so expired messages go even from chats nobody opens
+   */
+  startExpiryPurge(): void {
+    this.stopExpiryPurge();
+
+    const purge = () => {
+      this.deleteExpired().catch((error) => {
+        if (__DEV__) console.warn('Failed to delete expired messages:', error);
+      });
+    };
+    purge();
+    this.expiryTimer = setInterval(purge, EXPIRY_PURGE_INTERVAL_MS);
+    this.appStateSubscription =
+      AppState.addEventListener?.('change', (state) => {
+        if (state === 'active') purge();
+      }) ?? null;
+  }
+
+  stopExpiryPurge(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
   }
 
   // ============================================================================
@@ -147,8 +343,8 @@ class MessageService {
   async uploadPublicKey(): Promise<void> {
     try {
       const keyPair = await encryptionService.initializeKeys();
-      await apiService.post('/messages/upload-public-key', {
-        public_key: keyPair.publicKey,
+      await apiService.call(endpoints.messages.uploadPublicKey, {
+        body: { public_key: keyPair.publicKey },
       });
     } catch (error: any) {
       // Handle 404 or other errors gracefully - E2EE might not be available on all backends
@@ -188,7 +384,9 @@ class MessageService {
   }
 
   /**
-   * Get a user's public key (cached for performance)
+   * Get a user's public key (cached for performance). Keys fetched from the
+   * server are checked against the one this device saw before - see
+   * keyVerificationService.
    */
   async getPublicKey(userId: string): Promise<string> {
     // Check cache first
@@ -197,9 +395,8 @@ class MessageService {
     }
 
     // Fetch from server
-    const response = await apiService.get<{ public_key: string }>(
-      `/messages/public-key/${userId}`
-    );
+    const response = await apiService.call(endpoints.messages.publicKey, { params: { userId } });
+    await keyVerificationService.observeKey(userId, response.public_key);
 
     // Cache the key
     this.publicKeyCache.set(userId, response.public_key);
@@ -207,6 +404,30 @@ class MessageService {
     return response.public_key;
   }
 
+  /**
+   * Fetch a user's public key again, skipping the cache (e.g. when opening a
+   * conversation, to notice a key that changed since)
+   */
+  async refreshPublicKey(userId: string): Promise<string> {
+    this.publicKeyCache.delete(userId);
+    return await this.getPublicKey(userId);
+  }
+
+  /**
+   * Plaintext of the ratchet messages this device has read, for moving to
+   * another device (see keySyncService)
+   */
+  async exportHistory(): Promise<Record<string, string>> {
+    return { ...(await this.loadHistory()) };
+  }
+
+  /**
+   * Add message history from another device
+   */
+  async importHistory(entries: Record<string, string>): Promise<void> {
+    await this.remember(entries);
+  }
+
   /**
    * Clear public key cache (call on logout)
    */
@@ -232,11 +453,13 @@ class MessageService {
   }
 
   /**
-   * Rotate encryption keys (recommended every 90 days)
+   * Rotate encryption keys (recommended every 90 days), after the user
+   * confirms with biometrics or their PIN
    */
   async rotateKeys(): Promise<void> {
     const shouldRotate = await encryptionService.shouldRotateKeys();
     if (shouldRotate) {
+      await appLockService.confirm('Rotate encryption keys');
       await encryptionService.rotateKeys();
       await this.uploadPublicKey();
     }
@@ -246,11 +469,102 @@ class MessageService {
   // HELPER METHODS
   // ============================================================================
 
+  /**
+   * Decrypt a message sent before ratchet sessions. Tries archived key pairs
+   * on both sides, so rotation doesn't lock out old messages.
+   */
+  private async decryptWithIdentityKeys(
+    encrypted: EncryptedMessage,
+    otherUserId: string,
+    keyPair: KeyPair
+  ): Promise<string> {
+    const contact = await keyVerificationService.getContactKey(otherUserId);
+    const theirKeys = [await this.getPublicKey(otherUserId), contact?.previous_key].filter(
+      (key): key is string => !!key
+    );
+    const ourKeys = [keyPair, ...(await encryptionService.getPreviousKeyPairs())];
+
+    for (const ours of ourKeys) {
+      for (const theirs of theirKeys) {
+        try {
+          return encryptionService.decryptMessage(encrypted, theirs, ours.secretKey);
+        } catch {
+          // Try the next combination
+        }
+      }
+    }
+    throw new Error('No key can decrypt this message');
+  }
+
+  private async sendAction(userId: string, action: MessageAction): Promise<Message> {
+    return this.sendMessage({ recipient_id: userId, content: '', action });
+  }
+
+  /**
+   * Drop plaintext that edits and deletes replaced from the history, which
+   * backups and linked devices copy: every version of an edited message but
+   * the latest, and a deleted message with its edits and quotes. Targets
+   * not stored decrypted yet are left for the next sync.
+   */
+  private async forgetReplaced(thread: Message[], changes: Message[]): Promise<void> {
+    const history = await this.loadHistory();
+    const nonces: string[] = [];
+    const quotes: Record<string, string> = {};
+
+    for (const change of changes) {
+      const { action } = change;
+      if (action?.type !== 'edit' && action?.type !== 'delete') continue;
+      const target = thread.find((message) => message.id === action.message_id);
+      if (!target || target.decryption_failed || target.sender_id !== change.sender_id) continue;
+
+      const earlierEdits = thread.filter((message) =>
+        message.action?.type === 'edit' && message.action.message_id === target.id &&
+        message.id !== change.id && (action.type === 'delete' || message.created_at <= change.created_at)
+      );
+      [target, ...earlierEdits].forEach((message) => message.nonce && nonces.push(message.nonce));
+      if (action.type !== 'delete') continue;
+
+      thread.forEach(({ reply_to, nonce }) => {
+        if (reply_to?.message_id !== target.id || !nonce || !history[nonce]) return;
+        const body = decodeMessageBody(history[nonce]);
+        if (!body.reply_to?.preview) return;
+        quotes[nonce] = encodeMessageBody(body.content, body.attachments, {
+          reply_to: { ...body.reply_to, preview: '' },
+          action: body.action,
+        });
+      });
+    }
+
+    await this.forget(nonces);
+    if (Object.keys(quotes).length > 0) await this.remember(quotes);
+  }
+
+  private async loadHistory(): Promise<Record<string, string>> {
+    if (!this.history) {
+      this.history = (await readEncrypted<Record<string, string>>(HISTORY_KEY)) ?? {};
+    }
+    return this.history;
+  }
+
+  private async remember(entries: Record<string, string>): Promise<void> {
+    const history = await this.loadHistory();
+    Object.assign(history, entries);
+    await writeEncrypted(HISTORY_KEY, history);
+  }
+
+  private async forget(nonces: string[]): Promise<void> {
+    const history = await this.loadHistory();
+    if (!nonces.some((nonce) => nonce in history)) return;
+
+    nonces.forEach((nonce) => delete history[nonce]);
+    await writeEncrypted(HISTORY_KEY, history);
+  }
+
   /**
    * Get current user ID from stored user data
    */
   private async getCurrentUserId(): Promise<string> {
-    const user = await apiService.getStoredUser();
+    const user = (await apiService.getStoredUser()) as User | null;
     return user?.id || '';
   }
 }
@@ -0,0 +1,2128 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import nacl from 'tweetnacl';
+import { decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import encryptionService from './encryption';
+import mockIdentityProvider from './mockIdentityProvider';
+import { AnyEndpoint, EndpointBody, EndpointResponse, endpoints } from './endpoints';
+import { wait } from './retryPolicy';
+import {
+  MockAttachment,
+  MockAuthSession,
+  MockDatabase,
+  MockDeviceLink,
+  MockGroup,
+  MockGroupMessage,
+  MockMessage,
+  MockOAuthIdentity,
+  MockProviderAccount,
+  MockUser,
+  MOCK_PASSWORD,
+  MOCK_PLAN_FEATURES,
+  createMockDatabase,
+} from './mockFixtures';
+import {
+  AccountExport,
+  Band,
+  BandMedia,
+  BandMember,
+  BandPaymentSummary,
+  Conversation,
+  DeviceInfo,
+  DeviceLink,
+  DeviceSession,
+  GroupConversation,
+  GroupMessage,
+  Message,
+  MessageRetentionPolicy,
+  OAuthCodeExchange,
+  OAuthProvider,
+  PaymentLedgerEntry,
+  RealtimeEvent,
+  ReceiptStatus,
+  SenderKeyEnvelope,
+  TourDate,
+  User,
+} from '../types';
+import { formatDuration } from '../utils/dateFormatters';
+import { decodeJwt, isJwtExpiring } from '../utils/jwt';
+import { buildOtpauthUrl, encodeBase32, verifyTotp } from '../utils/totp';
+
+/**
+ * Mock Backend
+ * In-process stand-in for the real API, plugged into ApiService as an axios
+ * adapter when the active backend profile has `mock` enabled
+ *
+ * - Routes come from the endpoint registry, so handlers are typed per endpoint
+ * - State lives in memory, seeded from mockFixtures.ts; reset() reseeds it
+ * - Messages are end-to-end encrypted for real: seeded conversations are
+ *   encrypted for the public key the app uploads, using each fixture user's keys
+ * - Group messages too: fixture users hand out their sender keys boxed for
+ *   that same public key
+ * - Every response goes through the normal interceptors, so errors, retries
+ *   and the offline cache behave as they do against the real backend
+ */
+
+export class MockHttpError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+interface MockRequest<E extends AnyEndpoint> {
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  body: EndpointBody<E>;
+  /** Signed-in user, resolved from the bearer token */
+  user: MockUser;
+  /** Session the bearer token belongs to */
+  session: MockAuthSession;
+}
+
+// Bodies arrive untyped; each handler is typed against its own endpoint in on()
+type MockHandler = (request: Omit<MockRequest<AnyEndpoint>, 'body'> & { body: unknown }) => unknown;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+  isPublic: boolean;
+}
+
+const REFRESH_PREFIX = 'mock-refresh:';
+const SESSION_REVOKED = 'session_revoked';
+const OAUTH_ACCOUNT_EXISTS = 'oauth_account_exists';
+const STALE_KEY_EPOCH = 'stale_key_epoch';
+const ATTACHMENT_TOO_LARGE = 'attachment_too_large';
+// Largest encrypted attachment accepted: 25 MB of file plus the MAC
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024 + 16;
+const DEVICE_LINK_TTL_MS = 10 * 60 * 1000;
+const MOCK_PIN = '123456';
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const RECOVERY_CODE_COUNT = 10;
+// Same recovery period as jobs/cleanup-deleted-accounts in the backend
+const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+// Sign-ins from clients that don't describe their device
+const UNKNOWN_DEVICE: DeviceInfo = { device_name: 'Unknown device', platform: 'web', biometric_enabled: false };
+
+// Replies fixture users send back, so conversations feel alive
+const AUTO_REPLIES = ['Sounds good 👍', 'Got it - talk soon!', 'Love it. Let\'s lock it in.', 'On it 🎶'];
+
+function encodeBase64Url(value: object): string {
+  return encodeBase64(decodeUTF8(JSON.stringify(value)))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+/**
+ * Deterministic sender key a fixture user encrypts group messages with, per
+ * group and epoch
+ */
+function fixtureSenderKey(groupId: string, senderId: string, epoch: number): string {
+  const seed = nacl.hash(decodeUTF8(`artist-space-mock:${groupId}:${senderId}:${epoch}`));
+  return encodeBase64(seed.slice(0, nacl.secretbox.keyLength));
+}
+
+function notFound(what: string): never {
+  throw new MockHttpError(404, `${what} not found`);
+}
+
+function forbidden(): never {
+  throw new MockHttpError(403, 'You do not have permission to do that');
+}
+
+function isAdmin(user: MockUser): boolean {
+  return user.user_type === 'booking_manager' || (user.user_type === 'booking_agent' && !!user.is_admin_agent);
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Strip password and key material before a user leaves the mock
+ */
+function publicUser({
+  password,
+  profile,
+  keyPair,
+  totpSecret,
+  pendingTotpSecret,
+  recoveryCodes,
+  ...user
+}: MockUser): User {
+  return { ...user, two_factor_enabled: !!totpSecret };
+}
+
+function createRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = Array.from(nacl.randomBytes(5), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Reject unless `code` is current for the user's confirmed TOTP secret
+ */
+function requireTotp(user: MockUser, code: string): void {
+  if (!user.totpSecret || !verifyTotp(user.totpSecret, code)) {
+    throw new MockHttpError(400, 'Invalid verification code');
+  }
+}
+
+/**
+ * Reject a disappearing-message timer that isn't a whole number of seconds
+ */
+function requireTtl(ttl: unknown): asserts ttl is number | null {
+  if (ttl !== null && !(Number.isInteger(ttl) && (ttl as number) > 0)) {
+    throw new MockHttpError(400, 'Timers must be a whole number of seconds');
+  }
+}
+
+function conversationKey(userId: string, otherId: string): string {
+  return [userId, otherId].sort().join(':');
+}
+
+function isExpired(message: MockMessage, now: number = Date.now()): boolean {
+  return !!message.expires_at && Date.parse(message.expires_at) <= now;
+}
+
+function expiryNotice(ttl: number | null): string {
+  return !ttl ? '⏱️ Disappearing messages off' : `⏱️ Messages disappear after ${formatDuration(ttl)}`;
+}
+
+/**
+ * Messages after the one with ID `cursor` - all of them if it's gone
+ */
+function afterCursor<T extends { id: string }>(thread: T[], cursor?: string): T[] {
+  const index = cursor ? thread.findIndex((message) => message.id === cursor) : -1;
+  return thread.slice(index + 1);
+}
+
+class MockBackendService {
+  private db: MockDatabase = createMockDatabase();
+  private routes: MockRoute[] = [];
+  /** Simulated network latency range in ms */
+  latency: [number, number] = [150, 450];
+  /** Lifetime of issued access tokens - shorten to exercise session refresh */
+  accessTokenTtlSeconds = 15 * 60;
+  /** Open realtime channels, by user ID */
+  private realtimeListeners: Map<string, Set<(event: RealtimeEvent) => void>> = new Map();
+
+  constructor() {
+    this.registerAuthRoutes();
+    this.registerBandRoutes();
+    this.registerTourRoutes();
+    this.registerPlaceRoutes();
+    this.registerMessageRoutes();
+    this.registerKeySyncRoutes();
+    this.registerGroupRoutes();
+    this.registerPaymentRoutes();
+    this.registerAdminRoutes();
+
+    // Static paths ('/bands/my/all') must win over params ('/bands/:bandId')
+    this.routes.sort((a, b) => a.paramNames.length - b.paramNames.length);
+  }
+
+  /**
+   * axios adapter - set as the client's adapter in mock mode
+   */
+  adapter: AxiosAdapter = (config) => this.handle(config);
+
+  /**
+   * Throw away all changes and reseed the fixtures. Signed-in devices keep
+   * their sessions.
+   */
+  reset(): void {
+    const previous = this.db.authSessions;
+    this.db = createMockDatabase();
+    mockIdentityProvider.reset();
+
+    // Devices stay signed in
+    const seeded = new Set(this.db.authSessions.map((session) => session.id));
+    this.db.authSessions.push(...previous.filter((session) => !seeded.has(session.id)));
+  }
+
+  /**
+   * Accounts to sign in with (all share MOCK_PASSWORD)
+   */
+  getDemoAccounts(): Array<{ email: string; name: string; user_type: User['user_type'] }> {
+    return this.db.users.map(({ email, name, user_type }) => ({ email, name, user_type }));
+  }
+
+  getDemoPassword(): string {
+    return MOCK_PASSWORD;
+  }
+
+  /**
+   * Open the realtime channel for whoever holds `token` - the mock's stand-in
+   * for their LiveKit inbox room. Returns a function that closes it.
+   */
+  connectRealtime(token: string, listener: (event: RealtimeEvent) => void): () => void {
+    const user = this.findUser(decodeJwt(token)?.sub ?? '');
+    if (!user) throw new Error('Authentication required');
+
+    const listeners = this.realtimeListeners.get(user.id) ?? new Set();
+    listeners.add(listener);
+    this.realtimeListeners.set(user.id, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // REQUEST HANDLING
+  // ============================================================================
+
+  private async handle(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const signal = config.signal as AbortSignal | undefined;
+    const [min, max] = this.latency;
+    await wait(min + Math.random() * (max - min), signal);
+    if (signal?.aborted) {
+      throw new CanceledError(undefined, undefined, config);
+    }
+
+    const method = (config.method || 'get').toUpperCase();
+    const [path, search] = (config.url || '').split('?');
+    const query: Record<string, string | undefined> = {
+      ...Object.fromEntries(new URLSearchParams(search || '')),
+      ...(config.params || {}),
+    };
+
+    try {
+      const { route, params } = this.match(method, path);
+      const auth = this.authenticate(config);
+      if (!auth && !route.isPublic) {
+        throw new MockHttpError(401, 'Authentication required');
+      }
+
+      const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data;
+      const data = await route.handler({
+        params,
+        query,
+        body,
+        user: auth?.user as MockUser,
+        session: auth?.session as MockAuthSession,
+      });
+
+      if (__DEV__) console.log(`🧪 Mock ${method} ${path}`);
+      return { data, status: method === 'POST' ? 201 : 200, statusText: 'OK', headers: {}, config, request: {} };
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+
+      const response: AxiosResponse = {
+        data: error.code ? { error: error.message, code: error.code } : { error: error.message },
+        status: error.status,
+        statusText: error.message,
+        headers: {},
+        config,
+        request: {},
+      };
+      throw new AxiosError(
+        error.message,
+        error.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        {},
+        response
+      );
+    }
+  }
+
+  private match(method: string, path: string): { route: MockRoute; params: Record<string, string> } {
+    for (const route of this.routes) {
+      if (route.method !== method) continue;
+      const match = route.pattern.exec(path);
+      if (match) {
+        const params: Record<string, string> = {};
+        route.paramNames.forEach((name, index) => {
+          params[name] = decodeURIComponent(match[index + 1]);
+        });
+        return { route, params };
+      }
+    }
+    throw new MockHttpError(404, `Mock backend has no handler for ${method} ${path}`);
+  }
+
+  private authenticate(config: InternalAxiosRequestConfig): { user: MockUser; session: MockAuthSession } | null {
+    const header = String(config.headers?.Authorization || '');
+    const token = header.replace(/^Bearer\s+/, '');
+    const claims = decodeJwt(token);
+    if (!claims?.sub) return null;
+
+    const session = this.db.authSessions.find((candidate) => candidate.id === claims.sid);
+    if (!session) {
+      throw new MockHttpError(401, 'This device was signed out', SESSION_REVOKED);
+    }
+    if (isJwtExpiring(token)) {
+      throw new MockHttpError(401, 'Token expired');
+    }
+
+    const user = this.findUser(claims.sub);
+    if (!user) return null;
+    session.last_seen_at = new Date().toISOString();
+    return { user, session };
+  }
+
+  /**
+   * Unsigned JWT - enough for the app to read its expiry
+   */
+  private issueAccessToken(user: MockUser, session: MockAuthSession): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = encodeBase64Url({ alg: 'none', typ: 'JWT' });
+    const payload = encodeBase64Url({
+      sub: user.id,
+      sid: session.id,
+      iat: now,
+      exp: now + this.accessTokenTtlSeconds,
+    });
+    return `${header}.${payload}.mock`;
+  }
+
+  /**
+   * Register a handler for an endpoint from the registry
+   */
+  private on<E extends AnyEndpoint>(
+    endpoint: E,
+    handler: (request: MockRequest<E>) => EndpointResponse<E> | Promise<EndpointResponse<E>>,
+    isPublic: boolean = false
+  ): void {
+    const paramNames: string[] = [];
+    const source = endpoint.path.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+      paramNames.push(name);
+      return '([^/]+)';
+    });
+    this.routes.push({
+      method: endpoint.method,
+      pattern: new RegExp(`^${source}/?$`),
+      paramNames,
+      handler: handler as MockHandler,
+      isPublic,
+    });
+  }
+
+  // ============================================================================
+  // LOOKUPS
+  // ============================================================================
+
+  private findUser(userId: string): MockUser | undefined {
+    return this.db.users.find((user) => user.id === userId);
+  }
+
+  private getBand(bandId: string): Band {
+    return this.db.bands.find((band) => band.id === bandId) ?? notFound('Band');
+  }
+
+  private getTour(tourId: string): TourDate {
+    return this.db.tours.find((tour) => tour.id === tourId) ?? notFound('Tour date');
+  }
+
+  private membership(bandId: string, userId: string): BandMember | undefined {
+    return this.db.members.find((member) => member.band_id === bandId && member.user_id === userId);
+  }
+
+  private myBands(user: MockUser): Band[] {
+    return this.db.bands
+      .filter((band) => band.user_id === user.id || this.membership(band.id, user.id)?.status === 'active')
+      .map((band) => ({ ...band, role: band.user_id === user.id ? 'owner' : 'member' }));
+  }
+
+  private requireBandManager(bandId: string, user: MockUser): Band {
+    const band = this.getBand(bandId);
+    const member = this.membership(bandId, user.id);
+    if (band.user_id !== user.id && !member?.permissions.can_manage_members) forbidden();
+    return band;
+  }
+
+  /**
+   * Payouts to the user, with the gig and payment they came from
+   */
+  private paymentLedger(user: MockUser): PaymentLedgerEntry[] {
+    return this.db.payouts
+      .filter((payout) => payout.user_id === user.id)
+      .map((payout): PaymentLedgerEntry => {
+        const payment = this.db.tourPayments.find((candidate) => candidate.id === payout.tour_payment_id);
+        const tour = this.db.tours.find((candidate) => candidate.id === payment?.tour_date_id);
+        return {
+          ...payout,
+          venue_payment_amount: payment?.venue_payment_amount,
+          booking_agent_fee_percentage: payment?.booking_agent_fee_percentage,
+          booking_agent_fee_amount: payment?.booking_agent_fee_amount,
+          other_fees_amount: payment?.other_fees_amount,
+          total_band_payout: payment?.total_band_payout,
+          tour_payment_status: payment?.payment_status,
+          payment_date: payment?.payment_date,
+          tour_date_id: tour?.id,
+          tour_date: tour?.date,
+          start_time: tour?.start_time,
+          end_time: tour?.end_time,
+          tour_status: tour?.status,
+          payment_amount: tour?.payment_amount,
+          payment_currency: tour?.payment_currency,
+          band_id: tour?.band_id,
+          band_name: tour?.band_name,
+          venue_id: tour?.venue_id,
+          venue_name: tour?.venue_name,
+          city: tour?.city,
+          state: tour?.state,
+          tour_id: tour?.tour_id,
+          tour_name: tour?.tour_name,
+          booking_agent_name: 'Priya Shah',
+        };
+      });
+  }
+
+  /**
+   * Tokens for an existing session, or a new session for a sign-in
+   */
+  private authResponse(user: MockUser, session: MockAuthSession | DeviceInfo = UNKNOWN_DEVICE) {
+    const authSession = 'id' in session ? session : this.createSession(user, session);
+    return {
+      token: this.issueAccessToken(user, authSession),
+      refreshToken: `${REFRESH_PREFIX}${authSession.id}`,
+      user: publicUser(user),
+    };
+  }
+
+  private createUser(email: string, name: string, userType: User['user_type'], password: string = ''): MockUser {
+    const now = new Date().toISOString();
+    const user: MockUser = {
+      id: newId('u'),
+      email,
+      name,
+      user_type: userType,
+      status: 'approved',
+      requires_password_reset: false,
+      created_at: now,
+      updated_at: now,
+      password,
+      profile: {},
+      keyPair: encryptionService.generateKeyPair(),
+    };
+    this.db.users.push(user);
+    return user;
+  }
+
+  /**
+   * Credentials checked: a session, or a 2FA challenge if the account has it on
+   */
+  private signIn(user: MockUser, device?: DeviceInfo) {
+    if (!user.totpSecret) {
+      return this.authResponse(user, device);
+    }
+
+    const challenge = {
+      token: newId('2fa'),
+      user_id: user.id,
+      device,
+      expires_at: Date.now() + TWO_FACTOR_CHALLENGE_TTL_SECONDS * 1000,
+    };
+    this.db.twoFactorChallenges.push(challenge);
+    return {
+      twoFactorRequired: true as const,
+      challengeToken: challenge.token,
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS,
+    };
+  }
+
+  private createSession(user: MockUser, device: DeviceInfo): MockAuthSession {
+    const now = new Date().toISOString();
+    const session: MockAuthSession = {
+      device_name: device.device_name,
+      platform: device.platform,
+      app_version: device.app_version,
+      biometric_enabled: device.biometric_enabled,
+      id: newId('sess'),
+      user_id: user.id,
+      ip_address: '192.0.2.10',
+      city: 'Los Angeles',
+      country: 'US',
+      created_at: now,
+      last_seen_at: now,
+    };
+    this.db.authSessions.push(session);
+    return session;
+  }
+
+  private exchangeCode(provider: OAuthProvider, exchange: OAuthCodeExchange): MockProviderAccount {
+    const account = mockIdentityProvider.exchange(provider, exchange);
+    if (!account) {
+      throw new MockHttpError(400, 'Invalid or expired authorization code');
+    }
+    return account;
+  }
+
+  private linkIdentity(user: MockUser, provider: OAuthProvider, account: MockProviderAccount): MockOAuthIdentity {
+    const identity: MockOAuthIdentity = {
+      provider,
+      subject: account.subject,
+      user_id: user.id,
+      email: account.email,
+      display_name: account.name,
+      linked_at: new Date().toISOString(),
+    };
+    this.db.oauthIdentities.push(identity);
+    return identity;
+  }
+
+  private toDeviceSession({ user_id, ...session }: MockAuthSession, current: MockAuthSession): DeviceSession {
+    return { ...session, current: session.id === current.id };
+  }
+
+  // ============================================================================
+  // AUTH & USERS
+  // ============================================================================
+
+  private registerAuthRoutes(): void {
+    this.on(
+      endpoints.auth.login,
+      ({ body }) => {
+        const user = this.db.users.find((candidate) => candidate.email === body.email.trim().toLowerCase());
+        // Accounts created through OAuth have no password
+        const valid = 'pinCode' in body ? body.pinCode === MOCK_PIN : !!user?.password && body.password === user.password;
+        if (!user || !valid) {
+          throw new MockHttpError(401, 'Invalid email or password');
+        }
+        return this.signIn(user, body.device);
+      },
+      true
+    );
+
+    this.on(
+      endpoints.auth.requestLoginPin,
+      () => ({ success: true, message: `Mock backend: use PIN ${MOCK_PIN}` }),
+      true
+    );
+
+    this.on(
+      endpoints.auth.register,
+      ({ body }) => {
+        const email = body.email.trim().toLowerCase();
+        if (this.db.users.some((user) => user.email === email)) {
+          throw new MockHttpError(409, 'An account with this email already exists');
+        }
+        const user = this.createUser(email, body.name, body.user_type, body.password);
+        return this.authResponse(user, body.device);
+      },
+      true
+    );
+
+    this.on(
+      endpoints.auth.refresh,
+      ({ body }) => {
+        if (!body.refreshToken.startsWith(REFRESH_PREFIX)) {
+          throw new MockHttpError(401, 'Invalid refresh token');
+        }
+        const sessionId = body.refreshToken.slice(REFRESH_PREFIX.length);
+        const session = this.db.authSessions.find((candidate) => candidate.id === sessionId);
+        const user = session && this.findUser(session.user_id);
+        if (!session || !user) {
+          throw new MockHttpError(401, 'This device was signed out', SESSION_REVOKED);
+        }
+        session.last_seen_at = new Date().toISOString();
+        return this.authResponse(user, session);
+      },
+      true
+    );
+
+    this.on(endpoints.auth.logout, ({ session }) => {
+      this.db.authSessions = this.db.authSessions.filter((candidate) => candidate.id !== session.id);
+      return { success: true };
+    });
+    this.on(endpoints.auth.me, ({ user }) => publicUser(user));
+
+    const resetReply = () => ({ success: true, message: `Mock backend: use PIN ${MOCK_PIN}` });
+    this.on(endpoints.auth.requestPasswordReset, resetReply, true);
+    this.on(endpoints.auth.verifyPasswordResetPin, resetReply, true);
+    this.on(endpoints.auth.resetPassword, () => ({ success: true, message: 'Password updated' }), true);
+
+    const { twoFactor, oauth, authSessions } = endpoints;
+
+    this.on(
+      oauth.authorize,
+      ({ params, query }) => ({
+        authorization_url: mockIdentityProvider.authorizationUrl(params.provider as OAuthProvider, {
+          redirect_uri: query.redirect_uri!,
+          state: query.state!,
+          code_challenge: query.code_challenge!,
+        }),
+      }),
+      true
+    );
+
+    this.on(
+      oauth.callback,
+      ({ params, body }) => {
+        const provider = params.provider as OAuthProvider;
+        const account = this.exchangeCode(provider, body);
+        const linked = this.db.oauthIdentities.find(
+          (identity) => identity.provider === provider && identity.subject === account.subject
+        );
+        const existing = linked ? this.findUser(linked.user_id) : undefined;
+        if (existing) {
+          return this.signIn(existing, body.device);
+        }
+
+        // Linking by email would let anyone with a provider account take over ours
+        const email = account.email.toLowerCase();
+        if (this.db.users.some((user) => user.email === email)) {
+          throw new MockHttpError(
+            409,
+            'An account with this email already exists. Sign in and link it from your profile.',
+            OAUTH_ACCOUNT_EXISTS
+          );
+        }
+
+        const user = this.createUser(email, account.name, body.user_type ?? 'supporter');
+        this.linkIdentity(user, provider, account);
+        return { ...this.authResponse(user, body.device), isNewUser: true };
+      },
+      true
+    );
+
+    this.on(oauth.identities, ({ user }) =>
+      this.db.oauthIdentities
+        .filter((identity) => identity.user_id === user.id)
+        .map(({ subject, user_id, ...identity }) => identity)
+    );
+
+    this.on(oauth.link, ({ params, body, user }) => {
+      const provider = params.provider as OAuthProvider;
+      const account = this.exchangeCode(provider, body);
+      const linked = this.db.oauthIdentities.find(
+        (identity) => identity.provider === provider && identity.subject === account.subject
+      );
+      if (linked && linked.user_id !== user.id) {
+        throw new MockHttpError(409, 'That account is already linked to another Artist Space user');
+      }
+      if (this.db.oauthIdentities.some((identity) => identity.provider === provider && identity.user_id === user.id)) {
+        throw new MockHttpError(409, 'Unlink your current account for this provider first');
+      }
+
+      const { subject, user_id, ...identity } = this.linkIdentity(user, provider, account);
+      return identity;
+    });
+
+    this.on(oauth.unlink, ({ params, user }) => {
+      const identities = this.db.oauthIdentities.filter((identity) => identity.user_id === user.id);
+      const target = identities.find((identity) => identity.provider === params.provider);
+      if (!target) notFound('Linked account');
+      if (!user.password && identities.length === 1) {
+        throw new MockHttpError(409, 'Set a password or link another account before unlinking your only sign-in method');
+      }
+      this.db.oauthIdentities = this.db.oauthIdentities.filter((identity) => identity !== target);
+      return { success: true };
+    });
+
+    this.on(
+      twoFactor.verify,
+      ({ body }) => {
+        const challenge = this.db.twoFactorChallenges.find(
+          (candidate) => candidate.token === body.challengeToken && candidate.expires_at > Date.now()
+        );
+        const user = challenge && this.findUser(challenge.user_id);
+        if (!challenge || !user) {
+          throw new MockHttpError(401, 'Your sign-in expired. Please start again.');
+        }
+
+        if ('recoveryCode' in body) {
+          const code = body.recoveryCode.trim().toLowerCase();
+          if (!user.recoveryCodes?.includes(code)) {
+            throw new MockHttpError(400, 'Invalid recovery code');
+          }
+          // Each recovery code works once
+          user.recoveryCodes = user.recoveryCodes.filter((candidate) => candidate !== code);
+        } else {
+          requireTotp(user, body.code);
+        }
+
+        this.db.twoFactorChallenges = this.db.twoFactorChallenges.filter((candidate) => candidate !== challenge);
+        return this.authResponse(user, challenge.device);
+      },
+      true
+    );
+
+    this.on(twoFactor.status, ({ user }) => ({
+      enabled: !!user.totpSecret,
+      required: !!user.two_factor_required,
+      recovery_codes_remaining: user.recoveryCodes?.length ?? 0,
+    }));
+
+    this.on(twoFactor.setup, ({ user }) => {
+      if (user.totpSecret) {
+        throw new MockHttpError(409, 'Two-factor authentication is already on');
+      }
+      user.pendingTotpSecret = encodeBase32(nacl.randomBytes(20));
+      return {
+        secret: user.pendingTotpSecret,
+        otpauth_url: buildOtpauthUrl(user.pendingTotpSecret, user.email, 'Artist Space'),
+      };
+    });
+
+    this.on(twoFactor.enable, ({ body, user }) => {
+      if (!user.pendingTotpSecret || !verifyTotp(user.pendingTotpSecret, body.code)) {
+        throw new MockHttpError(400, 'Invalid verification code');
+      }
+      user.totpSecret = user.pendingTotpSecret;
+      user.pendingTotpSecret = undefined;
+      user.recoveryCodes = createRecoveryCodes();
+      return { recovery_codes: user.recoveryCodes };
+    });
+
+    this.on(twoFactor.disable, ({ body, user }) => {
+      if (user.two_factor_required) {
+        throw new MockHttpError(403, 'Two-factor authentication is required for your account');
+      }
+      requireTotp(user, body.code);
+      user.totpSecret = undefined;
+      user.recoveryCodes = undefined;
+      return { success: true };
+    });
+
+    this.on(twoFactor.regenerateRecoveryCodes, ({ body, user }) => {
+      requireTotp(user, body.code);
+      user.recoveryCodes = createRecoveryCodes();
+      return { recovery_codes: user.recoveryCodes };
+    });
+
+    this.on(authSessions.list, ({ user, session }) =>
+      this.db.authSessions
+        .filter((candidate) => candidate.user_id === user.id)
+        .sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at))
+        .map((candidate) => this.toDeviceSession(candidate, session))
+    );
+
+    this.on(authSessions.updateCurrent, ({ body, session }) => {
+      Object.assign(session, body);
+      return this.toDeviceSession(session, session);
+    });
+
+    this.on(authSessions.revoke, ({ params, user }) => {
+      const target = this.db.authSessions.find(
+        (candidate) => candidate.id === params.sessionId && candidate.user_id === user.id
+      );
+      if (!target) notFound('Session');
+      this.db.authSessions = this.db.authSessions.filter((candidate) => candidate.id !== target.id);
+      return { success: true };
+    });
+
+    this.on(authSessions.revokeOthers, ({ user, session }) => {
+      const others = this.db.authSessions.filter(
+        (candidate) => candidate.user_id === user.id && candidate.id !== session.id
+      );
+      this.db.authSessions = this.db.authSessions.filter((candidate) => !others.includes(candidate));
+      return { success: true, data: { revoked: others.length } };
+    });
+
+    const { account } = endpoints;
+
+    this.on(account.export, ({ user }) => {
+      const bands = this.myBands(user);
+      const bandIds = bands.map((band) => band.id);
+      const conversations: AccountExport['conversations'] = [];
+      this.threads(user).forEach((thread, otherId) => {
+        conversations.push({
+          user_id: otherId,
+          name: this.findUser(otherId)?.name ?? 'Deleted user',
+          messages: thread.map((message) => this.toClientMessage(message, user)),
+        });
+      });
+      return {
+        exported_at: new Date().toISOString(),
+        profile: publicUser(user),
+        bands,
+        tours: this.db.tours.filter((tour) => bandIds.includes(tour.band_id)),
+        payouts: this.paymentLedger(user),
+        conversations,
+      };
+    });
+
+    this.on(account.scheduleDeletion, ({ user, session }) => {
+      const deletedAt = new Date();
+      user.deleted_at = deletedAt.toISOString();
+      user.suspension_reason = 'user_deleted';
+      // Signed out everywhere else; this device stays signed in to cancel
+      this.db.authSessions = this.db.authSessions.filter(
+        (candidate) => candidate.user_id !== user.id || candidate.id === session.id
+      );
+      return {
+        deleted_at: user.deleted_at,
+        purge_after: new Date(deletedAt.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 86400000).toISOString(),
+      };
+    });
+
+    this.on(account.cancelDeletion, ({ user }) => {
+      if (user.suspension_reason !== 'user_deleted') {
+        throw new MockHttpError(409, 'Your account isn\'t scheduled for deletion');
+      }
+      user.deleted_at = undefined;
+      user.suspension_reason = undefined;
+      return { success: true, message: 'Account deletion cancelled' };
+    });
+
+    this.on(endpoints.users.discover, ({ query, user }) => {
+      const search = query.search?.trim().toLowerCase();
+      return this.db.users
+        .filter((candidate) => candidate.id !== user.id)
+        .filter((candidate) => !query.user_type || candidate.user_type === query.user_type)
+        .map((candidate) => ({
+          id: candidate.id,
+          name: candidate.name,
+          user_type: candidate.user_type,
+          ...candidate.profile,
+        }))
+        .filter(
+          (profile) =>
+            !search ||
+            [profile.name, profile.location, ...(profile.genres ?? [])].some((value) =>
+              value?.toLowerCase().includes(search)
+            )
+        );
+    });
+
+    this.on(endpoints.health, () => ({ status: 'ok', mock: true }), true);
+    this.on(endpoints.livekit.token, ({ body }) => ({ token: `mock-livekit:${body.instance}:${body.roomName}` }));
+  }
+
+  // ============================================================================
+  // BANDS & MEMBERS
+  // ============================================================================
+
+  private registerBandRoutes(): void {
+    const { bands, bandMembers, bandMedia } = endpoints;
+
+    this.on(bands.list, ({ query }) =>
+      this.db.bands.filter(
+        (band) =>
+          band.status === 'approved' && (!query.booking_manager_id || band.booking_manager_id === query.booking_manager_id)
+      )
+    );
+    this.on(bands.getById, ({ params }) => this.getBand(params.bandId));
+    this.on(bands.mine, ({ user }) => this.myBands(user));
+    this.on(bands.byJoinCode, ({ params }) =>
+      this.db.bands.find((band) => band.join_code === params.joinCode.toUpperCase()) ?? notFound('Band')
+    );
+
+    this.on(bands.limits, ({ user }) => {
+      const subscription = this.db.subscriptions.find((candidate) => candidate.user_id === user.id);
+      const plan = this.db.plans.find((candidate) => candidate.id === (subscription?.plan_id ?? 'plan-free'))!;
+      const currentCount = this.db.bands.filter((band) => band.user_id === user.id).length;
+      return {
+        maxBands: plan.max_bands,
+        currentCount,
+        canCreateMore: currentCount < plan.max_bands,
+        planName: plan.name,
+        isCustomLimit: false,
+      };
+    });
+
+    this.on(bands.create, ({ body, user }) => {
+      const now = new Date().toISOString();
+      const band: Band = {
+        id: newId('b'),
+        user_id: user.id,
+        band_name: body.band_name,
+        description: body.description,
+        genre: body.genre,
+        website: body.website,
+        admin_email: body.admin_email,
+        status: 'approved',
+        created_at: now,
+        owner_name: user.name,
+      };
+      this.db.bands.push(band);
+      this.db.members.push({
+        id: newId('m'),
+        band_id: band.id,
+        user_id: user.id,
+        role: 'Owner',
+        status: 'active',
+        permissions: { can_modify_profile: true, can_receive_band_emails: true, can_manage_members: true, is_owner: true },
+        joined_at: now,
+        name: user.name,
+        email: user.email,
+      });
+      return { success: true, message: 'Band created', band, status: 'approved', requiresApproval: false, isSolo: !!body.is_solo };
+    });
+
+    this.on(bands.join, ({ body, user }) => {
+      const band =
+        this.db.bands.find((candidate) => candidate.band_name.toLowerCase() === body.band_name.trim().toLowerCase()) ??
+        notFound('Band');
+      if (this.membership(band.id, user.id)) {
+        throw new MockHttpError(409, 'You already belong to this band or have a pending request');
+      }
+      this.db.members.push({
+        id: newId('m'),
+        band_id: band.id,
+        user_id: user.id,
+        role: body.role,
+        status: 'pending',
+        permissions: { can_modify_profile: false, can_receive_band_emails: true },
+        joined_at: new Date().toISOString(),
+        name: user.name,
+        email: user.email,
+      });
+      return { success: true, message: 'Request sent to the band owner', band, status: 'pending' };
+    });
+
+    this.on(bands.update, ({ params, body, user }) => {
+      const band = this.getBand(params.bandId);
+      if (band.user_id !== user.id && !this.membership(band.id, user.id)?.permissions.can_modify_profile) forbidden();
+      Object.assign(band, body);
+      return band;
+    });
+
+    this.on(bands.remove, ({ params, user }) => {
+      const band = this.getBand(params.bandId);
+      if (band.user_id !== user.id) forbidden();
+      this.db.bands = this.db.bands.filter((candidate) => candidate.id !== band.id);
+      this.db.members = this.db.members.filter((member) => member.band_id !== band.id);
+      return { success: true, message: 'Band deleted' };
+    });
+
+    const subscriptionSummary = (userId: string) => {
+      const subscription = this.db.subscriptions.find((candidate) => candidate.user_id === userId);
+      const plan = this.db.plans.find((candidate) => candidate.id === (subscription?.plan_id ?? 'plan-free'));
+      // The plan's features plus any assigned that are still active
+      const assigned = this.db.userFeatures
+        .filter((feature) => feature.user_id === userId && feature.active)
+        .filter((feature) => !feature.expires_at || new Date(feature.expires_at).getTime() > Date.now())
+        .map((feature) => feature.feature_type);
+      const features = Object.fromEntries(
+        [...(MOCK_PLAN_FEATURES[plan?.id ?? ''] ?? []), ...assigned].map((feature) => [feature, true])
+      );
+      return { current_plan: plan, subscription, features, limits: { max_bands: plan?.max_bands ?? 1 } };
+    };
+    this.on(bands.subscription, ({ params }) => ({
+      success: true,
+      bandId: params.bandId,
+      subscription: subscriptionSummary(this.getBand(params.bandId).user_id),
+    }));
+    this.on(bands.mySubscription, ({ user }) => ({ success: true, subscription: subscriptionSummary(user.id) }));
+
+    this.on(bandMembers.list, ({ params }) =>
+      this.db.members.filter((member) => member.band_id === params.bandId && member.status === 'active')
+    );
+    this.on(bandMembers.pending, ({ params, user }) => {
+      this.requireBandManager(params.bandId, user);
+      return this.db.members.filter((member) => member.band_id === params.bandId && member.status === 'pending');
+    });
+
+    this.on(bandMembers.add, ({ params, body, user }) => {
+      this.requireBandManager(params.bandId, user);
+      const invitee = this.findUser(body.user_id) ?? notFound('User');
+      const member: BandMember = {
+        id: newId('m'),
+        band_id: params.bandId,
+        user_id: invitee.id,
+        role: body.role,
+        status: 'active',
+        permissions: {
+          can_modify_profile: !!body.permissions?.can_edit_band,
+          can_receive_band_emails: true,
+          can_manage_members: !!body.permissions?.can_manage_members,
+        },
+        joined_at: new Date().toISOString(),
+        name: invitee.name,
+        email: invitee.email,
+      };
+      this.db.members.push(member);
+      return member;
+    });
+
+    const getMember = (bandId: string, memberId: string) =>
+      this.db.members.find((member) => member.band_id === bandId && member.id === memberId) ?? notFound('Member');
+
+    this.on(bandMembers.update, ({ params, body, user }) => {
+      this.requireBandManager(params.bandId, user);
+      const member = getMember(params.bandId, params.memberId);
+      if (body.role !== undefined) member.role = body.role;
+      if (body.status) member.status = body.status as BandMember['status'];
+      return member;
+    });
+
+    this.on(bandMembers.approve, ({ params, user }) => {
+      this.requireBandManager(params.bandId, user);
+      const member = getMember(params.bandId, params.memberId);
+      member.status = 'active';
+      return member;
+    });
+
+    this.on(bandMembers.invite, ({ params, body, user }) => {
+      const band = this.requireBandManager(params.bandId, user);
+      const invitee = this.db.users.find((candidate) => candidate.email === body.email.toLowerCase());
+      if (invitee && this.membership(band.id, invitee.id)) {
+        throw new MockHttpError(409, 'They already belong to this band or have a pending request');
+      }
+      return { success: true, message: `Invitation sent to ${body.email}` };
+    });
+
+    this.on(bandMembers.remove, ({ params, user }) => {
+      const member = getMember(params.bandId, params.memberId);
+      // Anyone may leave; removing someone else needs manager rights
+      if (member.user_id !== user.id) this.requireBandManager(params.bandId, user);
+      this.db.members = this.db.members.filter((candidate) => candidate.id !== member.id);
+    });
+
+    this.on(bandMedia.list, ({ params }) => this.db.media.filter((media) => media.band_id === params.bandId));
+
+    this.on(bandMedia.upload, ({ params, body, user }) => {
+      this.getBand(params.bandId);
+      // React Native's FormData keeps its parts; other runtimes expose get()
+      const form = body as unknown as {
+        getParts?: () => Array<{ fieldName: string; name?: string; type?: string; uri?: string }>;
+      };
+      const file = form.getParts?.().find((part) => part.fieldName === 'file');
+      const mimeType = file?.type || 'application/octet-stream';
+      const mediaType = (['image', 'video', 'audio'] as const).find((type) => mimeType.startsWith(`${type}/`));
+      const media: BandMedia = {
+        id: newId('media'),
+        band_id: params.bandId,
+        file_name: file?.name || 'upload',
+        file_path: file?.uri || '',
+        file_size: 0,
+        mime_type: mimeType,
+        media_type: mediaType ?? 'document',
+        is_public: false,
+        uploaded_by: user.id,
+        created_at: new Date().toISOString(),
+      };
+      this.db.media.push(media);
+      return media;
+    });
+
+    this.on(bandMedia.remove, ({ params }) => {
+      this.db.media = this.db.media.filter((media) => media.id !== params.mediaId);
+    });
+
+    this.on(endpoints.artistDashboard.data, ({ user }) => {
+      const bandIds = this.myBands(user).map((band) => band.id);
+      return {
+        bands: this.myBands(user),
+        tours: this.db.tours.filter((tour) => bandIds.includes(tour.band_id)),
+        media: this.db.media.filter((media) => bandIds.includes(media.band_id)),
+        bookingAgents: this.db.users.filter((candidate) => candidate.user_type === 'booking_agent').map(publicUser),
+      };
+    });
+  }
+
+  // ============================================================================
+  // TOURS
+  // ============================================================================
+
+  private registerTourRoutes(): void {
+    const { tours } = endpoints;
+
+    this.on(tours.list, ({ query }) =>
+      this.db.tours.filter(
+        (tour) =>
+          (!query.status || tour.status === query.status) &&
+          (!query.band_id || tour.band_id === query.band_id) &&
+          (!query.venue_id || tour.venue_id === query.venue_id)
+      )
+    );
+
+    this.on(tours.mine, ({ user }) => {
+      const bandIds = this.myBands(user).map((band) => band.id);
+      return this.db.tours.filter((tour) => bandIds.includes(tour.band_id));
+    });
+
+    this.on(tours.datesForTour, ({ params }) => this.db.tours.filter((tour) => tour.tour_id === params.tourId));
+
+    this.on(tours.create, ({ body, user }) => {
+      const band = this.getBand(body.band_id);
+      const venue = this.db.venues.find((candidate) => candidate.id === body.venue_id) ?? notFound('Venue');
+      const tour: TourDate = {
+        id: newId('t'),
+        ...body,
+        booking_agent_id: user.user_type === 'booking_agent' ? user.id : band.booking_manager_id,
+        status: 'pending',
+        payment_status: 'pending',
+        created_at: new Date().toISOString(),
+        band_name: band.band_name,
+        venue_name: venue.venue_name,
+        city: venue.city,
+        state: venue.state,
+        address: venue.address,
+        is_upcoming: new Date(body.date) >= new Date(),
+      };
+      this.db.tours.push(tour);
+      return tour;
+    });
+
+    this.on(tours.update, ({ params, body }) => {
+      const tour = this.getTour(params.tourId);
+      Object.assign(tour, body);
+      return tour;
+    });
+
+    this.on(tours.kpis, ({ params }) =>
+      this.db.kpis.find((kpi) => kpi.tour_date_id === params.tourId) ?? notFound('KPIs')
+    );
+
+    const saveKpis = ({ params, body }: MockRequest<typeof tours.addKpis | typeof tours.updateKpis>) => {
+      const tour = this.getTour(params.tourId);
+      let kpi = this.db.kpis.find((candidate) => candidate.tour_date_id === tour.id);
+      if (!kpi) {
+        kpi = { id: newId('kpi'), tour_date_id: tour.id, created_at: new Date().toISOString() };
+        this.db.kpis.push(kpi);
+      }
+      Object.assign(kpi, body, { updated_at: new Date().toISOString() });
+      Object.assign(tour, { attendance: kpi.attendance, bar_sales: kpi.bar_sales, new_customers: kpi.new_customers });
+      return kpi;
+    };
+    this.on(tours.addKpis, saveKpis);
+    this.on(tours.updateKpis, saveKpis);
+  }
+
+  // ============================================================================
+  // VENUES, STUDIOS & SESSIONS
+  // ============================================================================
+
+  private registerPlaceRoutes(): void {
+    const { venues, studios, sessions } = endpoints;
+
+    this.on(venues.list, () => this.db.venues);
+    this.on(venues.getById, ({ params }) =>
+      this.db.venues.find((venue) => venue.id === params.venueId) ?? notFound('Venue')
+    );
+    this.on(venues.create, ({ body, user }) => {
+      const venue = { id: newId('v'), user_id: user.id, created_at: new Date().toISOString(), owner_name: user.name, ...body };
+      this.db.venues.push(venue);
+      return venue;
+    });
+    this.on(venues.update, ({ params, body }) => {
+      const venue = this.db.venues.find((candidate) => candidate.id === params.venueId) ?? notFound('Venue');
+      Object.assign(venue, body);
+    });
+
+    this.on(venues.dashboard, ({ user }) => {
+      const venue = this.db.venues.find((candidate) => candidate.user_id === user.id) ?? notFound('Venue');
+      const events = this.db.tours
+        .filter((tour) => tour.venue_id === venue.id)
+        .map((tour) => ({ ...tour, actual_attendance: tour.attendance }));
+      return {
+        venue: { ...venue, status: 'active' },
+        upcomingEvents: events.filter((event) => event.is_upcoming),
+        pastEvents: events.filter((event) => !event.is_upcoming),
+        premiumContent: [],
+        stats: {
+          totalEvents: events.length,
+          totalAttendees: events.reduce((total, event) => total + (event.attendance ?? 0), 0),
+        },
+      };
+    });
+
+    this.on(studios.list, () => this.db.studios);
+    this.on(studios.getById, ({ params }) =>
+      this.db.studios.find((studio) => studio.id === params.studioId) ?? notFound('Studio')
+    );
+    this.on(studios.create, ({ body, user }) => {
+      const studio = {
+        id: newId('s'),
+        user_id: user.id,
+        created_at: new Date().toISOString(),
+        owner_name: user.name,
+        ...body,
+        sonobus_enabled: !!body.sonobus_enabled,
+        webrtc_enabled: !!body.webrtc_enabled,
+      };
+      this.db.studios.push(studio);
+      return studio;
+    });
+    this.on(studios.update, ({ params, body }) => {
+      const studio = this.db.studios.find((candidate) => candidate.id === params.studioId) ?? notFound('Studio');
+      Object.assign(studio, body);
+    });
+
+    this.on(studios.dashboard, ({ user }) => {
+      const studio = this.db.studios.find((candidate) => candidate.user_id === user.id) ?? notFound('Studio');
+      const booked = this.db.sessions
+        .filter((session) => session.studio_id === studio.id)
+        .map((session) => ({
+          id: session.id,
+          studio_id: studio.id,
+          band_id: session.band_id,
+          artist_name: this.db.users.find((candidate) => candidate.id === session.user_id)?.name ?? 'Unknown artist',
+          band_name: this.db.bands.find((band) => band.id === session.band_id)?.band_name,
+          session_date: session.session_date,
+          start_time: session.start_time,
+          end_time: session.end_time,
+          duration_hours: session.duration_minutes ? session.duration_minutes / 60 : undefined,
+          rate: studio.hourly_rate,
+          notes: session.session_notes,
+          status: session.status,
+        }));
+      const recentSessions = booked.filter((session) => session.status === 'completed');
+      return {
+        studio: { ...studio, location: [studio.city, studio.state].filter(Boolean).join(', '), status: 'active' },
+        upcomingSessions: booked.filter((session) => session.status === 'active'),
+        recentSessions,
+        pendingRequests: [],
+        stats: {
+          totalSessions: booked.length,
+          totalRevenue: recentSessions.reduce(
+            (total, session) => total + (session.rate ?? 0) * (session.duration_hours ?? 0),
+            0
+          ),
+        },
+      };
+    });
+
+    const getSession = (sessionId: string) =>
+      this.db.sessions.find((session) => session.id === sessionId) ?? notFound('Session');
+
+    this.on(sessions.list, ({ query }) =>
+      this.db.sessions.filter(
+        (session) =>
+          (!query.studio_id || session.studio_id === query.studio_id) &&
+          (!query.band_id || session.band_id === query.band_id) &&
+          (!query.status || session.status === query.status)
+      )
+    );
+    this.on(sessions.getById, ({ params }) => getSession(params.sessionId));
+    this.on(sessions.create, ({ body, user }) => {
+      const session = {
+        id: newId('session'),
+        user_id: user.id,
+        status: 'active' as const,
+        created_at: new Date().toISOString(),
+        ...body,
+        connection_type: body.connection_type as 'livekit' | undefined,
+      };
+      this.db.sessions.push(session);
+      return session;
+    });
+    this.on(sessions.update, ({ params, body }) => {
+      const session = getSession(params.sessionId);
+      Object.assign(session, body);
+      return session;
+    });
+  }
+
+  // ============================================================================
+  // MESSAGES & E2EE KEY EXCHANGE
+  // ============================================================================
+
+  private registerMessageRoutes(): void {
+    const { messages } = endpoints;
+
+    this.on(messages.conversations, ({ user }) => {
+      const conversations: Conversation[] = [];
+      this.threads(user).forEach((thread, otherId) => {
+        const other = this.findUser(otherId);
+        if (!other) return;
+        const last = thread[thread.length - 1];
+        conversations.push({
+          user_id: other.id,
+          name: other.name,
+          user_type: other.user_type,
+          // The server never sees plaintext of messages sent from the app
+          last_message: last.system ? expiryNotice(last.system.ttl_seconds) : last.text ?? '🔒 Encrypted message',
+          last_message_time: last.created_at,
+          unread_count: thread.filter((message) => message.recipient_id === user.id && !message.read).length,
+        });
+      });
+      return conversations.sort((a, b) => (b.last_message_time ?? '').localeCompare(a.last_message_time ?? ''));
+    });
+
+    this.on(messages.conversation, ({ params, query, user }) => {
+      const thread = afterCursor(
+        this.db.messages.filter(
+          (message) =>
+            !isExpired(message) &&
+            ((message.sender_id === user.id && message.recipient_id === params.userId) ||
+              (message.sender_id === params.userId && message.recipient_id === user.id))
+        ),
+        query.after
+      );
+      const offset = Number(query.offset) || 0;
+      const limit = Number(query.limit) || thread.length;
+      return thread.slice(offset, offset + limit).map((message) => this.toClientMessage(message, user));
+    });
+
+    this.on(messages.send, ({ body, user }) => {
+      const recipient = this.findUser(body.recipient_id) ?? notFound('Recipient');
+      const createdAt = new Date().toISOString();
+      const sent: MockMessage = {
+        id: newId('msg'),
+        sender_id: user.id,
+        recipient_id: recipient.id,
+        encrypted_content: body.encrypted_content,
+        nonce: body.iv,
+        read: false,
+        created_at: createdAt,
+        expires_at: this.expiresAt(user.id, recipient.id, createdAt),
+      };
+      this.linkAttachments(body.attachment_ids, user, { message_id: sent.id });
+      this.db.messages.push(sent);
+      this.emit(recipient.id, { type: 'message', message: this.toClientMessage(sent, recipient) });
+      this.emitUnread(recipient.id);
+
+      // Fixture users read it straight away and reply
+      if (!this.db.publicKeys[recipient.id]) {
+        this.markMessages(recipient, [sent], 'read');
+        this.emit(user.id, { type: 'typing', user_id: recipient.id, typing: true });
+      }
+      const repliedAt = new Date(Date.now() + 1000).toISOString();
+      const reply: MockMessage = {
+        id: newId('msg'),
+        sender_id: recipient.id,
+        recipient_id: user.id,
+        text: AUTO_REPLIES[this.db.messages.length % AUTO_REPLIES.length],
+        read: false,
+        created_at: repliedAt,
+        expires_at: this.expiresAt(recipient.id, user.id, repliedAt),
+      };
+      this.db.messages.push(reply);
+      this.emit(user.id, { type: 'message', message: this.toClientMessage(reply, user) });
+      this.emitUnread(user.id);
+
+      return this.toClientMessage(sent, user);
+    });
+
+    this.on(messages.markRead, ({ params, user }) => {
+      const message = this.db.messages.find((candidate) => candidate.id === params.messageId) ?? notFound('Message');
+      this.markMessages(user, [message], 'read');
+    });
+
+    this.on(messages.receipts, ({ params, body, user }) => {
+      const thread = this.db.messages.filter(
+        (message) =>
+          body.message_ids.includes(message.id) &&
+          message.sender_id === params.userId &&
+          message.recipient_id === user.id
+      );
+      this.markMessages(user, thread, body.status);
+    });
+
+    this.on(messages.typing, ({ params, body, user }) => {
+      this.findUser(params.userId) ?? notFound('User');
+      this.emit(params.userId, { type: 'typing', user_id: user.id, typing: body.typing });
+    });
+
+    this.on(messages.unread, ({ user }) => ({ total: this.unreadCount(user) }));
+
+    this.on(messages.expiry, ({ params, user }) => {
+      this.findUser(params.userId) ?? notFound('User');
+      return {
+        ttl_seconds: this.conversationTtl(user.id, params.userId),
+        max_ttl_seconds: this.db.messageRetention.max_ttl_seconds,
+      };
+    });
+
+    this.on(messages.setExpiry, ({ params, body, user }) => {
+      const other = this.findUser(params.userId) ?? notFound('User');
+      requireTtl(body.ttl_seconds);
+      const max = this.db.messageRetention.max_ttl_seconds;
+      if (max !== null && (body.ttl_seconds === null || body.ttl_seconds > max)) {
+        throw new MockHttpError(400, `Messages can be kept for at most ${formatDuration(max)}`);
+      }
+      this.db.messageExpiry[conversationKey(user.id, other.id)] = body.ttl_seconds;
+
+      // Announced in the conversation, so both people know
+      const notice: MockMessage = {
+        id: newId('msg'),
+        sender_id: user.id,
+        recipient_id: other.id,
+        read: true,
+        created_at: new Date().toISOString(),
+        system: { type: 'expiry_timer', ttl_seconds: body.ttl_seconds },
+      };
+      this.db.messages.push(notice);
+      this.emit(other.id, { type: 'message', message: this.toClientMessage(notice, other) });
+      return this.toClientMessage(notice, user);
+    });
+
+    this.on(messages.remove, ({ params, user }) => {
+      const message = this.db.messages.find((candidate) => candidate.id === params.messageId) ?? notFound('Message');
+      // Either person deletes a message once it has expired
+      const expiredForUser = isExpired(message) && message.recipient_id === user.id;
+      if (message.sender_id !== user.id && !expiredForUser) forbidden();
+      this.db.messages = this.db.messages.filter((candidate) => candidate.id !== message.id);
+      this.db.attachments = this.db.attachments.filter((attachment) => attachment.message_id !== message.id);
+    });
+
+    this.on(messages.uploadPublicKey, ({ body, user }) => {
+      this.db.publicKeys[user.id] = body.public_key;
+      return { success: true, message: 'Public key saved' };
+    });
+
+    this.on(messages.publicKey, ({ params }) => {
+      const fixture = this.findUser(params.userId);
+      // Fixture users answer with their seeded keys; app users with what they uploaded
+      const publicKey = this.db.publicKeys[params.userId] ?? fixture?.keyPair.publicKey;
+      return publicKey ? { public_key: publicKey } : notFound('Public key');
+    });
+
+    this.on(messages.uploadAttachment, ({ body, user }) => {
+      const size = Math.floor((body.data.length * 3) / 4);
+      if (size > MAX_ATTACHMENT_BYTES) {
+        throw new MockHttpError(413, 'Attachments can be up to 25 MB', ATTACHMENT_TOO_LARGE);
+      }
+      const attachment: MockAttachment = {
+        id: newId('att'),
+        uploader_id: user.id,
+        data: body.data,
+        size,
+        created_at: new Date().toISOString(),
+      };
+      this.db.attachments.push(attachment);
+      return { id: attachment.id, size };
+    });
+
+    this.on(messages.attachment, ({ params, user }) => {
+      const attachment =
+        this.db.attachments.find((candidate) => candidate.id === params.attachmentId) ?? notFound('Attachment');
+      if (!this.canDownload(attachment, user)) notFound('Attachment');
+      return { id: attachment.id, data: attachment.data };
+    });
+  }
+
+  /**
+   * Attach uploaded blobs to the message they were sent with
+   */
+  private linkAttachments(
+    ids: string[] | undefined,
+    user: MockUser,
+    link: Pick<MockAttachment, 'message_id' | 'group_id'>
+  ): void {
+    (ids ?? []).forEach((id) => {
+      const attachment = this.db.attachments.find((candidate) => candidate.id === id) ?? notFound('Attachment');
+      if (attachment.uploader_id !== user.id || attachment.message_id || attachment.group_id) forbidden();
+      Object.assign(attachment, link);
+    });
+  }
+
+  /**
+   * The uploader and whoever can read the message it was sent with
+   */
+  private canDownload(attachment: MockAttachment, user: MockUser): boolean {
+    if (attachment.uploader_id === user.id) return true;
+    if (attachment.message_id) {
+      const message = this.db.messages.find((candidate) => candidate.id === attachment.message_id);
+      return message?.recipient_id === user.id || message?.sender_id === user.id;
+    }
+    if (attachment.group_id) {
+      return !!this.db.groups.find((group) => group.id === attachment.group_id)?.member_ids.includes(user.id);
+    }
+    return false;
+  }
+
+  /**
+   * Record that `user` received or read messages sent to them, and tell the
+   * senders. Reading implies delivery.
+   */
+  private markMessages(user: MockUser, messages: MockMessage[], status: ReceiptStatus): void {
+    const at = new Date().toISOString();
+    const changed = messages.filter((message) => {
+      if (message.recipient_id !== user.id) return false;
+      if (status === 'delivered' && message.delivered_at) return false;
+      if (status === 'read' && message.read) return false;
+
+      message.delivered_at = message.delivered_at ?? at;
+      if (status === 'read') {
+        message.read = true;
+        message.read_at = at;
+      }
+      return true;
+    });
+    if (changed.length === 0) return;
+
+    const bySender = new Map<string, string[]>();
+    changed.forEach((message) => {
+      bySender.set(message.sender_id, [...(bySender.get(message.sender_id) ?? []), message.id]);
+    });
+    bySender.forEach((messageIds, senderId) => {
+      this.emit(senderId, { type: 'receipt', user_id: user.id, status, message_ids: messageIds, at });
+    });
+    if (status === 'read') this.emitUnread(user.id);
+  }
+
+  private emit(userId: string, event: RealtimeEvent): void {
+    this.realtimeListeners.get(userId)?.forEach((listener) => listener(event));
+  }
+
+  private emitUnread(userId: string): void {
+    const user = this.findUser(userId);
+    if (user && this.realtimeListeners.get(userId)?.size) {
+      this.emit(userId, { type: 'unread', total: this.unreadCount(user) });
+    }
+  }
+
+  private emitGroupMessage(group: MockGroup, message: MockGroupMessage): void {
+    group.member_ids
+      .filter((id) => id !== message.sender_id)
+      .forEach((id) => {
+        this.emit(id, { type: 'group_message', group_id: group.id, message_id: message.id, sender_id: message.sender_id });
+        this.emitUnread(id);
+      });
+  }
+
+  /**
+   * Unread direct and group messages
+   */
+  private unreadCount(user: MockUser): number {
+    const direct = this.db.messages.filter(
+      (message) => message.recipient_id === user.id && !message.read && !isExpired(message)
+    ).length;
+    const groupIds = new Set(this.db.groups.filter((group) => group.member_ids.includes(user.id)).map((group) => group.id));
+    const group = this.db.groupMessages.filter(
+      (message) => groupIds.has(message.group_id) && !message.read_by.includes(user.id)
+    ).length;
+    return direct + group;
+  }
+
+  /**
+   * The user's messages, by the other person in the conversation
+   */
+  private threads(user: MockUser): Map<string, MockMessage[]> {
+    const byUser = new Map<string, MockMessage[]>();
+    this.db.messages.forEach((message) => {
+      if (message.sender_id !== user.id && message.recipient_id !== user.id) return;
+      if (isExpired(message)) return;
+      const otherId = message.sender_id === user.id ? message.recipient_id : message.sender_id;
+      byUser.set(otherId, [...(byUser.get(otherId) ?? []), message]);
+    });
+    return byUser;
+  }
+
+  /**
+   * Disappearing-message timer of a conversation: the one set in it, or the
+   * retention default - never longer than the retention limit
+   */
+  private conversationTtl(userId: string, otherId: string): number | null {
+    const key = conversationKey(userId, otherId);
+    const { default_ttl_seconds, max_ttl_seconds } = this.db.messageRetention;
+    const ttl = key in this.db.messageExpiry ? this.db.messageExpiry[key] : default_ttl_seconds;
+    if (max_ttl_seconds === null) return ttl;
+    return ttl === null ? max_ttl_seconds : Math.min(ttl, max_ttl_seconds);
+  }
+
+  private expiresAt(senderId: string, recipientId: string, createdAt: string): string | undefined {
+    const ttl = this.conversationTtl(senderId, recipientId);
+    return ttl === null ? undefined : new Date(Date.parse(createdAt) + ttl * 1000).toISOString();
+  }
+
+  /**
+   * Shape a stored message for the client. Seeded plaintext is encrypted with
+   * the fixture user's secret key for the signed-in user's uploaded public key,
+   * exactly as the other device would have done.
+   */
+  private toClientMessage(message: MockMessage, user: MockUser): Message {
+    const sender = this.findUser(message.sender_id);
+    const base: Message = {
+      id: message.id,
+      sender_id: message.sender_id,
+      recipient_id: message.recipient_id,
+      encrypted_content: message.encrypted_content ?? '',
+      nonce: message.nonce,
+      read: message.read,
+      delivered_at: message.delivered_at,
+      read_at: message.read_at,
+      created_at: message.created_at,
+      expires_at: message.expires_at,
+      system: message.system,
+      sender_name: sender?.name,
+      sender_user_type: sender?.user_type,
+    };
+    if (message.encrypted_content || message.text === undefined) return base;
+
+    const fixture = this.findUser(message.sender_id === user.id ? message.recipient_id : message.sender_id);
+    const clientKey = this.db.publicKeys[user.id];
+    if (!clientKey || !fixture) {
+      // No E2EE keys uploaded yet - hand back plaintext like a legacy message
+      return { ...base, content: message.text };
+    }
+
+    const encrypted = encryptionService.encryptMessage(message.text, clientKey, fixture.keyPair.secretKey);
+    return { ...base, encrypted_content: encrypted.ciphertext, nonce: encrypted.nonce };
+  }
+
+  // ============================================================================
+  // KEY BACKUP & DEVICE LINKS
+  // ============================================================================
+
+  private registerKeySyncRoutes(): void {
+    const { keySync } = endpoints;
+
+    this.on(keySync.backup, ({ user }) => this.db.keyBackups[user.id] ?? notFound('Key backup'));
+
+    this.on(keySync.saveBackup, ({ body, user }) => {
+      const now = new Date().toISOString();
+      const backup = {
+        ciphertext: body.ciphertext,
+        nonce: body.nonce,
+        salt: body.salt,
+        iterations: body.iterations,
+        created_at: this.db.keyBackups[user.id]?.created_at ?? now,
+        updated_at: now,
+      };
+      this.db.keyBackups[user.id] = backup;
+      return backup;
+    });
+
+    this.on(keySync.removeBackup, ({ user }) => {
+      if (!this.db.keyBackups[user.id]) notFound('Key backup');
+      delete this.db.keyBackups[user.id];
+      return { success: true, message: 'Key backup deleted' };
+    });
+
+    this.on(keySync.createLink, ({ body, user }) => {
+      if (this.db.deviceLinks.some((link) => link.id === body.id)) {
+        throw new MockHttpError(409, 'A link with this ID already exists');
+      }
+      const now = Date.now();
+      const link: MockDeviceLink = {
+        id: body.id,
+        user_id: user.id,
+        public_key: body.public_key,
+        device_name: body.device_name,
+        created_at: new Date(now).toISOString(),
+        expires_at: new Date(now + DEVICE_LINK_TTL_MS).toISOString(),
+      };
+      this.db.deviceLinks.push(link);
+      return this.toClientDeviceLink(link);
+    });
+
+    this.on(keySync.link, ({ params, user }) => this.toClientDeviceLink(this.requireDeviceLink(params.linkId, user)));
+
+    this.on(keySync.approveLink, ({ params, body, user }) => {
+      const link = this.requireDeviceLink(params.linkId, user);
+      if (link.payload) throw new MockHttpError(409, 'This device has already been linked');
+      link.payload = body;
+      return { success: true, message: 'Device linked' };
+    });
+
+    this.on(keySync.removeLink, ({ params, user }) => {
+      const link = this.requireDeviceLink(params.linkId, user);
+      this.db.deviceLinks = this.db.deviceLinks.filter((candidate) => candidate !== link);
+      return { success: true, message: 'Link removed' };
+    });
+  }
+
+  /**
+   * The user's own unexpired link; anyone else's is as good as missing
+   */
+  private requireDeviceLink(linkId: string, user: MockUser): MockDeviceLink {
+    this.db.deviceLinks = this.db.deviceLinks.filter((link) => Date.parse(link.expires_at) > Date.now());
+    const link = this.db.deviceLinks.find((candidate) => candidate.id === linkId);
+    return link && link.user_id === user.id ? link : notFound('Device link');
+  }
+
+  private toClientDeviceLink({ user_id, ...link }: MockDeviceLink): DeviceLink {
+    return link;
+  }
+
+  // ============================================================================
+  // GROUP MESSAGES & SENDER KEYS
+  // ============================================================================
+
+  private registerGroupRoutes(): void {
+    const { groups } = endpoints;
+
+    this.on(groups.list, ({ user }) => {
+      this.syncBandGroups();
+      return this.db.groups
+        .filter((group) => group.member_ids.includes(user.id))
+        .map((group) => this.toClientGroup(group, user))
+        .sort((a, b) => (b.last_message_time ?? b.created_at).localeCompare(a.last_message_time ?? a.created_at));
+    });
+
+    this.on(groups.get, ({ params, user }) => this.toClientGroup(this.requireGroup(params.groupId, user), user));
+
+    this.on(groups.create, ({ body, user }) => {
+      const invited = body.member_ids.filter((id) => id !== user.id);
+      if (!body.name.trim() || invited.length === 0) {
+        throw new MockHttpError(400, 'A group needs a name and at least one other person');
+      }
+      invited.forEach((id) => this.findUser(id) ?? notFound('User'));
+
+      const group: MockGroup = {
+        id: newId('grp'),
+        kind: 'adhoc',
+        name: body.name.trim(),
+        member_ids: [user.id, ...new Set(invited)],
+        key_epoch: 1,
+        created_by: user.id,
+        created_at: new Date().toISOString(),
+      };
+      this.db.groups.push(group);
+      return this.toClientGroup(group, user);
+    });
+
+    this.on(groups.addMembers, ({ params, body, user }) => {
+      const group = this.requireAdhocGroup(params.groupId, user);
+      const added = body.user_ids.filter((id) => !group.member_ids.includes(id));
+      added.forEach((id) => this.findUser(id) ?? notFound('User'));
+      if (added.length > 0) {
+        group.member_ids.push(...new Set(added));
+        group.key_epoch += 1;
+      }
+      return this.toClientGroup(group, user);
+    });
+
+    this.on(groups.removeMember, ({ params, user }) => {
+      const group = this.requireAdhocGroup(params.groupId, user);
+      // Anyone can leave; only the creator removes other people
+      if (params.userId !== user.id && group.created_by !== user.id) forbidden();
+      if (!group.member_ids.includes(params.userId)) notFound('Group member');
+
+      group.member_ids = group.member_ids.filter((id) => id !== params.userId);
+      group.key_epoch += 1;
+      return { success: true, message: params.userId === user.id ? 'You left the group' : 'Member removed' };
+    });
+
+    this.on(groups.messages, ({ params, query, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      const thread = afterCursor(
+        this.db.groupMessages.filter((message) => message.group_id === group.id),
+        query.after
+      );
+      const offset = Number(query.offset) || 0;
+      const limit = Number(query.limit) || thread.length;
+      return thread.slice(offset, offset + limit).map((message) => this.toClientGroupMessage(message, user));
+    });
+
+    this.on(groups.send, ({ params, body, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      this.requireCurrentEpoch(group, body.key_epoch);
+
+      const sent: MockGroupMessage = {
+        id: newId('gmsg'),
+        group_id: group.id,
+        sender_id: user.id,
+        key_epoch: group.key_epoch,
+        ciphertext: body.ciphertext,
+        nonce: body.nonce,
+        read_by: [user.id],
+        created_at: new Date().toISOString(),
+      };
+      this.linkAttachments(body.attachment_ids, user, { group_id: group.id });
+      this.db.groupMessages.push(sent);
+      this.emitGroupMessage(group, sent);
+
+      const replier = group.member_ids.find((id) => id !== user.id && !this.db.publicKeys[id]);
+      if (replier) {
+        const reply: MockGroupMessage = {
+          id: newId('gmsg'),
+          group_id: group.id,
+          sender_id: replier,
+          key_epoch: group.key_epoch,
+          text: AUTO_REPLIES[this.db.groupMessages.length % AUTO_REPLIES.length],
+          read_by: [replier],
+          created_at: new Date(Date.now() + 1000).toISOString(),
+        };
+        this.db.groupMessages.push(reply);
+        this.emitGroupMessage(group, reply);
+      }
+
+      return this.toClientGroupMessage(sent, user);
+    });
+
+    this.on(groups.markRead, ({ params, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      this.db.groupMessages
+        .filter((message) => message.group_id === group.id && !message.read_by.includes(user.id))
+        .forEach((message) => message.read_by.push(user.id));
+      this.emitUnread(user.id);
+    });
+
+    this.on(groups.typing, ({ params, body, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      group.member_ids
+        .filter((id) => id !== user.id)
+        .forEach((id) => this.emit(id, { type: 'typing', user_id: user.id, group_id: group.id, typing: body.typing }));
+    });
+
+    this.on(groups.senderKeys, ({ params, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      const distributed = this.db.senderKeys.filter(
+        (envelope) => envelope.group_id === group.id && envelope.recipient_id === user.id
+      );
+
+      // Fixture members hand out their keys for the epochs they wrote in
+      const clientKey = this.db.publicKeys[user.id];
+      const seeded = new Map<string, SenderKeyEnvelope>();
+      this.db.groupMessages.forEach((message) => {
+        const sender = this.findUser(message.sender_id);
+        const id = `${message.sender_id}:${message.key_epoch}`;
+        if (message.group_id !== group.id || message.text === undefined || message.sender_id === user.id) return;
+        if (!clientKey || !sender || seeded.has(id)) return;
+
+        const senderKey = fixtureSenderKey(group.id, sender.id, message.key_epoch);
+        const boxed = encryptionService.encryptMessage(senderKey, clientKey, sender.keyPair.secretKey);
+        seeded.set(id, {
+          group_id: group.id,
+          sender_id: sender.id,
+          recipient_id: user.id,
+          key_epoch: message.key_epoch,
+          encrypted_key: boxed.ciphertext,
+          nonce: boxed.nonce,
+        });
+      });
+
+      return [...distributed, ...seeded.values()];
+    });
+
+    this.on(groups.distributeSenderKey, ({ params, body, user }) => {
+      const group = this.requireGroup(params.groupId, user);
+      this.requireCurrentEpoch(group, body.key_epoch);
+
+      // Envelopes for people outside the group are dropped
+      const envelopes = body.envelopes.filter((envelope) => group.member_ids.includes(envelope.recipient_id));
+      this.db.senderKeys = this.db.senderKeys.filter(
+        (existing) =>
+          !(existing.group_id === group.id && existing.sender_id === user.id && existing.key_epoch === body.key_epoch)
+      );
+      this.db.senderKeys.push(
+        ...envelopes.map((envelope) => ({
+          ...envelope,
+          group_id: group.id,
+          sender_id: user.id,
+          key_epoch: body.key_epoch,
+        }))
+      );
+      return { success: true, message: `Sender key sent to ${envelopes.length} members` };
+    });
+  }
+
+  /**
+   * Keep band groups in step with the bands' active members. Any change
+   * starts a new key epoch.
+   */
+  private syncBandGroups(): void {
+    this.db.bands.forEach((band) => {
+      const memberIds = [
+        band.user_id,
+        ...this.db.members
+          .filter((member) => member.band_id === band.id && member.status === 'active' && member.user_id !== band.user_id)
+          .map((member) => member.user_id),
+      ];
+
+      const group = this.db.groups.find((candidate) => candidate.band_id === band.id);
+      if (!group) {
+        this.db.groups.push({
+          id: `grp-${band.id}`,
+          kind: 'band',
+          name: band.band_name,
+          band_id: band.id,
+          member_ids: memberIds,
+          key_epoch: 1,
+          created_at: new Date().toISOString(),
+        });
+        return;
+      }
+
+      group.name = band.band_name;
+      const changed =
+        memberIds.length !== group.member_ids.length || memberIds.some((id) => !group.member_ids.includes(id));
+      if (changed) {
+        group.member_ids = memberIds;
+        group.key_epoch += 1;
+      }
+    });
+    // Deleted bands take their group with them
+    this.db.groups = this.db.groups.filter(
+      (group) => group.kind !== 'band' || this.db.bands.some((band) => band.id === group.band_id)
+    );
+  }
+
+  private requireGroup(groupId: string, user: MockUser): MockGroup {
+    this.syncBandGroups();
+    const group = this.db.groups.find((candidate) => candidate.id === groupId);
+    // Non-members can't tell the group exists
+    if (!group || !group.member_ids.includes(user.id)) notFound('Group');
+    return group;
+  }
+
+  private requireAdhocGroup(groupId: string, user: MockUser): MockGroup {
+    const group = this.requireGroup(groupId, user);
+    if (group.kind === 'band') {
+      throw new MockHttpError(400, "Band groups follow the band's members - manage them from the band");
+    }
+    return group;
+  }
+
+  private requireCurrentEpoch(group: MockGroup, keyEpoch: number): void {
+    if (keyEpoch !== group.key_epoch) {
+      throw new MockHttpError(409, 'The group changed - encrypt for the new key epoch', STALE_KEY_EPOCH);
+    }
+  }
+
+  private toClientGroup(group: MockGroup, user: MockUser): GroupConversation {
+    const thread = this.db.groupMessages.filter((message) => message.group_id === group.id);
+    const last = thread[thread.length - 1];
+    return {
+      id: group.id,
+      kind: group.kind,
+      name: group.name,
+      band_id: group.band_id,
+      members: group.member_ids.flatMap((id) => {
+        const member = this.findUser(id);
+        return member ? [{ user_id: member.id, name: member.name, user_type: member.user_type }] : [];
+      }),
+      key_epoch: group.key_epoch,
+      created_by: group.created_by,
+      created_at: group.created_at,
+      last_message_time: last?.created_at,
+      last_sender_name: last ? this.findUser(last.sender_id)?.name : undefined,
+      unread_count: thread.filter((message) => !message.read_by.includes(user.id)).length,
+    };
+  }
+
+  /**
+   * Shape a stored group message for the client. Seeded plaintext is
+   * encrypted with the sender's fixture sender key for its epoch.
+   */
+  private toClientGroupMessage(message: MockGroupMessage, user: MockUser): GroupMessage {
+    const base: GroupMessage = {
+      id: message.id,
+      group_id: message.group_id,
+      sender_id: message.sender_id,
+      sender_name: this.findUser(message.sender_id)?.name,
+      key_epoch: message.key_epoch,
+      ciphertext: message.ciphertext ?? '',
+      nonce: message.nonce ?? '',
+      created_at: message.created_at,
+    };
+    if (message.text === undefined) return base;
+
+    // The user's own seeded messages predate this device's keys; without
+    // uploaded keys nothing can be boxed either - plaintext, like legacy messages
+    if (message.sender_id === user.id || !this.db.publicKeys[user.id]) {
+      return { ...base, content: message.text };
+    }
+
+    const encrypted = encryptionService.encryptWithKey(
+      message.text,
+      fixtureSenderKey(message.group_id, message.sender_id, message.key_epoch)
+    );
+    return { ...base, ciphertext: encrypted.ciphertext, nonce: encrypted.nonce };
+  }
+
+  // ============================================================================
+  // PAYMENTS & SUBSCRIPTIONS
+  // ============================================================================
+
+  private registerPaymentRoutes(): void {
+    const { tourPayments, subscriptions, artistDashboard } = endpoints;
+
+    this.on(tourPayments.list, ({ query }) =>
+      this.db.tourPayments.filter((payment) => {
+        const tour = this.db.tours.find((candidate) => candidate.id === payment.tour_date_id);
+        return (
+          (!query.tour_date_id || payment.tour_date_id === query.tour_date_id) &&
+          (!query.band_id || tour?.band_id === query.band_id) &&
+          (!query.status || payment.payment_status === query.status)
+        );
+      })
+    );
+    this.on(tourPayments.getById, ({ params }) =>
+      this.db.tourPayments.find((payment) => payment.id === params.paymentId) ?? notFound('Payment')
+    );
+    this.on(tourPayments.mine, ({ user }) => {
+      const bandIds = this.myBands(user).map((band) => band.id);
+      const tourIds = this.db.tours.filter((tour) => bandIds.includes(tour.band_id)).map((tour) => tour.id);
+      return this.db.tourPayments.filter((payment) => tourIds.includes(payment.tour_date_id));
+    });
+    this.on(tourPayments.memberPayouts, ({ params }) =>
+      this.db.payouts.filter((payout) => payout.tour_payment_id === params.tourPaymentId)
+    );
+
+    this.on(artistDashboard.paymentLedger, ({ user }) => this.paymentLedger(user));
+
+    this.on(artistDashboard.bandPaymentSummary, ({ params }) =>
+      this.db.tours
+        .filter((tour) => tour.band_id === params.bandId)
+        .map((tour): BandPaymentSummary => {
+          const payment = this.db.tourPayments.find((candidate) => candidate.tour_date_id === tour.id);
+          const payouts = this.db.payouts.filter((payout) => payout.tour_payment_id === payment?.id);
+          return {
+            tour_date_id: tour.id,
+            tour_date: tour.date,
+            start_time: tour.start_time,
+            tour_status: tour.status,
+            payment_amount: tour.payment_amount,
+            payment_currency: tour.payment_currency,
+            venue_name: tour.venue_name ?? '',
+            city: tour.city ?? '',
+            state: tour.state ?? '',
+            tour_id: tour.tour_id,
+            tour_name: tour.tour_name,
+            tour_payment_id: payment?.id,
+            venue_payment_amount: payment?.venue_payment_amount,
+            booking_agent_fee_percentage: payment?.booking_agent_fee_percentage,
+            booking_agent_fee_amount: payment?.booking_agent_fee_amount,
+            other_fees_amount: payment?.other_fees_amount,
+            total_band_payout: payment?.total_band_payout,
+            payment_status: payment?.payment_status,
+            payment_date: payment?.payment_date,
+            member_count: payouts.length,
+            total_allocated: payouts.reduce((sum, payout) => sum + payout.payout_amount, 0),
+            paid_amount: payouts
+              .filter((payout) => payout.payout_status === 'succeeded')
+              .reduce((sum, payout) => sum + payout.payout_amount, 0),
+          };
+        })
+    );
+
+    this.on(subscriptions.plans, ({ query }) =>
+      this.db.plans.filter((plan) => !query.user_type || plan.user_type === query.user_type), true
+    );
+    this.on(subscriptions.plan, ({ params }) =>
+      this.db.plans.find((plan) => plan.id === params.planId) ?? notFound('Plan')
+    );
+    this.on(subscriptions.mine, ({ user }) =>
+      this.db.subscriptions.find((subscription) => subscription.user_id === user.id) ?? null
+    );
+
+    this.on(endpoints.payments.createPaymentIntent, ({ body }) => ({
+      clientSecret: `mock_secret_${Math.round(body.amount * 100)}`,
+      paymentIntentId: newId('pi'),
+    }));
+  }
+
+  // ============================================================================
+  // ADMIN
+  // ============================================================================
+
+  private registerAdminRoutes(): void {
+    const { admin } = endpoints;
+
+    this.on(admin.messageRetention, ({ user }) => {
+      if (!isAdmin(user)) forbidden();
+      return this.db.messageRetention;
+    });
+
+    this.on(admin.setMessageRetention, ({ body, user }) => {
+      if (!isAdmin(user)) forbidden();
+      requireTtl(body.default_ttl_seconds);
+      requireTtl(body.max_ttl_seconds);
+      const policy: MessageRetentionPolicy = {
+        default_ttl_seconds: body.default_ttl_seconds,
+        max_ttl_seconds: body.max_ttl_seconds,
+      };
+      if (
+        policy.max_ttl_seconds !== null &&
+        policy.default_ttl_seconds !== null &&
+        policy.default_ttl_seconds > policy.max_ttl_seconds
+      ) {
+        throw new MockHttpError(400, 'The default timer can\'t be longer than the maximum');
+      }
+      this.db.messageRetention = policy;
+      return policy;
+    });
+  }
+}
+
+export default new MockBackendService();
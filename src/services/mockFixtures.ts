@@ -0,0 +1,799 @@
+import nacl from 'tweetnacl';
+import { decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+import {
+  Band,
+  BandMedia,
+  BandMember,
+  DeviceInfo,
+  DeviceLink,
+  DeviceSession,
+  DiscoverProfile,
+  GroupKind,
+  KeyBackup,
+  MessageRetentionPolicy,
+  MessageSystemEvent,
+  OAuthIdentity,
+  OAuthProvider,
+  RecordingStudio,
+  SenderKeyEnvelope,
+  StudioSession,
+  SubscriptionPlan,
+  TourDate,
+  TourKPI,
+  TourMemberPayout,
+  TourPayment,
+  User,
+  UserFeature,
+  UserSubscription,
+  Venue,
+} from '../types';
+
+/**
+ * Mock Backend Fixtures
+ * Seeded data for the in-process mock backend (see mockBackend.ts)
+ *
+ * Dates are relative to when the database is created, so there are always
+ * upcoming and past shows. Every account signs in with MOCK_PASSWORD.
+ */
+
+export const MOCK_PASSWORD = 'demo1234';
+
+export interface MockUser extends User {
+  password: string;
+  /** Public discovery card */
+  profile: Omit<DiscoverProfile, 'id' | 'name' | 'user_type'>;
+  /** E2EE key pair the mock answers messages with (base64) */
+  keyPair: { publicKey: string; secretKey: string };
+  /** Confirmed TOTP secret (base32) - set once 2FA is on */
+  totpSecret?: string;
+  /** Secret from 2FA setup, waiting for its first code */
+  pendingTotpSecret?: string;
+  recoveryCodes?: string[];
+}
+
+/**
+ * Seeded message stored in plaintext. The mock encrypts it for the signed-in
+ * user's uploaded public key when the conversation is fetched.
+ */
+export interface MockMessage {
+  id: string;
+  sender_id: string;
+  recipient_id: string;
+  read: boolean;
+  delivered_at?: string;
+  read_at?: string;
+  created_at: string;
+  /** Hidden from both people after this, and either may delete it */
+  expires_at?: string;
+  text?: string;
+  /** Sent from the app: ciphertext and nonce exactly as the client sent them */
+  encrypted_content?: string;
+  nonce?: string;
+  system?: MessageSystemEvent;
+}
+
+/**
+ * Encrypted attachment blob uploaded by the app. Linked to the message it
+ * was sent with, whose participants may download it.
+ */
+export interface MockAttachment {
+  id: string;
+  uploader_id: string;
+  /** Ciphertext exactly as the client sent it */
+  data: string;
+  size: number;
+  message_id?: string;
+  group_id?: string;
+  created_at: string;
+}
+
+/**
+ * Key request from a new device, for the user who made it
+ */
+export interface MockDeviceLink extends DeviceLink {
+  user_id: string;
+}
+
+/**
+ * Group thread. Band groups follow the band's active members; ad-hoc groups
+ * are managed by their members.
+ */
+export interface MockGroup {
+  id: string;
+  kind: GroupKind;
+  name: string;
+  band_id?: string;
+  member_ids: string[];
+  key_epoch: number;
+  created_by?: string;
+  created_at: string;
+}
+
+/**
+ * Group message. Seeded plaintext is encrypted with the sender's fixture
+ * sender key for its epoch when the thread is fetched.
+ */
+export interface MockGroupMessage {
+  id: string;
+  group_id: string;
+  sender_id: string;
+  key_epoch: number;
+  read_by: string[];
+  created_at: string;
+  text?: string;
+  /** Sent from the app, encrypted under the sender's key */
+  ciphertext?: string;
+  nonce?: string;
+}
+
+/**
+ * Signed-in device. Tokens carry the session ID, so revoking a session
+ * rejects its access and refresh tokens.
+ */
+export interface MockAuthSession extends Omit<DeviceSession, 'current'> {
+  user_id: string;
+}
+
+/**
+ * Password accepted, waiting for the 2FA code
+ */
+export interface MockTwoFactorChallenge {
+  token: string;
+  user_id: string;
+  device?: DeviceInfo;
+  expires_at: number;
+}
+
+/**
+ * Provider account linked to a user. `subject` is the provider's user ID.
+ */
+export interface MockOAuthIdentity extends OAuthIdentity {
+  subject: string;
+  user_id: string;
+}
+
+/**
+ * Who "signs in" at the stand-in identity provider, per provider
+ */
+export interface MockProviderAccount {
+  subject: string;
+  email: string;
+  name: string;
+}
+
+export const MOCK_PROVIDER_ACCOUNTS: Record<OAuthProvider, MockProviderAccount> = {
+  // Already linked to Sarah
+  google: { subject: 'google-1084', email: 'sarah@demo.artist-space.com', name: 'Sarah Mitchell' },
+  // New to Artist Space - signing in creates a supporter account
+  facebook: { subject: 'fb-55310', email: 'alex.rivera@example.com', name: 'Alex Rivera' },
+  patreon: { subject: 'patreon-7721', email: 'jordan.lee@example.com', name: 'Jordan Lee' },
+};
+
+/** Features each plan unlocks (SubscriptionSummary.features keys) */
+export const MOCK_PLAN_FEATURES: Record<string, string[]> = {
+  'plan-free': [],
+  'plan-pro': ['live_streaming', 'tour_analytics'],
+};
+
+export interface MockDatabase {
+  users: MockUser[];
+  bands: Band[];
+  members: BandMember[];
+  media: BandMedia[];
+  venues: Venue[];
+  studios: RecordingStudio[];
+  sessions: StudioSession[];
+  tours: TourDate[];
+  kpis: TourKPI[];
+  tourPayments: TourPayment[];
+  payouts: TourMemberPayout[];
+  plans: SubscriptionPlan[];
+  subscriptions: UserSubscription[];
+  messages: MockMessage[];
+  groups: MockGroup[];
+  groupMessages: MockGroupMessage[];
+  /** Sender key envelopes distributed by the app */
+  senderKeys: SenderKeyEnvelope[];
+  attachments: MockAttachment[];
+  /** Passphrase-encrypted key backups, by user ID */
+  keyBackups: Record<string, KeyBackup>;
+  deviceLinks: MockDeviceLink[];
+  /** Public keys uploaded by the app, by user ID */
+  publicKeys: Record<string, string>;
+  /** Disappearing-message timers set in conversations, by sorted user ID pair */
+  messageExpiry: Record<string, number | null>;
+  messageRetention: MessageRetentionPolicy;
+  authSessions: MockAuthSession[];
+  twoFactorChallenges: MockTwoFactorChallenge[];
+  oauthIdentities: MockOAuthIdentity[];
+  /** Features assigned by a booking manager, on top of the plan */
+  userFeatures: UserFeature[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function daysFromNow(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+function timestamp(daysAgo: number, hoursAgo: number = 0): string {
+  return new Date(Date.now() - daysAgo * 86400000 - hoursAgo * 3600000).toISOString();
+}
+
+/**
+ * Deterministic key pair per fixture user, so reseeding keeps the same keys
+ */
+function seededKeyPair(userId: string) {
+  const seed = nacl.hash(decodeUTF8(`artist-space-mock:${userId}`)).slice(0, nacl.box.secretKeyLength);
+  const keyPair = nacl.box.keyPair.fromSecretKey(seed);
+  return { publicKey: encodeBase64(keyPair.publicKey), secretKey: encodeBase64(keyPair.secretKey) };
+}
+
+function user(
+  id: string,
+  name: string,
+  email: string,
+  userType: User['user_type'],
+  profile: MockUser['profile'],
+  extra: Partial<User> = {}
+): MockUser {
+  return {
+    id,
+    email,
+    name,
+    user_type: userType,
+    status: 'approved',
+    requires_password_reset: false,
+    created_at: timestamp(400),
+    updated_at: timestamp(30),
+    ...extra,
+    password: MOCK_PASSWORD,
+    profile,
+    keyPair: seededKeyPair(id),
+  };
+}
+
+// ============================================================================
+// SEED
+// ============================================================================
+
+/**
+ * Build a fresh copy of the seeded data
+ */
+export function createMockDatabase(): MockDatabase {
+  const users: MockUser[] = [
+    user('u-sarah', 'Sarah Mitchell', 'sarah@demo.artist-space.com', 'user', {
+      location: 'Los Angeles, CA',
+      genres: ['Indie Pop', 'R&B'],
+    }),
+    user('u-marcus', 'Marcus Reed', 'marcus@demo.artist-space.com', 'band', {
+      location: 'New York, NY',
+      genres: ['Jazz', 'Blues'],
+    }),
+    user('u-leo', 'Leo Park', 'leo@demo.artist-space.com', 'user', {
+      location: 'Los Angeles, CA',
+      genres: ['Rock', 'Indie Pop'],
+    }),
+    user('u-jamie', 'Jamie Cole', 'jamie@demo.artist-space.com', 'user', {
+      location: 'San Diego, CA',
+      genres: ['Funk', 'Soul'],
+    }),
+    user('u-dana', 'Dana Brooks', 'dana@demo.artist-space.com', 'studio', {
+      location: 'Nashville, TN',
+      hourly_rate: 150,
+    }),
+    user('u-ray', 'Ray Alvarez', 'ray@demo.artist-space.com', 'bar', {
+      location: 'Chicago, IL',
+      capacity: 500,
+    }),
+    user(
+      'u-priya',
+      'Priya Shah',
+      'priya@demo.artist-space.com',
+      'booking_agent',
+      { location: 'Austin, TX' },
+      { is_admin_agent: true, agent_status: 'active', two_factor_required: true }
+    ),
+  ];
+
+  const bands: Band[] = [
+    {
+      id: 'b-midnight-echo',
+      user_id: 'u-sarah',
+      booking_manager_id: 'u-priya',
+      band_name: 'Midnight Echo',
+      description: 'Dreamy indie pop with a four-piece horn section.',
+      genre: 'Indie Pop',
+      website: 'https://midnightecho.example.com',
+      social_links: { instagram: '@midnightecho', spotify: 'midnightecho' },
+      status: 'approved',
+      contact_email: 'band@midnightecho.example.com',
+      join_code: 'ECHO42',
+      created_at: timestamp(320),
+      owner_name: 'Sarah Mitchell',
+      booking_manager_name: 'Priya Shah',
+    },
+    {
+      id: 'b-jazz-collective',
+      user_id: 'u-marcus',
+      booking_manager_id: 'u-priya',
+      band_name: 'The Jazz Collective',
+      description: 'Modern jazz quintet playing originals and reworked standards.',
+      genre: 'Jazz',
+      status: 'approved',
+      join_code: 'JAZZ17',
+      created_at: timestamp(600),
+      owner_name: 'Marcus Reed',
+      booking_manager_name: 'Priya Shah',
+    },
+  ];
+
+  const ownerPermissions = {
+    can_modify_profile: true,
+    can_receive_band_emails: true,
+    can_manage_members: true,
+    is_owner: true,
+  };
+  const memberPermissions = { can_modify_profile: false, can_receive_band_emails: true };
+
+  const members: BandMember[] = [
+    {
+      id: 'm-1',
+      band_id: 'b-midnight-echo',
+      user_id: 'u-sarah',
+      role: 'Vocals',
+      status: 'active',
+      permissions: ownerPermissions,
+      joined_at: timestamp(320),
+      name: 'Sarah Mitchell',
+      email: 'sarah@demo.artist-space.com',
+    },
+    {
+      id: 'm-2',
+      band_id: 'b-midnight-echo',
+      user_id: 'u-leo',
+      role: 'Drums',
+      status: 'active',
+      permissions: memberPermissions,
+      joined_at: timestamp(300),
+      name: 'Leo Park',
+      email: 'leo@demo.artist-space.com',
+    },
+    {
+      id: 'm-3',
+      band_id: 'b-midnight-echo',
+      user_id: 'u-jamie',
+      role: 'Bass',
+      status: 'pending',
+      permissions: memberPermissions,
+      joined_at: timestamp(2),
+      name: 'Jamie Cole',
+      email: 'jamie@demo.artist-space.com',
+    },
+    {
+      id: 'm-4',
+      band_id: 'b-jazz-collective',
+      user_id: 'u-marcus',
+      role: 'Saxophone',
+      status: 'active',
+      permissions: ownerPermissions,
+      joined_at: timestamp(600),
+      name: 'Marcus Reed',
+      email: 'marcus@demo.artist-space.com',
+    },
+    {
+      id: 'm-5',
+      band_id: 'b-jazz-collective',
+      user_id: 'u-sarah',
+      role: 'Guest Vocals',
+      status: 'active',
+      permissions: memberPermissions,
+      joined_at: timestamp(90),
+      name: 'Sarah Mitchell',
+      email: 'sarah@demo.artist-space.com',
+    },
+  ];
+
+  const media: BandMedia[] = [
+    {
+      id: 'media-1',
+      band_id: 'b-midnight-echo',
+      file_name: 'press-photo.jpg',
+      file_path: 'https://picsum.photos/seed/midnight-echo/800/600',
+      file_size: 482133,
+      mime_type: 'image/jpeg',
+      media_type: 'image',
+      description: 'Press photo 2025',
+      is_public: true,
+      uploaded_by: 'u-sarah',
+      created_at: timestamp(45),
+    },
+    {
+      id: 'media-2',
+      band_id: 'b-midnight-echo',
+      file_name: 'neon-tides-demo.mp3',
+      file_path: 'https://example.com/media/neon-tides-demo.mp3',
+      file_size: 6203911,
+      mime_type: 'audio/mpeg',
+      media_type: 'audio',
+      description: 'Neon Tides (demo)',
+      is_public: false,
+      uploaded_by: 'u-leo',
+      created_at: timestamp(12),
+    },
+  ];
+
+  const venues: Venue[] = [
+    {
+      id: 'v-blue-note',
+      user_id: 'u-ray',
+      venue_name: 'The Blue Note',
+      address: '1200 N Halsted St',
+      city: 'Chicago',
+      state: 'IL',
+      capacity: 500,
+      description: 'Historic jazz and blues room with a full bar.',
+      amenities: ['Full bar', 'Green room', 'House PA'],
+      created_at: timestamp(900),
+      owner_name: 'Ray Alvarez',
+    },
+    {
+      id: 'v-echo-room',
+      user_id: 'u-ray',
+      venue_name: 'The Echo Room',
+      address: '501 E 6th St',
+      city: 'Austin',
+      state: 'TX',
+      capacity: 250,
+      amenities: ['House PA', 'Backline'],
+      created_at: timestamp(700),
+      owner_name: 'Ray Alvarez',
+    },
+    {
+      id: 'v-harbor-hall',
+      user_id: 'u-ray',
+      venue_name: 'Harbor Hall',
+      address: '88 Alaskan Way',
+      city: 'Seattle',
+      state: 'WA',
+      capacity: 800,
+      amenities: ['Full bar', 'Green room', 'Lighting rig'],
+      created_at: timestamp(500),
+      owner_name: 'Ray Alvarez',
+    },
+  ];
+
+  const studios: RecordingStudio[] = [
+    {
+      id: 's-sound-factory',
+      user_id: 'u-dana',
+      studio_name: 'Sound Factory Studios',
+      description: 'Two tracking rooms and a vintage Neve console.',
+      address: '17 Music Square W',
+      city: 'Nashville',
+      state: 'TN',
+      daw_software: 'Pro Tools',
+      hourly_rate: 150,
+      protools_version: '2024.10',
+      sonobus_enabled: true,
+      webrtc_enabled: true,
+      created_at: timestamp(800),
+      owner_name: 'Dana Brooks',
+    },
+    {
+      id: 's-bayside',
+      user_id: 'u-dana',
+      studio_name: 'Bayside Recording',
+      city: 'Oakland',
+      state: 'CA',
+      daw_software: 'Logic Pro',
+      hourly_rate: 95,
+      sonobus_enabled: false,
+      webrtc_enabled: true,
+      created_at: timestamp(400),
+      owner_name: 'Dana Brooks',
+    },
+  ];
+
+  const sessions: StudioSession[] = [
+    {
+      id: 'session-1',
+      studio_id: 's-sound-factory',
+      band_id: 'b-midnight-echo',
+      user_id: 'u-sarah',
+      session_date: daysFromNow(-10),
+      start_time: '10:00',
+      end_time: '16:00',
+      duration_minutes: 360,
+      connection_type: 'livekit',
+      session_notes: 'Tracked drums and bass for Neon Tides.',
+      status: 'completed',
+      created_at: timestamp(20),
+    },
+  ];
+
+  const tourDate = (
+    id: string,
+    bandId: string,
+    venue: Venue,
+    days: number,
+    status: TourDate['status'],
+    paymentAmount: number,
+    extra: Partial<TourDate> = {}
+  ): TourDate => ({
+    id,
+    band_id: bandId,
+    venue_id: venue.id,
+    booking_agent_id: 'u-priya',
+    date: daysFromNow(days),
+    start_time: '20:00',
+    end_time: '23:00',
+    status,
+    payment_amount: paymentAmount,
+    payment_currency: 'USD',
+    payment_status: days < 0 ? 'paid' : 'pending',
+    created_at: timestamp(Math.max(1, 60 - days)),
+    band_name: bands.find((band) => band.id === bandId)?.band_name,
+    venue_name: venue.venue_name,
+    city: venue.city,
+    state: venue.state,
+    address: venue.address,
+    tour_id: 'tour-spring',
+    tour_name: 'Spring Run',
+    is_upcoming: days >= 0,
+    ...extra,
+  });
+
+  const [blueNote, echoRoom, harborHall] = venues;
+  const tours: TourDate[] = [
+    tourDate('t-1', 'b-midnight-echo', echoRoom, -30, 'completed', 1200, { attendance: 210, bar_sales: 4300 }),
+    tourDate('t-2', 'b-midnight-echo', blueNote, -7, 'completed', 1800, { attendance: 430, bar_sales: 9100 }),
+    tourDate('t-3', 'b-midnight-echo', harborHall, 5, 'confirmed', 2500),
+    tourDate('t-4', 'b-midnight-echo', echoRoom, 14, 'pending', 1300),
+    tourDate('t-5', 'b-midnight-echo', blueNote, 30, 'confirmed', 2000),
+    tourDate('t-6', 'b-jazz-collective', blueNote, 10, 'confirmed', 1600, { tour_id: undefined, tour_name: undefined }),
+  ];
+
+  const kpis: TourKPI[] = [
+    { id: 'kpi-1', tour_date_id: 't-1', attendance: 210, bar_sales: 4300, sales_currency: 'USD', new_customers: 65, created_at: timestamp(29) },
+    { id: 'kpi-2', tour_date_id: 't-2', attendance: 430, bar_sales: 9100, sales_currency: 'USD', new_customers: 120, created_at: timestamp(6) },
+  ];
+
+  const tourPayments: TourPayment[] = [
+    {
+      id: 'tp-1',
+      tour_date_id: 't-1',
+      venue_payment_amount: 1200,
+      booking_agent_fee_percentage: 10,
+      booking_agent_fee_amount: 120,
+      other_fees_amount: 0,
+      total_band_payout: 1080,
+      payment_status: 'succeeded',
+      payment_date: timestamp(25),
+      payment_method: 'stripe',
+      created_at: timestamp(29),
+      updated_at: timestamp(25),
+    },
+    {
+      id: 'tp-2',
+      tour_date_id: 't-2',
+      venue_payment_amount: 1800,
+      booking_agent_fee_percentage: 10,
+      booking_agent_fee_amount: 180,
+      other_fees_amount: 50,
+      total_band_payout: 1570,
+      payment_status: 'pending',
+      created_at: timestamp(6),
+      updated_at: timestamp(6),
+    },
+  ];
+
+  const payout = (
+    id: string,
+    tourPaymentId: string,
+    userId: string,
+    name: string,
+    amount: number,
+    status: TourMemberPayout['payout_status']
+  ): TourMemberPayout => ({
+    id,
+    tour_payment_id: tourPaymentId,
+    user_id: userId,
+    band_member_name: name,
+    payout_amount: amount,
+    payout_status: status,
+    payment_method: status === 'succeeded' ? 'stripe' : undefined,
+    created_at: timestamp(25),
+    updated_at: timestamp(25),
+  });
+
+  const payouts: TourMemberPayout[] = [
+    payout('po-1', 'tp-1', 'u-sarah', 'Sarah Mitchell', 540, 'succeeded'),
+    payout('po-2', 'tp-1', 'u-leo', 'Leo Park', 540, 'succeeded'),
+    payout('po-3', 'tp-2', 'u-sarah', 'Sarah Mitchell', 785, 'pending'),
+    payout('po-4', 'tp-2', 'u-leo', 'Leo Park', 785, 'pending'),
+  ];
+
+  const plans: SubscriptionPlan[] = [
+    {
+      id: 'plan-free',
+      name: 'Free',
+      user_type: 'user',
+      price_monthly: 0,
+      features: JSON.stringify(['1 band', 'Messaging']),
+      max_bands: 1,
+      is_active: true,
+      created_at: timestamp(900),
+      updated_at: timestamp(900),
+    },
+    {
+      id: 'plan-pro',
+      name: 'Pro',
+      user_type: 'user',
+      price_monthly: 12,
+      price_yearly: 120,
+      features: JSON.stringify(['5 bands', 'Messaging', 'Live streaming', 'Tour analytics']),
+      max_bands: 5,
+      is_active: true,
+      created_at: timestamp(900),
+      updated_at: timestamp(900),
+    },
+  ];
+
+  const subscriptions: UserSubscription[] = [
+    {
+      id: 'sub-1',
+      user_id: 'u-sarah',
+      plan_id: 'plan-pro',
+      billing_cycle: 'monthly',
+      status: 'active',
+      current_period_start: timestamp(12),
+      current_period_end: new Date(Date.now() + 18 * 86400000).toISOString(),
+      cancel_at_period_end: false,
+      payment_method: 'stripe',
+      created_at: timestamp(200),
+      updated_at: timestamp(12),
+      plan_name: 'Pro',
+      price: 12,
+    },
+  ];
+
+  const messages: MockMessage[] = [
+    { id: 'msg-1', sender_id: 'u-leo', recipient_id: 'u-sarah', text: 'Soundcheck at Harbor Hall is 5pm, right?', read: true, created_at: timestamp(1, 5) },
+    { id: 'msg-2', sender_id: 'u-sarah', recipient_id: 'u-leo', text: 'Yes - load-in from 4. I\'ll bring the spare snare.', read: true, created_at: timestamp(1, 4) },
+    { id: 'msg-3', sender_id: 'u-leo', recipient_id: 'u-sarah', text: 'Perfect, see you there 🥁', read: false, created_at: timestamp(0, 3) },
+    { id: 'msg-4', sender_id: 'u-priya', recipient_id: 'u-sarah', text: 'The Echo Room wants to confirm your date - can you do a 9pm start?', read: false, created_at: timestamp(0, 1) },
+    { id: 'msg-5', sender_id: 'u-marcus', recipient_id: 'u-sarah', text: 'Great set last night. Want to sit in with us at the Blue Note?', read: true, created_at: timestamp(6) },
+  ];
+
+  const groups: MockGroup[] = [
+    {
+      id: 'grp-b-midnight-echo',
+      kind: 'band',
+      name: 'Midnight Echo',
+      band_id: 'b-midnight-echo',
+      member_ids: ['u-sarah', 'u-leo'],
+      key_epoch: 1,
+      created_at: timestamp(320),
+    },
+    {
+      id: 'grp-b-jazz-collective',
+      kind: 'band',
+      name: 'The Jazz Collective',
+      band_id: 'b-jazz-collective',
+      member_ids: ['u-marcus', 'u-sarah'],
+      key_epoch: 1,
+      created_at: timestamp(600),
+    },
+    {
+      id: 'grp-harbor-hall',
+      kind: 'adhoc',
+      name: 'Harbor Hall crew',
+      member_ids: ['u-priya', 'u-sarah', 'u-leo', 'u-ray'],
+      key_epoch: 1,
+      created_by: 'u-priya',
+      created_at: timestamp(3),
+    },
+  ];
+
+  const groupMessages: MockGroupMessage[] = [
+    { id: 'gmsg-1', group_id: 'grp-b-midnight-echo', sender_id: 'u-leo', key_epoch: 1, text: 'Setlist for Friday is in the shared folder 🎶', read_by: ['u-leo', 'u-sarah'], created_at: timestamp(0, 6) },
+    { id: 'gmsg-2', group_id: 'grp-b-midnight-echo', sender_id: 'u-sarah', key_epoch: 1, text: 'Thanks! Adding the new bridge to track 4.', read_by: ['u-sarah', 'u-leo'], created_at: timestamp(0, 5) },
+    { id: 'gmsg-3', group_id: 'grp-b-jazz-collective', sender_id: 'u-marcus', key_epoch: 1, text: 'Rehearsal moved to Thursday, 7pm.', read_by: ['u-marcus'], created_at: timestamp(2) },
+    { id: 'gmsg-4', group_id: 'grp-harbor-hall', sender_id: 'u-priya', key_epoch: 1, text: 'Welcome, everyone - this one is for the Harbor Hall show.', read_by: ['u-priya', 'u-sarah'], created_at: timestamp(1, 8) },
+    { id: 'gmsg-5', group_id: 'grp-harbor-hall', sender_id: 'u-ray', key_epoch: 1, text: 'Doors at 7, stage time 9. Parking is round the back.', read_by: ['u-ray'], created_at: timestamp(1, 7) },
+  ];
+
+  // Sarah is already signed in elsewhere, so there's something to revoke
+  const authSessions: MockAuthSession[] = [
+    {
+      id: 'sess-sarah-mac',
+      user_id: 'u-sarah',
+      device_name: 'Chrome on macOS',
+      platform: 'web',
+      biometric_enabled: false,
+      ip_address: '203.0.113.24',
+      city: 'Los Angeles',
+      country: 'US',
+      created_at: timestamp(20),
+      last_seen_at: timestamp(0, 5),
+    },
+    {
+      id: 'sess-sarah-ipad',
+      user_id: 'u-sarah',
+      device_name: "Sarah's iPad",
+      platform: 'ios',
+      app_version: '1.0.0',
+      biometric_enabled: true,
+      ip_address: '198.51.100.7',
+      city: 'Nashville',
+      country: 'US',
+      created_at: timestamp(45),
+      last_seen_at: timestamp(3),
+    },
+  ];
+
+  return {
+    users,
+    bands,
+    members,
+    media,
+    venues,
+    studios,
+    sessions,
+    tours,
+    kpis,
+    tourPayments,
+    payouts,
+    plans,
+    subscriptions,
+    messages,
+    groups,
+    groupMessages,
+    senderKeys: [],
+    attachments: [],
+    keyBackups: {},
+    deviceLinks: [],
+    publicKeys: {},
+    messageExpiry: {},
+    messageRetention: { default_ttl_seconds: null, max_ttl_seconds: null },
+    authSessions,
+    twoFactorChallenges: [],
+    oauthIdentities: [
+      {
+        provider: 'google',
+        subject: MOCK_PROVIDER_ACCOUNTS.google.subject,
+        user_id: 'u-sarah',
+        email: MOCK_PROVIDER_ACCOUNTS.google.email,
+        display_name: MOCK_PROVIDER_ACCOUNTS.google.name,
+        linked_at: timestamp(90),
+      },
+    ],
+    userFeatures: [
+      {
+        id: 'feat-1',
+        user_id: 'u-ray',
+        feature_type: 'premium_content',
+        assigned_by: 'u-priya',
+        active: true,
+        created_at: timestamp(60),
+        updated_at: timestamp(60),
+      },
+      {
+        id: 'feat-2',
+        user_id: 'u-leo',
+        feature_type: 'live_streaming',
+        assigned_by: 'u-priya',
+        active: true,
+        // A trial - gone in two weeks
+        expires_at: new Date(Date.now() + 14 * 86400000).toISOString(),
+        created_at: timestamp(16),
+        updated_at: timestamp(16),
+      },
+    ],
+  };
+}
@@ -0,0 +1,102 @@
+import nacl from 'tweetnacl';
+import { MOCK_IDP_URL } from './backendProfiles';
+import { MOCK_PROVIDER_ACCOUNTS, MockProviderAccount } from './mockFixtures';
+import { OAuthCodeExchange, OAuthProvider } from '../types';
+import { buildUrl, createCodeChallenge, encodeBase64Url, getUrlParams } from '../utils/oauth';
+
+/**
+ * Mock Identity Provider
+ * Local stand-in for the Google, Facebook and Patreon authorization servers.
+ * The mock backend hands out its authorization URLs; oauthService "opens"
+ * them here instead of in a browser.
+ *
+ * - authorize() signs in as the provider's current account and redirects
+ *   straight back with a code - no consent screen
+ * - exchange() checks the PKCE verifier and redirect URI like a real
+ *   provider, and each code works once
+ */
+
+interface PendingCode {
+  provider: OAuthProvider;
+  account: MockProviderAccount;
+  challenge: string;
+  redirectUri: string;
+}
+
+class MockIdentityProviderService {
+  private accounts: Record<OAuthProvider, MockProviderAccount> = { ...MOCK_PROVIDER_ACCOUNTS };
+  private codes = new Map<string, PendingCode>();
+  /** Refuse the next authorization, as if the user pressed Cancel */
+  denyNext = false;
+
+  /**
+   * Choose who signs in at a provider (e.g. an account that collides with an existing email)
+   */
+  setAccount(provider: OAuthProvider, account: MockProviderAccount): void {
+    this.accounts[provider] = account;
+  }
+
+  getAccount(provider: OAuthProvider): MockProviderAccount {
+    return this.accounts[provider];
+  }
+
+  reset(): void {
+    this.accounts = { ...MOCK_PROVIDER_ACCOUNTS };
+    this.codes.clear();
+    this.denyNext = false;
+  }
+
+  // ============================================================================
+  // AUTHORIZATION
+  // ============================================================================
+
+  authorizationUrl(
+    provider: OAuthProvider,
+    params: { redirect_uri: string; state: string; code_challenge: string }
+  ): string {
+    return buildUrl(`${MOCK_IDP_URL}${provider}/authorize`, { ...params, code_challenge_method: 'S256' });
+  }
+
+  /**
+   * The redirect the provider would send the browser to
+   */
+  authorize(url: string): string {
+    const provider = url.slice(MOCK_IDP_URL.length).split('/')[0] as OAuthProvider;
+    const params = getUrlParams(url);
+
+    if (this.denyNext) {
+      this.denyNext = false;
+      return buildUrl(params.redirect_uri, { error: 'access_denied', state: params.state });
+    }
+
+    const code = encodeBase64Url(nacl.randomBytes(16));
+    this.codes.set(code, {
+      provider,
+      account: this.accounts[provider],
+      challenge: params.code_challenge,
+      redirectUri: params.redirect_uri,
+    });
+    return buildUrl(params.redirect_uri, { code, state: params.state });
+  }
+
+  /**
+   * Provider account for an authorization code, or null if the code, verifier
+   * or redirect URI don't check out
+   */
+  exchange(provider: OAuthProvider, { code, code_verifier, redirect_uri }: OAuthCodeExchange): MockProviderAccount | null {
+    const pending = this.codes.get(code);
+    this.codes.delete(code);
+
+    if (
+      !pending ||
+      pending.provider !== provider ||
+      pending.redirectUri !== redirect_uri ||
+      pending.challenge !== createCodeChallenge(code_verifier)
+    ) {
+      return null;
+    }
+    return pending.account;
+  }
+}
+
+export default new MockIdentityProviderService();
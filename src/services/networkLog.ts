@@ -0,0 +1,282 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import accountService from './accounts';
+import { logger } from '../utils/logger';
+
+/**
+ * Network Log Service
+ * Rolling record of recent API requests for the network inspector
+ *
+ * - Every ApiService request carries an X-Correlation-ID header; retries of the
+ *   same call reuse it, so one entry covers all attempts
+ * - Bodies go through logger.sanitize and are truncated before being kept
+ * - The last MAX_ENTRIES entries are persisted, so a failure can still be
+ *   looked up after the app restarts. Switching or signing out of an account
+ *   clears them - they're that account's requests.
+ */
+
+export const CORRELATION_HEADER = 'X-Correlation-ID';
+
+export type NetworkLogState = 'pending' | 'success' | 'error' | 'cancelled';
+
+export interface NetworkLogEntry {
+  /** Correlation ID sent to the backend */
+  id: string;
+  method: string;
+  url: string;
+  query?: unknown;
+  requestBody?: unknown;
+  state: NetworkLogState;
+  status?: number;
+  /** Retries after the first attempt (transient errors, token refresh) */
+  retries: number;
+  startedAt: number;
+  /** Start of the latest attempt */
+  attemptStartedAt: number;
+  /** Duration of the latest attempt (ms) */
+  durationMs?: number;
+  /** From the first attempt until settled, including retry back-off (ms) */
+  totalMs?: number;
+  responseBody?: unknown;
+  error?: string;
+}
+
+export type NetworkLogListener = (entries: NetworkLogEntry[]) => void;
+
+const STORAGE_KEY = 'network_log';
+const MAX_ENTRIES = 100;
+// Longest body kept per entry - enough to see an error payload, not a feed
+const MAX_BODY_LENGTH = 2000;
+const PERSIST_DELAY_MS = 1000;
+
+/**
+ * New correlation ID (UUID v4 format, which backends commonly expect)
+ */
+export function createCorrelationId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Sanitize a request or response body and cap its size
+ */
+function summarizeBody(body: unknown): unknown {
+  if (body === undefined || body === null || body === '') return undefined;
+  if (typeof FormData !== 'undefined' && body instanceof FormData) return '[form data]';
+  if (typeof Blob !== 'undefined' && body instanceof Blob) return `[binary, ${body.size} bytes]`;
+
+  let value = body;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Not JSON - keep the string
+    }
+  }
+
+  const sanitized = logger.sanitize(value);
+  const text = typeof sanitized === 'string' ? sanitized : JSON.stringify(sanitized);
+  if (text && text.length > MAX_BODY_LENGTH) {
+    return `${text.slice(0, MAX_BODY_LENGTH)}… (${text.length - MAX_BODY_LENGTH} more characters)`;
+  }
+  return sanitized;
+}
+
+class NetworkLogService {
+  private entries: NetworkLogEntry[] = [];
+  private listeners: Set<NetworkLogListener> = new Set();
+  private loaded: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    accountService.subscribe(({ account, previous, removed }) => {
+      if (removed.length > 0 || (previous && previous.id !== account?.id)) {
+        return this.clear();
+      }
+    });
+  }
+
+  // ============================================================================
+  // RECORDING
+  // ============================================================================
+
+  /**
+   * Record an attempt starting. A known correlation ID counts as a retry.
+   */
+  start(id: string, request: { method?: string; url?: string; params?: unknown; data?: unknown }): void {
+    const now = Date.now();
+    const existing = this.find(id);
+
+    if (existing) {
+      this.update(id, {
+        state: 'pending',
+        retries: existing.retries + 1,
+        attemptStartedAt: now,
+        status: undefined,
+        error: undefined,
+      });
+      return;
+    }
+
+    const entry: NetworkLogEntry = {
+      id,
+      method: (request.method || 'get').toUpperCase(),
+      url: request.url || '',
+      query: summarizeBody(request.params),
+      requestBody: summarizeBody(request.data),
+      state: 'pending',
+      retries: 0,
+      startedAt: now,
+      attemptStartedAt: now,
+    };
+    this.entries = [entry, ...this.entries].slice(0, MAX_ENTRIES);
+    this.changed();
+  }
+
+  /**
+   * Record a response from the server
+   */
+  succeed(id: string, response: { status: number; data?: unknown }): void {
+    this.settle(id, { state: 'success', status: response.status, responseBody: summarizeBody(response.data) });
+  }
+
+  /**
+   * Record a failed attempt: an error response, no response, or cancellation
+   */
+  fail(id: string, failure: { status?: number; data?: unknown; message: string; cancelled?: boolean }): void {
+    this.settle(id, {
+      state: failure.cancelled ? 'cancelled' : 'error',
+      status: failure.status,
+      responseBody: summarizeBody(failure.data),
+      error: failure.message,
+    });
+  }
+
+  private settle(id: string, changes: Partial<NetworkLogEntry>): void {
+    const entry = this.find(id);
+    if (!entry) return;
+
+    const now = Date.now();
+    this.update(id, {
+      ...changes,
+      durationMs: now - entry.attemptStartedAt,
+      totalMs: now - entry.startedAt,
+    });
+  }
+
+  private find(id: string): NetworkLogEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  private update(id: string, changes: Partial<NetworkLogEntry>): void {
+    this.entries = this.entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry));
+    this.changed();
+  }
+
+  // ============================================================================
+  // READING
+  // ============================================================================
+
+  /**
+   * Recent requests, newest first
+   */
+  getEntries(): NetworkLogEntry[] {
+    return this.entries;
+  }
+
+  getEntry(id: string): NetworkLogEntry | undefined {
+    return this.find(id);
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries = [];
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.emit();
+    await this.persist();
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Merge entries saved by previous sessions in behind the current ones
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(STORAGE_KEY);
+          if (!raw) return;
+
+          const stored: NetworkLogEntry[] = JSON.parse(raw);
+          const older = stored
+            .filter((entry) => !this.find(entry.id))
+            // Still pending when the app went away - it will never finish now
+            .map((entry) => (entry.state === 'pending' ? { ...entry, state: 'cancelled' as const } : entry));
+          this.entries = [...this.entries, ...older].slice(0, MAX_ENTRIES);
+          this.emit();
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to load network log:', error);
+        }
+      })();
+    }
+
+    return this.loaded;
+  }
+
+  private changed(): void {
+    this.emit();
+
+    // Batch writes - a screen load can fire a dozen requests at once
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => {
+        this.persistTimer = null;
+        this.persist();
+      }, PERSIST_DELAY_MS);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    // Don't overwrite the previous session's entries before they're merged in
+    await this.load();
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to persist network log:', error);
+    }
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to log changes
+   */
+  subscribe(listener: NetworkLogListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.entries);
+      } catch (error) {
+        if (__DEV__) console.error('Network log listener error:', error);
+      }
+    });
+  }
+}
+
+export default new NetworkLogService();
@@ -0,0 +1,179 @@
+import { AppState, Linking, Platform } from 'react-native';
+import apiService, { ApiError, RequestOptions } from './api';
+import backendProfileService, { MOCK_IDP_URL, getMockIdentityProvider } from './backendProfiles';
+import { endpoints } from './endpoints';
+import { ApiResponse, LoginResponse, OAuthCodeExchange, OAuthIdentity, OAuthProvider, UserType } from '../types';
+import { createOAuthState, createPkcePair, getUrlParams } from '../utils/oauth';
+
+// Registered with every provider; `scheme` in app.json routes it back to the app
+export const OAUTH_REDIRECT_URI = 'artistspace://oauth/callback';
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ['google', 'facebook', 'patreon'];
+
+// Error code when a new provider identity's email already has an account
+export const OAUTH_ACCOUNT_EXISTS_CODE = 'oauth_account_exists';
+
+// How long to wait for the redirect after the user comes back to the app
+const RETURN_GRACE_MS = 1000;
+
+/**
+ * Opens the provider's authorization page and resolves with the redirect URL
+ * it sends back, or null if the user closed it
+ */
+export type AuthBrowser = (authorizationUrl: string, redirectUri: string) => Promise<string | null>;
+
+/**
+ * The user backed out of the provider's sign-in. Nothing to show.
+ */
+export class OAuthCancelledError extends Error {
+  constructor() {
+    super('Sign-in was cancelled');
+    this.name = 'OAuthCancelledError';
+  }
+}
+
+/**
+ * System browser, with the redirect caught as a deep link. Coming back to the
+ * app without one means the browser was closed.
+ */
+const systemBrowser: AuthBrowser = (authorizationUrl, redirectUri) =>
+  new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = (url: string | null) => {
+      urlSubscription.remove();
+      appStateSubscription.remove();
+      if (timer) clearTimeout(timer);
+      resolve(url);
+    };
+
+    const urlSubscription = Linking.addEventListener('url', ({ url }) => {
+      if (url.startsWith(redirectUri)) finish(url);
+    });
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && !timer) {
+        timer = setTimeout(() => finish(null), RETURN_GRACE_MS);
+      }
+    });
+
+    Linking.openURL(authorizationUrl).catch((error) => {
+      urlSubscription.remove();
+      appStateSubscription.remove();
+      reject(error);
+    });
+  });
+
+/**
+ * OAuth Service
+ * Sign-in with Google, Facebook and Patreon (authorization code + PKCE), and
+ * linking those accounts to an existing user. The backend holds the client
+ * credentials and maps provider identities to users.
+ */
+class OAuthService {
+  private browser: AuthBrowser = systemBrowser;
+
+  /**
+   * Web builds have no deep link to come back through; the mock provider works everywhere
+   */
+  isAvailable(): boolean {
+    return Platform.OS !== 'web' || !!backendProfileService.getActiveProfile().mock;
+  }
+
+  /**
+   * Swap how the authorization page is shown (tests, custom tabs)
+   */
+  setBrowser(browser: AuthBrowser | null): void {
+    this.browser = browser ?? systemBrowser;
+  }
+
+  // ============================================================================
+  // SIGN-IN
+  // ============================================================================
+
+  /**
+   * Sign in with a provider. New identities create an account of `userType`
+   * (supporter by default); accounts with 2FA get a challenge back.
+   */
+  async signIn(provider: OAuthProvider, options: { userType?: UserType } = {}): Promise<LoginResponse> {
+    const exchange = await this.authorize(provider);
+    return await apiService.loginWithOAuth(provider, { ...exchange, user_type: options.userType });
+  }
+
+  // ============================================================================
+  // LINKED ACCOUNTS
+  // ============================================================================
+
+  async getIdentities(options?: RequestOptions): Promise<OAuthIdentity[]> {
+    return await apiService.call(endpoints.oauth.identities, {}, options);
+  }
+
+  /**
+   * Link a provider account to the signed-in user, so it can be used to sign in
+   */
+  async link(provider: OAuthProvider): Promise<OAuthIdentity> {
+    const exchange = await this.authorize(provider);
+    return await apiService.call(endpoints.oauth.link, { params: { provider }, body: exchange });
+  }
+
+  /**
+   * Rejected if it's the account's only way to sign in
+   */
+  async unlink(provider: OAuthProvider): Promise<ApiResponse> {
+    return await apiService.call(endpoints.oauth.unlink, { params: { provider } });
+  }
+
+  // ============================================================================
+  // AUTHORIZATION
+  // ============================================================================
+
+  /**
+   * Send the user to the provider and collect the authorization code
+   */
+  private async authorize(provider: OAuthProvider): Promise<OAuthCodeExchange> {
+    const { verifier, challenge } = createPkcePair();
+    const state = createOAuthState();
+
+    const { authorization_url } = await apiService.call(
+      endpoints.oauth.authorize,
+      {
+        params: { provider },
+        query: {
+          redirect_uri: OAUTH_REDIRECT_URI,
+          state,
+          code_challenge: challenge,
+          code_challenge_method: 'S256',
+        },
+      },
+      { cachePolicy: 'network-only' }
+    );
+
+    // Only the mock backend may send us to the in-process provider - from any
+    // other server it would sign in without the user ever seeing the provider
+    const mockProvider = authorization_url.startsWith(MOCK_IDP_URL);
+    if (mockProvider && !backendProfileService.getActiveProfile().mock) {
+      throw new ApiError('Sign-in with this provider failed. Please try again.');
+    }
+
+    const callbackUrl = mockProvider
+      ? getMockIdentityProvider().authorize(authorization_url)
+      : await this.browser(authorization_url, OAUTH_REDIRECT_URI);
+    if (!callbackUrl) {
+      throw new OAuthCancelledError();
+    }
+
+    const result = getUrlParams(callbackUrl);
+    if (result.state !== state) {
+      throw new ApiError("Sign-in response didn't match the request. Please try again.");
+    }
+    if (result.error === 'access_denied') {
+      throw new OAuthCancelledError();
+    }
+    if (result.error || !result.code) {
+      throw new ApiError(result.error_description || 'Sign-in with this provider failed. Please try again.');
+    }
+
+    return { code: result.code, code_verifier: verifier, redirect_uri: OAUTH_REDIRECT_URI };
+  }
+}
+
+export default new OAuthService();
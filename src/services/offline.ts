@@ -0,0 +1,423 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { accountKey } from './storage';
+import accountService, { AccountChange } from './accounts';
+import { createCorrelationId } from './networkLog';
+
+/**
+ * Offline Service
+ * Persistent response cache and mutation queue for ApiService
+ *
+ * - GET responses are cached by endpoint + params and served when the network is unreachable
+ * - Mutations flagged with `queueOffline` are persisted and replayed in order once we're back online,
+ *   each with the same Idempotency-Key every time
+ * - Replay conflicts (409/412) and rejections are reported to subscribers so screens can react
+ * - Cache and queue are kept per account and follow account switches
+ */
+
+export type CachePolicy = 'network-first' | 'cache-first' | 'network-only';
+
+export type QueuedMethod = 'post' | 'put' | 'patch' | 'delete';
+
+export interface QueuedRequest {
+  id: string;
+  method: QueuedMethod;
+  endpoint: string;
+  data?: unknown;
+  tag?: string;
+  /** Sent with every replay so the server applies the request once */
+  idempotencyKey: string;
+  createdAt: number;
+  attempts: number;
+}
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  cachedAt: number;
+}
+
+export type OfflineEvent =
+  | { type: 'status'; isOnline: boolean }
+  | { type: 'queued'; request: QueuedRequest }
+  | { type: 'replayed'; request: QueuedRequest; response: unknown }
+  | { type: 'conflict'; request: QueuedRequest; status: number; serverData: unknown }
+  | { type: 'failed'; request: QueuedRequest; status?: number; message: string }
+  | { type: 'queueChanged'; pending: number };
+
+export type OfflineListener = (event: OfflineEvent) => void;
+
+/**
+ * Sends a queued request to the server. Provided by ApiService so replays
+ * go through the same auth and error handling as live requests.
+ */
+export type ReplayExecutor = (request: QueuedRequest) => Promise<unknown>;
+
+interface ReplayError {
+  status?: number;
+  message?: string;
+  data?: unknown;
+}
+
+const CACHE_KEY = 'offline_cache';
+const QUEUE_KEY = 'offline_queue';
+
+// Server responses that mean "your change is based on stale data"
+const CONFLICT_STATUSES = [409, 412];
+
+class OfflineService {
+  private online = true;
+  private queue: QueuedRequest[] = [];
+  private queueLoaded: Promise<void> | null = null;
+  private syncing: Promise<void> | null = null;
+  private executor: ReplayExecutor | null = null;
+  private listeners: Set<OfflineListener> = new Set();
+  private memoryCache: Map<string, CacheEntry> = new Map();
+  /** Account whose cache and queue are loaded */
+  private accountId: string | null = null;
+
+  constructor() {
+    // Coming back to the foreground is a good time to flush anything queued
+    AppState.addEventListener?.('change', (state: AppStateStatus) => {
+      if (state === 'active' && this.queue.length > 0) {
+        this.sync().catch(() => undefined);
+      }
+    });
+
+    accountService.subscribe((change) => this.handleAccountChange(change));
+  }
+
+  // ============================================================================
+  // CONNECTIVITY
+  // ============================================================================
+
+  /**
+   * Register the function used to replay queued requests
+   */
+  attach(executor: ReplayExecutor): void {
+    this.executor = executor;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Update connectivity state. Going from offline to online triggers a replay.
+   */
+  setOnline(online: boolean): void {
+    if (this.online === online) return;
+
+    this.online = online;
+    this.emit({ type: 'status', isOnline: online });
+
+    if (online) {
+      this.sync().catch(() => undefined);
+    }
+  }
+
+  // ============================================================================
+  // RESPONSE CACHE
+  // ============================================================================
+
+  /**
+   * Build a stable cache key from endpoint and params (param order doesn't matter)
+   */
+  getCacheKey(endpoint: string, params?: Record<string, unknown>): string {
+    if (!params) return endpoint;
+
+    const query = Object.keys(params)
+      .filter((key) => params[key] !== undefined)
+      .sort()
+      .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(String(params[key]))}`)
+      .join('&');
+
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  async getCached<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    const inMemory = this.memoryCache.get(key);
+    if (inMemory) return inMemory as CacheEntry<T>;
+
+    try {
+      const raw = await AsyncStorage.getItem(this.cachePrefix() + key);
+      if (!raw) return null;
+
+      const entry: CacheEntry<T> = JSON.parse(raw);
+      this.memoryCache.set(key, entry);
+      return entry;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async setCached(key: string, data: unknown): Promise<void> {
+    const entry: CacheEntry = { data, cachedAt: Date.now() };
+    this.memoryCache.set(key, entry);
+
+    try {
+      await AsyncStorage.setItem(this.cachePrefix() + key, JSON.stringify(entry));
+    } catch (error) {
+      // Cache writes are best effort - the in-memory copy still helps this session
+      if (__DEV__) console.warn('Failed to persist cached response:', error);
+    }
+  }
+
+  /**
+   * Drop cached responses whose key starts with the given endpoint
+   * (used after a mutation so the next read goes to the network)
+   */
+  async invalidate(endpointPrefix: string): Promise<void> {
+    for (const key of Array.from(this.memoryCache.keys())) {
+      if (key.startsWith(endpointPrefix)) {
+        this.memoryCache.delete(key);
+      }
+    }
+
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const stale = keys.filter((key) => key.startsWith(this.cachePrefix() + endpointPrefix));
+      if (stale.length > 0) {
+        await AsyncStorage.multiRemove(stale);
+      }
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to invalidate cached responses:', error);
+    }
+  }
+
+  // ============================================================================
+  // MUTATION QUEUE
+  // ============================================================================
+
+  /**
+   * Persist a mutation to be replayed when connectivity returns
+   */
+  async enqueue(
+    request: Omit<QueuedRequest, 'id' | 'idempotencyKey' | 'createdAt' | 'attempts'> & { idempotencyKey?: string }
+  ): Promise<QueuedRequest> {
+    await this.loadQueue();
+
+    const queued: QueuedRequest = {
+      ...request,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      idempotencyKey: request.idempotencyKey ?? createCorrelationId(),
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+
+    this.queue.push(queued);
+    await this.persistQueue();
+
+    this.emit({ type: 'queued', request: queued });
+    return queued;
+  }
+
+  async getPendingRequests(tag?: string): Promise<QueuedRequest[]> {
+    await this.loadQueue();
+    return tag ? this.queue.filter((request) => request.tag === tag) : [...this.queue];
+  }
+
+  /**
+   * Remove a queued request without sending it (e.g. user discarded the change)
+   */
+  async discard(requestId: string): Promise<void> {
+    await this.loadQueue();
+    this.queue = this.queue.filter((request) => request.id !== requestId);
+    await this.persistQueue();
+  }
+
+  /**
+   * Replay queued mutations in the order they were made.
+   * Stops at the first network failure so ordering is preserved for the next attempt.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) return this.syncing;
+    if (!this.executor) return;
+
+    this.syncing = this.replayQueue().finally(() => {
+      this.syncing = null;
+    });
+
+    return this.syncing;
+  }
+
+  private async replayQueue(): Promise<void> {
+    await this.loadQueue();
+    const queue = this.queue;
+
+    while (this.queue.length > 0 && this.executor) {
+      const request = this.queue[0];
+      request.attempts += 1;
+
+      try {
+        const response = await this.executor(request);
+        // Switched accounts mid-replay - the rest belongs to the other account
+        if (this.queue !== queue) return;
+        this.queue.shift();
+        await this.persistQueue();
+        this.emit({ type: 'replayed', request, response });
+      } catch (err) {
+        const error = err as ReplayError;
+        if (this.queue !== queue) return;
+
+        if (error.status === undefined) {
+          // Still offline - keep the request and try again later
+          await this.persistQueue();
+          this.setOnline(false);
+          return;
+        }
+
+        if (error.status >= 500) {
+          // Server trouble, not the request's fault - retry on the next sync
+          await this.persistQueue();
+          return;
+        }
+
+        this.queue.shift();
+        await this.persistQueue();
+
+        if (CONFLICT_STATUSES.includes(error.status)) {
+          this.emit({ type: 'conflict', request, status: error.status, serverData: error.data });
+        } else {
+          this.emit({
+            type: 'failed',
+            request,
+            status: error.status,
+            message: error.message || 'Request was rejected by the server',
+          });
+        }
+      }
+    }
+  }
+
+  private async loadQueue(): Promise<void> {
+    if (!this.queueLoaded) {
+      this.queueLoaded = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(this.queueKey());
+          const stored: QueuedRequest[] = (raw ? JSON.parse(raw) : []).map((request: QueuedRequest) =>
+            // Queued before requests had keys
+            request.idempotencyKey ? request : { ...request, idempotencyKey: createCorrelationId() }
+          );
+          // Keep anything enqueued before the stored queue finished loading
+          this.queue = [...stored, ...this.queue];
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to load offline queue:', error);
+        }
+      })();
+    }
+
+    return this.queueLoaded;
+  }
+
+  private async persistQueue(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.queueKey(), JSON.stringify(this.queue));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to persist offline queue:', error);
+    }
+    this.emit({ type: 'queueChanged', pending: this.queue.length });
+  }
+
+  // ============================================================================
+  // ACCOUNTS
+  // ============================================================================
+
+  private cachePrefix(accountId: string | null = this.accountId): string {
+    return `${accountKey(CACHE_KEY, accountId)}:`;
+  }
+
+  private queueKey(accountId: string | null = this.accountId): string {
+    return accountKey(QUEUE_KEY, accountId);
+  }
+
+  /**
+   * Follow the active account. Changes queued with no account active (by an
+   * install from before multi-account support) go to the account that signs in.
+   */
+  private async handleAccountChange({ account, removed }: AccountChange): Promise<void> {
+    for (const accountId of removed) {
+      await this.removeStored(accountId);
+    }
+
+    const accountId = account?.id ?? null;
+    if (accountId === this.accountId) return;
+
+    let carried: QueuedRequest[] = [];
+    if (this.accountId === null) {
+      await this.loadQueue();
+      carried = this.queue;
+      await AsyncStorage.removeItem(this.queueKey()).catch(() => undefined);
+    }
+
+    this.accountId = accountId;
+    this.memoryCache.clear();
+    this.queue = carried;
+    this.queueLoaded = null;
+    await this.loadQueue();
+
+    if (carried.length > 0) {
+      await this.persistQueue();
+    } else {
+      this.emit({ type: 'queueChanged', pending: this.queue.length });
+    }
+
+    if (this.queue.length > 0) {
+      this.sync().catch(() => undefined);
+    }
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to connectivity, queue and replay events
+   */
+  subscribe(listener: OfflineListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: OfflineEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        if (__DEV__) console.error('Offline listener error:', error);
+      }
+    });
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  /**
+   * Clear cached responses and pending mutations (call on logout)
+   */
+  async clear(): Promise<void> {
+    this.memoryCache.clear();
+    this.queue = [];
+
+    await this.removeStored(this.accountId);
+    this.emit({ type: 'queueChanged', pending: 0 });
+  }
+
+  private async removeStored(accountId: string | null): Promise<void> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove([
+        this.queueKey(accountId),
+        ...keys.filter((key) => key.startsWith(this.cachePrefix(accountId))),
+      ]);
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to clear offline data:', error);
+    }
+  }
+}
+
+export default new OfflineService();
@@ -1,9 +1,15 @@
 import apiService from './api';
+import appLockService from './appLock';
+import { endpoints } from './endpoints';
 import {
   TourPayment,
   TourMemberPayout,
   CreateTourPaymentData,
   CreateMemberPayoutData,
+  Metadata,
+  MutationResponse,
+  PaymentIntentConfirmation,
+  VenuePayment,
 } from '../types';
 
 /**
@@ -23,14 +29,14 @@ class PaymentService {
     band_id?: string;
     status?: string;
   }): Promise<TourPayment[]> {
-    return await apiService.get('/tour-payments', params);
+    return await apiService.call(endpoints.tourPayments.list, { query: params });
   }
 
   /**
    * Get tour payment by ID
    */
   async getTourPayment(paymentId: string): Promise<TourPayment> {
-    return await apiService.get(`/tour-payments/${paymentId}`);
+    return await apiService.call(endpoints.tourPayments.getById, { params: { paymentId } });
   }
 
   /**
@@ -41,7 +47,7 @@ class PaymentService {
     payment: TourPayment;
     message: string;
   }> {
-    return await apiService.post('/tour-payments', data);
+    return await apiService.call(endpoints.tourPayments.create, { body: data });
   }
 
   /**
@@ -51,7 +57,7 @@ class PaymentService {
     paymentId: string,
     data: Partial<CreateTourPaymentData>
   ): Promise<TourPayment> {
-    return await apiService.put(`/tour-payments/${paymentId}`, data);
+    return await apiService.call(endpoints.tourPayments.update, { params: { paymentId }, body: data });
   }
 
   /**
@@ -61,7 +67,7 @@ class PaymentService {
     paymentId: string,
     status: 'pending' | 'succeeded' | 'failed' | 'cancelled'
   ): Promise<TourPayment> {
-    return await apiService.put(`/tour-payments/${paymentId}/status`, { status });
+    return await apiService.call(endpoints.tourPayments.updateStatus, { params: { paymentId }, body: { status } });
   }
 
   // ============================================================================
@@ -72,7 +78,7 @@ class PaymentService {
    * Get member payouts for a tour payment
    */
   async getMemberPayouts(tourPaymentId: string): Promise<TourMemberPayout[]> {
-    return await apiService.get(`/tour-payments/${tourPaymentId}/member-payouts`);
+    return await apiService.call(endpoints.tourPayments.memberPayouts, { params: { tourPaymentId } });
   }
 
   /**
@@ -86,13 +92,15 @@ class PaymentService {
     payouts: TourMemberPayout[];
     message: string;
   }> {
-    return await apiService.post(`/tour-payments/${tourPaymentId}/member-payouts`, {
-      payouts,
+    return await apiService.call(endpoints.tourPayments.distributeMemberPayouts, {
+      params: { tourPaymentId },
+      body: { payouts },
     });
   }
 
   /**
    * Update member payout
+   * Queued for replay if the device is offline (throws OfflineQueuedError)
    */
   async updateMemberPayout(
     tourPaymentId: string,
@@ -105,21 +113,35 @@ class PaymentService {
       notes?: string;
     }
   ): Promise<TourMemberPayout> {
-    return await apiService.put(`/tour-payments/${tourPaymentId}/member-payouts/${payoutId}`, data);
+    return await apiService.call(
+      endpoints.tourPayments.updateMemberPayout,
+      { params: { tourPaymentId, payoutId }, body: data },
+      { queueOffline: true, offlineTag: 'payouts' }
+    );
   }
 
   /**
    * Mark payout as paid
+   * The user confirms with biometrics or their PIN first (throws StepUpError if not).
+   * Queued for replay if the device is offline (throws OfflineQueuedError)
    */
   async markPayoutAsPaid(
     tourPaymentId: string,
     payoutId: string,
     transactionHash?: string
   ): Promise<TourMemberPayout> {
-    return await apiService.put(`/tour-payments/${tourPaymentId}/member-payouts/${payoutId}`, {
-      payout_status: 'succeeded',
-      transaction_hash: transactionHash,
-    });
+    await appLockService.confirm('Confirm payout');
+    return await apiService.call(
+      endpoints.tourPayments.updateMemberPayout,
+      {
+        params: { tourPaymentId, payoutId },
+        body: {
+          payout_status: 'succeeded',
+          transaction_hash: transactionHash,
+        },
+      },
+      { queueOffline: true, offlineTag: 'payouts' }
+    );
   }
 
   // ============================================================================
@@ -129,9 +151,9 @@ class PaymentService {
   /**
    * Get venue payments
    */
-  async getVenuePayments(venueId?: string): Promise<any[]> {
+  async getVenuePayments(venueId?: string): Promise<VenuePayment[]> {
     const params = venueId ? { venue_id: venueId } : undefined;
-    return await apiService.get('/venue-payments', params);
+    return await apiService.call(endpoints.venuePayments.list, { query: params });
   }
 
   /**
@@ -144,8 +166,8 @@ class PaymentService {
     payment_method?: string;
     transaction_hash?: string;
     notes?: string;
-  }): Promise<any> {
-    return await apiService.post('/venue-payments', data);
+  }): Promise<MutationResponse & { payment: VenuePayment }> {
+    return await apiService.call(endpoints.venuePayments.create, { body: data });
   }
 
   // ============================================================================
@@ -159,19 +181,19 @@ class PaymentService {
     amount: number;
     currency?: string;
     description?: string;
-    metadata?: any;
+    metadata?: Metadata;
   }): Promise<{
     clientSecret: string;
     paymentIntentId: string;
   }> {
-    return await apiService.post('/payments/create-payment-intent', data);
+    return await apiService.call(endpoints.payments.createPaymentIntent, { body: data });
   }
 
   /**
    * Confirm Stripe payment
    */
-  async confirmPayment(paymentIntentId: string): Promise<any> {
-    return await apiService.post(`/payments/${paymentIntentId}/confirm`, {});
+  async confirmPayment(paymentIntentId: string): Promise<PaymentIntentConfirmation> {
+    return await apiService.call(endpoints.payments.confirm, { params: { paymentIntentId }, body: {} });
   }
 
   // ============================================================================
@@ -183,7 +205,7 @@ class PaymentService {
    * Returns all payments the current user has received from gigs
    */
   async getMyPayments(): Promise<TourPayment[]> {
-    return await apiService.get('/tour-payments/my-payments');
+    return await apiService.call(endpoints.tourPayments.mine);
   }
 }
 
@@ -0,0 +1,328 @@
+import apiService from './api';
+import { endpoints } from './endpoints';
+import accountService from './accounts';
+import { Band, BandLimits, BandMember, SubscriptionSummary, User, UserType } from '../types';
+
+/**
+ * Permission Service
+ * One place that decides what the signed-in user may do, from their user
+ * type, their membership of a band, their subscription plan and the features
+ * unlocked for them (by the plan or assigned by an admin).
+ *
+ * - Rules are plain functions of the data (evaluatePermission); the service
+ *   fetches only what a permission needs and caches it briefly
+ * - A denial says why: role and membership denials hide an action, plan and
+ *   feature denials disable it with an upgrade hint (see <Can>)
+ * - The backend enforces the same rules - this only keeps the UI honest
+ *
+ * @example
+ * const { allowed } = usePermission('band.members.manage', bandId);
+ */
+
+export type Permission =
+  | 'band.create'
+  | 'band.edit'
+  | 'band.delete'
+  | 'band.leave'
+  | 'band.members.manage'
+  | 'tour.cancel'
+  | 'payments.view'
+  | 'stream.go_live'
+  | 'analytics.view'
+  | 'venue.premium_content'
+  | 'admin.users.manage';
+
+/** Keys of SubscriptionSummary.features that unlock parts of the app */
+export type FeatureKey = 'live_streaming' | 'tour_analytics' | 'premium_content';
+
+/**
+ * role / membership: not something this user does - hide it.
+ * plan / feature: an upgrade would allow it - show it disabled.
+ */
+export type PermissionDenial = 'role' | 'membership' | 'plan' | 'feature';
+
+export interface PermissionDecision {
+  allowed: boolean;
+  reason?: PermissionDenial;
+  /** Why it's not allowed, for hints and alerts */
+  message?: string;
+}
+
+/** The caller's standing in one band */
+export interface BandAccess {
+  band: Band;
+  /** Active membership, null if not a member */
+  membership: BandMember | null;
+}
+
+/**
+ * Everything a decision can depend on. Missing data counts as "not known to
+ * be allowed".
+ */
+export interface PermissionSubject {
+  user: User | null;
+  subscription?: SubscriptionSummary | null;
+  bandLimits?: BandLimits | null;
+  band?: BandAccess | null;
+}
+
+type Requirement = 'subscription' | 'bandLimits' | 'band';
+type Rule = (subject: PermissionSubject) => PermissionDecision;
+
+// How long fetched access data is trusted before it's loaded again
+const CACHE_TTL_MS = 60 * 1000;
+
+const ARTIST_TYPES: UserType[] = ['user', 'band'];
+const BOOKING_TYPES: UserType[] = ['booking_agent', 'booking_manager'];
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const ALLOW: PermissionDecision = { allowed: true };
+
+function deny(reason: PermissionDenial, message: string): PermissionDecision {
+  return { allowed: false, reason, message };
+}
+
+function isUserType(user: User | null, types: UserType[]): boolean {
+  return !!user && types.includes(user.user_type);
+}
+
+function hasFeature(subject: PermissionSubject, feature: FeatureKey): boolean {
+  return !!subject.subscription?.features?.[feature];
+}
+
+function isBandOwner({ user, band }: PermissionSubject): boolean {
+  return !!user && !!band && (band.band.user_id === user.id || !!band.membership?.permissions.is_owner);
+}
+
+function isBandManager({ user, band }: PermissionSubject): boolean {
+  return !!user && !!band?.band.booking_manager_id && band.band.booking_manager_id === user.id;
+}
+
+/**
+ * Band owners can do anything in their band; other members only what their
+ * membership permissions allow
+ */
+function bandRule(
+  flag: 'can_modify_profile' | 'can_manage_members' | null,
+  message: string,
+  options: { bookingManager?: boolean } = {}
+): Rule {
+  return (subject) => {
+    if (isBandOwner(subject)) return ALLOW;
+    if (options.bookingManager && isBandManager(subject)) return ALLOW;
+    if (flag && subject.band?.membership?.permissions[flag]) return ALLOW;
+    return deny('membership', message);
+  };
+}
+
+/**
+ * A feature unlocked by the plan or an admin, for the given user types
+ */
+function featureRule(types: UserType[] | null, feature: FeatureKey, message: string): Rule {
+  return (subject) => {
+    if (types && !isUserType(subject.user, types)) {
+      return deny('role', 'Not available for your account type.');
+    }
+    return hasFeature(subject, feature) ? ALLOW : deny('feature', message);
+  };
+}
+
+const RULES: Record<Permission, { requires: Requirement[]; rule: Rule }> = {
+  'band.create': {
+    requires: ['bandLimits'],
+    rule: ({ user, bandLimits }) => {
+      if (!isUserType(user, ARTIST_TYPES)) return deny('role', 'Only artist accounts can create bands.');
+      if (!bandLimits) {
+        return deny('plan', 'Couldn\'t check how many bands your plan allows. Try again in a moment.');
+      }
+      if (!bandLimits.canCreateMore) {
+        return deny('plan', `Your ${bandLimits.planName} plan allows ${bandLimits.maxBands} band${bandLimits.maxBands === 1 ? '' : 's'}. Upgrade to create more.`);
+      }
+      return ALLOW;
+    },
+  },
+  'band.edit': {
+    requires: ['band'],
+    rule: bandRule('can_modify_profile', 'Only the band owner and members allowed to edit the band can do this.', {
+      bookingManager: true,
+    }),
+  },
+  'band.delete': {
+    requires: ['band'],
+    rule: bandRule(null, 'Only the band owner can delete the band.'),
+  },
+  'band.leave': {
+    requires: ['band'],
+    rule: (subject) => {
+      if (isBandOwner(subject)) return deny('membership', 'The band owner can\'t leave the band.');
+      return subject.band?.membership ? ALLOW : deny('membership', 'You\'re not a member of this band.');
+    },
+  },
+  'band.members.manage': {
+    requires: ['band'],
+    rule: bandRule('can_manage_members', 'Only the band owner and members allowed to manage members can do this.'),
+  },
+  'tour.cancel': {
+    requires: ['band'],
+    rule: (subject) =>
+      isUserType(subject.user, BOOKING_TYPES)
+        ? ALLOW
+        : bandRule('can_modify_profile', 'Only the band owner, its booking manager or the booking agent can cancel a gig.', {
+            bookingManager: true,
+          })(subject),
+  },
+  'payments.view': {
+    requires: [],
+    rule: ({ user }) =>
+      isUserType(user, [...ARTIST_TYPES, ...BOOKING_TYPES, 'studio', 'bar'])
+        ? ALLOW
+        : deny('role', 'Not available for your account type.'),
+  },
+  'stream.go_live': {
+    requires: ['subscription'],
+    rule: featureRule(null, 'live_streaming', 'Live streaming is part of the Pro plan.'),
+  },
+  'analytics.view': {
+    requires: ['subscription'],
+    rule: featureRule(null, 'tour_analytics', 'Analytics are part of the Pro plan.'),
+  },
+  'venue.premium_content': {
+    requires: ['subscription'],
+    rule: featureRule(['bar'], 'premium_content', 'Premium content needs a premium venue plan.'),
+  },
+  'admin.users.manage': {
+    requires: [],
+    rule: ({ user }) =>
+      user?.user_type === 'booking_manager' || (user?.user_type === 'booking_agent' && user.is_admin_agent)
+        ? ALLOW
+        : deny('role', 'Only admins can manage users.'),
+  },
+};
+
+/**
+ * Decide a permission from data already at hand
+ */
+export function evaluatePermission(permission: Permission, subject: PermissionSubject): PermissionDecision {
+  if (!subject.user) return deny('role', 'Sign in to continue.');
+  return RULES[permission].rule(subject);
+}
+
+/**
+ * Plan and feature denials can be lifted by upgrading - show those actions disabled rather than hidden
+ */
+export function isUpgradeable(decision: PermissionDecision): boolean {
+  return decision.reason === 'plan' || decision.reason === 'feature';
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  loadedAt: number;
+}
+
+class PermissionService {
+  private subscription: CacheEntry<SubscriptionSummary | null> | null = null;
+  private bandLimits: CacheEntry<BandLimits | null> | null = null;
+  private bands: Map<string, CacheEntry<BandAccess | null>> = new Map();
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    // Access belongs to the account it was loaded for
+    accountService.subscribe(() => this.invalidate());
+  }
+
+  /**
+   * Check a permission for `user`. Band permissions need the band (`bandId`).
+   */
+  async check(permission: Permission, user: User | null, bandId?: string): Promise<PermissionDecision> {
+    if (!user) return evaluatePermission(permission, { user });
+
+    const { requires } = RULES[permission];
+    const [subscription, bandLimits, band] = await Promise.all([
+      requires.includes('subscription') ? this.getSubscription() : undefined,
+      requires.includes('bandLimits') ? this.getBandLimits() : undefined,
+      requires.includes('band') && bandId ? this.getBandAccess(bandId, user.id) : undefined,
+    ]);
+
+    return evaluatePermission(permission, { user, subscription, bandLimits, band });
+  }
+
+  /**
+   * Forget cached access (all of it, or one band's) after something changed
+   * it - a plan change, leaving a band - and re-check everything on screen
+   */
+  invalidate(bandId?: string): void {
+    if (bandId) {
+      this.bands.delete(bandId);
+    } else {
+      this.subscription = null;
+      this.bandLimits = null;
+      this.bands.clear();
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Called after invalidate() - cached decisions may be out of date
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private getSubscription(): Promise<SubscriptionSummary | null> {
+    this.subscription = this.cached(this.subscription, async () => {
+      const { subscription } = await apiService.call(endpoints.bands.mySubscription);
+      return subscription;
+    });
+    return this.subscription.value;
+  }
+
+  private getBandLimits(): Promise<BandLimits | null> {
+    this.bandLimits = this.cached(this.bandLimits, () => apiService.call(endpoints.bands.limits));
+    return this.bandLimits.value;
+  }
+
+  private getBandAccess(bandId: string, userId: string): Promise<BandAccess | null> {
+    const entry = this.cached(this.bands.get(bandId) ?? null, async () => {
+      const [band, members] = await Promise.all([
+        apiService.call(endpoints.bands.getById, { params: { bandId } }),
+        apiService.call(endpoints.bandMembers.list, { params: { bandId } }),
+      ]);
+      const membership = members.find((member) => member.user_id === userId && member.status === 'active') ?? null;
+      return { band, membership };
+    });
+    this.bands.set(bandId, entry);
+    return entry.value;
+  }
+
+  /**
+   * Reuse a fresh entry, or load again. A failed load resolves to null (not
+   * allowed) and isn't kept, so the next check retries.
+   */
+  private cached<T>(entry: CacheEntry<T | null> | null, load: () => Promise<T>): CacheEntry<T | null> {
+    if (entry && Date.now() - entry.loadedAt < CACHE_TTL_MS) return entry;
+
+    const fresh: CacheEntry<T | null> = {
+      loadedAt: Date.now(),
+      value: load().catch((error) => {
+        if (__DEV__) console.warn('Failed to load permissions:', error);
+        fresh.loadedAt = 0;
+        return null;
+      }),
+    };
+    return fresh;
+  }
+}
+
+export default new PermissionService();
@@ -0,0 +1,398 @@
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64, encodeUTF8 } from 'tweetnacl-util';
+import accountService from './accounts';
+import encryptionService, { EncryptedMessage, KeyPair } from './encryption';
+import { readEncrypted, writeEncrypted } from './encryptedStorage';
+
+/**
+ * Ratchet Service
+ * Forward-secret sessions for 1:1 messages, after the Double Ratchet
+ * (https://signal.org/docs/specifications/doubleratchet/) on TweetNaCl
+ *
+ * - Every message has its own key, derived from a chain that only moves
+ *   forward - a leaked key or identity secret doesn't open earlier messages
+ * - Each reply carries a new X25519 ratchet key, so the chains also heal
+ *   after a compromise
+ * - The first messages carry a handshake (our identity key and an ephemeral
+ *   key) so the recipient can start the session; the identity keys are the
+ *   ones exchanged through the API and shown as safety numbers
+ * - Messages that arrive out of order keep their keys until they show up
+ *   (bounded by MAX_SKIP)
+ *
+ * Sessions are stored encrypted (see encryptedStorage). Message keys are
+ * used once, so messageService keeps the plaintext it has read.
+ */
+
+// Marks a ratchet message in Message.encrypted_content
+const ENVELOPE_PREFIX = 'dr1.';
+const SESSIONS_KEY = 'e2ee_ratchet_sessions';
+
+// Most message keys skipped over in one step, and kept per session
+const MAX_SKIP = 1000;
+const MAX_STORED_SKIPPED = 2000;
+// Sessions kept per contact - both sides may start one at the same time
+const MAX_SESSIONS_PER_CONTACT = 3;
+
+const ROOT_INFO = decodeUTF8('ArtistSpaceRatchetRoot');
+
+export interface RatchetHeader {
+  /** Sender's current ratchet public key */
+  dh: string;
+  /** Number of the message in the sending chain */
+  n: number;
+  /** Length of the sender's previous sending chain */
+  pn: number;
+  /** Handshake until the recipient replies: sender's identity and ephemeral keys */
+  ik?: string;
+  ek?: string;
+}
+
+export interface RatchetSession {
+  remote_identity_key: string;
+  /** Ephemeral key from the handshake that started the session */
+  handshake_key: string;
+  root_key: string;
+  dh_self: KeyPair;
+  dh_remote?: string;
+  sending_key?: string;
+  sending_count: number;
+  receiving_key?: string;
+  receiving_count: number;
+  previous_count: number;
+  /** Keys of messages that haven't arrived yet, by `${dh}:${n}` */
+  skipped: Record<string, string>;
+  /** Sent with every message until the other side replies */
+  pending_handshake?: { ik: string; ek: string };
+}
+
+// ============================================================================
+// KEY DERIVATION
+// ============================================================================
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function dh(secretKey: string, publicKey: string): Uint8Array {
+  return nacl.scalarMult(decodeBase64(secretKey), decodeBase64(publicKey));
+}
+
+/**
+ * Root step: new root key and chain key from a DH output
+ */
+function kdfRoot(rootKey: string, dhOutput: Uint8Array): [string, string] {
+  const output = nacl.hash(concat(ROOT_INFO, decodeBase64(rootKey), dhOutput));
+  return [encodeBase64(output.slice(0, 32)), encodeBase64(output.slice(32))];
+}
+
+/**
+ * Chain step: next chain key and this message's key
+ */
+function kdfChain(chainKey: string): [string, string] {
+  const key = decodeBase64(chainKey);
+  return [
+    encodeBase64(nacl.hash(concat(key, new Uint8Array([2]))).slice(0, 32)),
+    encodeBase64(nacl.hash(concat(key, new Uint8Array([1]))).slice(0, 32)),
+  ];
+}
+
+/**
+ * Mix the header into the message key, so a tampered header fails to decrypt
+ */
+function bindHeader(messageKey: string, header: RatchetHeader): string {
+  const associated = decodeUTF8([header.dh, header.n, header.pn, header.ik ?? '', header.ek ?? ''].join('.'));
+  return encodeBase64(nacl.hash(concat(decodeBase64(messageKey), associated)).slice(0, 32));
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+function copy(session: RatchetSession): RatchetSession {
+  return JSON.parse(JSON.stringify(session));
+}
+
+/**
+ * Start a session with someone we haven't heard from
+ */
+export function initiateSession(identity: KeyPair, remoteIdentityKey: string): RatchetSession {
+  const ephemeral = encryptionService.generateKeyPair();
+  const sharedSecret = encodeBase64(nacl.hash(dh(identity.secretKey, remoteIdentityKey)).slice(0, 32));
+  const [rootKey, sendingKey] = kdfRoot(sharedSecret, dh(ephemeral.secretKey, remoteIdentityKey));
+
+  return {
+    remote_identity_key: remoteIdentityKey,
+    handshake_key: ephemeral.publicKey,
+    root_key: rootKey,
+    dh_self: ephemeral,
+    dh_remote: remoteIdentityKey,
+    sending_key: sendingKey,
+    sending_count: 0,
+    receiving_count: 0,
+    previous_count: 0,
+    skipped: {},
+    pending_handshake: { ik: identity.publicKey, ek: ephemeral.publicKey },
+  };
+}
+
+/**
+ * Start the other side of a session from a handshake message. Decrypting the
+ * message completes it.
+ */
+export function acceptSession(identity: KeyPair, header: RatchetHeader): RatchetSession {
+  if (!header.ik || !header.ek) {
+    throw new Error('Message does not start a session');
+  }
+  const sharedSecret = encodeBase64(nacl.hash(dh(identity.secretKey, header.ik)).slice(0, 32));
+
+  return {
+    remote_identity_key: header.ik,
+    handshake_key: header.ek,
+    root_key: sharedSecret,
+    // Our identity key is the first ratchet key; the first step replaces it
+    dh_self: identity,
+    sending_count: 0,
+    receiving_count: 0,
+    previous_count: 0,
+    skipped: {},
+  };
+}
+
+/**
+ * Encrypt the next message. Returns the advanced session - store it before
+ * sending.
+ */
+export function ratchetEncrypt(
+  session: RatchetSession,
+  plaintext: string
+): { session: RatchetSession; header: RatchetHeader; message: EncryptedMessage } {
+  const next = copy(session);
+  if (!next.sending_key) {
+    throw new Error('Session has no sending chain yet');
+  }
+
+  const [chainKey, messageKey] = kdfChain(next.sending_key);
+  const header: RatchetHeader = {
+    dh: next.dh_self.publicKey,
+    n: next.sending_count,
+    pn: next.previous_count,
+    ...next.pending_handshake,
+  };
+  next.sending_key = chainKey;
+  next.sending_count += 1;
+
+  return { session: next, header, message: encryptionService.encryptWithKey(plaintext, bindHeader(messageKey, header)) };
+}
+
+/**
+ * Decrypt a message. Throws if it isn't for this session; the session
+ * passed in is left untouched either way.
+ */
+export function ratchetDecrypt(
+  session: RatchetSession,
+  header: RatchetHeader,
+  message: EncryptedMessage
+): { session: RatchetSession; plaintext: string } {
+  const next = copy(session);
+
+  // Arrived late - its key was kept when a later message came in
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = next.skipped[skippedId];
+  if (skippedKey) {
+    delete next.skipped[skippedId];
+    return { session: next, plaintext: encryptionService.decryptWithKey(message, bindHeader(skippedKey, header)) };
+  }
+
+  // They've replied with a new ratchet key - finish our receiving chain and step
+  if (header.dh !== next.dh_remote) {
+    skipMessageKeys(next, header.pn);
+    dhRatchet(next, header.dh);
+  }
+
+  skipMessageKeys(next, header.n);
+  const [chainKey, messageKey] = kdfChain(next.receiving_key!);
+  next.receiving_key = chainKey;
+  next.receiving_count += 1;
+
+  const plaintext = encryptionService.decryptWithKey(message, bindHeader(messageKey, header));
+  // They could only have written this with the session - no more handshakes
+  delete next.pending_handshake;
+  return { session: next, plaintext };
+}
+
+function skipMessageKeys(session: RatchetSession, until: number): void {
+  if (!session.receiving_key) return;
+  if (until - session.receiving_count > MAX_SKIP) {
+    throw new Error('Too many skipped messages');
+  }
+
+  while (session.receiving_count < until) {
+    const [chainKey, messageKey] = kdfChain(session.receiving_key);
+    session.skipped[`${session.dh_remote}:${session.receiving_count}`] = messageKey;
+    session.receiving_key = chainKey;
+    session.receiving_count += 1;
+  }
+
+  // Forget the oldest keys past the cap - those messages are most likely lost
+  const ids = Object.keys(session.skipped);
+  ids.slice(0, Math.max(0, ids.length - MAX_STORED_SKIPPED)).forEach((id) => delete session.skipped[id]);
+}
+
+function dhRatchet(session: RatchetSession, remoteKey: string): void {
+  session.previous_count = session.sending_count;
+  session.sending_count = 0;
+  session.receiving_count = 0;
+  session.dh_remote = remoteKey;
+  [session.root_key, session.receiving_key] = kdfRoot(session.root_key, dh(session.dh_self.secretKey, remoteKey));
+
+  session.dh_self = encryptionService.generateKeyPair();
+  [session.root_key, session.sending_key] = kdfRoot(session.root_key, dh(session.dh_self.secretKey, remoteKey));
+}
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+/**
+ * Whether ciphertext from the server is a ratchet message (rather than one
+ * encrypted directly with the identity keys)
+ */
+export function isRatchetMessage(ciphertext: string): boolean {
+  return ciphertext.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Pack the header with the ciphertext, so the API carries ratchet messages
+ * in the same fields as before
+ */
+function encodeEnvelope(header: RatchetHeader, message: EncryptedMessage): EncryptedMessage {
+  const encodedHeader = encodeBase64(decodeUTF8(JSON.stringify(header)));
+  return { ciphertext: `${ENVELOPE_PREFIX}${encodedHeader}.${message.ciphertext}`, nonce: message.nonce };
+}
+
+function decodeEnvelope(envelope: EncryptedMessage): { header: RatchetHeader; message: EncryptedMessage } {
+  const [encodedHeader, ciphertext] = envelope.ciphertext.slice(ENVELOPE_PREFIX.length).split('.');
+  return {
+    header: JSON.parse(encodeUTF8(decodeBase64(encodedHeader))),
+    message: { ciphertext, nonce: envelope.nonce },
+  };
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+class RatchetService {
+  // Sessions by contact, newest first (null = not loaded for this account)
+  private sessions: Record<string, RatchetSession[]> | null = null;
+  // Each step needs the state the previous one left behind
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    // Sessions are per account
+    accountService.subscribe(() => {
+      this.sessions = null;
+    });
+  }
+
+  /**
+   * Encrypt a message for `userId`, starting a session if there's none for
+   * their current identity key
+   */
+  async encrypt(userId: string, remoteIdentityKey: string, plaintext: string): Promise<EncryptedMessage> {
+    return this.exclusive(async () => {
+      const sessions = await this.load();
+      let [session] = sessions[userId] ?? [];
+      if (!session || session.remote_identity_key !== remoteIdentityKey) {
+        session = initiateSession(await encryptionService.initializeKeys(), remoteIdentityKey);
+      }
+
+      const { session: next, header, message } = ratchetEncrypt(session, plaintext);
+      await this.save(userId, next);
+      return encodeEnvelope(header, message);
+    });
+  }
+
+  /**
+   * Decrypt a ratchet message from `userId`, whose identity key is
+   * `remoteIdentityKey`
+   */
+  async decrypt(userId: string, remoteIdentityKey: string, envelope: EncryptedMessage): Promise<string> {
+    return this.exclusive(async () => {
+      const { header, message } = decodeEnvelope(envelope);
+      const sessions = (await this.load())[userId] ?? [];
+
+      for (const session of sessions) {
+        try {
+          const { session: next, plaintext } = ratchetDecrypt(session, header, message);
+          await this.save(userId, next);
+          return plaintext;
+        } catch {
+          // Not this session - try an older one
+        }
+      }
+
+      // A new session. The handshake may be for an identity key we've since rotated.
+      if (header.ek && !sessions.some((session) => session.handshake_key === header.ek)) {
+        if (header.ik !== remoteIdentityKey) {
+          throw new Error('Session started with an unexpected identity key');
+        }
+
+        const keyPairs = [await encryptionService.initializeKeys(), ...(await encryptionService.getPreviousKeyPairs())];
+        for (const keyPair of keyPairs) {
+          try {
+            const { session, plaintext } = ratchetDecrypt(acceptSession(keyPair, header), header, message);
+            await this.save(userId, session);
+            return plaintext;
+          } catch {
+            // Not for this key pair
+          }
+        }
+      }
+
+      throw new Error('No session can decrypt this message');
+    });
+  }
+
+  /**
+   * Drop the sessions with a contact - the next message starts a new one
+   */
+  async resetSession(userId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const sessions = await this.load();
+      delete sessions[userId];
+      await writeEncrypted(SESSIONS_KEY, sessions);
+    });
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Record<string, RatchetSession[]>> {
+    if (!this.sessions) {
+      this.sessions = (await readEncrypted<Record<string, RatchetSession[]>>(SESSIONS_KEY)) ?? {};
+    }
+    return this.sessions;
+  }
+
+  /**
+   * Make `session` the one to send with and persist
+   */
+  private async save(userId: string, session: RatchetSession): Promise<void> {
+    const sessions = await this.load();
+    const others = (sessions[userId] ?? []).filter((other) => other.handshake_key !== session.handshake_key);
+    sessions[userId] = [session, ...others].slice(0, MAX_SESSIONS_PER_CONTACT);
+    await writeEncrypted(SESSIONS_KEY, sessions);
+  }
+}
+
+export default new RatchetService();
@@ -0,0 +1,373 @@
+import accountService from './accounts';
+import apiService from './api';
+import backendProfileService, { getMockBackend } from './backendProfiles';
+import { endpoints } from './endpoints';
+import livekitService, { LiveKitInstance, MessageData } from './livekit';
+import { RealtimeEvent, ReceiptStatus } from '../types';
+
+/**
+ * Realtime Service
+ * Pushes message activity to the app instead of screens polling for it
+ *
+ * - Events arrive on the user's inbox room on the chat LiveKit server (data
+ *   channel), or straight from the mock backend in mock mode
+ * - Typing and receipts go up through the API; the server fans them out to
+ *   the other people in the conversation
+ * - Delivered/read receipts are collected and sent in one request per
+ *   conversation. Receipts still waiting when the account changes are
+ *   dropped - they'd go out with the next account's session.
+ * - Events published by another participant are only applied if they're
+ *   about that participant
+ * - Keeps the unread count for the Messages tab badge
+ */
+
+// Someone shows as typing until this long after their last typing event
+export const TYPING_TIMEOUT_MS = 6000;
+// While the user keeps typing, tell the server again this often
+const TYPING_REFRESH_MS = 3000;
+// Receipts wait this long for more in the same conversation
+const RECEIPT_BATCH_MS = 500;
+
+/** A direct conversation or a group */
+export type RealtimeThread = { userId: string } | { groupId: string };
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+function threadKey(thread: RealtimeThread): string {
+  return 'groupId' in thread ? `group:${thread.groupId}` : `direct:${thread.userId}`;
+}
+
+/**
+ * The user an event is about (null for the server's own events)
+ */
+function eventSender(event: RealtimeEvent): string | null {
+  switch (event.type) {
+    case 'message':
+      return event.message?.sender_id ?? null;
+    case 'group_message':
+      return event.sender_id;
+    case 'typing':
+    case 'receipt':
+      return event.user_id;
+    default:
+      return null;
+  }
+}
+
+class RealtimeService {
+  private listeners: Set<RealtimeListener> = new Set();
+  // Signed-in user the channel is open for
+  private userId: string | null = null;
+  private closeChannel: (() => void) | null = null;
+  private unreadCount = 0;
+  // Who's typing in each thread, with the timer that expires them
+  private typing: Map<string, Map<string, ReturnType<typeof setTimeout>>> = new Map();
+  // When this user last said they're typing, by thread
+  private typingSentAt: Map<string, number> = new Map();
+  // Message IDs waiting for a receipt, by sender and status
+  private pendingReceipts: Map<string, Record<ReceiptStatus, Set<string>>> = new Map();
+  private receiptTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor() {
+    accountService.subscribe(({ account, previous }) => {
+      if (account?.id !== previous?.id) this.takeReceipts();
+    });
+  }
+
+  // ============================================================================
+  // CONNECTION
+  // ============================================================================
+
+  /**
+   * Open the realtime channel for the signed-in user. Without it the app
+   * still works - screens load on focus and pull-to-refresh.
+   */
+  async start(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    await this.stop();
+    this.userId = userId;
+
+    try {
+      let close: () => void;
+      if (backendProfileService.getActiveProfile().mock) {
+        const token = (await apiService.getStoredToken()) ?? '';
+        close = getMockBackend().connectRealtime(token, (event) => this.handleEvent(event));
+      } else {
+        const unsubscribe = livekitService.onMessage(LiveKitInstance.CHAT, (message, senderIdentity) =>
+          this.handleData(message, senderIdentity)
+        );
+        await livekitService.connect(LiveKitInstance.CHAT, `inbox-${userId}`, {
+          participantName: userId,
+          video: false,
+          audio: false,
+        });
+        close = () => {
+          unsubscribe();
+          livekitService.disconnect(LiveKitInstance.CHAT).catch(() => undefined);
+        };
+      }
+
+      // Signed out or switched accounts while connecting
+      if (this.userId !== userId) {
+        close();
+        return;
+      }
+      this.closeChannel = close;
+      await this.refreshUnreadCount();
+    } catch (error) {
+      if (__DEV__) console.warn('Realtime channel unavailable:', error);
+    }
+  }
+
+  /**
+   * Send any waiting receipts and close the channel (call on sign-out)
+   */
+  async stop(): Promise<void> {
+    if (!this.userId) return;
+
+    await this.flushReceipts();
+    this.closeChannel?.();
+    this.closeChannel = null;
+    this.userId = null;
+    this.handleEvent({ type: 'unread', total: 0 });
+    this.typing.forEach((users) => users.forEach((timer) => clearTimeout(timer)));
+    this.typing.clear();
+    this.typingSentAt.clear();
+  }
+
+  isConnected(): boolean {
+    return this.closeChannel !== null;
+  }
+
+  /**
+   * Subscribe to pushed events. Typing that times out is reported as
+   * `typing: false`.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: RealtimeListener): () => void {
+    this.listeners.add(listener);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================================================
+  // UNREAD COUNT
+  // ============================================================================
+
+  /**
+   * Unread direct and group messages, as last pushed by the server
+   */
+  getUnreadCount(): number {
+    return this.unreadCount;
+  }
+
+  async refreshUnreadCount(): Promise<number> {
+    const { total } = await apiService.call(endpoints.messages.unread, {}, { cachePolicy: 'network-only' });
+    this.handleEvent({ type: 'unread', total });
+    return total;
+  }
+
+  // ============================================================================
+  // TYPING
+  // ============================================================================
+
+  /**
+   * Users typing in a thread right now
+   */
+  getTypingUsers(thread: RealtimeThread): string[] {
+    return Array.from(this.typing.get(threadKey(thread))?.keys() ?? []);
+  }
+
+  /**
+   * Tell the thread whether this user is typing. Call on every keystroke -
+   * repeats are only sent every few seconds.
+   */
+  setTyping(thread: RealtimeThread, typing: boolean): void {
+    if (!this.userId) return;
+
+    const key = threadKey(thread);
+    const sentAt = this.typingSentAt.get(key);
+    if (typing && sentAt !== undefined && Date.now() - sentAt < TYPING_REFRESH_MS) return;
+    if (!typing && sentAt === undefined) return;
+
+    if (typing) {
+      this.typingSentAt.set(key, Date.now());
+    } else {
+      this.typingSentAt.delete(key);
+    }
+
+    const request =
+      'groupId' in thread
+        ? apiService.call(endpoints.groups.typing, { params: { groupId: thread.groupId }, body: { typing } })
+        : apiService.call(endpoints.messages.typing, { params: { userId: thread.userId }, body: { typing } });
+    request.catch(() => undefined);
+  }
+
+  // ============================================================================
+  // RECEIPTS
+  // ============================================================================
+
+  /**
+   * Tell `senderId` their messages reached this device
+   */
+  markDelivered(senderId: string, messageIds: string[]): void {
+    this.queueReceipts(senderId, 'delivered', messageIds);
+  }
+
+  /**
+   * Tell `senderId` their messages were read (reading implies delivery)
+   */
+  markRead(senderId: string, messageIds: string[]): void {
+    this.queueReceipts(senderId, 'read', messageIds);
+  }
+
+  /**
+   * Send waiting receipts now
+   */
+  async flushReceipts(): Promise<void> {
+    await Promise.all(
+      this.takeReceipts().map(async ([userId, receipts]) => {
+        const read = Array.from(receipts.read);
+        const delivered = Array.from(receipts.delivered).filter((id) => !receipts.read.has(id));
+        try {
+          if (read.length > 0) {
+            await apiService.call(endpoints.messages.receipts, {
+              params: { userId },
+              body: { status: 'read', message_ids: read },
+            });
+          }
+          if (delivered.length > 0) {
+            await apiService.call(endpoints.messages.receipts, {
+              params: { userId },
+              body: { status: 'delivered', message_ids: delivered },
+            });
+          }
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to send receipts:', error);
+        }
+      })
+    );
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Waiting receipts, removed from the queue
+   */
+  private takeReceipts(): [string, Record<ReceiptStatus, Set<string>>][] {
+    if (this.receiptTimer) {
+      clearTimeout(this.receiptTimer);
+      this.receiptTimer = null;
+    }
+    const pending = Array.from(this.pendingReceipts);
+    this.pendingReceipts.clear();
+    return pending;
+  }
+
+  private queueReceipts(senderId: string, status: ReceiptStatus, messageIds: string[]): void {
+    if (messageIds.length === 0) return;
+
+    const receipts = this.pendingReceipts.get(senderId) ?? { delivered: new Set(), read: new Set() };
+    messageIds.forEach((id) => receipts[status].add(id));
+    this.pendingReceipts.set(senderId, receipts);
+
+    if (!this.receiptTimer) {
+      this.receiptTimer = setTimeout(() => {
+        this.receiptTimer = null;
+        this.flushReceipts();
+      }, RECEIPT_BATCH_MS);
+    }
+  }
+
+  /**
+   * Server events on the LiveKit data channel are system messages with the
+   * event as JSON. Anyone else in the room can publish too, so their events
+   * must be about themselves - nobody else's typing, receipts or messages,
+   * and never the unread count.
+   */
+  private handleData(message: MessageData, senderIdentity?: string): void {
+    if (message.type !== 'system') return;
+
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(message.content);
+    } catch (error) {
+      if (__DEV__) console.warn('Ignoring malformed realtime event:', error);
+      return;
+    }
+
+    if (senderIdentity !== undefined && eventSender(event) !== senderIdentity) {
+      if (__DEV__) console.warn(`Ignoring ${event.type} event published by ${senderIdentity}`);
+      return;
+    }
+    this.handleEvent(event);
+  }
+
+  private handleEvent(event: RealtimeEvent): void {
+    switch (event.type) {
+      case 'message':
+        this.markDelivered(event.message.sender_id, [event.message.id]);
+        this.stopTyping({ userId: event.message.sender_id }, event.message.sender_id);
+        break;
+      case 'group_message':
+        this.stopTyping({ groupId: event.group_id }, event.sender_id);
+        break;
+      case 'typing': {
+        const thread = event.group_id ? { groupId: event.group_id } : { userId: event.user_id };
+        if (event.typing) {
+          this.startTyping(thread, event.user_id);
+        } else {
+          this.stopTyping(thread, event.user_id);
+        }
+        break;
+      }
+      case 'unread':
+        this.unreadCount = event.total;
+        break;
+    }
+    this.notify(event);
+  }
+
+  private startTyping(thread: RealtimeThread, userId: string): void {
+    const key = threadKey(thread);
+    const users = this.typing.get(key) ?? new Map();
+    clearTimeout(users.get(userId));
+    users.set(
+      userId,
+      setTimeout(() => {
+        this.stopTyping(thread, userId);
+        const groupId = 'groupId' in thread ? thread.groupId : undefined;
+        this.notify({ type: 'typing', user_id: userId, group_id: groupId, typing: false });
+      }, TYPING_TIMEOUT_MS)
+    );
+    this.typing.set(key, users);
+  }
+
+  private stopTyping(thread: RealtimeThread, userId: string): void {
+    const key = threadKey(thread);
+    const users = this.typing.get(key);
+    if (!users?.has(userId)) return;
+
+    clearTimeout(users.get(userId));
+    users.delete(userId);
+    if (users.size === 0) this.typing.delete(key);
+  }
+
+  private notify(event: RealtimeEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        if (__DEV__) console.error('Realtime listener error:', error);
+      }
+    });
+  }
+}
+
+export default new RealtimeService();
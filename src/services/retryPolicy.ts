@@ -0,0 +1,161 @@
+/**
+ * Retry Policy
+ * Decides whether a failed request should be retried and how long to wait
+ *
+ * - Exponential backoff with full jitter so clients don't retry in lockstep
+ * - Honors the server's Retry-After hint on 429s, backing off as usual without one
+ * - Only replays non-idempotent requests (POST/PATCH) when the server can't
+ *   have processed them (429) or when the caller supplied an idempotency key
+ */
+
+export interface RetryPolicy {
+  /** Number of retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Delay before the first retry, doubled on every attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Give up instead of waiting if the server asks us to back off longer than this */
+  maxRetryAfterMs: number;
+  /** Response statuses considered transient */
+  retryStatuses: number[];
+  /** Retry requests that never got a response (timeouts, dropped connections) */
+  retryNetworkErrors: boolean;
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  status?: number;
+  method: string;
+  endpoint: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 30000,
+  retryStatuses: [429, 502, 503, 504],
+  retryNetworkErrors: true,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+interface RetryableError {
+  status?: number;
+  data?: unknown;
+}
+
+/**
+ * True for methods that are safe to send twice
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toLowerCase());
+}
+
+/**
+ * The back-off a 429 response asks for, in milliseconds: the Retry-After
+ * header (seconds or an HTTP date), else the body's retryAfter (seconds) or
+ * retryAfterMinutes. Undefined if it names none.
+ */
+export function parseRetryAfter(header: unknown, body: unknown, now: number = Date.now()): number | undefined {
+  if (typeof header === 'string' && header.trim()) {
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - now;
+    if (Number.isFinite(ms)) return Math.max(0, ms);
+  }
+
+  const data = body as Record<string, unknown> | undefined;
+  if (typeof data?.retryAfter === 'number' && data.retryAfter >= 0) {
+    return data.retryAfter * 1000;
+  }
+  if (typeof data?.retryAfterMinutes === 'number' && data.retryAfterMinutes >= 0) {
+    return data.retryAfterMinutes * 60000;
+  }
+  return undefined;
+}
+
+/**
+ * The server's back-off hint in milliseconds, as parseRetryAfter() read it
+ * off the response
+ */
+export function getRetryAfterMs(error: RetryableError): number | undefined {
+  const retryAfterMs = (error.data as Record<string, unknown> | undefined)?.retryAfterMs;
+
+  if (typeof retryAfterMs !== 'number' || Number.isNaN(retryAfterMs) || retryAfterMs < 0) {
+    return undefined;
+  }
+  return retryAfterMs;
+}
+
+/**
+ * Backoff delay for the given retry attempt (1-based)
+ */
+export function computeRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs;
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter: anywhere between half and all of the exponential delay
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Decide whether to retry. Returns the delay in ms, or null to give up.
+ */
+export function getRetryDelay(
+  error: RetryableError,
+  method: string,
+  attempt: number,
+  policy: RetryPolicy,
+  hasIdempotencyKey: boolean = false
+): number | null {
+  if (attempt > policy.maxRetries) return null;
+
+  const status = error.status;
+  const isNetworkError = status === undefined;
+
+  if (isNetworkError && !policy.retryNetworkErrors) return null;
+  if (!isNetworkError && !policy.retryStatuses.includes(status)) return null;
+
+  // 429 means the request was rejected before processing, so it's always safe to resend
+  const safeToResend = status === 429 || isIdempotentMethod(method) || hasIdempotencyKey;
+  if (!safeToResend) return null;
+
+  const retryAfterMs = status === 429 ? getRetryAfterMs(error) : undefined;
+  if (retryAfterMs !== undefined && retryAfterMs > policy.maxRetryAfterMs) return null;
+
+  return computeRetryDelay(attempt, policy, retryAfterMs);
+}
+
+/**
+ * Promise-based sleep. Resolves early if the signal is aborted so callers can
+ * bail out without waiting out a long backoff.
+ */
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort);
+  });
+}
@@ -0,0 +1,43 @@
+import apiService, { RequestOptions } from './api';
+import { endpoints } from './endpoints';
+import { ApiResponse, DeviceInfo, DeviceSession } from '../types';
+
+/**
+ * Session API Service
+ * Devices signed in to the account, and signing them out remotely
+ */
+class SessionService {
+  // ============================================================================
+  // DEVICES & SESSIONS
+  // ============================================================================
+
+  /**
+   * Signed-in devices, including this one (`current: true`)
+   */
+  async list(options?: RequestOptions): Promise<DeviceSession[]> {
+    return await apiService.call(endpoints.authSessions.list, {}, options);
+  }
+
+  /**
+   * Update what the sessions list shows for this device (e.g. biometric sign-in toggled)
+   */
+  async updateCurrentDevice(changes: Partial<DeviceInfo>): Promise<DeviceSession> {
+    return await apiService.call(endpoints.authSessions.updateCurrent, { body: changes });
+  }
+
+  /**
+   * Sign another device out. Its next request is rejected as revoked.
+   */
+  async revoke(sessionId: string): Promise<ApiResponse> {
+    return await apiService.call(endpoints.authSessions.revoke, { params: { sessionId } });
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  async revokeOthers(): Promise<ApiResponse<{ revoked: number }>> {
+    return await apiService.call(endpoints.authSessions.revokeOthers);
+  }
+}
+
+export default new SessionService();
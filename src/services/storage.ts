@@ -1,6 +1,9 @@
 /**
  * Cross-platform storage utility
  * Uses SecureStore on native platforms and localStorage on web
+ *
+ * Per-account keys (tokens, cached user, E2EE keys) are stored under the
+ * active account scope, so several accounts can stay signed in side by side.
  */
 import { Platform } from 'react-native';
 
@@ -14,10 +17,128 @@ if (!isWeb) {
   SecureStore = require('expo-secure-store');
 }
 
+// ============================================================================
+// ACCOUNT SCOPE
+// ============================================================================
+
+/** Keys that belong to one signed-in account */
+const ACCOUNT_KEYS = [
+  'authToken',
+  'refreshToken',
+  'userData',
+  'e2ee_public_key',
+  'e2ee_secret_key',
+  'e2ee_key_timestamp',
+  'e2ee_previous_keys',
+  'e2ee_storage_key',
+];
+
+/** Per-account keys that end in an ID, e.g. one per contact */
+const ACCOUNT_KEY_PREFIXES = ['e2ee_contact_key_'];
+
+// Keys written under ACCOUNT_KEY_PREFIXES, per account - SecureStore can't
+// list what it holds, so they're recorded to be deleted with the account
+const PREFIXED_KEYS_INDEX = 'account_prefixed_keys';
+
+let accountScope: string | null = null;
+// Index updates, one at a time
+let indexQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Storage key for `key` under an account. Without an account the key is
+ * used as-is - that's where a sign-in in progress keeps its tokens.
+ */
+export function accountKey(key: string, accountId: string | null = accountScope): string {
+  if (!accountId) return key;
+  // SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+  return `${key}.${accountId.replace(/[^A-Za-z0-9._-]/g, '_')}`;
+}
+
+function isPrefixedKey(key: string): boolean {
+  return ACCOUNT_KEY_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+function resolveKey(key: string): string {
+  return ACCOUNT_KEYS.includes(key) || isPrefixedKey(key) ? accountKey(key) : key;
+}
+
+async function readPrefixedKeys(accountId: string | null): Promise<string[]> {
+  const raw = await readItem(accountKey(PREFIXED_KEYS_INDEX, accountId));
+  return raw ? JSON.parse(raw) : [];
+}
+
+function recordPrefixedKey(key: string): Promise<void> {
+  const accountId = accountScope;
+  indexQueue = indexQueue.then(async () => {
+    const keys = await readPrefixedKeys(accountId);
+    if (keys.includes(key)) return;
+    await writeItem(accountKey(PREFIXED_KEYS_INDEX, accountId), JSON.stringify([...keys, key]));
+  });
+  return indexQueue;
+}
+
+export function getAccountScope(): string | null {
+  return accountScope;
+}
+
+/**
+ * Store per-account keys under `accountId` from now on (null = no account).
+ * Keys written while no account was active - the tokens of a sign-in that
+ * just completed - are handed over to the account.
+ */
+export async function setAccountScope(accountId: string | null): Promise<void> {
+  if (accountId && !accountScope) {
+    for (const key of ACCOUNT_KEYS) {
+      const value = await readItem(key);
+      if (value !== null) {
+        await writeItem(accountKey(key, accountId), value);
+        await removeItem(key);
+      }
+    }
+  }
+
+  accountScope = accountId;
+}
+
+/**
+ * Delete everything stored for an account
+ */
+export async function clearAccountScope(accountId: string): Promise<void> {
+  const prefixed = await readPrefixedKeys(accountId);
+  for (const key of [...ACCOUNT_KEYS, ...prefixed, PREFIXED_KEYS_INDEX]) {
+    await removeItem(accountKey(key, accountId));
+  }
+}
+
+// ============================================================================
+// ITEMS
+// ============================================================================
+
 /**
  * Get an item from storage
  */
 export async function getItemAsync(key: string): Promise<string | null> {
+  return readItem(resolveKey(key));
+}
+
+/**
+ * Set an item in storage
+ */
+export async function setItemAsync(key: string, value: string): Promise<void> {
+  await writeItem(resolveKey(key), value);
+  if (isPrefixedKey(key)) {
+    await recordPrefixedKey(key);
+  }
+}
+
+/**
+ * Delete an item from storage
+ */
+export async function deleteItemAsync(key: string): Promise<void> {
+  return removeItem(resolveKey(key));
+}
+
+async function readItem(key: string): Promise<string | null> {
   if (isWeb) {
     try {
       return localStorage.getItem(key);
@@ -37,10 +158,7 @@ export async function getItemAsync(key: string): Promise<string | null> {
   }
 }
 
-/**
- * Set an item in storage
- */
-export async function setItemAsync(key: string, value: string): Promise<void> {
+async function writeItem(key: string, value: string): Promise<void> {
   if (isWeb) {
     try {
       localStorage.setItem(key, value);
@@ -56,10 +174,7 @@ export async function setItemAsync(key: string, value: string): Promise<void> {
   }
 }
 
-/**
- * Delete an item from storage
- */
-export async function deleteItemAsync(key: string): Promise<void> {
+async function removeItem(key: string): Promise<void> {
   if (isWeb) {
     try {
       localStorage.removeItem(key);
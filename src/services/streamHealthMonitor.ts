@@ -4,6 +4,7 @@
  */
 
 import apiService from './api';
+import { endpoints } from './endpoints';
 import {
   StreamHealthStats,
   StreamHealthAlert,
@@ -80,9 +81,7 @@ class StreamHealthMonitor {
   private async fetchAndAnalyzeStats(streamId: string): Promise<void> {
     try {
       // Fetch stats from backend (which calls Mux monitoring API)
-      const response = await apiService.get<MuxMonitoringData>(
-        `/mux/live-streams/${streamId}/monitoring`
-      );
+      const response = await apiService.call(endpoints.mux.monitoring, { params: { streamId } });
 
       const monitor = this.monitoring.get(streamId);
       if (!monitor) return;
@@ -1,5 +1,6 @@
 import apiService from './api';
-import { RecordingStudio, StudioSession, Equipment, RecordingFile } from '../types';
+import { endpoints } from './endpoints';
+import { RecordingStudio, StudioSession, Equipment, RecordingFile, StudioDashboardData } from '../types';
 
 /**
  * Studio API Service
@@ -14,14 +15,14 @@ class StudioService {
    * Get all studios
    */
   async getAllStudios(): Promise<RecordingStudio[]> {
-    return await apiService.get('/studios');
+    return await apiService.call(endpoints.studios.list);
   }
 
   /**
    * Get studio by ID
    */
   async getStudioById(studioId: string): Promise<RecordingStudio> {
-    return await apiService.get(`/studios/${studioId}`);
+    return await apiService.call(endpoints.studios.getById, { params: { studioId } });
   }
 
   /**
@@ -42,14 +43,21 @@ class StudioService {
     sonobus_enabled?: boolean;
     webrtc_enabled?: boolean;
   }): Promise<RecordingStudio> {
-    return await apiService.post('/studios', data);
+    return await apiService.call(endpoints.studios.create, { body: data });
   }
 
   /**
    * Update studio profile
    */
   async updateStudio(studioId: string, data: Partial<RecordingStudio>): Promise<void> {
-    return await apiService.put(`/studios/${studioId}`, data);
+    return await apiService.call(endpoints.studios.update, { params: { studioId }, body: data });
+  }
+
+  /**
+   * Get the signed-in studio's profile, sessions, pending requests and stats
+   */
+  async getStudioDashboard(): Promise<StudioDashboardData> {
+    return await apiService.call(endpoints.studios.dashboard);
   }
 
   // ============================================================================
@@ -64,14 +72,14 @@ class StudioService {
     band_id?: string;
     status?: string;
   }): Promise<StudioSession[]> {
-    return await apiService.get('/sessions', params);
+    return await apiService.call(endpoints.sessions.list, { query: params });
   }
 
   /**
    * Get session by ID
    */
   async getSessionById(sessionId: string): Promise<StudioSession> {
-    return await apiService.get(`/sessions/${sessionId}`);
+    return await apiService.call(endpoints.sessions.getById, { params: { sessionId } });
   }
 
   /**
@@ -87,7 +95,7 @@ class StudioService {
     session_notes?: string;
     livekit_room_name?: string;
   }): Promise<StudioSession> {
-    return await apiService.post('/sessions', data);
+    return await apiService.call(endpoints.sessions.create, { body: data });
   }
 
   /**
@@ -102,16 +110,19 @@ class StudioService {
       status?: string;
     }
   ): Promise<StudioSession> {
-    return await apiService.put(`/sessions/${sessionId}`, data);
+    return await apiService.call(endpoints.sessions.update, { params: { sessionId }, body: data });
   }
 
   /**
    * End session (sets end_time and calculates duration)
    */
   async endSession(sessionId: string): Promise<StudioSession> {
-    return await apiService.put(`/sessions/${sessionId}`, {
-      end_time: new Date().toISOString(),
-      status: 'completed',
+    return await apiService.call(endpoints.sessions.update, {
+      params: { sessionId },
+      body: {
+        end_time: new Date().toISOString(),
+        status: 'completed',
+      },
     });
   }
 
@@ -119,8 +130,9 @@ class StudioService {
    * Cancel session
    */
   async cancelSession(sessionId: string): Promise<void> {
-    return await apiService.put(`/sessions/${sessionId}`, {
-      status: 'cancelled',
+    await apiService.call(endpoints.sessions.update, {
+      params: { sessionId },
+      body: { status: 'cancelled' },
     });
   }
 }
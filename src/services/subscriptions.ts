@@ -1,5 +1,14 @@
 import apiService from './api';
-import { SubscriptionPlan, UserSubscription } from '../types';
+import appLockService from './appLock';
+import permissionService from './permissions';
+import { endpoints } from './endpoints';
+import {
+  MutationResponse,
+  SavedPaymentMethod,
+  SubscriptionPayment,
+  SubscriptionPlan,
+  UserSubscription,
+} from '../types';
 
 /**
  * Subscription API Service
@@ -15,14 +24,14 @@ class SubscriptionService {
    */
   async getPlans(userType?: string): Promise<SubscriptionPlan[]> {
     const params = userType ? { user_type: userType } : undefined;
-    return await apiService.get('/subscriptions/plans', params);
+    return await apiService.call(endpoints.subscriptions.plans, { query: params });
   }
 
   /**
    * Get specific plan
    */
   async getPlan(planId: string): Promise<SubscriptionPlan> {
-    return await apiService.get(`/subscriptions/plans/${planId}`);
+    return await apiService.call(endpoints.subscriptions.plan, { params: { planId } });
   }
 
   // ============================================================================
@@ -33,7 +42,7 @@ class SubscriptionService {
    * Get current user's subscription
    */
   async getMySubscription(): Promise<UserSubscription | null> {
-    return await apiService.get('/subscriptions/my-subscription');
+    return await apiService.call(endpoints.subscriptions.mine);
   }
 
   /**
@@ -49,7 +58,10 @@ class SubscriptionService {
     subscription: UserSubscription;
     message: string;
   }> {
-    return await apiService.post('/subscriptions/subscribe', data);
+    const result = await apiService.call(endpoints.subscriptions.subscribe, { body: data });
+    // Plan features changed
+    permissionService.invalidate();
+    return result;
   }
 
   /**
@@ -63,7 +75,10 @@ class SubscriptionService {
     subscription: UserSubscription;
     message: string;
   }> {
-    return await apiService.put('/subscriptions/update', data);
+    const result = await apiService.call(endpoints.subscriptions.update, { body: data });
+    // Plan features changed
+    permissionService.invalidate();
+    return result;
   }
 
   /**
@@ -74,9 +89,11 @@ class SubscriptionService {
     subscription: UserSubscription;
     message: string;
   }> {
-    return await apiService.put('/subscriptions/cancel', {
-      cancel_at_period_end: cancelAtPeriodEnd,
+    const result = await apiService.call(endpoints.subscriptions.cancel, {
+      body: { cancel_at_period_end: cancelAtPeriodEnd },
     });
+    permissionService.invalidate();
+    return result;
   }
 
   /**
@@ -87,7 +104,10 @@ class SubscriptionService {
     subscription: UserSubscription;
     message: string;
   }> {
-    return await apiService.put('/subscriptions/reactivate', {});
+    const result = await apiService.call(endpoints.subscriptions.reactivate, { body: {} });
+    // Plan features changed
+    permissionService.invalidate();
+    return result;
   }
 
   // ============================================================================
@@ -97,8 +117,8 @@ class SubscriptionService {
   /**
    * Get saved payment methods
    */
-  async getPaymentMethods(): Promise<any[]> {
-    return await apiService.get('/subscriptions/payment-methods');
+  async getPaymentMethods(): Promise<SavedPaymentMethod[]> {
+    return await apiService.call(endpoints.subscriptions.paymentMethods);
   }
 
   /**
@@ -108,22 +128,26 @@ class SubscriptionService {
     type: string;
     stripe_payment_method_id?: string;
     eth_wallet?: string;
-  }): Promise<any> {
-    return await apiService.post('/subscriptions/payment-methods', data);
+  }): Promise<SavedPaymentMethod> {
+    return await apiService.call(endpoints.subscriptions.addPaymentMethod, { body: data });
   }
 
   /**
    * Set default payment method
    */
   async setDefaultPaymentMethod(paymentMethodId: string): Promise<void> {
-    return await apiService.put(`/subscriptions/payment-methods/${paymentMethodId}/default`, {});
+    return await apiService.call(endpoints.subscriptions.setDefaultPaymentMethod, {
+      params: { paymentMethodId },
+      body: {},
+    });
   }
 
   /**
-   * Delete payment method
+   * Delete payment method, after the user confirms with biometrics or their PIN
    */
   async deletePaymentMethod(paymentMethodId: string): Promise<void> {
-    return await apiService.delete(`/subscriptions/payment-methods/${paymentMethodId}`);
+    await appLockService.confirm('Remove payment method');
+    return await apiService.call(endpoints.subscriptions.deletePaymentMethod, { params: { paymentMethodId } });
   }
 
   // ============================================================================
@@ -133,15 +157,15 @@ class SubscriptionService {
   /**
    * Get subscription payment history
    */
-  async getPaymentHistory(): Promise<any[]> {
-    return await apiService.get('/subscriptions/payments');
+  async getPaymentHistory(): Promise<SubscriptionPayment[]> {
+    return await apiService.call(endpoints.subscriptions.payments);
   }
 
   /**
    * Retry failed payment
    */
-  async retryPayment(paymentId: string): Promise<any> {
-    return await apiService.post(`/subscriptions/payments/${paymentId}/retry`, {});
+  async retryPayment(paymentId: string): Promise<MutationResponse & { payment: SubscriptionPayment }> {
+    return await apiService.call(endpoints.subscriptions.retryPayment, { params: { paymentId }, body: {} });
   }
 }
 
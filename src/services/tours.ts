@@ -1,5 +1,6 @@
-import apiService from './api';
-import { TourDate, CreateTourData, TourKPI } from '../types';
+import apiService, { RequestOptions } from './api';
+import { endpoints } from './endpoints';
+import { Band, TourDate, CreateTourData, TourKPI, Tour, MutationResponse } from '../types';
 
 /**
  * Tour API Service
@@ -13,33 +14,36 @@ class TourService {
   /**
    * Get all tour dates with filters
    */
-  async getTours(params?: {
-    status?: string;
-    band_id?: string;
-    venue_id?: string;
-  }): Promise<TourDate[]> {
-    return await apiService.get('/tours', params);
+  async getTours(
+    params?: {
+      status?: string;
+      band_id?: string;
+      venue_id?: string;
+    },
+    options?: RequestOptions
+  ): Promise<TourDate[]> {
+    return await apiService.call(endpoints.tours.list, { query: params }, options);
   }
 
   /**
    * Get my tour dates (as a band member)
    */
-  async getMyTours(): Promise<TourDate[]> {
-    return await apiService.get('/tours/my-tours');
+  async getMyTours(options?: RequestOptions): Promise<TourDate[]> {
+    return await apiService.call(endpoints.tours.mine, {}, options);
   }
 
   /**
    * Get all tour dates for a specific tour
    */
-  async getTourDates(tourId: string): Promise<TourDate[]> {
-    return await apiService.get(`/tours/tour/${tourId}`);
+  async getTourDates(tourId: string, options?: RequestOptions): Promise<TourDate[]> {
+    return await apiService.call(endpoints.tours.datesForTour, { params: { tourId } }, options);
   }
 
   /**
    * Create new tour date
    */
   async createTour(data: CreateTourData): Promise<TourDate> {
-    return await apiService.post('/tours', data);
+    return await apiService.call(endpoints.tours.create, { body: data });
   }
 
   /**
@@ -57,14 +61,14 @@ class TourService {
       notes?: string;
     }
   ): Promise<TourDate> {
-    return await apiService.put(`/tours/${tourId}`, data);
+    return await apiService.call(endpoints.tours.update, { params: { tourId }, body: data });
   }
 
   /**
    * Delete/cancel tour date
    */
   async cancelTour(tourId: string): Promise<void> {
-    return await apiService.put(`/tours/${tourId}`, { status: 'cancelled' });
+    await apiService.call(endpoints.tours.update, { params: { tourId }, body: { status: 'cancelled' } });
   }
 
   // ============================================================================
@@ -74,12 +78,13 @@ class TourService {
   /**
    * Get KPIs for a tour
    */
-  async getTourKPIs(tourId: string): Promise<TourKPI> {
-    return await apiService.get(`/tours/${tourId}/kpis`);
+  async getTourKPIs(tourId: string, options?: RequestOptions): Promise<TourKPI> {
+    return await apiService.call(endpoints.tours.kpis, { params: { tourId } }, options);
   }
 
   /**
    * Add KPIs to tour (for venues/agents)
+   * Queued for replay if the device is offline (throws OfflineQueuedError)
    */
   async addTourKPIs(
     tourId: string,
@@ -91,11 +96,15 @@ class TourService {
       notes?: string;
     }
   ): Promise<TourKPI> {
-    return await apiService.post(`/tours/${tourId}/kpis`, data);
+    return await apiService.call(endpoints.tours.addKpis, { params: { tourId }, body: data }, {
+      queueOffline: true,
+      offlineTag: 'tour-kpis',
+    });
   }
 
   /**
    * Update tour KPIs
+   * Queued for replay if the device is offline (throws OfflineQueuedError)
    */
   async updateTourKPIs(
     tourId: string,
@@ -107,7 +116,10 @@ class TourService {
       notes?: string;
     }
   ): Promise<TourKPI> {
-    return await apiService.put(`/tours/${tourId}/kpis`, data);
+    return await apiService.call(endpoints.tours.updateKpis, { params: { tourId }, body: data }, {
+      queueOffline: true,
+      offlineTag: 'tour-kpis',
+    });
   }
 
   // ============================================================================
@@ -117,8 +129,8 @@ class TourService {
   /**
    * Get bands for tour management
    */
-  async getBandsForTour(): Promise<any[]> {
-    return await apiService.get('/tours-management/bands');
+  async getBandsForTour(): Promise<Band[]> {
+    return await apiService.call(endpoints.toursManagement.bands);
   }
 
   /**
@@ -137,8 +149,8 @@ class TourService {
       payment_currency?: string;
       notes?: string;
     }>;
-  }): Promise<any> {
-    return await apiService.post('/tours-management/tours', data);
+  }): Promise<MutationResponse & { tour: Tour; dates: TourDate[] }> {
+    return await apiService.call(endpoints.toursManagement.create, { body: data });
   }
 
   /**
@@ -155,8 +167,8 @@ class TourService {
       payment_currency?: string;
       notes?: string;
     }>
-  ): Promise<any> {
-    return await apiService.post(`/tours-management/tours/${tourId}/dates`, { dates });
+  ): Promise<MutationResponse & { dates: TourDate[] }> {
+    return await apiService.call(endpoints.toursManagement.addDates, { params: { tourId }, body: { dates } });
   }
 }
 
@@ -0,0 +1,74 @@
+import apiService, { RequestOptions } from './api';
+import { endpoints } from './endpoints';
+import { ApiResponse, TwoFactorSetup, TwoFactorStatus, User, UserType } from '../types';
+
+// Roles that must have 2FA on before using the app (admins are flagged separately)
+export const TWO_FACTOR_REQUIRED_ROLES: UserType[] = ['booking_agent', 'booking_manager'];
+
+/**
+ * Whether the account has to enroll in 2FA. The server flag wins; the role
+ * check covers backends that don't send it yet.
+ */
+export function isTwoFactorRequired(user: User): boolean {
+  if (user.two_factor_required !== undefined) return user.two_factor_required;
+  return !!user.is_admin_agent || TWO_FACTOR_REQUIRED_ROLES.includes(user.user_type);
+}
+
+/**
+ * Required but not set up yet - the app shows enrollment before anything else.
+ * Backends that don't report `two_factor_enabled` don't support 2FA.
+ */
+export function needsTwoFactorSetup(user: User): boolean {
+  return user.two_factor_enabled === false && isTwoFactorRequired(user);
+}
+
+/**
+ * Two-Factor API Service
+ * TOTP enrollment, recovery codes and turning 2FA off
+ */
+class TwoFactorService {
+  // ============================================================================
+  // ENROLLMENT
+  // ============================================================================
+
+  async getStatus(options?: RequestOptions): Promise<TwoFactorStatus> {
+    return await apiService.call(endpoints.twoFactor.status, {}, options);
+  }
+
+  /**
+   * Start enrollment: a new secret for the authenticator app. 2FA isn't on
+   * until enable() confirms a code from it.
+   */
+  async setup(): Promise<TwoFactorSetup> {
+    return await apiService.call(endpoints.twoFactor.setup);
+  }
+
+  /**
+   * Turn 2FA on. Returns the recovery codes - the only time they're shown.
+   */
+  async enable(code: string): Promise<string[]> {
+    const response = await apiService.call(endpoints.twoFactor.enable, { body: { code } });
+    return response.recovery_codes;
+  }
+
+  /**
+   * Turn 2FA off. Rejected for accounts that are required to use it.
+   */
+  async disable(code: string): Promise<ApiResponse> {
+    return await apiService.call(endpoints.twoFactor.disable, { body: { code } });
+  }
+
+  // ============================================================================
+  // RECOVERY CODES
+  // ============================================================================
+
+  /**
+   * Replace every recovery code; the old ones stop working
+   */
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiService.call(endpoints.twoFactor.regenerateRecoveryCodes, { body: { code } });
+    return response.recovery_codes;
+  }
+}
+
+export default new TwoFactorService();
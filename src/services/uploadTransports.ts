@@ -0,0 +1,240 @@
+import axios, { AxiosError } from 'axios';
+import apiService, { ApiError, RequestCancelledError } from './api';
+import { endpoints, buildPath } from './endpoints';
+import backendProfileService from './backendProfiles';
+import { UploadKind, UploadSession, UploadTask } from '../types/uploads';
+
+/**
+ * Upload Transports
+ * How each kind of upload talks to its server. The upload manager owns
+ * chunking, retries and persistence; a transport only moves bytes.
+ *
+ * - session: our API's resumable sessions (band media, W-2), with a
+ *   single-request fallback for servers that don't support them yet
+ * - mux: Mux direct uploads, PUT straight to the signed URL with Content-Range
+ */
+
+export interface UploadTransport {
+  /** Create the server-side upload session */
+  createSession(task: UploadTask, signal: AbortSignal): Promise<UploadSession>;
+  /** Bytes the server already has - used when resuming */
+  getOffset(task: UploadTask, signal: AbortSignal): Promise<number>;
+  /** Send one chunk starting at `start`; resolves with the new server offset */
+  sendChunk(
+    task: UploadTask,
+    chunk: Blob,
+    start: number,
+    signal: AbortSignal,
+    onProgress: (loadedBytes: number) => void
+  ): Promise<number>;
+  /** Finalize the upload and return the created resource */
+  complete(task: UploadTask, signal: AbortSignal): Promise<unknown>;
+  /** Upload the whole file in one request (non-resumable sessions) */
+  uploadWhole(task: UploadTask, signal: AbortSignal, onProgress: (percent: number) => void): Promise<unknown>;
+  /** Best-effort cleanup after cancel */
+  abort(task: UploadTask): Promise<void>;
+}
+
+// ============================================================================
+// API UPLOAD SESSIONS (band media, W-2)
+// ============================================================================
+
+/**
+ * Build the multipart body the existing single-request endpoints expect
+ */
+function buildFormData(task: UploadTask): FormData {
+  const form = new FormData();
+  // React Native's FormData takes a { uri, name, type } descriptor for files
+  form.append('file', { uri: task.file.uri, name: task.file.name, type: task.file.mimeType } as unknown as Blob);
+  Object.entries(task.params).forEach(([key, value]) => form.append(key, value));
+  return form;
+}
+
+function wholeFileEndpoint(task: UploadTask): string {
+  switch (task.kind) {
+    case 'band-media':
+      return buildPath(endpoints.bandMedia.upload.path, { bandId: task.params.band_id });
+    case 'w2':
+      return endpoints.artistW2.upload.path;
+    default:
+      throw new Error(`No single-request endpoint for ${task.kind} uploads`);
+  }
+}
+
+const sessionTransport: UploadTransport = {
+  async createSession(task, signal) {
+    try {
+      const session = await apiService.call(
+        endpoints.uploads.createSession,
+        {
+          body: {
+            kind: task.kind,
+            file_name: task.file.name,
+            file_size: task.totalBytes,
+            mime_type: task.file.mimeType,
+            chunk_size: task.chunkSize,
+            metadata: task.params,
+          },
+        },
+        { signal }
+      );
+      return { uploadId: session.upload_id, resumable: true };
+    } catch (error) {
+      // Backend without resumable sessions - send the file in one go instead
+      if (error instanceof ApiError && error.status === 404) {
+        return { uploadId: '', resumable: false };
+      }
+      throw error;
+    }
+  },
+
+  async getOffset(task, signal) {
+    const status = await apiService.call(
+      endpoints.uploads.status,
+      { params: { uploadId: task.session!.uploadId } },
+      { signal, cachePolicy: 'network-only', dedupe: false }
+    );
+    return status.received_bytes;
+  },
+
+  async sendChunk(task, chunk, start, signal, onProgress) {
+    const status = await apiService.uploadChunk<{ received_bytes: number }>(
+      buildPath(endpoints.uploads.chunk.path, { uploadId: task.session!.uploadId }),
+      chunk,
+      { start, total: task.totalBytes },
+      { signal, onProgress }
+    );
+    return status.received_bytes;
+  },
+
+  async complete(task, signal) {
+    return apiService.call(
+      endpoints.uploads.complete,
+      { params: { uploadId: task.session!.uploadId }, body: {} },
+      { signal }
+    );
+  },
+
+  async uploadWhole(task, signal, onProgress) {
+    return apiService.uploadFile(wholeFileEndpoint(task), buildFormData(task), onProgress, signal);
+  },
+
+  async abort(task) {
+    if (!task.session?.resumable) return;
+    try {
+      await apiService.call(endpoints.uploads.cancel, { params: { uploadId: task.session.uploadId } });
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to cancel upload session:', error);
+    }
+  },
+};
+
+// ============================================================================
+// MUX DIRECT UPLOADS
+// ============================================================================
+
+// Mux (GCS resumable protocol) answers 308 until the last byte arrives
+const MUX_OK_STATUSES = [200, 201, 308];
+
+/**
+ * Parse the "Range: bytes=0-1234" header Mux returns on a 308
+ */
+function parseRangeOffset(range: unknown): number {
+  const match = typeof range === 'string' ? range.match(/bytes=\d+-(\d+)/) : null;
+  return match ? Number(match[1]) + 1 : 0;
+}
+
+/**
+ * Convert bare axios errors (the Mux URL doesn't go through our client) into ApiErrors
+ */
+function toApiError(error: unknown): Error {
+  if (axios.isCancel(error)) {
+    return new RequestCancelledError();
+  }
+  const axiosError = error as AxiosError;
+  if (!axiosError.response) {
+    return new ApiError(axiosError.message || 'Network request failed', undefined, { networkError: true });
+  }
+  return new ApiError(axiosError.message, axiosError.response.status, axiosError.response.data);
+}
+
+const muxTransport: UploadTransport = {
+  async createSession(task, signal) {
+    const response = await apiService.call(
+      endpoints.streamingContent.createMuxUpload,
+      {
+        body: {
+          title: task.params.title || task.file.name,
+          description: task.params.description,
+          content_type: task.file.mimeType.startsWith('audio/') ? 'audio' : 'video',
+        },
+      },
+      { signal }
+    );
+    return {
+      uploadId: response.upload_id,
+      uploadUrl: response.upload_url,
+      contentId: response.content?.id,
+      resumable: true,
+    };
+  },
+
+  async getOffset(task, signal) {
+    try {
+      const response = await axios.put(task.session!.uploadUrl!, null, {
+        headers: { 'Content-Range': `bytes */${task.totalBytes}` },
+        validateStatus: (status) => MUX_OK_STATUSES.includes(status),
+        signal,
+      });
+      return response.status === 308 ? parseRangeOffset(response.headers.range) : task.totalBytes;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  },
+
+  async sendChunk(task, chunk, start, signal, onProgress) {
+    const end = start + chunk.size - 1;
+    try {
+      const response = await axios.put(task.session!.uploadUrl!, chunk, {
+        headers: {
+          'Content-Type': task.file.mimeType,
+          'Content-Range': `bytes ${start}-${end}/${task.totalBytes}`,
+        },
+        validateStatus: (status) => MUX_OK_STATUSES.includes(status),
+        timeout: backendProfileService.getActiveProfile().timeouts.upload,
+        signal,
+        onUploadProgress: (progressEvent) => onProgress(progressEvent.loaded),
+      });
+      return response.status === 308 ? parseRangeOffset(response.headers.range) : task.totalBytes;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  },
+
+  async complete(task, signal) {
+    return apiService.call(
+      endpoints.streamingContent.muxStatus,
+      { params: { uploadId: task.session!.uploadId } },
+      { signal, cachePolicy: 'network-only' }
+    );
+  },
+
+  async uploadWhole() {
+    throw new Error('Mux uploads are always resumable');
+  },
+
+  async abort(task) {
+    if (!task.session?.contentId) return;
+    try {
+      await apiService.call(endpoints.streamingContent.remove, { params: { contentId: task.session.contentId } });
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to remove cancelled streaming content:', error);
+    }
+  },
+};
+
+export const uploadTransports: Record<UploadKind, UploadTransport> = {
+  'band-media': sessionTransport,
+  w2: sessionTransport,
+  'mux-direct': muxTransport,
+};
@@ -0,0 +1,473 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, RequestCancelledError } from './api';
+import { accountKey } from './storage';
+import accountService, { AccountChange } from './accounts';
+import { uploadTransports } from './uploadTransports';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getRetryDelay, wait } from './retryPolicy';
+import { UploadFile, UploadKind, UploadListener, UploadStatus, UploadTask } from '../types/uploads';
+
+/**
+ * Upload Service
+ * Chunked, resumable uploads for band media, W-2 forms and Mux direct uploads
+ *
+ * - Files are sent in chunks; each chunk is retried on its own with backoff
+ * - Upload sessions are persisted, so an upload killed with the app picks up
+ *   from the server's last confirmed byte on the next launch
+ * - Uploads can be paused, resumed and cancelled; a few run concurrently
+ * - Sessions are kept per account; switching accounts parks the running
+ *   uploads until the account is active again
+ */
+
+const STORAGE_KEY = 'upload_sessions';
+
+// 5 MB - a multiple of 256 KB, which Mux direct uploads require
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const MAX_CONCURRENT_UPLOADS = 2;
+
+// Chunks are PUTs at a fixed offset, so they're always safe to resend
+const CHUNK_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxRetries: 5,
+  retryStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+// Statuses kept across restarts; finished uploads are dropped from storage
+const RESUMABLE_STATUSES: UploadStatus[] = ['queued', 'uploading', 'paused', 'failed'];
+
+interface CompletionWaiter {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+class UploadService {
+  private tasks: Map<string, UploadTask> = new Map();
+  private controllers: Map<string, AbortController> = new Map();
+  private blobs: Map<string, Blob> = new Map();
+  private waiters: Map<string, CompletionWaiter[]> = new Map();
+  private listeners: Set<UploadListener> = new Set();
+  private restored: Promise<void> | null = null;
+  /** Account whose uploads are loaded */
+  private accountId: string | null = null;
+
+  constructor() {
+    accountService.subscribe((change) => this.handleAccountChange(change));
+  }
+
+  // ============================================================================
+  // STARTING UPLOADS
+  // ============================================================================
+
+  /**
+   * Queue a file for upload. Resolves once the task is registered, not when
+   * the upload finishes - use waitForCompletion() for that.
+   */
+  async start(
+    kind: UploadKind,
+    file: UploadFile,
+    params: Record<string, string> = {},
+    label: string = file.name
+  ): Promise<UploadTask> {
+    await this.restore();
+
+    const now = Date.now();
+    const task: UploadTask = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      kind,
+      file,
+      label,
+      params,
+      status: 'queued',
+      chunkSize: DEFAULT_CHUNK_SIZE,
+      totalBytes: file.size ?? 0,
+      uploadedBytes: 0,
+      sentBytes: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.tasks.set(task.id, task);
+    await this.update(task, {});
+    this.pump();
+    return task;
+  }
+
+  /**
+   * Upload a W-2 form for the given tax year
+   */
+  async uploadW2(file: UploadFile, year: number): Promise<UploadTask> {
+    return this.start('w2', file, { year: String(year) }, `W-2 ${year}`);
+  }
+
+  /**
+   * Upload a video or audio file to Mux as streaming content
+   */
+  async uploadStreamingContent(
+    file: UploadFile,
+    details: { title: string; description?: string }
+  ): Promise<UploadTask> {
+    const params: Record<string, string> = { title: details.title };
+    if (details.description) params.description = details.description;
+    return this.start('mux-direct', file, params, details.title);
+  }
+
+  /**
+   * Resolve with the server's response once the upload completes.
+   * Rejects if the upload fails or is cancelled (pausing keeps it pending).
+   */
+  waitForCompletion(taskId: string): Promise<unknown> {
+    const task = this.tasks.get(taskId);
+    if (!task) return Promise.reject(new Error('Upload not found'));
+    if (task.status === 'completed') return Promise.resolve(task.result);
+    if (task.status === 'cancelled') return Promise.reject(new RequestCancelledError());
+
+    return new Promise((resolve, reject) => {
+      const waiting = this.waiters.get(taskId) ?? [];
+      waiting.push({ resolve, reject });
+      this.waiters.set(taskId, waiting);
+    });
+  }
+
+  // ============================================================================
+  // CONTROLS
+  // ============================================================================
+
+  async pause(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || (task.status !== 'uploading' && task.status !== 'queued')) return;
+
+    await this.update(task, { status: 'paused', sentBytes: task.uploadedBytes });
+    this.controllers.get(taskId)?.abort();
+  }
+
+  /**
+   * Resume a paused upload or retry a failed one
+   */
+  async resume(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || (task.status !== 'paused' && task.status !== 'failed')) return;
+
+    await this.update(task, { status: 'queued', error: undefined });
+    this.pump();
+  }
+
+  async cancel(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status === 'completed' || task.status === 'cancelled') return;
+
+    this.controllers.get(taskId)?.abort();
+    await this.update(task, { status: 'cancelled' });
+    this.blobs.delete(taskId);
+    this.settle(task, new RequestCancelledError());
+
+    await uploadTransports[task.kind].abort(task);
+  }
+
+  /**
+   * Remove a finished upload from the list
+   */
+  dismiss(taskId: string): void {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status === 'uploading' || task.status === 'queued') return;
+
+    this.tasks.delete(taskId);
+    this.blobs.delete(taskId);
+    this.persist();
+    this.emit(task);
+  }
+
+  getTasks(): UploadTask[] {
+    return Array.from(this.tasks.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // ============================================================================
+  // UPLOAD LOOP
+  // ============================================================================
+
+  /**
+   * Start queued uploads while there's a free slot
+   */
+  private pump(): void {
+    const active = Array.from(this.tasks.values()).filter((task) => task.status === 'uploading').length;
+    const queued = this.getTasks().filter((task) => task.status === 'queued');
+
+    queued.slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active)).forEach((task) => {
+      this.run(task);
+    });
+  }
+
+  private async run(task: UploadTask): Promise<void> {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const transport = uploadTransports[task.kind];
+    this.controllers.set(task.id, controller);
+
+    try {
+      await this.update(task, { status: 'uploading' });
+
+      const blob = await this.readFile(task);
+      if (task.totalBytes !== blob.size) {
+        await this.update(task, { totalBytes: blob.size });
+      }
+
+      const isResuming = !!task.session;
+      if (!task.session) {
+        const session = await this.withRetry(() => transport.createSession(task, signal), signal);
+        await this.update(task, { session });
+      }
+
+      let result: unknown;
+
+      if (!task.session!.resumable) {
+        result = await transport.uploadWhole(task, signal, (percent) => {
+          this.update(task, { sentBytes: Math.round((task.totalBytes * percent) / 100) }, false);
+        });
+      } else {
+        if (isResuming) {
+          // Trust the server over our own record - the last chunk may or may not have landed
+          const offset = await this.withRetry(() => transport.getOffset(task, signal), signal);
+          await this.update(task, { uploadedBytes: offset, sentBytes: offset });
+        }
+
+        while (task.uploadedBytes < task.totalBytes) {
+          const start = task.uploadedBytes;
+          const chunk = blob.slice(start, Math.min(start + task.chunkSize, task.totalBytes));
+
+          const offset = await this.withRetry(
+            () =>
+              transport.sendChunk(task, chunk, start, signal, (loaded) => {
+                this.update(task, { sentBytes: start + loaded }, false);
+              }),
+            signal
+          );
+          await this.update(task, { uploadedBytes: offset, sentBytes: offset });
+        }
+
+        result = await this.withRetry(() => transport.complete(task, signal), signal);
+      }
+
+      await this.update(task, {
+        status: 'completed',
+        result,
+        uploadedBytes: task.totalBytes,
+        sentBytes: task.totalBytes,
+      });
+      this.blobs.delete(task.id);
+      this.settle(task, null, result);
+    } catch (error) {
+      // Paused or cancelled - the control method already set the status
+      if (signal.aborted) return;
+
+      const message = error instanceof Error ? error.message : 'Upload failed';
+      await this.update(task, { status: 'failed', error: message, sentBytes: task.uploadedBytes });
+      this.settle(task, error instanceof Error ? error : new Error(message));
+      if (__DEV__) console.warn(`Upload ${task.label} failed:`, error);
+    } finally {
+      if (this.controllers.get(task.id) === controller) {
+        this.controllers.delete(task.id);
+      }
+      this.pump();
+    }
+  }
+
+  /**
+   * Retry a single step (chunk, offset check, session call) on transient failures
+   */
+  private async withRetry<T>(step: () => Promise<T>, signal: AbortSignal): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await step();
+      } catch (error) {
+        if (signal.aborted || !(error instanceof ApiError) || error instanceof RequestCancelledError) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(error, 'put', attempt, CHUNK_RETRY_POLICY);
+        if (delayMs === null) throw error;
+
+        await wait(delayMs, signal);
+        if (signal.aborted) throw new RequestCancelledError();
+      }
+    }
+  }
+
+  /**
+   * Load the local file once per session; chunks are sliced from it
+   */
+  private async readFile(task: UploadTask): Promise<Blob> {
+    const cached = this.blobs.get(task.id);
+    if (cached) return cached;
+
+    try {
+      const response = await fetch(task.file.uri);
+      const blob = await response.blob();
+      this.blobs.set(task.id, blob);
+      return blob;
+    } catch (error) {
+      throw new Error('The file is no longer available on this device');
+    }
+  }
+
+  private settle(task: UploadTask, error: Error | null, result?: unknown): void {
+    const waiting = this.waiters.get(task.id) ?? [];
+    this.waiters.delete(task.id);
+    waiting.forEach(({ resolve, reject }) => (error ? reject(error) : resolve(result)));
+  }
+
+  // ============================================================================
+  // PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Load uploads saved by a previous launch and continue the ones that were running
+   */
+  restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = (async () => {
+        try {
+          const raw = await AsyncStorage.getItem(this.storageKey());
+          const stored: UploadTask[] = raw ? JSON.parse(raw) : [];
+
+          stored.forEach((task) => {
+            if (this.tasks.has(task.id)) return;
+            // Anything mid-flight when the app died goes back in the queue
+            const status: UploadStatus = task.status === 'uploading' ? 'queued' : task.status;
+            this.tasks.set(task.id, { ...task, status, sentBytes: task.uploadedBytes });
+          });
+        } catch (error) {
+          if (__DEV__) console.warn('Failed to restore uploads:', error);
+        }
+        this.pump();
+      })();
+    }
+
+    return this.restored;
+  }
+
+  /**
+   * Apply changes to a task, notify subscribers and (optionally) persist.
+   * Progress ticks within a chunk skip persistence.
+   */
+  private async update(task: UploadTask, changes: Partial<UploadTask>, save: boolean = true): Promise<void> {
+    Object.assign(task, changes, { updatedAt: Date.now() });
+    this.emit(task);
+    if (save) {
+      await this.persist();
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const resumable = this.getTasks()
+      .filter((task) => RESUMABLE_STATUSES.includes(task.status))
+      .map(({ result, ...task }) => task);
+
+    try {
+      await AsyncStorage.setItem(this.storageKey(), JSON.stringify(resumable));
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to persist uploads:', error);
+    }
+  }
+
+  private storageKey(accountId: string | null = this.accountId): string {
+    return accountKey(STORAGE_KEY, accountId);
+  }
+
+  // ============================================================================
+  // ACCOUNTS
+  // ============================================================================
+
+  /**
+   * Follow the active account. Uploads started with no account active (by an
+   * install from before multi-account support) go to the account that signs in.
+   */
+  private async handleAccountChange({ account, removed }: AccountChange): Promise<void> {
+    for (const accountId of removed) {
+      await AsyncStorage.removeItem(this.storageKey(accountId)).catch(() => undefined);
+    }
+
+    const accountId = account?.id ?? null;
+    if (accountId === this.accountId) return;
+
+    if (this.accountId === null) {
+      await this.restore();
+      await AsyncStorage.removeItem(this.storageKey()).catch(() => undefined);
+      this.accountId = accountId;
+      await this.persist();
+      return;
+    }
+
+    // Park the old account's uploads - they resume from the server's offset later
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.tasks.forEach((task) => {
+      if (task.status === 'uploading') {
+        Object.assign(task, { status: 'queued', sentBytes: task.uploadedBytes });
+      }
+    });
+    if (!removed.includes(this.accountId)) {
+      await this.persist();
+    }
+
+    const parked = this.getTasks();
+    parked.forEach((task) => this.settle(task, new RequestCancelledError()));
+    this.tasks.clear();
+    this.blobs.clear();
+    parked.forEach((task) => this.emit(task));
+
+    this.accountId = accountId;
+    this.restored = null;
+    if (this.listeners.size > 0) {
+      await this.restore();
+    }
+  }
+
+  // ============================================================================
+  // SUBSCRIPTIONS
+  // ============================================================================
+
+  /**
+   * Subscribe to task progress and status changes
+   */
+  subscribe(listener: UploadListener): () => void {
+    this.listeners.add(listener);
+    this.restore().catch(() => undefined);
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(task: UploadTask): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(task);
+      } catch (error) {
+        if (__DEV__) console.error('Upload listener error:', error);
+      }
+    });
+  }
+
+  // ============================================================================
+  // CLEANUP
+  // ============================================================================
+
+  /**
+   * Abort all uploads and forget saved sessions (call on logout)
+   */
+  async clear(): Promise<void> {
+    this.controllers.forEach((controller) => controller.abort());
+    this.controllers.clear();
+    this.tasks.forEach((task) => this.settle(task, new RequestCancelledError()));
+    this.tasks.clear();
+    this.blobs.clear();
+
+    try {
+      await AsyncStorage.removeItem(this.storageKey());
+    } catch (error) {
+      if (__DEV__) console.warn('Failed to clear uploads:', error);
+    }
+  }
+}
+
+export default new UploadService();
@@ -0,0 +1,25 @@
+import apiService, { RequestOptions } from './api';
+import { endpoints } from './endpoints';
+import { DiscoverProfile, UserType } from '../types';
+
+/**
+ * User API Service
+ * Handles public user profiles and discovery
+ */
+class UserService {
+  // ============================================================================
+  // DISCOVERY
+  // ============================================================================
+
+  /**
+   * Search artists, bands, studios, venues and agents
+   */
+  async discover(
+    params?: { user_type?: UserType; search?: string },
+    options?: RequestOptions
+  ): Promise<DiscoverProfile[]> {
+    return await apiService.call(endpoints.users.discover, { query: params }, options);
+  }
+}
+
+export default new UserService();
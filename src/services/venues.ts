@@ -1,5 +1,6 @@
 import apiService from './api';
-import { Venue } from '../types';
+import { endpoints } from './endpoints';
+import { PremiumBandInfo, Venue, VenueDashboardData } from '../types';
 
 /**
  * Venue API Service
@@ -14,14 +15,14 @@ class VenueService {
    * Get all venues
    */
   async getAllVenues(): Promise<Venue[]> {
-    return await apiService.get('/bars'); // Note: venues are called "bars" in backend
+    return await apiService.call(endpoints.venues.list); // Note: venues are called "bars" in backend
   }
 
   /**
    * Get venue by ID
    */
   async getVenueById(venueId: string): Promise<Venue> {
-    return await apiService.get(`/bars/${venueId}`);
+    return await apiService.call(endpoints.venues.getById, { params: { venueId } });
   }
 
   /**
@@ -37,14 +38,21 @@ class VenueService {
     amenities?: string[];
     eth_wallet?: string;
   }): Promise<Venue> {
-    return await apiService.post('/bars', data);
+    return await apiService.call(endpoints.venues.create, { body: data });
   }
 
   /**
    * Update venue profile
    */
   async updateVenue(venueId: string, data: Partial<Venue>): Promise<void> {
-    return await apiService.put(`/bars/${venueId}`, data);
+    return await apiService.call(endpoints.venues.update, { params: { venueId }, body: data });
+  }
+
+  /**
+   * Get the signed-in venue's profile, events, premium content and stats
+   */
+  async getVenueDashboard(): Promise<VenueDashboardData> {
+    return await apiService.call(endpoints.venues.dashboard);
   }
 
   // ============================================================================
@@ -67,7 +75,7 @@ class VenueService {
     total: number;
     max_allowed: number;
   }> {
-    return await apiService.get('/venue/premium-content');
+    return await apiService.call(endpoints.venues.premiumContent);
   }
 
   /**
@@ -76,30 +84,9 @@ class VenueService {
    */
   async getPremiumBandInfo(): Promise<{
     success: boolean;
-    bands: Array<{
-      id: string;
-      band_name: string;
-      genre?: string;
-      description?: string;
-      members: any[];
-      stats: {
-        total_shows: number;
-        avg_attendance: number;
-        total_revenue: number;
-        avg_rating: number;
-        review_count: number;
-      };
-      social_media: {
-        instagram?: string | null;
-        facebook?: string | null;
-        twitter?: string | null;
-        spotify?: string | null;
-      };
-      upcoming_shows: number;
-      last_performance_date?: string | null;
-    }>;
+    bands: PremiumBandInfo[];
   }> {
-    return await apiService.get('/venue/bands/premium-info');
+    return await apiService.call(endpoints.venues.premiumBands);
   }
 
   /**
@@ -107,9 +94,9 @@ class VenueService {
    */
   async getBandPremiumInfo(bandId: string): Promise<{
     success: boolean;
-    band: any;
+    band: PremiumBandInfo;
   }> {
-    return await apiService.get(`/venue/bands/${bandId}/premium-info`);
+    return await apiService.call(endpoints.venues.bandPremiumInfo, { params: { bandId } });
   }
 }
 
@@ -28,10 +28,25 @@ export interface User {
   suspension_reason?: SuspensionReason;
   is_admin_agent?: boolean;
   agent_status?: AgentStatus;
+  two_factor_enabled?: boolean;
+  /** Account policy requires 2FA (admins, booking agents) */
+  two_factor_required?: boolean;
   created_at: string;
   updated_at: string;
 }
 
+// Public profile card shown on the Discover screen
+export interface DiscoverProfile {
+  id: string;
+  name: string;
+  user_type: UserType;
+  location?: string;
+  genres?: string[];
+  hourly_rate?: number;
+  capacity?: number;
+  profile_image?: string;
+}
+
 // ============================================================================
 // AUTHENTICATION TYPES
 // ============================================================================
@@ -54,6 +69,99 @@ export interface AuthResponse {
   user: User;
   refreshToken?: string;
   message?: string;
+  /** OAuth sign-in created the account */
+  isNewUser?: boolean;
+}
+
+export type OAuthProvider = 'google' | 'facebook' | 'patreon';
+
+// Authorization code from the provider's redirect, with the PKCE verifier that proves we asked for it
+export interface OAuthCodeExchange {
+  code: string;
+  code_verifier: string;
+  redirect_uri: string;
+}
+
+// A provider account linked to the signed-in user
+export interface OAuthIdentity {
+  provider: OAuthProvider;
+  email?: string;
+  display_name?: string;
+  linked_at: string;
+}
+
+// Returned by login instead of a session when the account has 2FA turned on
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  /** Seconds the challenge stays valid */
+  expiresIn?: number;
+  message?: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge;
+
+// Either the authenticator code or one of the recovery codes
+export type TwoFactorVerification =
+  | { challengeToken: string; code: string }
+  | { challengeToken: string; recoveryCode: string };
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_remaining: number;
+}
+
+// Enrollment secret, shown once until verified
+export interface TwoFactorSetup {
+  secret: string;
+  otpauth_url: string;
+  /** PNG data URL of the provisioning QR code, when the backend renders one */
+  qr_code?: string;
+}
+
+export type DevicePlatform = 'ios' | 'android' | 'web' | 'windows' | 'macos';
+
+// Sent with every sign-in so the session can be recognised later
+export interface DeviceInfo {
+  device_name: string;
+  platform: DevicePlatform;
+  app_version?: string;
+  biometric_enabled: boolean;
+}
+
+// A signed-in device, from the "Devices & sessions" list
+export interface DeviceSession extends DeviceInfo {
+  id: string;
+  ip_address?: string;
+  city?: string;
+  country?: string;
+  created_at: string;
+  last_seen_at: string;
+  /** The session this app is using */
+  current: boolean;
+}
+
+// A deletion the user asked for - cancellable until purge_after
+export interface AccountDeletion {
+  deleted_at: string;
+  /** When the account and its data are removed for good */
+  purge_after: string;
+}
+
+// Everything the backend holds for a user. Messages are still encrypted -
+// only the app can read them.
+export interface AccountExport {
+  exported_at: string;
+  profile: User;
+  bands: Band[];
+  tours: TourDate[];
+  payouts: PaymentLedgerEntry[];
+  conversations: {
+    user_id: string;
+    name: string;
+    messages: Message[];
+  }[];
 }
 
 // ============================================================================
@@ -199,6 +307,8 @@ export interface Band {
   contact_email?: string;
   contact_address?: string;
   recovery_email?: string;
+  // Shared with people who want to join (JoinBandScreen)
+  join_code?: string;
   created_at: string;
   // Joined fields from queries
   role?: 'owner' | 'member';
@@ -244,6 +354,16 @@ export interface BandMemberPermissions {
   is_owner?: boolean;
 }
 
+// Permission flags accepted when adding or updating a member
+export interface MemberPermissionFlags {
+  can_edit_band?: boolean;
+  can_manage_members?: boolean;
+  can_manage_tours?: boolean;
+  can_view_financials?: boolean;
+  can_upload_media?: boolean;
+  [key: string]: boolean | undefined;
+}
+
 export interface BandMember {
   id: string;
   band_id: string;
@@ -343,6 +463,15 @@ export interface CreateTourData {
   notes?: string;
 }
 
+// A named run of tour dates for one band
+export interface Tour {
+  id: string;
+  tour_name: string;
+  band_id: string;
+  description?: string;
+  created_at: string;
+}
+
 // ============================================================================
 // STUDIO TYPES
 // ============================================================================
@@ -461,6 +590,30 @@ export interface UserSubscription {
   price?: number;
 }
 
+// A card or wallet saved for subscription billing
+export interface SavedPaymentMethod {
+  id: string;
+  user_id: string;
+  type: PaymentMethod;
+  is_default: boolean;
+  brand?: string;
+  last_four?: string;
+  eth_wallet?: string;
+  created_at: string;
+}
+
+export interface SubscriptionPayment {
+  id: string;
+  subscription_id: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  payment_method?: PaymentMethod;
+  failure_reason?: string;
+  paid_at?: string;
+  created_at: string;
+}
+
 // ============================================================================
 // PAYMENT TYPES
 // ============================================================================
@@ -498,6 +651,30 @@ export interface TourMemberPayout {
   updated_at: string;
 }
 
+// What a venue paid for a gig
+export interface VenuePayment {
+  id: string;
+  tour_date_id: string;
+  venue_id: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  payment_method?: PaymentMethod;
+  transaction_hash?: string;
+  notes?: string;
+  created_at: string;
+  // Joined fields
+  band_name?: string;
+  venue_name?: string;
+  tour_date?: string;
+}
+
+export interface PaymentIntentConfirmation {
+  success: boolean;
+  paymentIntentId: string;
+  status: PaymentStatus;
+}
+
 // ============================================================================
 // MESSAGE TYPES
 // ============================================================================
@@ -511,12 +688,116 @@ export interface Message {
   sender_public_key?: string;
   recipient_public_key?: string;
   read: boolean;
+  delivered_at?: string;
+  read_at?: string;
   created_at: string;
+  expires_at?: string; // Deleted everywhere after this (disappearing messages)
+  system?: MessageSystemEvent; // Added by the server - no content
   // Joined fields
   sender_name?: string;
   sender_user_type?: UserType;
   recipient_name?: string;
   content?: string; // Decrypted content (client-side only)
+  attachments?: MessageAttachment[]; // Decrypted with the content (client-side only)
+  reply_to?: MessageReply; // Decrypted with the content (client-side only)
+  action?: MessageAction; // Changes an earlier message - not shown itself (client-side only)
+  reactions?: Record<string, string>; // Emoji by user ID (client-side only)
+  edited_at?: string; // Client-side only
+  edit_history?: MessageRevision[]; // Earlier versions, oldest first (client-side only)
+  deleted?: boolean; // Deleted for everyone by the sender (client-side only)
+  decryption_failed?: boolean; // Client-side only
+}
+
+export type AttachmentKind = 'image' | 'audio' | 'file';
+
+/**
+ * Encrypted file sent with a message. Travels inside the message ciphertext -
+ * the server only sees the blob under `id`.
+ */
+export interface MessageAttachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mime_type: string;
+  /** Size of the decrypted file in bytes */
+  size: number;
+  /** Base64 encoded symmetric key and nonce the file is encrypted with */
+  key: string;
+  nonce: string;
+  /** Voice notes */
+  duration_ms?: number;
+  /** Images */
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Message a reply quotes - a copy, so it shows even if the original isn't
+ * on this device
+ */
+export interface MessageReply {
+  message_id: string;
+  sender_id: string;
+  /** Start of the original; empty once it's deleted for everyone */
+  preview: string;
+}
+
+/**
+ * Change to an earlier message. Sent as a message of its own, inside the
+ * ciphertext, so the server can't tell it from any other message.
+ * - reaction: set (or with null, remove) the sender's reaction
+ * - edit / delete: only honoured from whoever sent the original
+ */
+export type MessageAction =
+  | { type: 'reaction'; message_id: string; emoji: string | null }
+  | { type: 'edit'; message_id: string; content: string }
+  | { type: 'delete'; message_id: string };
+
+/** A version of an edited message */
+export interface MessageRevision {
+  content: string;
+  created_at: string;
+}
+
+/**
+ * File picked or recorded on the device, before it's encrypted and uploaded
+ */
+export interface AttachmentFile {
+  /** Local file URI - read when `base64` isn't given */
+  uri?: string;
+  /** File contents, when the picker already returned them */
+  base64?: string;
+  name: string;
+  mime_type: string;
+  duration_ms?: number;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * Announcement the server adds to a conversation, shown as a notice rather
+ * than a bubble. `sender_id` is who caused it.
+ */
+export interface MessageSystemEvent {
+  type: 'expiry_timer';
+  /** The conversation's new disappearing-message timer (null = off) */
+  ttl_seconds: number | null;
+}
+
+/** Disappearing-message timer of a direct conversation */
+export interface ConversationExpiry {
+  /** Messages are deleted this many seconds after they're sent (null = kept) */
+  ttl_seconds: number | null;
+  /** Longest timer the retention policy allows (null = no limit) */
+  max_ttl_seconds: number | null;
+}
+
+/** Message retention, configured by admins */
+export interface MessageRetentionPolicy {
+  /** Timer of conversations nobody has set one for (null = off) */
+  default_ttl_seconds: number | null;
+  /** Longest timer anyone can set - with a limit, timers can't be turned off (null = no limit) */
+  max_ttl_seconds: number | null;
 }
 
 export interface Conversation {
@@ -530,8 +811,119 @@ export interface Conversation {
 
 export interface SendMessageData {
   recipient_id: string;
-  encrypted_content: string;
-  sender_public_key?: string;
+  /** Plaintext - encrypted on the device before it's sent */
+  content: string;
+  /** Uploaded with attachmentService.upload() */
+  attachments?: MessageAttachment[];
+  reply_to?: MessageReply;
+  action?: MessageAction;
+}
+
+export type GroupKind = 'band' | 'adhoc';
+
+export interface GroupMember {
+  user_id: string;
+  name: string;
+  user_type: UserType;
+}
+
+// A group thread: one per band (members follow the band), or started by anyone
+export interface GroupConversation {
+  id: string;
+  kind: GroupKind;
+  name: string;
+  band_id?: string;
+  members: GroupMember[];
+  /**
+   * Bumped on every membership change. Messages must be sent under sender
+   * keys for the current epoch, so people who left can't read new ones.
+   */
+  key_epoch: number;
+  created_by?: string;
+  created_at: string;
+  last_message_time?: string;
+  last_sender_name?: string;
+  unread_count: number;
+}
+
+// Encrypted once with the sender's key for the epoch (XSalsa20-Poly1305)
+export interface GroupMessage {
+  id: string;
+  group_id: string;
+  sender_id: string;
+  sender_name?: string;
+  key_epoch: number;
+  ciphertext: string;
+  nonce: string;
+  created_at: string;
+  content?: string; // Decrypted content (client-side only)
+  attachments?: MessageAttachment[]; // Decrypted with the content (client-side only)
+  reply_to?: MessageReply; // Decrypted with the content (client-side only)
+  action?: MessageAction; // Changes an earlier message - not shown itself (client-side only)
+  reactions?: Record<string, string>; // Emoji by user ID (client-side only)
+  edited_at?: string; // Client-side only
+  edit_history?: MessageRevision[]; // Earlier versions, oldest first (client-side only)
+  deleted?: boolean; // Deleted for everyone by the sender (client-side only)
+  decryption_failed?: boolean; // Client-side only
+}
+
+export type ReceiptStatus = 'delivered' | 'read';
+
+/**
+ * Pushed to the signed-in user over the realtime channel
+ * - message: a direct message for them (still encrypted)
+ * - group_message: a new message in one of their groups
+ * - typing: someone started or stopped typing to them or in a group
+ * - receipt: their messages reached, or were read by, the recipient
+ * - unread: unread messages across their conversations and groups
+ */
+export type RealtimeEvent =
+  | { type: 'message'; message: Message }
+  | { type: 'group_message'; group_id: string; message_id: string; sender_id: string }
+  | { type: 'typing'; user_id: string; group_id?: string; typing: boolean }
+  | { type: 'receipt'; user_id: string; status: ReceiptStatus; message_ids: string[]; at: string }
+  | { type: 'unread'; total: number };
+
+/**
+ * E2EE keys and message history, encrypted with a key derived from the
+ * user's passphrase. The server never sees the passphrase.
+ */
+export interface KeyBackup {
+  ciphertext: string;
+  nonce: string;
+  /** PBKDF2-HMAC-SHA512 parameters */
+  salt: string;
+  iterations: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Request from a new device for the account's keys. `id` is derived from
+ * `public_key`, so the signed-in device can tell the key wasn't swapped.
+ */
+export interface DeviceLink {
+  id: string;
+  public_key: string;
+  device_name?: string;
+  created_at: string;
+  expires_at: string;
+  /** Keys boxed for `public_key`, once the signed-in device has approved */
+  payload?: {
+    ciphertext: string;
+    nonce: string;
+    sender_public_key: string;
+  };
+}
+
+// A sender key, boxed for one member with the sender's and member's E2EE keys
+export interface SenderKeyEnvelope {
+  group_id: string;
+  sender_id: string;
+  recipient_id: string;
+  key_epoch: number;
+  encrypted_key: string;
+  nonce: string;
 }
 
 // ============================================================================
@@ -576,6 +968,16 @@ export interface GiftCard {
   updated_at: string;
 }
 
+export interface GiftCardTransaction {
+  id: string;
+  gift_card_id: string;
+  type: 'issue' | 'redeem' | 'refund' | 'adjustment';
+  amount: number;
+  balance_after: number;
+  description?: string;
+  created_at: string;
+}
+
 // ============================================================================
 // REVIEW TYPES
 // ============================================================================
@@ -693,6 +1095,31 @@ export interface ManagedUser extends User {
   manager_notes?: string;
 }
 
+export interface BookingAgent extends User {
+  agent_status: AgentStatus;
+  is_admin_agent: boolean;
+  managed_user_count?: number;
+}
+
+// A user placed under a booking manager
+export interface UserAssignment {
+  id: string;
+  user_id: string;
+  booking_manager_id: string;
+  notes?: string;
+  assigned_at: string;
+}
+
+export interface AdminStats {
+  total_users: number;
+  pending_users: number;
+  users_by_type: Partial<Record<UserType, number>>;
+  total_bands: number;
+  pending_bands: number;
+  total_tours: number;
+  total_revenue: number;
+}
+
 // ============================================================================
 // DASHBOARD DATA TYPES
 // ============================================================================
@@ -704,6 +1131,84 @@ export interface ArtistDashboardData {
   bookingAgents: User[];
 }
 
+// A venue's gig, with the turnout it expects or had
+export interface VenueEvent extends TourDate {
+  expected_attendance?: number;
+  actual_attendance?: number;
+}
+
+// Band track record shown to premium venues
+export interface PremiumBandInfo {
+  id: string;
+  band_name: string;
+  genre?: string;
+  description?: string;
+  members: BandMember[];
+  stats: {
+    total_shows: number;
+    avg_attendance: number;
+    total_revenue: number;
+    avg_rating: number;
+    review_count: number;
+  };
+  social_media: {
+    instagram?: string | null;
+    facebook?: string | null;
+    twitter?: string | null;
+    spotify?: string | null;
+  };
+  upcoming_shows: number;
+  last_performance_date?: string | null;
+}
+
+// Recorded performance a premium venue can stream
+export interface PremiumContent {
+  id: string;
+  title: string;
+  artist_name?: string;
+  view_count?: number;
+  is_published: boolean;
+  created_at: string;
+}
+
+export interface VenueDashboardData {
+  venue: Venue & { status: string; subscription_tier?: string };
+  upcomingEvents: VenueEvent[];
+  pastEvents: VenueEvent[];
+  premiumContent: PremiumContent[];
+  stats: {
+    totalEvents: number;
+    totalAttendees: number;
+  };
+}
+
+// A booked or requested studio session, as the studio sees it
+export interface RecordingSession {
+  id: string;
+  studio_id: string;
+  band_id?: string;
+  artist_name: string;
+  band_name?: string;
+  session_date: string;
+  start_time: string;
+  end_time?: string;
+  duration_hours?: number;
+  rate?: number;
+  notes?: string;
+  status: SessionStatus | 'pending';
+}
+
+export interface StudioDashboardData {
+  studio: RecordingStudio & { location?: string; status: string };
+  upcomingSessions: RecordingSession[];
+  recentSessions: RecordingSession[];
+  pendingRequests: RecordingSession[];
+  stats: {
+    totalSessions: number;
+    totalRevenue: number;
+  };
+}
+
 export interface PaymentLedgerEntry extends TourMemberPayout {
   venue_payment_amount?: number;
   booking_agent_fee_percentage?: number;
@@ -769,6 +1274,19 @@ export interface ApiResponse<T = any> {
   details?: string;
 }
 
+export interface MutationResponse {
+  success: boolean;
+  message: string;
+}
+
+// Effective subscription for a user or band (plan + unlocked features)
+export interface SubscriptionSummary {
+  current_plan?: SubscriptionPlan;
+  subscription?: UserSubscription;
+  features?: Record<string, boolean | number>;
+  limits?: Record<string, number>;
+}
+
 export interface PaginatedResponse<T = any> {
   success: boolean;
   items: T[];
@@ -0,0 +1,55 @@
+/**
+ * Resumable Upload Types
+ * Shared by the upload manager, its transports and the progress tray
+ */
+
+export type UploadKind = 'band-media' | 'w2' | 'mux-direct';
+
+export type UploadStatus = 'queued' | 'uploading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export interface UploadFile {
+  /** Local file URI (file://, content://, blob: on web) */
+  uri: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes; read from the file when not known up front */
+  size?: number;
+}
+
+/**
+ * Server-side state for an upload, created once and reused when resuming
+ */
+export interface UploadSession {
+  uploadId: string;
+  /** Direct upload URL (Mux); chunks go straight there instead of our API */
+  uploadUrl?: string;
+  /** Record created alongside the upload (e.g. streaming content ID) */
+  contentId?: string;
+  /** False when the server has no resumable endpoint and takes the file in one request */
+  resumable: boolean;
+}
+
+export interface UploadTask {
+  id: string;
+  kind: UploadKind;
+  file: UploadFile;
+  /** Shown in the progress tray */
+  label: string;
+  /** Kind-specific values such as bandId, year or title */
+  params: Record<string, string>;
+  status: UploadStatus;
+  chunkSize: number;
+  totalBytes: number;
+  /** Bytes the server has confirmed */
+  uploadedBytes: number;
+  /** Confirmed bytes plus progress of the chunk in flight (for display) */
+  sentBytes: number;
+  session?: UploadSession;
+  error?: string;
+  /** Response from the server once the upload completed */
+  result?: unknown;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type UploadListener = (task: UploadTask) => void;
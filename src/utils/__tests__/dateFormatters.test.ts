@@ -8,6 +8,7 @@ import {
   formatTime,
   formatRelativeTime,
   formatDateRange,
+  formatDuration,
 } from '../dateFormatters';
 
 describe('dateFormatters', () => {
@@ -166,6 +167,20 @@ describe('dateFormatters', () => {
     });
   });
 
+  describe('formatDuration', () => {
+    it('should use the largest whole unit', () => {
+      expect(formatDuration(3600)).toBe('1 hour');
+      expect(formatDuration(86400)).toBe('1 day');
+      expect(formatDuration(4 * 604800)).toBe('4 weeks');
+      expect(formatDuration(90 * 60)).toBe('90 minutes');
+      expect(formatDuration(45)).toBe('45 seconds');
+    });
+
+    it('should call no time off', () => {
+      expect(formatDuration(0)).toBe('off');
+    });
+  });
+
   describe('edge cases', () => {
     it('formatDate should handle ISO strings', () => {
       const result = formatDate('2024-01-15T10:30:45.123Z');
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for JWT helpers
+ */
+
+import { encodeBase64 } from 'tweetnacl-util';
+import { decodeJwt, getJwtExpiry, isJwtExpiring } from '../jwt';
+
+function encodeSegment(value: object): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return encodeBase64(bytes).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function createToken(claims: object): string {
+  return `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}.signature`;
+}
+
+describe('jwt', () => {
+  it('should decode base64url claims', () => {
+    // '?>' encodes to characters outside the standard base64 alphabet
+    const token = createToken({ sub: 'u-1', name: 'Zoë ?>?>', exp: 1700000000 });
+
+    expect(decodeJwt(token)).toEqual({ sub: 'u-1', name: 'Zoë ?>?>', exp: 1700000000 });
+  });
+
+  it('should return null for malformed tokens', () => {
+    expect(decodeJwt('not-a-jwt')).toBeNull();
+    expect(decodeJwt('a.%%%.c')).toBeNull();
+    expect(decodeJwt('mock-token:u-1')).toBeNull();
+  });
+
+  it('should read the expiry in milliseconds', () => {
+    expect(getJwtExpiry(createToken({ exp: 1700000000 }))).toBe(1700000000000);
+    expect(getJwtExpiry(createToken({ sub: 'u-1' }))).toBeNull();
+  });
+
+  it('should report tokens expiring within the margin', () => {
+    const token = createToken({ exp: 1000 });
+
+    expect(isJwtExpiring(token, 0, 900 * 1000)).toBe(false);
+    expect(isJwtExpiring(token, 60 * 1000, 950 * 1000)).toBe(true);
+    expect(isJwtExpiring(token, 0, 1000 * 1000)).toBe(true);
+    expect(isJwtExpiring(createToken({ sub: 'u-1' }), 60 * 1000)).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Unit tests for the OAuth PKCE and URL helpers
+ */
+
+import { buildUrl, createCodeChallenge, createPkcePair, getUrlParams } from '../oauth';
+
+describe('oauth utils', () => {
+  it('should derive an unpadded base64url S256 challenge', () => {
+    expect(createCodeChallenge('dBjftJeZ4CVP-mJ92K9TmU4ihp76n0IUHt3bX0FCmyE')).toBe(
+      '_CA9Vu4vv65LRmL098Bg1IYQA5t66BLAGZqKBVkHFzM'
+    );
+  });
+
+  it('should create a fresh URL-safe verifier each time', () => {
+    const first = createPkcePair();
+    const second = createPkcePair();
+
+    expect(first.verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first.verifier).not.toBe(second.verifier);
+    expect(first.challenge).toBe(createCodeChallenge(first.verifier));
+  });
+
+  it('should round-trip parameters through a redirect URL', () => {
+    const url = buildUrl('artistspace://oauth/callback', { code: 'a/b c', state: 'xyz', error: undefined });
+
+    expect(getUrlParams(url)).toEqual({ code: 'a/b c', state: 'xyz' });
+    expect(getUrlParams('https://example.com/cb#code=1&state=2')).toEqual({ code: '1', state: '2' });
+  });
+});
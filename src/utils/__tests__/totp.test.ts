@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the TOTP helpers
+ */
+
+import { decodeUTF8 } from 'tweetnacl-util';
+import { buildOtpauthUrl, decodeBase32, encodeBase32, generateTotp, verifyTotp } from '../totp';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const RFC_SECRET = encodeBase32(decodeUTF8('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32 and ignore spaces and case', () => {
+    const bytes = decodeUTF8('artist space');
+    const encoded = encodeBase32(bytes);
+
+    expect(decodeBase32(encoded.toLowerCase().replace(/(.{4})/g, '$1 '))).toEqual(bytes);
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    expect(generateTotp(RFC_SECRET, 20000000000 * 1000)).toBe('353130');
+  });
+
+  it('should accept the neighbouring window but not older codes', () => {
+    const now = 1700000000000;
+    const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+    const stale = generateTotp(RFC_SECRET, now - 90 * 1000);
+
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(true);
+    expect(verifyTotp(RFC_SECRET, stale, now)).toBe(false);
+  });
+
+  it('should build an otpauth URI authenticator apps understand', () => {
+    expect(buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'sarah@example.com', 'Artist Space')).toBe(
+      'otpauth://totp/Artist%20Space%3Asarah%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Artist%20Space&digits=6&period=30'
+    );
+  });
+});
@@ -122,3 +122,23 @@ export const formatDateRange = (startDate: string, endDate: string): string => {
 
   return `${startFormatted} - ${endFormatted}`;
 };
+
+/**
+ * Formats a length of time in the largest whole unit
+ * @param seconds - Duration in seconds (0 or less means no timer)
+ * @returns Formatted duration (e.g., "1 day", "2 weeks", "90 minutes", "off")
+ */
+export const formatDuration = (seconds: number): string => {
+  // Every unit divides 0 evenly - it would read "0 weeks"
+  if (seconds <= 0) return 'off';
+
+  const units: Array<[string, number]> = [
+    ['week', 604800],
+    ['day', 86400],
+    ['hour', 3600],
+    ['minute', 60],
+  ];
+  const [unit, size] = units.find(([, length]) => seconds % length === 0) ?? ['second', 1];
+  const count = seconds / size;
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
@@ -0,0 +1,20 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { DeviceInfo, DevicePlatform } from '../types';
+
+/**
+ * This device as it appears in the "Devices & sessions" list
+ *
+ * @example
+ * apiService.setDeviceInfo(getDeviceInfo(biometricEnabled));
+ */
+export function getDeviceInfo(biometricEnabled: boolean): DeviceInfo {
+  const fallbackName = Platform.OS === 'web' ? 'Web browser' : `${Platform.OS} device`;
+
+  return {
+    device_name: Constants.deviceName || fallbackName,
+    platform: Platform.OS as DevicePlatform,
+    app_version: Constants.expoConfig?.version,
+    biometric_enabled: biometricEnabled,
+  };
+}
@@ -0,0 +1,65 @@
+import { decodeBase64, encodeUTF8 } from 'tweetnacl-util';
+
+/**
+ * JWT helpers
+ *
+ * Reads claims from access tokens so the app can refresh them before they
+ * expire. Signatures are NOT verified - that's the backend's job; never use
+ * these claims for authorization decisions.
+ *
+ * @example
+ * import { getJwtExpiry, isJwtExpiring } from '../utils/jwt';
+ *
+ * getJwtExpiry(token);               // 1767225600000 (ms) or null
+ * isJwtExpiring(token, 60 * 1000);   // true within a minute of expiry
+ */
+
+export interface JwtClaims {
+  sub?: string;
+  /** Expiry, seconds since the epoch */
+  exp?: number;
+  /** Issued at, seconds since the epoch */
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode base64url (unpadded, URL-safe alphabet) to a string
+ */
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return encodeUTF8(decodeBase64(padded));
+}
+
+/**
+ * Claims of a JWT, or null if the token isn't a well-formed JWT
+ */
+export function decodeJwt(token: string): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const claims = JSON.parse(decodeBase64Url(parts[1]));
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry time in ms since the epoch, or null if the token has no `exp`
+ */
+export function getJwtExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+/**
+ * True if the token expires within `marginMs`. Tokens without an expiry
+ * (or that can't be decoded) are treated as not expiring.
+ */
+export function isJwtExpiring(token: string, marginMs: number = 0, now: number = Date.now()): boolean {
+  const expiry = getJwtExpiry(token);
+  return expiry !== null && expiry - marginMs <= now;
+}
@@ -42,8 +42,9 @@ class Logger {
 
   /**
    * Sanitize data to remove sensitive information
+   * (also used by the network log before anything is stored)
    */
-  private sanitize(data: any): any {
+  sanitize(data: any): any {
     if (!data) return data;
 
     if (typeof data === 'string') {
@@ -52,7 +53,8 @@ class Logger {
         .replace(/Bearer\s+[\w-]+\.[\w-]+\.[\w-]+/gi, 'Bearer [REDACTED]')
         .replace(/password["':\s]+["'][^"']+["']/gi, 'password: "[REDACTED]"')
         .replace(/token["':\s]+["'][^"']+["']/gi, 'token: "[REDACTED]"')
-        .replace(/api[_-]?key["':\s]+["'][^"']+["']/gi, 'api_key: "[REDACTED]"');
+        .replace(/api[_-]?key["':\s]+["'][^"']+["']/gi, 'api_key: "[REDACTED]"')
+        .replace(/otpauth:\/\/[^\s"']+/gi, '[REDACTED]');
     }
 
     if (typeof data === 'object') {
@@ -72,15 +74,30 @@ class Logger {
         'private_key',
         'authToken',
         'auth_token',
+        'authorization',
+        'pinCode',
+        'pin_code',
+        'clientSecret',
+        'client_secret',
         'creditCard',
         'credit_card',
         'ssn',
         'socialSecurity',
+        'secret',
+        'otpauth_url',
+        'recovery_codes',
+        'recoveryCode',
+        'code_verifier',
       ];
+      // Too common as part of other names (postal_code, join_code) to match loosely
+      const exactSensitiveKeys = ['code'];
 
       for (const key in sanitized) {
         const lowerKey = key.toLowerCase();
-        if (sensitiveKeys.some(sk => lowerKey.includes(sk.toLowerCase()))) {
+        if (
+          sensitiveKeys.some(sk => lowerKey.includes(sk.toLowerCase())) ||
+          exactSensitiveKeys.includes(lowerKey)
+        ) {
           sanitized[key] = '[REDACTED]';
         } else if (typeof sanitized[key] === 'object') {
           sanitized[key] = this.sanitize(sanitized[key]);
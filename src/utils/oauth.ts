@@ -0,0 +1,76 @@
+import { sha256 } from '@noble/hashes/sha2';
+import nacl from 'tweetnacl';
+import { decodeUTF8, encodeBase64 } from 'tweetnacl-util';
+
+/**
+ * OAuth helpers: PKCE (RFC 7636) and callback URL parsing
+ *
+ * @example
+ * const { verifier, challenge } = createPkcePair();
+ * // authorize with code_challenge=challenge, exchange the code with verifier
+ *
+ * getUrlParams('artistspace://oauth/callback?code=abc&state=xyz');
+ * // { code: 'abc', state: 'xyz' }
+ */
+
+// ============================================================================
+// PKCE
+// ============================================================================
+
+export function encodeBase64Url(bytes: Uint8Array): string {
+  return encodeBase64(bytes).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * S256 code challenge for a verifier
+ */
+export function createCodeChallenge(verifier: string): string {
+  return encodeBase64Url(sha256(decodeUTF8(verifier)));
+}
+
+/**
+ * New verifier (43 characters, 256 bits) and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = encodeBase64Url(nacl.randomBytes(32));
+  return { verifier, challenge: createCodeChallenge(verifier) };
+}
+
+/**
+ * Opaque value tying the callback to the request that started it
+ */
+export function createOAuthState(): string {
+  return encodeBase64Url(nacl.randomBytes(16));
+}
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+/**
+ * Query and fragment parameters of a redirect URL. Parsed by hand - React
+ * Native's URL implementation doesn't support searchParams.
+ */
+export function getUrlParams(url: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const start = url.search(/[?#]/);
+  if (start === -1) return params;
+
+  url
+    .slice(start + 1)
+    .split(/[&#]/)
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    });
+  return params;
+}
+
+export function buildUrl(base: string, params: Record<string, string | undefined>): string {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+  return query ? `${base}${base.includes('?') ? '&' : '?'}${query}` : base;
+}
@@ -0,0 +1,176 @@
+/**
+ * TOTP helpers (RFC 6238, HMAC-SHA1 - what authenticator apps default to)
+ *
+ * The real backend generates and checks codes; the mock backend and tests
+ * use these to do the same in-process.
+ *
+ * @example
+ * import { generateTotp, verifyTotp } from '../utils/totp';
+ *
+ * const code = generateTotp(secret);      // '492039'
+ * verifyTotp(secret, code);               // true
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+// ============================================================================
+// BASE32
+// ============================================================================
+
+export function encodeBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  bytes.forEach((byte) => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding (as users type them)
+ */
+export function decodeBase32(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// HMAC-SHA1
+// ============================================================================
+
+function sha1(message: Uint8Array): Uint8Array {
+  const length = message.length;
+  const padded = new Uint8Array((((length + 8) >> 6) + 1) * 64);
+  padded.set(message);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 4, length * 8);
+  view.setUint32(padded.length - 8, Math.floor((length * 8) / 2 ** 32));
+
+  let h0 = 0x67452301;
+  let h1 = 0xefcdab89;
+  let h2 = 0x98badcfe;
+  let h3 = 0x10325476;
+  let h4 = 0xc3d2e1f0;
+  const w = new Uint32Array(80);
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+
+    let [a, b, c, d, e] = [h0, h1, h2, h3, h4];
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) [f, k] = [(b & c) | (~b & d), 0x5a827999];
+      else if (i < 40) [f, k] = [b ^ c ^ d, 0x6ed9eba1];
+      else if (i < 60) [f, k] = [(b & c) | (b & d) | (c & d), 0x8f1bbcdc];
+      else [f, k] = [b ^ c ^ d, 0xca62c1d6];
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) >>> 0;
+      e = d;
+      d = c;
+      c = ((b << 30) | (b >>> 2)) >>> 0;
+      b = a;
+      a = temp;
+    }
+
+    h0 = (h0 + a) >>> 0;
+    h1 = (h1 + b) >>> 0;
+    h2 = (h2 + c) >>> 0;
+    h3 = (h3 + d) >>> 0;
+    h4 = (h4 + e) >>> 0;
+  }
+
+  const digest = new Uint8Array(20);
+  const out = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => out.setUint32(i * 4, h));
+  return digest;
+}
+
+function hmacSha1(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha1(key) : key);
+
+  const inner = new Uint8Array(64 + message.length);
+  const outer = new Uint8Array(64 + 20);
+  for (let i = 0; i < 64; i++) {
+    inner[i] = block[i] ^ 0x36;
+    outer[i] = block[i] ^ 0x5c;
+  }
+  inner.set(message, 64);
+  outer.set(sha1(inner), 64);
+  return sha1(outer);
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+/**
+ * Code for the 30 s window containing `time` (ms since the epoch)
+ */
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  const counter = Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const digest = hmacSha1(decodeBase32(secret), message);
+  const offset = digest[19] & 0xf;
+  const binary = new DataView(digest.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * True if `code` matches the current window or one either side (clock drift)
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now(), window: number = 1): boolean {
+  const normalized = code.replace(/\s/g, '');
+  for (let step = -window; step <= window; step++) {
+    if (generateTotp(secret, time + step * TOTP_STEP_SECONDS * 1000) === normalized) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Provisioning URI authenticator apps import (usually shown as a QR code)
+ */
+export function buildOtpauthUrl(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = `secret=${secret}&issuer=${encodeURIComponent(issuer)}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+  return `otpauth://totp/${label}?${params}`;
+}